@@ -12,6 +12,8 @@ import Properties from "@/pages/Properties";
 import Leads from "@/pages/Leads";
 import Appointments from "@/pages/Appointments";
 import Settings from "@/pages/Settings";
+import Team from "@/pages/Team";
+import AcceptInvitation from "@/pages/AcceptInvitation";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -30,6 +32,7 @@ function Router() {
         {!isAuthenticated ? (
           <>
             <Route path="/" component={Landing} />
+            <Route path="/invite/:token" component={AcceptInvitation} />
             <Route path="*" component={Landing} />
           </>
         ) : (
@@ -40,6 +43,8 @@ function Router() {
             <Route path="/leads" component={Leads} />
             <Route path="/appointments" component={Appointments} />
             <Route path="/settings" component={Settings} />
+            <Route path="/team" component={Team} />
+            <Route path="/invite/:token" component={AcceptInvitation} />
             <Route path="*" component={NotFound} />
           </>
         )}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { History } from "lucide-react";
+
+interface AppointmentChange {
+  id: string;
+  changedBy: string;
+  changeType: string;
+  previousScheduledAt: string | null;
+  newScheduledAt: string | null;
+  newStatus: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+const changeAuthors: Record<string, string> = {
+  client: "Cliente",
+  assistant: "Asistente",
+  calendar: "Calendario del agente",
+};
+
+// "2024-06-03T10:00" en la hora local del navegador, para input datetime-local
+function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function describeChange(change: AppointmentChange): string {
+  if (change.changeType === "RESCHEDULED" && change.newScheduledAt) {
+    return `Movida al ${new Date(change.newScheduledAt).toLocaleString()}`;
+  }
+  if (change.changeType === "CANCELLED") {
+    return "Cancelada";
+  }
+  return `Estado: ${change.newStatus}`;
+}
+
+// Reprogramar, cancelar y confirmar una cita desde el panel, con su historial de cambios
+export default function AppointmentActions({ appointment }: { appointment: any }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [form, setForm] = useState({ scheduledAt: "", reason: "", notifyClient: true });
+
+  const { data: history } = useQuery<AppointmentChange[]>({
+    queryKey: ["/api/appointments", appointment.id, "history"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/appointments/${appointment.id}/history`);
+      return response.json();
+    },
+    enabled: showHistory,
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    toast({ title });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "No se pudo actualizar la cita",
+      variant: "destructive",
+    });
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/reschedule`, {
+        scheduledAt: new Date(form.scheduledAt).toISOString(),
+        reason: form.reason || undefined,
+        notifyClient: form.notifyClient,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRescheduleOpen(false);
+      onSuccess("Cita reprogramada")();
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/cancel`, { notifyClient: true });
+      return response.json();
+    },
+    onSuccess: onSuccess("Cita cancelada"),
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: string) => {
+      const response = await apiRequest("PATCH", `/api/appointments/${appointment.id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: onSuccess("Cita actualizada"),
+    onError,
+  });
+
+  const openReschedule = () => {
+    setForm({ scheduledAt: toLocalInputValue(new Date(appointment.scheduledAt)), reason: "", notifyClient: true });
+    setRescheduleOpen(true);
+  };
+
+  const isActive = ["SCHEDULED", "CONFIRMED", "RESCHEDULE_REQUESTED"].includes(appointment.status);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)} data-testid={`button-history-${appointment.id}`}>
+          <History className="w-4 h-4 mr-1" />
+          Historial
+        </Button>
+        {isActive && (
+          <>
+            <Button variant="outline" size="sm" onClick={openReschedule} data-testid={`button-reschedule-${appointment.id}`}>
+              Reprogramar
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              data-testid={`button-cancel-${appointment.id}`}
+            >
+              Cancelar
+            </Button>
+          </>
+        )}
+        {appointment.status === "SCHEDULED" && (
+          <Button
+            size="sm"
+            onClick={() => statusMutation.mutate("CONFIRMED")}
+            disabled={statusMutation.isPending}
+            data-testid={`button-confirm-${appointment.id}`}
+          >
+            Confirmar
+          </Button>
+        )}
+        {appointment.status === "CONFIRMED" && (
+          <Button
+            size="sm"
+            onClick={() => statusMutation.mutate("COMPLETED")}
+            disabled={statusMutation.isPending}
+            data-testid={`button-complete-${appointment.id}`}
+          >
+            Marcar completada
+          </Button>
+        )}
+      </div>
+
+      {showHistory && (
+        <div className="bg-muted/50 rounded-lg p-3 text-sm space-y-1" data-testid={`appointment-history-${appointment.id}`}>
+          {!history || history.length === 0 ? (
+            <p className="text-muted-foreground">Sin cambios registrados</p>
+          ) : (
+            history.map((change) => (
+              <p key={change.id} className="text-foreground">
+                <span className="text-muted-foreground">{new Date(change.createdAt).toLocaleString()} · </span>
+                {describeChange(change)}
+                <span className="text-muted-foreground"> · {changeAuthors[change.changedBy] || "Equipo"}</span>
+                {change.reason && <span className="text-muted-foreground"> · {change.reason}</span>}
+              </p>
+            ))
+          )}
+        </div>
+      )}
+
+      <Dialog open={rescheduleOpen} onOpenChange={setRescheduleOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reprogramar visita con {appointment.clientName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor={`reschedule-at-${appointment.id}`}>Nueva fecha y hora</Label>
+              <Input
+                id={`reschedule-at-${appointment.id}`}
+                type="datetime-local"
+                value={form.scheduledAt}
+                onChange={(e) => setForm(prev => ({ ...prev, scheduledAt: e.target.value }))}
+                data-testid="input-reschedule-at"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`reschedule-reason-${appointment.id}`}>Motivo</Label>
+              <Textarea
+                id={`reschedule-reason-${appointment.id}`}
+                value={form.reason}
+                onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="Opcional"
+                data-testid="input-reschedule-reason"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`reschedule-notify-${appointment.id}`}>Avisar al cliente por WhatsApp</Label>
+              <Switch
+                id={`reschedule-notify-${appointment.id}`}
+                checked={form.notifyClient}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, notifyClient: checked }))}
+                data-testid="switch-reschedule-notify"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => rescheduleMutation.mutate()}
+              disabled={!form.scheduledAt || rescheduleMutation.isPending}
+              data-testid="button-submit-reschedule"
+            >
+              {rescheduleMutation.isPending ? "Guardando..." : "Reprogramar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarDays, Copy, RefreshCw, RotateCcw } from "lucide-react";
+
+interface CalendarConnection {
+  agentId: string;
+  caldavUrl: string;
+  caldavUsername: string;
+  passwordConfigured: boolean;
+  feedUrl: string;
+  lastSyncAt: string | null;
+  lastSyncError: string | null;
+}
+
+const connectionQueryKey = ["/api/calendar/connection"];
+
+// Calendario personal del usuario: sincronización CalDAV y URL del feed ICS
+export default function CalendarSync() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ caldavUrl: "", caldavUsername: "", caldavPassword: "" });
+
+  const { data: connection, isLoading } = useQuery<CalendarConnection>({
+    queryKey: connectionQueryKey,
+  });
+
+  useEffect(() => {
+    if (connection) {
+      setForm({ caldavUrl: connection.caldavUrl, caldavUsername: connection.caldavUsername, caldavPassword: "" });
+    }
+  }, [connection]);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "No se pudo completar la acción",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/calendar/connection", form);
+      return response.json();
+    },
+    onSuccess: (data: CalendarConnection) => {
+      queryClient.setQueryData(connectionQueryKey, data);
+      toast({ title: data.caldavUrl ? "Calendario conectado" : "Calendario desconectado" });
+    },
+    onError,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/connection/sync");
+      return response.json();
+    },
+    onSuccess: (result: { pushed: number; moved: number; cancelled: number; busyBlocks: number }) => {
+      queryClient.invalidateQueries({ queryKey: connectionQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Calendario sincronizado",
+        description: `${result.pushed} citas publicadas, ${result.moved} movidas, ${result.cancelled} canceladas y ${result.busyBlocks} eventos ocupados`,
+      });
+    },
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed/rotate");
+      return response.json();
+    },
+    onSuccess: (data: CalendarConnection) => {
+      queryClient.setQueryData(connectionQueryKey, data);
+      toast({ title: "Enlace regenerado", description: "El enlace anterior dejó de funcionar" });
+    },
+    onError,
+  });
+
+  const copyFeedUrl = async () => {
+    if (!connection) return;
+    await navigator.clipboard.writeText(connection.feedUrl);
+    toast({ title: "Enlace copiado" });
+  };
+
+  if (isLoading || !connection) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarDays className="w-5 h-5 mr-2" />
+          Mi calendario
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Suscripción (ICS)</Label>
+          <p className="text-sm text-muted-foreground">
+            Agrega este enlace en Google Calendar, Apple Calendar u Outlook para ver tus citas en el teléfono.
+          </p>
+          <div className="flex gap-2">
+            <Input value={connection.feedUrl} readOnly data-testid="input-calendar-feed" />
+            <Button type="button" variant="outline" size="icon" onClick={copyFeedUrl} data-testid="button-copy-feed">
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              title="Regenerar enlace"
+              data-testid="button-rotate-feed"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Sincronización CalDAV</Label>
+            <p className="text-sm text-muted-foreground">
+              Las citas se publican en tu calendario y los eventos que tengas ahí bloquean esos horarios para el asistente.
+              Si mueves o borras una cita desde tu teléfono, se actualiza aquí.
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="caldavUrl">URL del calendario</Label>
+            <Input
+              id="caldavUrl"
+              value={form.caldavUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, caldavUrl: e.target.value }))}
+              placeholder="https://calendario.ejemplo.com/usuario/citas/"
+              data-testid="input-caldav-url"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="caldavUsername">Usuario</Label>
+              <Input
+                id="caldavUsername"
+                value={form.caldavUsername}
+                onChange={(e) => setForm(prev => ({ ...prev, caldavUsername: e.target.value }))}
+                autoComplete="off"
+                data-testid="input-caldav-username"
+              />
+            </div>
+            <div>
+              <Label htmlFor="caldavPassword">Contraseña de aplicación</Label>
+              <Input
+                id="caldavPassword"
+                type="password"
+                value={form.caldavPassword}
+                onChange={(e) => setForm(prev => ({ ...prev, caldavPassword: e.target.value }))}
+                placeholder={connection.passwordConfigured ? "••••••••" : ""}
+                autoComplete="new-password"
+                data-testid="input-caldav-password"
+              />
+            </div>
+          </div>
+
+          {connection.caldavUrl && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="caldav-status">
+              {connection.lastSyncError ? (
+                <Badge variant="destructive">Error: {connection.lastSyncError}</Badge>
+              ) : connection.lastSyncAt ? (
+                <Badge variant="secondary">Sincronizado {new Date(connection.lastSyncAt).toLocaleString()}</Badge>
+              ) : (
+                <Badge variant="outline">Pendiente de sincronizar</Badge>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-caldav"
+            >
+              {saveMutation.isPending ? "Verificando..." : "Guardar"}
+            </Button>
+            {connection.caldavUrl && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => syncMutation.mutate()}
+                disabled={syncMutation.isPending}
+                data-testid="button-sync-caldav"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+                Sincronizar ahora
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,10 +7,12 @@ import {
   Calendar, 
   Settings,
   Menu,
-  User
+  User,
+  UsersRound
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { Badge } from "@/components/ui/badge";
 
 interface SidebarProps {
@@ -21,6 +23,7 @@ interface SidebarProps {
 export default function Sidebar({ collapsed, onToggle }: SidebarProps) {
   const [location] = useLocation();
   const { user } = useAuth();
+  const { organization, role, can } = useOrganization();
 
   const navigation = [
     { name: "Panel", href: "/", icon: BarChart3, current: location === "/" },
@@ -28,6 +31,7 @@ export default function Sidebar({ collapsed, onToggle }: SidebarProps) {
     { name: "Propiedades", href: "/properties", icon: Building, current: location === "/properties" },
     { name: "Prospectos", href: "/leads", icon: Users, current: location === "/leads" },
     { name: "Citas", href: "/appointments", icon: Calendar, current: location === "/appointments" },
+    { name: "Equipo", href: "/team", icon: UsersRound, current: location === "/team" },
   ];
 
   return (
@@ -108,15 +112,17 @@ export default function Sidebar({ collapsed, onToggle }: SidebarProps) {
 
       {/* Bottom Section */}
       <div className="p-4 border-t border-sidebar-border space-y-2">
-        <Link href="/settings">
-          <a
-            className={`flex items-center space-x-3 p-3 rounded-lg hover:bg-sidebar-accent transition-colors ${collapsed ? 'justify-center' : ''}`}
-            data-testid="link-settings"
-          >
-            <Settings className="w-5 h-5 text-sidebar-foreground" />
-            {!collapsed && <span className="text-sidebar-foreground">Configuración</span>}
-          </a>
-        </Link>
+        {can('settings:read') && (
+          <Link href="/settings">
+            <a
+              className={`flex items-center space-x-3 p-3 rounded-lg hover:bg-sidebar-accent transition-colors ${collapsed ? 'justify-center' : ''}`}
+              data-testid="link-settings"
+            >
+              <Settings className="w-5 h-5 text-sidebar-foreground" />
+              {!collapsed && <span className="text-sidebar-foreground">Configuración</span>}
+            </a>
+          </Link>
+        )}
 
         {/* User Profile */}
         <div className={`flex items-center space-x-3 p-3 ${collapsed ? 'justify-center' : ''}`}>
@@ -136,7 +142,9 @@ export default function Sidebar({ collapsed, onToggle }: SidebarProps) {
               <div className="text-sm font-medium text-sidebar-foreground truncate">
                 {(user as any)?.firstName || (user as any)?.email || 'User'}
               </div>
-              <div className="text-xs text-muted-foreground">Plan Pro</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {organization ? `${organization.name} · ${role}` : 'Plan Pro'}
+              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GitMerge } from "lucide-react";
+import { duplicatesQueryKey, scoreBadgeClass, type DuplicateGroup } from "./pipeline";
+
+const reasonLabels: Record<DuplicateGroup["reasons"][number], string> = {
+  phone: "Mismo teléfono",
+  email: "Mismo correo",
+  name: "Mismo nombre",
+};
+
+interface Selection {
+  primaryId: string;
+  duplicateIds: string[];
+}
+
+// Por defecto se conserva el prospecto ya enlazado al CRM o, si no, el más antiguo
+function defaultSelection(group: DuplicateGroup): Selection {
+  const oldestFirst = [...group.leads].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const primary = oldestFirst.find(lead => lead.alterEstateLeadId) || oldestFirst[0];
+  return { primaryId: primary.id, duplicateIds: group.leads.filter(lead => lead.id !== primary.id).map(lead => lead.id) };
+}
+
+interface DuplicateLeadsDialogProps {
+  open: boolean;
+  groups: DuplicateGroup[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Revisar los posibles duplicados y combinarlos en un solo prospecto
+export default function DuplicateLeadsDialog({ open, groups, onOpenChange }: DuplicateLeadsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selections, setSelections] = useState<Selection[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setSelections(groups.map(defaultSelection));
+    }
+  }, [open, groups]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (selection: Selection) => {
+      const response = await apiRequest("POST", "/api/leads/merge", selection);
+      return response.json();
+    },
+    onSuccess: (merged: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: duplicatesQueryKey });
+      toast({ title: "Prospectos combinados", description: merged.fullName });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "No se pudieron combinar los prospectos", variant: "destructive" });
+    },
+  });
+
+  const selectPrimary = (index: number, primaryId: string) => {
+    const group = groups[index];
+    setSelections(prev => prev.map((selection, i) =>
+      i === index ? { primaryId, duplicateIds: group.leads.filter(lead => lead.id !== primaryId).map(lead => lead.id) } : selection
+    ));
+  };
+
+  const toggleDuplicate = (index: number, leadId: string, checked: boolean) => {
+    setSelections(prev => prev.map((selection, i) =>
+      i === index
+        ? { ...selection, duplicateIds: checked ? [...selection.duplicateIds, leadId] : selection.duplicateIds.filter(id => id !== leadId) }
+        : selection
+    ));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prospectos duplicados</DialogTitle>
+        </DialogHeader>
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No hay prospectos duplicados</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Elige el prospecto que se conserva. Los marcados se combinan en él: su historial pasa al principal y se eliminan.
+            </p>
+            {groups.map((group, index) => {
+              const selection = selections[index];
+              if (!selection) return null;
+              return (
+                <div key={group.leads.map(lead => lead.id).join("-")} className="rounded-lg border p-4 space-y-3" data-testid={`duplicate-group-${index}`}>
+                  <div className="flex flex-wrap gap-1">
+                    {group.reasons.map(reason => (
+                      <Badge key={reason} variant="secondary">{reasonLabels[reason]}</Badge>
+                    ))}
+                  </div>
+                  <RadioGroup value={selection.primaryId} onValueChange={(value) => selectPrimary(index, value)} className="gap-2">
+                    {group.leads.map(lead => (
+                      <div key={lead.id} className="flex items-center gap-3 text-sm">
+                        <RadioGroupItem value={lead.id} id={`primary-${lead.id}`} data-testid={`radio-primary-${lead.id}`} />
+                        <Checkbox
+                          checked={lead.id === selection.primaryId || selection.duplicateIds.includes(lead.id)}
+                          disabled={lead.id === selection.primaryId}
+                          onCheckedChange={(checked) => toggleDuplicate(index, lead.id, checked === true)}
+                          data-testid={`checkbox-duplicate-${lead.id}`}
+                        />
+                        <label htmlFor={`primary-${lead.id}`} className="flex-1 min-w-0">
+                          <span className="font-medium">{lead.fullName}</span>
+                          <span className="text-muted-foreground"> · {lead.phone}{lead.email ? ` · ${lead.email}` : ""}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            Creado {new Date(lead.createdAt).toLocaleDateString()}
+                            {lead.alterEstateLeadId ? " · En el CRM" : ""}
+                          </span>
+                        </label>
+                        {lead.score !== null && lead.score !== undefined && (
+                          <Badge className={scoreBadgeClass(lead.score)}>{lead.score}</Badge>
+                        )}
+                        {lead.id === selection.primaryId && <Badge variant="outline">Principal</Badge>}
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => mergeMutation.mutate(selection)}
+                      disabled={mergeMutation.isPending || selection.duplicateIds.length === 0}
+                      data-testid={`button-merge-${index}`}
+                    >
+                      <GitMerge className="w-4 h-4 mr-2" />
+                      Combinar {selection.duplicateIds.length + 1}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RefreshCw } from "lucide-react";
+
+interface SyncChange {
+  field: "status" | "agentEmail" | "note";
+  direction: "push" | "pull";
+  from: string | null;
+  to: string | null;
+}
+
+interface SyncLog {
+  id: string;
+  status: "SYNCED" | "CONFLICT" | "ERROR";
+  changes: SyncChange[];
+  conflicts: { field: "status" | "agentEmail"; local: string | null; remote: string | null; winner: "local" | "crm" }[];
+  error: string | null;
+  createdAt: string;
+}
+
+const fieldLabels = { status: "Etapa", agentEmail: "Agente", note: "Nota" };
+
+const statusBadges: Record<SyncLog["status"], { label: string; className: string }> = {
+  SYNCED: { label: "Sincronizado", className: "bg-green-500/10 text-green-600" },
+  CONFLICT: { label: "Conflicto", className: "bg-yellow-500/10 text-yellow-600" },
+  ERROR: { label: "Error", className: "bg-red-500/10 text-red-600" },
+};
+
+function describeChange(change: SyncChange): string {
+  const direction = change.direction === "push" ? "→ AlterEstate" : "← AlterEstate";
+  if (change.field === "note") return `${fieldLabels.note} ${direction}: ${change.to || ""}`;
+  return `${fieldLabels[change.field]} ${direction}: ${change.from || "—"} → ${change.to || "—"}`;
+}
+
+// Agente responsable y sincronización con AlterEstate (etapa, agente y notas en ambos sentidos)
+export default function LeadCrmSync({ lead }: { lead: any }) {
+  const { toast } = useToast();
+  const { can } = useOrganization();
+  const queryClient = useQueryClient();
+  const syncLogQueryKey = ["/api/leads", lead.id, "sync-log"];
+  const canEdit = can("leads:write");
+
+  const { data: members = [] } = useQuery<any[]>({
+    queryKey: ["/api/organizations/members"],
+  });
+
+  const { data: syncLog } = useQuery<{ crmSyncedAt: string | null; logs: SyncLog[] }>({
+    queryKey: syncLogQueryKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/leads/${lead.id}/sync-log`);
+      return response.json();
+    },
+    enabled: !!lead.alterEstateLeadId,
+  });
+
+  const refreshLead = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    queryClient.invalidateQueries({ queryKey: syncLogQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "timeline"] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async (agentEmail: string | null) => {
+      const response = await apiRequest("PATCH", `/api/leads/${lead.id}/agent`, { agentEmail });
+      return response.json();
+    },
+    onSuccess: refreshLead,
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "No se pudo asignar el agente", variant: "destructive" });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${lead.id}/crm-sync`);
+      return response.json();
+    },
+    onSuccess: ({ log }: { log: SyncLog | null }) => {
+      refreshLead();
+      toast({ title: log ? statusBadges[log.status].label : "Sin cambios", description: log?.error || undefined });
+    },
+    onError: (error: any) => {
+      refreshLead();
+      toast({ title: "Error", description: error.message || "No se pudo sincronizar con AlterEstate", variant: "destructive" });
+    },
+  });
+
+  // El agente puede venir de AlterEstate sin ser miembro de la organización
+  const agentEmail: string | null = lead.assignedAgentEmail || null;
+  const memberEmails = members.filter(member => member.email && member.role !== "viewer").map(member => member.email.toLowerCase());
+
+  return (
+    <div className="space-y-3" data-testid="lead-crm-sync">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground w-16">Agente</span>
+        <Select
+          value={agentEmail || "none"}
+          onValueChange={(value) => assignMutation.mutate(value === "none" ? null : value)}
+          disabled={!canEdit || assignMutation.isPending}
+        >
+          <SelectTrigger className="flex-1" data-testid="select-lead-agent">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Sin asignar</SelectItem>
+            {agentEmail && !memberEmails.includes(agentEmail) && (
+              <SelectItem value={agentEmail}>{agentEmail}</SelectItem>
+            )}
+            {memberEmails.map(email => (
+              <SelectItem key={email} value={email}>{email}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {lead.alterEstateLeadId ? (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              AlterEstate #{lead.alterEstateLeadId}
+              {" · "}
+              {syncLog?.crmSyncedAt ? `sincronizado ${new Date(syncLog.crmSyncedAt).toLocaleString()}` : "aún sin sincronizar"}
+            </p>
+            {canEdit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => syncMutation.mutate()}
+                disabled={syncMutation.isPending}
+                data-testid="button-crm-sync"
+              >
+                <RefreshCw className={`w-3 h-3 mr-1 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+                Sincronizar
+              </Button>
+            )}
+          </div>
+          {syncLog?.logs.slice(0, 5).map(log => (
+            <div key={log.id} className="rounded-md border p-2 space-y-1" data-testid={`sync-log-${log.id}`}>
+              <div className="flex items-center gap-2">
+                <Badge className={statusBadges[log.status].className}>{statusBadges[log.status].label}</Badge>
+                <span className="text-xs text-muted-foreground">{new Date(log.createdAt).toLocaleString()}</span>
+              </div>
+              {log.error && <p className="text-xs text-red-600">{log.error}</p>}
+              {log.conflicts.map(conflict => (
+                <p key={conflict.field} className="text-xs text-muted-foreground">
+                  {fieldLabels[conflict.field]}: aquí «{conflict.local || "—"}», en AlterEstate «{conflict.remote || "—"}» · se quedó {conflict.winner === "local" ? "el de aquí" : "el de AlterEstate"}
+                </p>
+              ))}
+              {log.changes.map((change, index) => (
+                <p key={index} className="text-xs text-muted-foreground break-words">{describeChange(change)}</p>
+              ))}
+            </div>
+          ))}
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">No está enlazado a AlterEstate</p>
+      )}
+    </div>
+  );
+}
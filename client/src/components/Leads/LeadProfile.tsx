@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface FieldChange {
+  id: string;
+  field: string;
+  newValue: unknown;
+  source: "ai" | "assistant";
+  messageContent: string | null;
+  createdAt: string;
+}
+
+// Orden y etiquetas de lo que se muestra; interests.<clave> son los criterios sin columna propia
+const fieldLabels: [string, string][] = [
+  ["listingType", "Operación"],
+  ["interests.propertyType", "Tipo de propiedad"],
+  ["budget", "Presupuesto"],
+  ["interests.paymentMethod", "Forma de pago"],
+  ["preferredLocation", "Zonas"],
+  ["interests.rooms", "Habitaciones"],
+  ["interests.bathrooms", "Baños"],
+  ["interests.parking", "Parqueos"],
+  ["interests.areaMin", "Área mínima (m²)"],
+  ["interests.areaMax", "Área máxima (m²)"],
+  ["interests.amenities", "Amenidades"],
+  ["interests.purpose", "Propósito"],
+  ["interests.urgency", "Urgencia"],
+  ["interests.timeline", "Plazo de decisión"],
+  ["interests.availability", "Disponibilidad para visitas"],
+  ["interests.familySituation", "Situación familiar"],
+  ["interests.notes", "Notas"],
+];
+
+const listingTypeLabels: Record<string, string> = { sale: "Compra", rent: "Alquiler" };
+
+function fieldValue(lead: any, field: string): unknown {
+  return field.startsWith("interests.") ? lead.interests?.[field.slice("interests.".length)] : lead[field];
+}
+
+function formatValue(lead: any, field: string, value: unknown): string {
+  if (field === "budget") {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: lead.budgetCurrency || "USD" }).format(Number(value));
+  }
+  if (field === "listingType") {
+    return listingTypeLabels[String(value)] || String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ").replace(/_/g, " ");
+  }
+  return String(value).replace(/_/g, " ");
+}
+
+function excerpt(text: string): string {
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+}
+
+// Lo que busca el cliente según la calificación, con el mensaje del que se infirió cada dato
+export default function LeadProfile({ lead }: { lead: any }) {
+  const { data: history = [] } = useQuery<FieldChange[]>({
+    queryKey: ["/api/leads", lead.id, "field-history"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/leads/${lead.id}/field-history`);
+      return response.json();
+    },
+  });
+
+  const rows = fieldLabels
+    .map(([field, label]) => ({ field, label, value: fieldValue(lead, field) }))
+    .filter(({ value }) => value !== undefined && value !== null && value !== "");
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">Aún no sabemos qué busca el cliente</p>;
+  }
+
+  return (
+    <dl className="space-y-2" data-testid="lead-profile">
+      {rows.map(({ field, label, value }) => {
+        // El historial viene del más reciente al más antiguo
+        const origin = history.find(change => change.field === field);
+        return (
+          <div key={field} className="text-sm">
+            <div className="flex justify-between gap-4">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-medium text-foreground text-right">{formatValue(lead, field, value)}</dd>
+            </div>
+            {origin?.messageContent && (
+              <p className="text-xs text-muted-foreground italic" title={new Date(origin.createdAt).toLocaleString()}>
+                {origin.source === "ai" ? "Inferido por la IA de" : "Registrado por el asistente tras"} «{excerpt(origin.messageContent)}»
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
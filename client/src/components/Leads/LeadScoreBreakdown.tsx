@@ -0,0 +1,33 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { scoreBadgeClass, type LeadScoreFactor } from "./pipeline";
+
+// Puntuación del prospecto y cuánto aporta cada factor
+export default function LeadScoreBreakdown({ lead }: { lead: any }) {
+  const factors: LeadScoreFactor[] = lead.scoreFactors || [];
+
+  if (lead.score === null || lead.score === undefined) {
+    return <p className="text-sm text-muted-foreground">Aún sin puntuar</p>;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="lead-score-breakdown">
+      <div className="flex items-center gap-2">
+        <Badge className={scoreBadgeClass(lead.score)} data-testid="lead-score">{lead.score}/100</Badge>
+        {lead.scoredAt && (
+          <span className="text-xs text-muted-foreground">Actualizada {new Date(lead.scoredAt).toLocaleString()}</span>
+        )}
+      </div>
+      {factors.map((factor) => (
+        <div key={factor.key} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-foreground">{factor.label}</span>
+            <span className="text-muted-foreground">{factor.points}/{factor.maxPoints}</span>
+          </div>
+          <Progress value={(factor.points / factor.maxPoints) * 100} className="h-1.5" />
+          <p className="text-xs text-muted-foreground">{factor.detail}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
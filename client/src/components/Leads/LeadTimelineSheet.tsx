@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowRight, Calendar, GitMerge, MessageSquare, StickyNote, UserPlus } from "lucide-react";
+import LeadCrmSync from "./LeadCrmSync";
+import LeadProfile from "./LeadProfile";
+import LeadScoreBreakdown from "./LeadScoreBreakdown";
+import { colorClasses, type LeadStage } from "./pipeline";
+
+interface TimelineEntry {
+  id: string;
+  type: "created" | "stage_change" | "note" | "merge" | "message" | "appointment";
+  at: string;
+  title: string;
+  detail?: string;
+  scheduledAt?: string;
+}
+
+const entryIcons = {
+  created: UserPlus,
+  stage_change: ArrowRight,
+  note: StickyNote,
+  merge: GitMerge,
+  message: MessageSquare,
+  appointment: Calendar,
+};
+
+interface LeadTimelineSheetProps {
+  lead: any | null;
+  stages: LeadStage[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Detalle del prospecto: etapa actual, notas y línea de tiempo de su actividad
+export default function LeadTimelineSheet({ lead, stages, onOpenChange }: LeadTimelineSheetProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const timelineQueryKey = ["/api/leads", lead?.id, "timeline"];
+
+  const { data: timeline, isLoading } = useQuery<TimelineEntry[]>({
+    queryKey: timelineQueryKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/leads/${lead.id}/timeline`);
+      return response.json();
+    },
+    enabled: !!lead,
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${lead.id}/notes`, { content: note });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: timelineQueryKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "No se pudo guardar la nota", variant: "destructive" });
+    },
+  });
+
+  const stage = stages.find(candidate => candidate.key === lead?.status);
+
+  return (
+    <Sheet open={!!lead} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {lead && (
+          <>
+            <SheetHeader>
+              <SheetTitle data-testid="lead-detail-name">{lead.fullName}</SheetTitle>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>{lead.phone}</span>
+                {stage && <Badge className={colorClasses(stage.color).badge}>{stage.name}</Badge>}
+              </div>
+              {lead.lostReason && (
+                <p className="text-sm text-muted-foreground">Motivo de pérdida: {lead.lostReason}</p>
+              )}
+            </SheetHeader>
+
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-foreground mb-2">Puntuación</h4>
+              <LeadScoreBreakdown lead={lead} />
+            </div>
+
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-foreground mb-2">Lo que busca</h4>
+              <LeadProfile lead={lead} />
+            </div>
+
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-foreground mb-2">Agente y CRM</h4>
+              <LeadCrmSync lead={lead} />
+            </div>
+
+            <div className="mt-6 space-y-2">
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Agregar una nota sobre el prospecto"
+                data-testid="input-lead-note"
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => noteMutation.mutate()}
+                  disabled={!note.trim() || noteMutation.isPending}
+                  data-testid="button-add-note"
+                >
+                  Guardar nota
+                </Button>
+              </div>
+            </div>
+
+            <div className="mt-6 space-y-4" data-testid="lead-timeline">
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Cargando actividad...</p>
+              ) : (
+                timeline?.map((entry) => {
+                  const Icon = entryIcons[entry.type] || StickyNote;
+                  return (
+                    <div key={`${entry.type}-${entry.id}`} className="flex gap-3">
+                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                        <Icon className="w-4 h-4 text-muted-foreground" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {entry.title}
+                          {entry.scheduledAt && ` · ${new Date(entry.scheduledAt).toLocaleString()}`}
+                        </p>
+                        {entry.detail && <p className="text-sm text-muted-foreground break-words">{entry.detail}</p>}
+                        <p className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { stageColors, stagesQueryKey, type LeadStage } from "./pipeline";
+
+type EditableStage = Pick<LeadStage, "name" | "type" | "color"> & { key?: string };
+
+const stageTypeLabels: Record<LeadStage["type"], string> = {
+  OPEN: "Abierta",
+  WON: "Ganada",
+  LOST: "Perdida",
+};
+
+interface PipelineStagesDialogProps {
+  open: boolean;
+  stages: LeadStage[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Renombrar, ordenar, agregar y quitar etapas del pipeline de la cuenta
+export default function PipelineStagesDialog({ open, stages, onOpenChange }: PipelineStagesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<EditableStage[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(stages.map(({ key, name, type, color }) => ({ key, name, type, color })));
+    }
+  }, [open, stages]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/leads/stages", { stages: draft });
+      return response.json();
+    },
+    onSuccess: (saved: LeadStage[]) => {
+      queryClient.setQueryData(stagesQueryKey, saved);
+      onOpenChange(false);
+      toast({ title: "Etapas guardadas" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "No se pudieron guardar las etapas", variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, changes: Partial<EditableStage>) => {
+    setDraft(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const move = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [stage] = next.splice(index, 1);
+      next.splice(index + offset, 0, stage);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Etapas del pipeline</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          {draft.map((stage, index) => (
+            <div key={stage.key || `new-${index}`} className="flex items-center gap-2" data-testid={`stage-row-${index}`}>
+              <Input
+                value={stage.name}
+                onChange={(e) => update(index, { name: e.target.value })}
+                className="flex-1"
+                data-testid={`input-stage-name-${index}`}
+              />
+              <Select value={stage.type} onValueChange={(type) => update(index, { type: type as LeadStage["type"] })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(stageTypeLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={stage.color} onValueChange={(color) => update(index, { color })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {stageColors.map((color) => (
+                    <SelectItem key={color} value={color}>{color}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" onClick={() => move(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => move(index, 1)} disabled={index === draft.length - 1}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                data-testid={`button-remove-stage-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft(prev => [...prev, { name: "", type: "OPEN", color: "gray" }])}
+            data-testid="button-add-stage"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Agregar etapa
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-stages">
+            {saveMutation.isPending ? "Guardando..." : "Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
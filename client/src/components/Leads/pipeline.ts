@@ -0,0 +1,51 @@
+export interface LeadStage {
+  id: string;
+  key: string;
+  name: string;
+  type: "OPEN" | "WON" | "LOST";
+  color: string;
+  position: number;
+}
+
+export const stagesQueryKey = ["/api/leads/stages"];
+
+// Clases completas para que Tailwind las incluya en el build
+export const stageColorClasses: Record<string, { badge: string; column: string }> = {
+  blue: { badge: "bg-blue-500/10 text-blue-600", column: "border-t-blue-500" },
+  yellow: { badge: "bg-yellow-500/10 text-yellow-600", column: "border-t-yellow-500" },
+  purple: { badge: "bg-purple-500/10 text-purple-600", column: "border-t-purple-500" },
+  indigo: { badge: "bg-indigo-500/10 text-indigo-600", column: "border-t-indigo-500" },
+  orange: { badge: "bg-orange-500/10 text-orange-600", column: "border-t-orange-500" },
+  green: { badge: "bg-green-500/10 text-green-600", column: "border-t-green-500" },
+  red: { badge: "bg-red-500/10 text-red-600", column: "border-t-red-500" },
+  gray: { badge: "bg-gray-500/10 text-gray-600", column: "border-t-gray-500" },
+};
+
+export const stageColors = Object.keys(stageColorClasses);
+
+export function colorClasses(color: string) {
+  return stageColorClasses[color] || stageColorClasses.gray;
+}
+
+export interface LeadScoreFactor {
+  key: string;
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+// Verde a partir de 70 (llamar primero), amarillo de 40 a 69, gris por debajo
+export function scoreBadgeClass(score: number | null | undefined): string {
+  if (score === null || score === undefined) return "bg-muted text-muted-foreground";
+  if (score >= 70) return "bg-green-500/10 text-green-600";
+  if (score >= 40) return "bg-yellow-500/10 text-yellow-600";
+  return "bg-gray-500/10 text-gray-600";
+}
+
+export const duplicatesQueryKey = ["/api/leads/duplicates"];
+
+export interface DuplicateGroup {
+  reasons: ("phone" | "email" | "name")[];
+  leads: any[];
+}
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+  accountId: string;
+  role: string;
+}
+
+interface CurrentOrganization {
+  organization: Omit<OrganizationSummary, "role">;
+  role: string;
+  permissions: string[];
+  organizations: OrganizationSummary[];
+}
+
+export function useOrganization() {
+  const { isAuthenticated } = useAuth();
+  const { data, isLoading } = useQuery<CurrentOrganization>({
+    queryKey: ["/api/organizations/current"],
+    enabled: isAuthenticated,
+  });
+
+  return {
+    organization: data?.organization,
+    role: data?.role,
+    organizations: data?.organizations || [],
+    isLoading,
+    can: (permission: string) => Boolean(data?.permissions.includes(permission)),
+  };
+}
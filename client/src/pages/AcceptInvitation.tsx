@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { UsersRound } from "lucide-react";
+
+export default function AcceptInvitation() {
+  const [, params] = useRoute("/invite/:token");
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const [error, setError] = useState("");
+  const token = params?.token || "";
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/organizations/invitations/${token}/accept`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      setLocation("/");
+    },
+    onError: (error: any) => {
+      const message = String(error.message || "").replace(/^\d+:\s*/, "");
+      try {
+        setError(JSON.parse(message).message);
+      } catch {
+        setError(message || "No se pudo aceptar la invitación");
+      }
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-background">
+      <Card className="max-w-md w-full">
+        <CardContent className="p-8 text-center space-y-4">
+          <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+            <UsersRound className="w-8 h-8 text-primary" />
+          </div>
+          <h2 className="text-xl font-semibold text-foreground">Invitación a un equipo</h2>
+          <p className="text-muted-foreground">
+            Te invitaron a atender conversaciones, leads y citas de una organización en RealEstate AI.
+          </p>
+
+          {error && <p className="text-sm text-red-600" data-testid="text-invite-error">{error}</p>}
+
+          {isAuthenticated ? (
+            <Button
+              className="w-full"
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isPending}
+              data-testid="button-accept-invite"
+            >
+              {acceptMutation.isPending ? "Aceptando..." : "Aceptar invitación"}
+            </Button>
+          ) : (
+            <Button
+              className="w-full"
+              onClick={() => window.location.href = `/api/auth/login?returnTo=${encodeURIComponent(`/invite/${token}`)}`}
+              data-testid="button-login-invite"
+            >
+              Iniciar sesión para aceptar
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
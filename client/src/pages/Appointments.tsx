@@ -5,7 +5,7 @@ import MainLayout from "@/components/Layout/MainLayout";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
+import AppointmentActions from "@/components/Calendar/AppointmentActions";
 import { Calendar, Clock, MapPin, Phone, User, CheckCircle, XCircle, Mail } from "lucide-react";
 
 export default function Appointments() {
@@ -64,6 +64,8 @@ export default function Appointments() {
         return 'bg-purple-500/10 text-purple-600';
       case 'NO_SHOW':
         return 'bg-orange-500/10 text-orange-600';
+      case 'RESCHEDULE_REQUESTED':
+        return 'bg-yellow-500/10 text-yellow-600';
       default:
         return 'bg-gray-500/10 text-gray-600';
     }
@@ -188,26 +190,7 @@ export default function Appointments() {
                     </div>
                   )}
                   
-                  <div className="flex items-center justify-end space-x-2">
-                    {appointment.status === 'SCHEDULED' && (
-                      <>
-                        <Button variant="outline" size="sm" data-testid={`button-reschedule-${appointment.id}`}>
-                          Reschedule
-                        </Button>
-                        <Button variant="outline" size="sm" data-testid={`button-cancel-${appointment.id}`}>
-                          Cancel
-                        </Button>
-                        <Button size="sm" data-testid={`button-confirm-${appointment.id}`}>
-                          Confirm
-                        </Button>
-                      </>
-                    )}
-                    {appointment.status === 'CONFIRMED' && (
-                      <Button size="sm" data-testid={`button-complete-${appointment.id}`}>
-                        Mark Complete
-                      </Button>
-                    )}
-                  </div>
+                  <AppointmentActions appointment={appointment} />
                 </CardContent>
               </Card>
             ))}
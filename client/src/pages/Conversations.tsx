@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { useToast } from "@/hooks/use-toast";
 import MainLayout from "@/components/Layout/MainLayout";
 import { Card, CardContent } from "@/components/ui/card";
@@ -7,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { 
@@ -24,12 +26,17 @@ import {
 
 export default function Conversations() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { can } = useOrganization();
   const queryClient = useQueryClient();
   
-  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  // Los avisos de escalación enlazan a /conversations?id=...
+  const [selectedConversation, setSelectedConversation] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("id")
+  );
   const [messageText, setMessageText] = useState("");
   const [searchText, setSearchText] = useState("");
+  const [assignedFilter, setAssignedFilter] = useState<"all" | "me">("all");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -47,8 +54,11 @@ export default function Conversations() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
+  // El queryFn por defecto une la clave con "/", así que el filtro va en la propia URL
+  const conversationsQueryKey = assignedFilter === "me" ? ["/api/conversations?assigned=me"] : ["/api/conversations"];
+
   const { data: conversations = [], isLoading: conversationsLoading } = useQuery({
-    queryKey: ["/api/conversations"],
+    queryKey: conversationsQueryKey,
     enabled: isAuthenticated,
     refetchInterval: 5000, // Poll every 5 seconds for conversation updates
     refetchIntervalInBackground: true,
@@ -61,6 +71,17 @@ export default function Conversations() {
     refetchIntervalInBackground: true,
   });
 
+  const { data: members = [] } = useQuery<any[]>({
+    queryKey: ["/api/organizations/members"],
+    enabled: isAuthenticated,
+  });
+
+  const memberName = (userId: string) => {
+    const member = members.find((item) => item.userId === userId);
+    if (!member) return "Miembro";
+    return [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email;
+  };
+
   const sendMessageMutation = useMutation({
     mutationFn: async (data: { conversationId: string; message: string }) => {
       return await apiRequest('POST', `/api/conversations/${data.conversationId}/send`, {
@@ -71,7 +92,7 @@ export default function Conversations() {
     onSuccess: () => {
       setMessageText("");
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedConversation, "messages"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
       toast({
         title: "Mensaje enviado",
         description: "Tu mensaje se ha enviado correctamente",
@@ -93,7 +114,7 @@ export default function Conversations() {
       });
     },
     onSuccess: (response, variables) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedConversation, "messages"] });
       toast({
         title: variables.escalated ? "Control manual activado" : "IA reactivada",
@@ -111,6 +132,28 @@ export default function Conversations() {
     },
   });
 
+  const assignMutation = useMutation({
+    mutationFn: async (data: { conversationId: string; userId: string | null }) => {
+      return await apiRequest('PATCH', `/api/conversations/${data.conversationId}/assignee`, {
+        userId: data.userId
+      });
+    },
+    onSuccess: (response, variables) => {
+      queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+      toast({
+        title: variables.userId ? "Conversación asignada" : "Conversación liberada",
+        description: variables.userId ? `Responsable: ${memberName(variables.userId)}` : "La conversación no tiene responsable",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo cambiar el responsable",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSendMessage = () => {
     if (!selectedConversation || !messageText.trim()) return;
     
@@ -130,6 +173,19 @@ export default function Conversations() {
   // Get current conversation info
   const currentConversation = (conversations as any[]).find((c: any) => c.id === selectedConversation);
   const isCurrentConversationEscalated = currentConversation?.isEscalated || false;
+  const aiPausedUntil = currentConversation?.aiPausedUntil && new Date(currentConversation.aiPausedUntil) > new Date()
+    ? new Date(currentConversation.aiPausedUntil)
+    : null;
+
+  // Sin members:manage solo se puede tomar o soltar una conversación propia o libre
+  const currentUserId = (user as any)?.id;
+  const canReassignAll = can("members:manage");
+  const assignableMembers = members.filter((member) =>
+    member.role !== "viewer" && (canReassignAll || member.userId === currentUserId)
+  );
+  const canChangeAssignee = canReassignAll
+    || !currentConversation?.assignedTo
+    || currentConversation.assignedTo === currentUserId;
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -210,6 +266,26 @@ export default function Conversations() {
                 data-testid="input-search-conversations"
               />
             </div>
+
+            {/* Filtro por responsable */}
+            <div className="flex space-x-2 mt-3">
+              <Button
+                variant={assignedFilter === "all" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setAssignedFilter("all")}
+                data-testid="button-filter-all"
+              >
+                Todas
+              </Button>
+              <Button
+                variant={assignedFilter === "me" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setAssignedFilter("me")}
+                data-testid="button-filter-assigned-me"
+              >
+                Asignadas a mí
+              </Button>
+            </div>
           </div>
 
           {/* Lista de conversaciones */}
@@ -287,6 +363,12 @@ export default function Conversations() {
                             </Badge>
                           )}
                         </div>
+
+                        {conversation.assignedTo && (
+                          <p className="text-xs text-muted-foreground truncate mt-1" data-testid={`text-assignee-${conversation.id}`}>
+                            Asignada a {conversation.assignedTo === currentUserId ? "mí" : memberName(conversation.assignedTo)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   );
@@ -352,8 +434,36 @@ export default function Conversations() {
                   })()}
                 </div>
 
-                {/* Control de IA */}
+                {/* Responsable y control de IA */}
                 <div className="flex items-center space-x-4">
+                  {aiPausedUntil && !isCurrentConversationEscalated && (
+                    <Badge variant="secondary" className="text-xs" data-testid="badge-ai-paused">
+                      IA en pausa hasta {aiPausedUntil.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}
+                    </Badge>
+                  )}
+                  <Select
+                    value={currentConversation?.assignedTo || "none"}
+                    onValueChange={(value) => assignMutation.mutate({
+                      conversationId: selectedConversation,
+                      userId: value === "none" ? null : value
+                    })}
+                    disabled={!canChangeAssignee || assignMutation.isPending}
+                  >
+                    <SelectTrigger className="w-48" data-testid="select-conversation-assignee">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sin asignar</SelectItem>
+                      {currentConversation?.assignedTo && !assignableMembers.some((member) => member.userId === currentConversation.assignedTo) && (
+                        <SelectItem value={currentConversation.assignedTo}>{memberName(currentConversation.assignedTo)}</SelectItem>
+                      )}
+                      {assignableMembers.map((member) => (
+                        <SelectItem key={member.userId} value={member.userId}>
+                          {member.userId === currentUserId ? "Yo" : memberName(member.userId)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <div className="flex items-center space-x-2">
                     <Bot className="w-4 h-4" />
                     <span className="text-sm">IA</span>
@@ -396,7 +506,11 @@ export default function Conversations() {
                       >
                         {/* Avatar */}
                         <div className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0">
-                          {message.fromMe ? (
+                          {message.fromMe && message.sentByAgent ? (
+                            <div className="w-8 h-8 bg-emerald-700 rounded-full flex items-center justify-center" title="Agente">
+                              <User className="w-4 h-4 text-white" />
+                            </div>
+                          ) : message.fromMe ? (
                             <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center">
                               <Bot className="w-4 h-4 text-white" />
                             </div>
@@ -1,16 +1,58 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
 import MainLayout from "@/components/Layout/MainLayout";
-import { useQuery } from "@tanstack/react-query";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Users, User, Phone, Mail, MapPin, DollarSign, Calendar } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { apiRequest } from "@/lib/queryClient";
+import LeadTimelineSheet from "@/components/Leads/LeadTimelineSheet";
+import PipelineStagesDialog from "@/components/Leads/PipelineStagesDialog";
+import DuplicateLeadsDialog from "@/components/Leads/DuplicateLeadsDialog";
+import { colorClasses, duplicatesQueryKey, scoreBadgeClass, stagesQueryKey, type DuplicateGroup, type LeadStage } from "@/components/Leads/pipeline";
+import { Users, Phone, MapPin, DollarSign, Settings2, ArrowUpDown, Columns3, List, GitMerge } from "lucide-react";
+
+const leadsQueryKey = ["/api/leads"];
+
+type SortKey = "score" | "fullName" | "status" | "budget" | "createdAt";
+
+function formatBudget(lead: any): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: lead.budgetCurrency || 'USD'
+  }).format(lead.budget);
+}
+
+// Los prospectos sin el dato (p. ej. sin puntuar) quedan al final en ambos sentidos
+function compareLeads(a: any, b: any, key: SortKey, direction: 1 | -1, stagePosition: (status: string) => number): number {
+  const value = (lead: any) =>
+    key === "status" ? stagePosition(lead.status) : key === "createdAt" ? new Date(lead.createdAt).getTime() : lead[key];
+  const left = value(a);
+  const right = value(b);
+  if (left === null || left === undefined) return right === null || right === undefined ? 0 : 1;
+  if (right === null || right === undefined) return -1;
+  return (typeof left === "string" ? left.localeCompare(right) : left - right) * direction;
+}
 
 export default function Leads() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
+  const { can } = useOrganization();
+  const queryClient = useQueryClient();
+  const [selectedLead, setSelectedLead] = useState<any | null>(null);
+  const [stagesOpen, setStagesOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [dragOverStage, setDragOverStage] = useState<string | null>(null);
+  const [pendingLoss, setPendingLoss] = useState<{ lead: any; stage: LeadStage } | null>(null);
+  const [lostReason, setLostReason] = useState("");
+  const [view, setView] = useState<"board" | "list">("board");
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: "score", direction: -1 });
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -26,12 +68,46 @@ export default function Leads() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: leads, isLoading: leadsLoading } = useQuery({
-    queryKey: ["/api/leads"],
+  const { data: leads, isLoading: leadsLoading } = useQuery<any[]>({
+    queryKey: leadsQueryKey,
     enabled: isAuthenticated,
   });
 
-  if (isLoading || leadsLoading) {
+  const { data: stages = [], isLoading: stagesLoading } = useQuery<LeadStage[]>({
+    queryKey: stagesQueryKey,
+    enabled: isAuthenticated,
+  });
+
+  const { data: duplicates = [] } = useQuery<DuplicateGroup[]>({
+    queryKey: duplicatesQueryKey,
+    enabled: isAuthenticated && can("leads:write"),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ lead, stage, reason }: { lead: any; stage: LeadStage; reason?: string }) => {
+      const response = await apiRequest("PATCH", `/api/leads/${lead.id}/stage`, { status: stage.key, lostReason: reason });
+      return response.json();
+    },
+    // La tarjeta cambia de columna al soltarla; si el servidor rechaza el cambio vuelve a su lugar
+    onMutate: async ({ lead, stage, reason }) => {
+      await queryClient.cancelQueries({ queryKey: leadsQueryKey });
+      const previous = queryClient.getQueryData<any[]>(leadsQueryKey);
+      queryClient.setQueryData<any[]>(leadsQueryKey, (current = []) =>
+        current.map((item) => (item.id === lead.id ? { ...item, status: stage.key, lostReason: reason || null } : item))
+      );
+      return { previous };
+    },
+    onError: (error: any, _variables, context) => {
+      queryClient.setQueryData(leadsQueryKey, context?.previous);
+      toast({ title: "Error", description: error.message || "No se pudo mover el prospecto", variant: "destructive" });
+    },
+    onSettled: (_data, _error, { lead }) => {
+      queryClient.invalidateQueries({ queryKey: leadsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "timeline"] });
+    },
+  });
+
+  if (isLoading || leadsLoading || stagesLoading) {
     return (
       <MainLayout>
         <div className="p-6">
@@ -52,35 +128,82 @@ export default function Leads() {
     return null;
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'NEW':
-        return 'bg-blue-500/10 text-blue-600';
-      case 'CONTACTED':
-        return 'bg-yellow-500/10 text-yellow-600';
-      case 'QUALIFIED':
-        return 'bg-purple-500/10 text-purple-600';
-      case 'CONVERTED':
-        return 'bg-green-500/10 text-green-600';
-      case 'LOST':
-        return 'bg-red-500/10 text-red-600';
-      default:
-        return 'bg-gray-500/10 text-gray-600';
+  const canMove = can("leads:write");
+  // Los prospectos con un estado que ya no es una etapa se muestran en la primera columna
+  const stageOf = (lead: any) => stages.find(stage => stage.key === lead.status) || stages[0];
+  const stagePosition = (status: string) => stages.findIndex(stage => stage.key === status);
+  const byScore = (a: any, b: any) => compareLeads(a, b, "score", -1, stagePosition);
+  const sortedLeads = [...(leads || [])].sort((a, b) => compareLeads(a, b, sort.key, sort.direction, stagePosition));
+
+  const toggleSort = (key: SortKey) => {
+    // Números y fechas empiezan de mayor a menor, textos y etapas en orden natural
+    const initial = key === "fullName" || key === "status" ? 1 : -1;
+    setSort(prev => ({ key, direction: prev.key === key ? (prev.direction === 1 ? -1 : 1) : initial }));
+  };
+
+  const sortableHead = (key: SortKey, label: string) => (
+    <TableHead>
+      <Button variant="ghost" size="sm" className="-ml-3" onClick={() => toggleSort(key)} data-testid={`sort-${key}`}>
+        {label}
+        <ArrowUpDown className="w-3 h-3 ml-1" />
+      </Button>
+    </TableHead>
+  );
+
+  const handleDrop = (stage: LeadStage, leadId: string) => {
+    setDragOverStage(null);
+    const lead = leads?.find(item => item.id === leadId);
+    if (!lead || lead.status === stage.key) return;
+
+    if (stage.type === "LOST") {
+      setLostReason("");
+      setPendingLoss({ lead, stage });
+      return;
     }
+    moveMutation.mutate({ lead, stage });
+  };
+
+  const confirmLoss = () => {
+    if (!pendingLoss) return;
+    moveMutation.mutate({ ...pendingLoss, reason: lostReason.trim() });
+    setPendingLoss(null);
   };
 
   return (
     <MainLayout>
       <div className="p-6 space-y-6">
         {/* Header */}
-        <div>
-          <h2 className="text-2xl font-semibold mb-2 text-foreground">Prospectos</h2>
-          <p className="text-muted-foreground">
-            Rastrea y administra prospectos generados a través de conversaciones de IA
-          </p>
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold mb-2 text-foreground">Prospectos</h2>
+            <p className="text-muted-foreground">
+              Arrastra cada prospecto por las etapas del pipeline hasta cerrar el trato
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ToggleGroup type="single" value={view} onValueChange={(value) => value && setView(value as "board" | "list")}>
+              <ToggleGroupItem value="board" aria-label="Tablero" data-testid="view-board">
+                <Columns3 className="w-4 h-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="list" aria-label="Lista" data-testid="view-list">
+                <List className="w-4 h-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {canMove && duplicates.length > 0 && (
+              <Button variant="outline" onClick={() => setDuplicatesOpen(true)} data-testid="button-duplicates">
+                <GitMerge className="w-4 h-4 mr-2" />
+                Duplicados ({duplicates.length})
+              </Button>
+            )}
+            {can("settings:write") && (
+              <Button variant="outline" onClick={() => setStagesOpen(true)} data-testid="button-configure-stages">
+                <Settings2 className="w-4 h-4 mr-2" />
+                Etapas
+              </Button>
+            )}
+          </div>
         </div>
 
-        {/* Leads List */}
         {!leads || leads.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
@@ -93,98 +216,142 @@ export default function Leads() {
               </p>
             </CardContent>
           </Card>
+        ) : view === "list" ? (
+          <Card>
+            <Table data-testid="lead-table">
+              <TableHeader>
+                <TableRow>
+                  {sortableHead("score", "Puntuación")}
+                  {sortableHead("fullName", "Nombre")}
+                  {sortableHead("status", "Etapa")}
+                  {sortableHead("budget", "Presupuesto")}
+                  <TableHead>Zona</TableHead>
+                  {sortableHead("createdAt", "Creado")}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedLeads.map((lead) => {
+                  const stage = stageOf(lead);
+                  return (
+                    <TableRow key={lead.id} className="cursor-pointer" onClick={() => setSelectedLead(lead)} data-testid={`lead-row-${lead.id}`}>
+                      <TableCell>
+                        <Badge className={scoreBadgeClass(lead.score)}>{lead.score ?? "—"}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium text-foreground">{lead.fullName}</p>
+                        <p className="text-xs text-muted-foreground">{lead.phone}</p>
+                      </TableCell>
+                      <TableCell>
+                        {stage && <Badge className={colorClasses(stage.color).badge}>{stage.name}</Badge>}
+                      </TableCell>
+                      <TableCell>{lead.budget ? formatBudget(lead) : "—"}</TableCell>
+                      <TableCell>{lead.preferredLocation || "—"}</TableCell>
+                      <TableCell>{lead.createdAt ? new Date(lead.createdAt).toLocaleDateString() : "—"}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
         ) : (
-          <div className="space-y-4">
-            {leads.map((lead: any) => (
-              <Card key={lead.id} className="hover:shadow-md transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-start space-x-4">
-                      <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
-                        <User className="w-6 h-6 text-primary" />
-                      </div>
-                      <div>
-                        <CardTitle className="text-lg" data-testid={`lead-name-${lead.id}`}>
-                          {lead.fullName}
-                        </CardTitle>
-                        <div className="flex items-center space-x-4 text-sm text-muted-foreground mt-1">
-                          <div className="flex items-center space-x-1">
-                            <Phone className="w-4 h-4" />
+          <div className="flex gap-4 overflow-x-auto pb-4" data-testid="lead-kanban">
+            {stages.map((stage) => {
+              const stageLeads = leads.filter(lead => stageOf(lead)?.key === stage.key).sort(byScore);
+              return (
+                <div
+                  key={stage.key}
+                  className={`w-72 shrink-0 rounded-lg bg-muted/40 border-t-4 ${colorClasses(stage.color).column} ${dragOverStage === stage.key ? "ring-2 ring-primary" : ""}`}
+                  onDragOver={(e) => {
+                    if (!canMove) return;
+                    e.preventDefault();
+                    setDragOverStage(stage.key);
+                  }}
+                  onDragLeave={() => setDragOverStage(null)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(stage, e.dataTransfer.getData("text/plain"));
+                  }}
+                  data-testid={`stage-column-${stage.key}`}
+                >
+                  <div className="flex items-center justify-between px-3 py-2">
+                    <span className="font-medium text-foreground">{stage.name}</span>
+                    <Badge variant="outline">{stageLeads.length}</Badge>
+                  </div>
+                  <div className="space-y-2 p-2 min-h-24">
+                    {stageLeads.map((lead) => (
+                      <Card
+                        key={lead.id}
+                        draggable={canMove}
+                        onDragStart={(e) => e.dataTransfer.setData("text/plain", lead.id)}
+                        onClick={() => setSelectedLead(lead)}
+                        className="cursor-pointer hover:shadow-md transition-shadow"
+                        data-testid={`lead-card-${lead.id}`}
+                      >
+                        <CardContent className="p-3 space-y-1">
+                          <div className="flex items-start justify-between gap-2">
+                            <p className="font-medium text-foreground" data-testid={`lead-name-${lead.id}`}>{lead.fullName}</p>
+                            {lead.score !== null && lead.score !== undefined && (
+                              <Badge className={scoreBadgeClass(lead.score)} data-testid={`lead-score-${lead.id}`}>{lead.score}</Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Phone className="w-3 h-3" />
                             <span data-testid={`lead-phone-${lead.id}`}>{lead.phone}</span>
                           </div>
-                          {lead.email && (
-                            <div className="flex items-center space-x-1">
-                              <Mail className="w-4 h-4" />
-                              <span data-testid={`lead-email-${lead.id}`}>{lead.email}</span>
+                          {lead.budget && (
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <DollarSign className="w-3 h-3" />
+                              <span>{formatBudget(lead)}</span>
                             </div>
                           )}
-                        </div>
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Badge className={getStatusColor(lead.status)}>
-                        {lead.status}
-                      </Badge>
-                      <Badge variant="outline" className="text-xs">
-                        {lead.source}
-                      </Badge>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="pt-0">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {lead.budget && (
-                      <div className="flex items-center space-x-2 text-sm">
-                        <DollarSign className="w-4 h-4 text-muted-foreground" />
-                        <span className="text-foreground">
-                          {new Intl.NumberFormat('en-US', {
-                            style: 'currency',
-                            currency: lead.budgetCurrency || 'USD'
-                          }).format(lead.budget)}
-                        </span>
-                      </div>
-                    )}
-                    
-                    {lead.preferredLocation && (
-                      <div className="flex items-center space-x-2 text-sm">
-                        <MapPin className="w-4 h-4 text-muted-foreground" />
-                        <span className="text-foreground" data-testid={`lead-location-${lead.id}`}>
-                          {lead.preferredLocation}
-                        </span>
-                      </div>
-                    )}
-                    
-                    <div className="flex items-center space-x-2 text-sm">
-                      <Calendar className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-muted-foreground">
-                        Created: {new Date(lead.createdAt).toLocaleDateString()}
-                      </span>
-                    </div>
-                  </div>
-                  
-                  {lead.listingType && (
-                    <div className="mt-3">
-                      <span className="text-sm text-muted-foreground">Looking for: </span>
-                      <Badge variant="outline" className="text-xs">
-                        {lead.listingType === 'sale' ? 'Properties for Sale' : 'Properties for Rent'}
-                      </Badge>
-                    </div>
-                  )}
-                  
-                  <div className="flex items-center justify-end space-x-2 mt-4">
-                    <Button variant="outline" size="sm" data-testid={`button-view-conversation-${lead.id}`}>
-                      View Conversation
-                    </Button>
-                    <Button size="sm" data-testid={`button-contact-lead-${lead.id}`}>
-                      Contact Lead
-                    </Button>
+                          {lead.preferredLocation && (
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <MapPin className="w-3 h-3" />
+                              <span data-testid={`lead-location-${lead.id}`}>{lead.preferredLocation}</span>
+                            </div>
+                          )}
+                          {stage.type === "LOST" && lead.lostReason && (
+                            <p className="text-xs text-muted-foreground italic">{lead.lostReason}</p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
                   </div>
-                </CardContent>
-              </Card>
-            ))}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
+
+      <LeadTimelineSheet
+        lead={selectedLead && (leads?.find(lead => lead.id === selectedLead.id) || selectedLead)}
+        stages={stages}
+        onOpenChange={(open) => !open && setSelectedLead(null)}
+      />
+
+      <PipelineStagesDialog open={stagesOpen} stages={stages} onOpenChange={setStagesOpen} />
+
+      <DuplicateLeadsDialog open={duplicatesOpen} groups={duplicates} onOpenChange={setDuplicatesOpen} />
+
+      <Dialog open={!!pendingLoss} onOpenChange={(open) => !open && setPendingLoss(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>¿Por qué se perdió {pendingLoss?.lead.fullName}?</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            value={lostReason}
+            onChange={(e) => setLostReason(e.target.value)}
+            placeholder="Compró con otra agencia, presupuesto insuficiente, dejó de responder..."
+            data-testid="input-lost-reason"
+          />
+          <DialogFooter>
+            <Button onClick={confirmLoss} disabled={!lostReason.trim()} data-testid="button-confirm-lost">
+              Mover a {pendingLoss?.stage.name}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 }
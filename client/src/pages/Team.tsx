@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import MainLayout from "@/components/Layout/MainLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { UsersRound, User, Mail, Copy, Trash2 } from "lucide-react";
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: "Propietario",
+  admin: "Administrador",
+  agent: "Agente",
+  viewer: "Solo lectura",
+};
+
+export default function Team() {
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { organization, organizations, role, can } = useOrganization();
+  const queryClient = useQueryClient();
+
+  const [organizationName, setOrganizationName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState("agent");
+  const [lastInviteUrl, setLastInviteUrl] = useState("");
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  useEffect(() => {
+    if (organization) setOrganizationName(organization.name);
+  }, [organization]);
+
+  const { data: members, isLoading: membersLoading } = useQuery<any[]>({
+    queryKey: ["/api/organizations/members"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: invitations } = useQuery<any[]>({
+    queryKey: ["/api/organizations/invitations"],
+    enabled: isAuthenticated && can("members:manage"),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "No se pudo completar la acción",
+      variant: "destructive",
+    });
+  };
+
+  const switchOrganizationMutation = useMutation({
+    mutationFn: async (organizationId: string) => {
+      await apiRequest("POST", "/api/organizations/switch", { organizationId });
+    },
+    onSuccess: () => {
+      // Todos los datos cambian de cuenta
+      queryClient.invalidateQueries();
+    },
+    onError,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", "/api/organizations/current", { name: organizationName });
+    },
+    onSuccess: () => {
+      toast({ title: "Organización actualizada" });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+    },
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/organizations/invitations", { email: inviteEmail, role: inviteRole });
+      return await response.json();
+    },
+    onSuccess: (invitation: any) => {
+      toast({ title: "Invitación enviada", description: `Se envió una invitación a ${invitation.email}` });
+      setLastInviteUrl(invitation.inviteUrl);
+      setInviteEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/invitations"] });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/organizations/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/invitations"] });
+    },
+    onError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      await apiRequest("PATCH", `/api/organizations/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/members"] });
+    },
+    onError,
+  });
+
+  const availabilityMutation = useMutation({
+    mutationFn: async ({ userId, acceptsAssignments }: { userId: string; acceptsAssignments: boolean }) => {
+      await apiRequest("PATCH", `/api/organizations/members/${userId}/availability`, { acceptsAssignments });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/members"] });
+    },
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/organizations/members/${userId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Miembro eliminado" });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/members"] });
+    },
+    onError,
+  });
+
+  if (isLoading || membersLoading) {
+    return (
+      <MainLayout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-6">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-48 bg-muted rounded"></div>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const canManageMembers = can("members:manage");
+  const assignableRoles = role === "owner" ? ["admin", "agent", "viewer"] : ["agent", "viewer"];
+  const canEditMember = (member: any) =>
+    canManageMembers
+    && member.role !== "owner"
+    && member.userId !== (user as any)?.id
+    && (member.role !== "admin" || role === "owner");
+
+  return (
+    <MainLayout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div>
+          <h2 className="text-2xl font-semibold mb-2 text-foreground">Equipo</h2>
+          <p className="text-muted-foreground">
+            Invita agentes a tu organización y define qué puede hacer cada uno
+          </p>
+        </div>
+
+        {/* Organization */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Organización</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {organizations.length > 1 && (
+              <div>
+                <Label>Organización activa</Label>
+                <Select
+                  value={organization?.id}
+                  onValueChange={(organizationId) => switchOrganizationMutation.mutate(organizationId)}
+                >
+                  <SelectTrigger data-testid="select-organization">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {organizations.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name} ({ROLE_LABELS[item.role] || item.role})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="organizationName">Nombre</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="organizationName"
+                  value={organizationName}
+                  onChange={(e) => setOrganizationName(e.target.value)}
+                  disabled={!can("organization:manage")}
+                  data-testid="input-organization-name"
+                />
+                {can("organization:manage") && (
+                  <Button
+                    onClick={() => renameMutation.mutate()}
+                    disabled={renameMutation.isPending || !organizationName.trim()}
+                    data-testid="button-rename-organization"
+                  >
+                    Guardar
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                Tu rol: <Badge variant="secondary">{ROLE_LABELS[role || ""] || role}</Badge>
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Invitations */}
+        {canManageMembers && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitar miembro</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="agente@inmobiliaria.com"
+                  className="flex-1"
+                  data-testid="input-invite-email"
+                />
+                <Select value={inviteRole} onValueChange={setInviteRole}>
+                  <SelectTrigger className="md:w-48" data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((item) => (
+                      <SelectItem key={item} value={item}>{ROLE_LABELS[item]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => inviteMutation.mutate()}
+                  disabled={inviteMutation.isPending || !inviteEmail.trim()}
+                  data-testid="button-send-invite"
+                >
+                  <Mail className="w-4 h-4 mr-2" />
+                  Invitar
+                </Button>
+              </div>
+
+              {lastInviteUrl && (
+                <div className="flex items-center gap-2 p-3 bg-muted rounded-lg text-sm">
+                  <span className="truncate flex-1" data-testid="text-invite-url">{lastInviteUrl}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      navigator.clipboard.writeText(lastInviteUrl);
+                      toast({ title: "Enlace copiado" });
+                    }}
+                  >
+                    <Copy className="w-4 h-4 mr-1" />
+                    Copiar
+                  </Button>
+                </div>
+              )}
+
+              {invitations && invitations.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-foreground">Invitaciones pendientes</div>
+                  {invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="text-sm">
+                        <span className="font-medium">{invitation.email}</span>
+                        <span className="text-muted-foreground"> · {ROLE_LABELS[invitation.role] || invitation.role} · vence {new Date(invitation.expiresAt).toLocaleDateString('es-ES')}</span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(invitation.id)}
+                        data-testid={`button-revoke-${invitation.id}`}
+                      >
+                        Revocar
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Miembros</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(members || []).map((member) => (
+              <div key={member.userId} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`member-${member.userId}`}>
+                <div className="flex items-center space-x-3">
+                  <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                    {member.profileImageUrl ? (
+                      <img src={member.profileImageUrl} alt="" className="w-10 h-10 rounded-full object-cover" />
+                    ) : (
+                      <User className="w-5 h-5 text-primary" />
+                    )}
+                  </div>
+                  <div>
+                    <div className="font-medium text-foreground">
+                      {[member.firstName, member.lastName].filter(Boolean).join(" ") || member.email}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{member.email}</div>
+                  </div>
+                </div>
+
+                {member.role !== "viewer" && (
+                  <div className="flex items-center space-x-2 ml-auto mr-4 text-sm text-muted-foreground">
+                    <Switch
+                      checked={member.acceptsAssignments}
+                      onCheckedChange={(checked) => availabilityMutation.mutate({ userId: member.userId, acceptsAssignments: checked })}
+                      disabled={!canManageMembers && member.userId !== (user as any)?.id}
+                      data-testid={`switch-assignments-${member.userId}`}
+                    />
+                    <span>Recibe conversaciones</span>
+                  </div>
+                )}
+
+                {canEditMember(member) ? (
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => updateRoleMutation.mutate({ userId: member.userId, role: value })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assignableRoles.map((item) => (
+                          <SelectItem key={item} value={item}>{ROLE_LABELS[item]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMemberMutation.mutate(member.userId)}
+                      data-testid={`button-remove-${member.userId}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="secondary">{ROLE_LABELS[member.role] || member.role}</Badge>
+                )}
+              </div>
+            ))}
+
+            {(!members || members.length === 0) && (
+              <div className="text-center py-8 text-muted-foreground">
+                <UsersRound className="w-8 h-8 mx-auto mb-2" />
+                Aún no hay miembros
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  );
+}
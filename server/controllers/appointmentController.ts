@@ -1,22 +1,110 @@
 import { Request, Response } from 'express';
-import { calendarService } from '../services/calendarService';
+import { z } from 'zod';
+import type { CalendarConnection } from '@shared/schema';
+import { calendarService, rulesFromSchedule, scheduleInputSchema } from '../services/calendarService';
+import { appointmentToIcsEvent, calDavSyncService } from '../services/calDavSyncService';
 import { notificationService } from '../services/notificationService';
 import { storage } from '../storage';
+import { appUrl } from '../utils/appUrl';
+import { buildIcsCalendar } from '../utils/ics';
+
+// Horarios y disponibilidad son de un agente: el propio usuario por defecto o cualquier miembro que atienda visitas
+async function resolveAgentId(req: any, requested?: string): Promise<string> {
+  const actorId = req.user.claims.sub;
+  if (!requested || requested === actorId || requested === req.accountId) {
+    return requested || actorId;
+  }
+
+  const member = await storage.getOrganizationMember(req.organizationContext.organization.id, requested);
+  if (!member || member.role === 'viewer') {
+    throw new Error('El agente no pertenece a la organización');
+  }
+  return requested;
+}
+
+// El calendario, el feed y el horario de otro agente solo los gestiona quien administra miembros
+function canManageAgent(req: any, agentId: string): boolean {
+  return agentId === req.user.claims.sub || req.organizationContext.permissions.includes('members:manage');
+}
+
+const busyBlockSchema = z.object({
+  startAt: z.coerce.date(),
+  endAt: z.coerce.date(),
+  summary: z.string().max(200).optional(),
+  agentId: z.string().optional(),
+}).refine(block => block.startAt < block.endAt, 'La hora de fin debe ser posterior a la de inicio');
+
+// Los campos de estado, secuencia y sincronización los maneja el servidor
+const createAppointmentSchema = z.object({
+  clientName: z.string().trim().min(1, 'El nombre del cliente es requerido').max(200),
+  clientPhone: z.string().trim().min(1, 'El teléfono del cliente es requerido').max(50),
+  clientEmail: z.string().trim().email('Email inválido').optional(),
+  scheduledAt: z.coerce.date(),
+  duration: z.coerce.number().int().min(15).max(480).optional(),
+  location: z.string().max(500).optional(),
+  propertyId: z.string().max(200).optional(),
+  agentId: z.string().optional(),
+  notes: z.string().max(2000).optional(),
+  conversationSummary: z.string().max(5000).optional(),
+});
+
+const statusSchema = z.object({
+  status: z.enum(['SCHEDULED', 'CONFIRMED', 'RESCHEDULE_REQUESTED', 'COMPLETED', 'NO_SHOW', 'CANCELLED']),
+});
+
+const rescheduleSchema = z.object({
+  scheduledAt: z.coerce.date(),
+  duration: z.coerce.number().int().min(15).max(480).optional(),
+  reason: z.string().max(500).optional(),
+  notifyClient: z.boolean().default(true),
+});
+
+const cancelSchema = z.object({
+  reason: z.string().max(500).optional(),
+  notifyClient: z.boolean().default(true),
+});
+
+const calDavConnectionSchema = z.object({
+  caldavUrl: z.string().trim().url('URL inválida').or(z.literal('')),
+  caldavUsername: z.string().trim().optional(),
+  caldavPassword: z.string().optional(), // Vacía conserva la guardada
+  agentId: z.string().optional(),
+});
+
+// La contraseña nunca sale del servidor
+function serializeConnection(connection: CalendarConnection) {
+  return {
+    agentId: connection.agentId,
+    caldavUrl: connection.caldavUrl || '',
+    caldavUsername: connection.caldavUsername || '',
+    passwordConfigured: !!connection.caldavPassword,
+    feedUrl: appUrl(`/api/calendar/feed/${connection.feedToken}.ics`),
+    lastSyncAt: connection.lastSyncAt,
+    lastSyncError: connection.lastSyncError,
+  };
+}
 
 class AppointmentController {
   async createAppointment(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
-      const appointmentData = req.body;
+      const userId = req.accountId;
+      const parsed = createAppointmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { conversationSummary, ...appointmentData } = parsed.data;
+      const agentId = appointmentData.agentId ? await resolveAgentId(req, appointmentData.agentId) : undefined;
 
-      // Create appointment in database
-      const appointment = await storage.createAppointment({
-        userId,
+      // Desde el panel se puede agendar fuera del horario de trabajo, pero no encima de otra cita
+      const result = await calendarService.scheduleAppointment(userId, {
         ...appointmentData,
-      });
-
-      // Schedule in external calendar
-      const calendarResult = await calendarService.scheduleAppointment(userId, appointmentData);
+        userId,
+        agentId,
+      }, { ignoreWorkingHours: true });
+      if (!result.booked) {
+        return res.status(409).json({ message: result.reason });
+      }
+      const { appointment } = result;
 
       // Get user for email notifications
       const user = await storage.getUser(userId);
@@ -25,16 +113,11 @@ class AppointmentController {
         await notificationService.sendAppointmentNotification(
           user.email,
           appointment,
-          req.body.conversationSummary || 'No conversation summary available'
+          conversationSummary || 'No conversation summary available'
         );
       }
 
-      // Schedule reminders
-      await notificationService.scheduleReminder(appointment.id, '24h', 24 * 60 * 60 * 1000);
-      await notificationService.scheduleReminder(appointment.id, '2h', 2 * 60 * 60 * 1000);
-      await notificationService.scheduleReminder(appointment.id, '30m', 30 * 60 * 1000);
-
-      res.json({ appointment, calendarResult });
+      res.json({ appointment });
     } catch (error) {
       console.error('Error creating appointment:', error);
       res.status(500).json({ message: 'Failed to create appointment' });
@@ -43,7 +126,7 @@ class AppointmentController {
 
   async getUserAppointments(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const appointments = await storage.getUserAppointments(userId);
       res.json(appointments);
     } catch (error) {
@@ -54,16 +137,308 @@ class AppointmentController {
 
   async updateStatus(req: any, res: Response) {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const parsed = statusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Estado de cita inválido' });
+      }
 
-      await storage.updateAppointmentStatus(id, status);
+      // Al cancelar también se quita el evento del calendario del agente
+      await calendarService.changeStatus(req.accountId, req.params.id, parsed.data.status, { changedBy: req.user.claims.sub });
       res.json({ success: true });
     } catch (error) {
       console.error('Error updating appointment status:', error);
       res.status(500).json({ message: 'Failed to update appointment status' });
     }
   }
+
+  async rescheduleAppointment(req: any, res: Response) {
+    try {
+      const parsed = rescheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      // Desde el panel se puede mover fuera del horario de trabajo, pero no encima de otra cita
+      const result = await calendarService.rescheduleAppointment(req.accountId, req.params.id, parsed.data.scheduledAt, {
+        changedBy: req.user.claims.sub,
+        reason: parsed.data.reason,
+        notifyClient: parsed.data.notifyClient,
+        duration: parsed.data.duration,
+        ignoreWorkingHours: true,
+      });
+      if (!result.booked) {
+        return res.status(409).json({ message: result.reason });
+      }
+      res.json({ appointment: result.appointment });
+    } catch (error) {
+      console.error('Error rescheduling appointment:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async cancelAppointment(req: any, res: Response) {
+    try {
+      const parsed = cancelSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const appointment = await calendarService.cancelAppointment(req.accountId, req.params.id, {
+        changedBy: req.user.claims.sub,
+        reason: parsed.data.reason,
+        notifyClient: parsed.data.notifyClient,
+      });
+      res.json({ appointment });
+    } catch (error) {
+      console.error('Error cancelling appointment:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async getHistory(req: any, res: Response) {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.userId !== req.accountId) {
+        return res.status(404).json({ message: 'Cita no encontrada' });
+      }
+      res.json(await storage.getAppointmentChanges(appointment.id));
+    } catch (error) {
+      console.error('Error fetching appointment history:', error);
+      res.status(500).json({ message: 'Failed to fetch appointment history' });
+    }
+  }
+
+  async getAvailability(req: any, res: Response) {
+    try {
+      const agentId = await resolveAgentId(req, req.query.agentId);
+      const days = Math.min(Math.max(Number(req.query.days) || 1, 1), 14);
+      const rules = await calendarService.getRules(req.accountId, agentId);
+      const slots = await calendarService.getAvailability(req.accountId, req.query.date || new Date(), {
+        agentId,
+        durationMinutes: req.query.duration ? Number(req.query.duration) : undefined,
+        propertyId: req.query.propertyId || undefined,
+      }, days);
+
+      res.json({ agentId, timeZone: rules.timeZone, slots });
+    } catch (error) {
+      console.error('Error getting availability:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async getSchedule(req: any, res: Response) {
+    try {
+      const agentId = await resolveAgentId(req, req.query.agentId);
+      const schedule = await storage.getAgentSchedule(req.accountId, agentId);
+      const { timeZone, ...rules } = await calendarService.getRules(req.accountId, agentId);
+      res.json({ agentId, timeZone, isDefault: !schedule, ...rules });
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async updateSchedule(req: any, res: Response) {
+    try {
+      const agentId = await resolveAgentId(req, req.body.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes editar tu propio horario' });
+      }
+
+      const parsed = scheduleInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || 'Horario inválido' });
+      }
+
+      const schedule = await storage.upsertAgentSchedule({ accountId: req.accountId, agentId, ...parsed.data });
+      const settings = await storage.getUserSettings(req.accountId);
+      const { timeZone, ...rules } = rulesFromSchedule(schedule, settings?.timezone);
+      res.json({ agentId, timeZone, isDefault: false, ...rules });
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async getBusyBlocks(req: any, res: Response) {
+    try {
+      const from = req.query.from ? new Date(req.query.from) : new Date();
+      const to = req.query.to ? new Date(req.query.to) : new Date(from.getTime() + 30 * 24 * 60 * 60 * 1000);
+      const agentId = await resolveAgentId(req, req.query.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes ver tus propios bloqueos' });
+      }
+
+      // Los bloques sin agente son del titular de la cuenta
+      const blocks = await storage.getBusyBlocksInRange(req.accountId, from, to);
+      res.json(blocks.filter(block => (block.agentId || req.accountId) === agentId));
+    } catch (error) {
+      console.error('Error fetching busy blocks:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async createBusyBlock(req: any, res: Response) {
+    try {
+      const parsed = busyBlockSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || 'Bloque inválido' });
+      }
+
+      const agentId = await resolveAgentId(req, parsed.data.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes bloquear tu propia agenda' });
+      }
+      const block = await storage.createBusyBlock({
+        userId: req.accountId,
+        agentId: agentId === req.accountId ? null : agentId,
+        startAt: parsed.data.startAt,
+        endAt: parsed.data.endAt,
+        summary: parsed.data.summary,
+        source: 'manual',
+      });
+      res.json(block);
+    } catch (error) {
+      console.error('Error creating busy block:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async deleteBusyBlock(req: any, res: Response) {
+    try {
+      const block = await storage.getBusyBlock(req.accountId, req.params.id);
+      if (!block) {
+        return res.status(404).json({ message: 'Bloqueo no encontrado' });
+      }
+      if (!canManageAgent(req, block.agentId || req.accountId)) {
+        return res.status(403).json({ message: 'Solo puedes quitar tus propios bloqueos' });
+      }
+
+      await storage.deleteBusyBlock(req.accountId, block.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting busy block:', error);
+      res.status(500).json({ message: 'Failed to delete busy block' });
+    }
+  }
+
+  async getCalendarConnection(req: any, res: Response) {
+    try {
+      const agentId = await resolveAgentId(req, req.query.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes ver tu propio calendario' });
+      }
+      const connection = await calDavSyncService.getOrCreateConnection(req.accountId, agentId);
+      res.json(serializeConnection(connection));
+    } catch (error) {
+      console.error('Error fetching calendar connection:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async updateCalendarConnection(req: any, res: Response) {
+    try {
+      const parsed = calDavConnectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || 'Datos inválidos' });
+      }
+
+      const agentId = await resolveAgentId(req, parsed.data.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes conectar tu propio calendario' });
+      }
+
+      const current = await calDavSyncService.getOrCreateConnection(req.accountId, agentId);
+      const updates = {
+        caldavUrl: parsed.data.caldavUrl || null,
+        caldavUsername: parsed.data.caldavUsername || null,
+        caldavPassword: parsed.data.caldavPassword || current.caldavPassword,
+      };
+      if (updates.caldavUrl) {
+        await calDavSyncService.testConnection(updates);
+      }
+
+      const connection = await storage.upsertCalendarConnection({
+        accountId: req.accountId,
+        agentId,
+        feedToken: current.feedToken,
+        ...updates,
+        lastSyncError: null,
+      });
+      if (connection.caldavUrl) {
+        calDavSyncService.syncConnection(connection).catch(error =>
+          console.warn(`⚠️ [CALDAV] Initial sync failed for ${agentId}:`, error.message)
+        );
+      }
+      res.json(serializeConnection(connection));
+    } catch (error) {
+      console.error('Error updating calendar connection:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async syncCalendarConnection(req: any, res: Response) {
+    try {
+      const agentId = await resolveAgentId(req, req.body.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes sincronizar tu propio calendario' });
+      }
+      const connection = await storage.getCalendarConnection(req.accountId, agentId);
+      if (!connection?.caldavUrl) {
+        return res.status(400).json({ message: 'No hay un calendario CalDAV conectado' });
+      }
+
+      const result = await calDavSyncService.syncConnection(connection);
+      res.json(result);
+    } catch (error) {
+      console.error('Error syncing calendar:', error);
+      res.status(502).json({ message: (error as Error).message });
+    }
+  }
+
+  async rotateCalendarFeed(req: any, res: Response) {
+    try {
+      const agentId = await resolveAgentId(req, req.body.agentId);
+      if (!canManageAgent(req, agentId)) {
+        return res.status(403).json({ message: 'Solo puedes regenerar el enlace de tu propio calendario' });
+      }
+      const current = await calDavSyncService.getOrCreateConnection(req.accountId, agentId);
+      await storage.updateCalendarConnection(current.id, { feedToken: calDavSyncService.generateFeedToken() });
+
+      const connection = await storage.getCalendarConnection(req.accountId, agentId);
+      res.json(serializeConnection(connection!));
+    } catch (error) {
+      console.error('Error rotating calendar feed:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  /**
+   * Feed ICS público (el token es la credencial) con las citas del agente,
+   * para suscribirse desde Google Calendar, Apple Calendar u Outlook
+   */
+  async getCalendarFeed(req: Request, res: Response) {
+    try {
+      const connection = await storage.getCalendarConnectionByFeedToken(req.params.token);
+      if (!connection) {
+        return res.status(404).send('Not found');
+      }
+
+      const from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const to = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+      const appointments = (await storage.getAppointmentsInRange(connection.accountId, from, to))
+        .filter(appointment => (appointment.agentId || connection.accountId) === connection.agentId);
+
+      const ics = buildIcsCalendar(appointments.map(appointmentToIcsEvent), 'Citas');
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(ics);
+    } catch (error) {
+      console.error('Error building calendar feed:', error);
+      res.status(500).send('Failed to build calendar feed');
+    }
+  }
 }
 
 export const appointmentController = new AppointmentController();
@@ -1,19 +1,59 @@
-import { Request, Response } from 'express';
-import { alterEstateService } from '../services/alterEstateService';
+import { Response } from 'express';
+import { createInventoryProvider } from '../services/inventoryProvider';
+import { propertyIndexService } from '../services/propertyIndexService';
 import { storage } from '../storage';
 
+/**
+ * Proveedor de inventario del usuario (AlterEstate, inventario propio o JSON de desarrollo).
+ * Los handlers se registran sin bind, por eso es una función del módulo.
+ */
+async function getProvider(req: any, res: Response) {
+  const userId = req.accountId;
+  const settings = await storage.getUserSettings(userId);
+  const provider = createInventoryProvider(userId, settings);
+
+  if (!provider) {
+    res.status(400).json({ message: 'Inventory provider not configured' });
+    return null;
+  }
+  return provider;
+}
+
 class CRMController {
   async getProperties(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
-      const settings = await storage.getUserSettings(userId);
-      
-      if (!settings?.alterEstateToken) {
-        return res.status(400).json({ message: 'AlterEstate token not configured' });
+      const userId = req.accountId;
+      const { zones, source, ...query } = req.query;
+      const numeric = (value: any) => value !== undefined && value !== '' ? Number(value) : undefined;
+      const criteria = {
+        operation: query.operation,
+        propertyType: query.propertyType,
+        budgetMin: numeric(query.budgetMin),
+        budgetMax: numeric(query.budgetMax),
+        currency: query.currency,
+        zones: zones ? String(zones).split(',') : undefined,
+        city: query.city,
+        rooms: numeric(query.rooms),
+        bathrooms: numeric(query.bathrooms),
+        limit: numeric(query.limit) || 20,
+      };
+
+      // source=index: búsqueda de texto completo y facetas sobre el índice local
+      if (source === 'index') {
+        const result = await propertyIndexService.search(userId, {
+          ...criteria,
+          query: query.q,
+          sort: query.sort,
+          page: numeric(query.page),
+        });
+        return res.json(result);
       }
 
-      const properties = await alterEstateService.searchProperties(settings.alterEstateToken, req.query);
-      res.json(properties);
+      const provider = await getProvider(req, res);
+      if (!provider) return;
+
+      const result = await provider.search(criteria);
+      res.json(result);
     } catch (error) {
       console.error('Error fetching properties:', error);
       res.status(500).json({ message: 'Failed to fetch properties' });
@@ -22,15 +62,14 @@ class CRMController {
 
   async getPropertyDetail(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
       const { slug } = req.params;
-      const settings = await storage.getUserSettings(userId);
-      
-      if (!settings?.alterEstateToken) {
-        return res.status(400).json({ message: 'AlterEstate token not configured' });
-      }
+      const provider = await getProvider(req, res);
+      if (!provider) return;
 
-      const property = await alterEstateService.getPropertyDetail(settings.alterEstateToken, slug);
+      const property = await provider.getProperty(slug);
+      if (!property) {
+        return res.status(404).json({ message: 'Property not found' });
+      }
       res.json(property);
     } catch (error) {
       console.error('Error fetching property detail:', error);
@@ -40,16 +79,20 @@ class CRMController {
 
   async createLead(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
-      const settings = await storage.getUserSettings(userId);
-      
-      if (!settings?.alterEstateToken) {
-        return res.status(400).json({ message: 'AlterEstate token not configured' });
-      }
+      const userId = req.accountId;
+      const provider = await getProvider(req, res);
+      if (!provider) return;
+
+      // Create lead in the provider's CRM (null id when the provider has no CRM)
+      const crmLead = await provider.createLead({
+        fullName: req.body.fullName,
+        phone: req.body.phone,
+        email: req.body.email,
+        propertyId: req.body.propertyUid,
+        notes: req.body.notes,
+        agentEmail: req.body.agentEmail,
+      });
 
-      // Create lead in AlterEstate
-      const alterEstateLead = await alterEstateService.createLead(settings.alterEstateToken, req.body);
-      
       // Store lead locally
       const lead = await storage.createLead({
         userId,
@@ -62,7 +105,9 @@ class CRMController {
         budgetCurrency: req.body.budgetCurrency,
         preferredLocation: req.body.preferredLocation,
         listingType: req.body.listingType,
-        alterEstateLeadId: alterEstateLead.data?.id || null,
+        alterEstateLeadId: crmLead.id,
+        assignedAgentEmail: req.body.agentEmail?.toLowerCase() || null,
+        assignedAt: req.body.agentEmail ? new Date() : null,
       });
 
       res.json(lead);
@@ -74,14 +119,10 @@ class CRMController {
 
   async getCities(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
-      const settings = await storage.getUserSettings(userId);
-      
-      if (!settings?.alterEstateToken) {
-        return res.status(400).json({ message: 'AlterEstate token not configured' });
-      }
+      const provider = await getProvider(req, res);
+      if (!provider) return;
 
-      const cities = await alterEstateService.getCities(settings.alterEstateToken);
+      const cities = await provider.getLocations();
       res.json(cities);
     } catch (error) {
       console.error('Error fetching cities:', error);
@@ -91,15 +132,11 @@ class CRMController {
 
   async getSectors(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
       const { cityId } = req.params;
-      const settings = await storage.getUserSettings(userId);
-      
-      if (!settings?.alterEstateToken) {
-        return res.status(400).json({ message: 'AlterEstate token not configured' });
-      }
+      const provider = await getProvider(req, res);
+      if (!provider) return;
 
-      const sectors = await alterEstateService.getSectors(settings.alterEstateToken, parseInt(cityId));
+      const sectors = await provider.getLocations(cityId);
       res.json(sectors);
     } catch (error) {
       console.error('Error fetching sectors:', error);
@@ -107,16 +144,37 @@ class CRMController {
     }
   }
 
-  async getAgents(req: any, res: Response) {
+  async getIndexStatus(req: any, res: Response) {
+    try {
+      const userId = req.accountId;
+      const status = await propertyIndexService.getStatus(userId);
+      res.json(status || { status: 'PENDING', propertyCount: 0, lastSyncedAt: null });
+    } catch (error) {
+      console.error('Error fetching property index status:', error);
+      res.status(500).json({ message: 'Failed to fetch property index status' });
+    }
+  }
+
+  async syncIndex(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
-      const settings = await storage.getUserSettings(userId);
-      
-      if (!settings?.alterEstateToken) {
-        return res.status(400).json({ message: 'AlterEstate token not configured' });
+      const userId = req.accountId;
+      const status = await propertyIndexService.syncUser(userId);
+      if (!status) {
+        return res.status(400).json({ message: 'Inventory provider not configured' });
       }
+      res.json(status);
+    } catch (error) {
+      console.error('Error syncing property index:', error);
+      res.status(500).json({ message: 'Failed to sync property index' });
+    }
+  }
+
+  async getAgents(req: any, res: Response) {
+    try {
+      const provider = await getProvider(req, res);
+      if (!provider) return;
 
-      const agents = await alterEstateService.getAgents(settings.alterEstateToken);
+      const agents = await provider.getAgents();
       res.json(agents);
     } catch (error) {
       console.error('Error fetching agents:', error);
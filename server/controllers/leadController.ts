@@ -0,0 +1,152 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { leadCrmSyncService } from '../services/leadCrmSyncService';
+import { leadDuplicateService } from '../services/leadDuplicateService';
+import { leadEnrichmentService } from '../services/leadEnrichmentService';
+import { leadPipelineService, stagesInputSchema } from '../services/leadPipelineService';
+
+const moveLeadSchema = z.object({
+  status: z.string().min(1),
+  lostReason: z.string().max(500).optional(),
+});
+
+const noteSchema = z.object({
+  content: z.string().trim().min(1, 'La nota está vacía').max(2000),
+});
+
+const assignAgentSchema = z.object({
+  agentEmail: z.string().trim().email('Email del agente inválido').nullable(),
+});
+
+const mergeSchema = z.object({
+  primaryId: z.string().min(1),
+  duplicateIds: z.array(z.string().min(1)).min(1, 'Selecciona al menos un prospecto para combinar').max(20),
+});
+
+class LeadController {
+  async getStages(req: any, res: Response) {
+    try {
+      res.json(await leadPipelineService.getStages(req.accountId));
+    } catch (error) {
+      console.error('Error fetching lead stages:', error);
+      res.status(500).json({ message: 'Failed to fetch lead stages' });
+    }
+  }
+
+  async updateStages(req: any, res: Response) {
+    try {
+      const parsed = stagesInputSchema.safeParse(req.body?.stages);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      res.json(await leadPipelineService.updateStages(req.accountId, parsed.data));
+    } catch (error) {
+      console.error('Error updating lead stages:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async moveLead(req: any, res: Response) {
+    try {
+      const parsed = moveLeadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const lead = await leadPipelineService.moveLead(req.accountId, req.params.id, parsed.data.status, {
+        actorId: req.user.claims.sub,
+        lostReason: parsed.data.lostReason,
+      });
+      res.json(lead);
+    } catch (error) {
+      console.error('Error moving lead:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async addNote(req: any, res: Response) {
+    try {
+      const parsed = noteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      res.json(await leadPipelineService.addNote(req.accountId, req.params.id, req.user.claims.sub, parsed.data.content));
+    } catch (error) {
+      console.error('Error adding lead note:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async assignAgent(req: any, res: Response) {
+    try {
+      const parsed = assignAgentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      res.json(await leadPipelineService.assignAgent(req.accountId, req.params.id, parsed.data.agentEmail));
+    } catch (error) {
+      console.error('Error assigning lead agent:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async syncWithCrm(req: any, res: Response) {
+    try {
+      const log = await leadCrmSyncService.syncNow(req.accountId, req.params.id);
+      res.json({ log });
+    } catch (error) {
+      console.error('Error syncing lead with CRM:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async getSyncLog(req: any, res: Response) {
+    try {
+      res.json(await leadCrmSyncService.getSyncLog(req.accountId, req.params.id));
+    } catch (error) {
+      console.error('Error fetching lead sync log:', error);
+      res.status(404).json({ message: (error as Error).message });
+    }
+  }
+
+  async getTimeline(req: any, res: Response) {
+    try {
+      res.json(await leadPipelineService.getTimeline(req.accountId, req.params.id));
+    } catch (error) {
+      console.error('Error fetching lead timeline:', error);
+      res.status(404).json({ message: (error as Error).message });
+    }
+  }
+
+  async getDuplicates(req: any, res: Response) {
+    try {
+      res.json(await leadDuplicateService.getDuplicates(req.accountId));
+    } catch (error) {
+      console.error('Error fetching duplicate leads:', error);
+      res.status(500).json({ message: 'Failed to fetch duplicate leads' });
+    }
+  }
+
+  async mergeLeads(req: any, res: Response) {
+    try {
+      const parsed = mergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      res.json(await leadDuplicateService.mergeLeads(req.accountId, parsed.data.primaryId, parsed.data.duplicateIds, req.user.claims.sub));
+    } catch (error) {
+      console.error('Error merging leads:', error);
+      res.status(400).json({ message: (error as Error).message });
+    }
+  }
+
+  async getFieldHistory(req: any, res: Response) {
+    try {
+      res.json(await leadEnrichmentService.getFieldHistory(req.accountId, req.params.id));
+    } catch (error) {
+      console.error('Error fetching lead field history:', error);
+      res.status(404).json({ message: (error as Error).message });
+    }
+  }
+}
+
+export const leadController = new LeadController();
@@ -0,0 +1,142 @@
+import { Response } from 'express';
+import { organizationService } from '../services/organizationService';
+import { notificationService } from '../services/notificationService';
+import { storage } from '../storage';
+
+class OrganizationController {
+  async getCurrent(req: any, res: Response) {
+    try {
+      const { organization, role, permissions } = req.organizationContext;
+      const organizations = await organizationService.getUserOrganizations(req.user.claims.sub);
+      res.json({ organization, role, permissions, organizations });
+    } catch (error) {
+      console.error('Error fetching organization:', error);
+      res.status(500).json({ message: 'Failed to fetch organization' });
+    }
+  }
+
+  async switchOrganization(req: any, res: Response) {
+    try {
+      const { organizationId } = req.body;
+      const member = await storage.getOrganizationMember(organizationId, req.user.claims.sub);
+      if (!member) {
+        return res.status(404).json({ message: 'Organization not found' });
+      }
+
+      req.session.organizationId = organizationId;
+      res.json({ success: true, organizationId });
+    } catch (error) {
+      console.error('Error switching organization:', error);
+      res.status(500).json({ message: 'Failed to switch organization' });
+    }
+  }
+
+  async updateOrganization(req: any, res: Response) {
+    try {
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      if (!name) {
+        return res.status(400).json({ message: 'El nombre es requerido' });
+      }
+
+      const organization = await storage.updateOrganization(req.organizationContext.organization.id, { name });
+      res.json(organization);
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      res.status(500).json({ message: 'Failed to update organization' });
+    }
+  }
+
+  async getMembers(req: any, res: Response) {
+    try {
+      const members = await organizationService.getMembers(req.organizationContext.organization.id);
+      res.json(members);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+      res.status(500).json({ message: 'Failed to fetch members' });
+    }
+  }
+
+  async updateMemberRole(req: any, res: Response) {
+    try {
+      await organizationService.updateMemberRole(req.organizationContext, req.params.userId, req.body.role);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error updating member role:', error);
+      res.status(400).json({ message: error.message || 'Failed to update member role' });
+    }
+  }
+
+  async updateMemberAvailability(req: any, res: Response) {
+    try {
+      if (typeof req.body.acceptsAssignments !== 'boolean') {
+        return res.status(400).json({ message: 'acceptsAssignments debe ser booleano' });
+      }
+      await organizationService.setAcceptsAssignments(req.organizationContext, req.params.userId, req.body.acceptsAssignments);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error updating member availability:', error);
+      res.status(400).json({ message: error.message || 'Failed to update member availability' });
+    }
+  }
+
+  async removeMember(req: any, res: Response) {
+    try {
+      await organizationService.removeMember(req.organizationContext, req.params.userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error removing member:', error);
+      res.status(400).json({ message: error.message || 'Failed to remove member' });
+    }
+  }
+
+  async getInvitations(req: any, res: Response) {
+    try {
+      const invitations = await storage.getPendingOrganizationInvitations(req.organizationContext.organization.id);
+      res.json(invitations.map(({ token, ...invitation }) => invitation));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({ message: 'Failed to fetch invitations' });
+    }
+  }
+
+  async createInvitation(req: any, res: Response) {
+    try {
+      const { email, role = 'agent' } = req.body;
+      const context = req.organizationContext;
+      const invitation = await organizationService.createInvitation(context, String(email || ''), role, req.user.claims.sub);
+
+      const inviteUrl = `${req.protocol}://${req.get('host')}/invite/${invitation.token}`;
+      await notificationService.sendOrganizationInvitation(invitation.email, context.organization.name, invitation.role, inviteUrl);
+
+      // El enlace se devuelve una sola vez para compartirlo si no hay SMTP configurado
+      const { token, ...rest } = invitation;
+      res.json({ ...rest, inviteUrl });
+    } catch (error: any) {
+      console.error('Error creating invitation:', error);
+      res.status(400).json({ message: error.message || 'Failed to create invitation' });
+    }
+  }
+
+  async revokeInvitation(req: any, res: Response) {
+    try {
+      await storage.revokeOrganizationInvitation(req.organizationContext.organization.id, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({ message: 'Failed to revoke invitation' });
+    }
+  }
+
+  async acceptInvitation(req: any, res: Response) {
+    try {
+      const organization = await organizationService.acceptInvitation(req.params.token, req.user.claims.sub);
+      req.session.organizationId = organization.id;
+      res.json({ success: true, organization });
+    } catch (error: any) {
+      console.error('Error accepting invitation:', error);
+      res.status(400).json({ message: error.message || 'Failed to accept invitation' });
+    }
+  }
+}
+
+export const organizationController = new OrganizationController();
@@ -2,10 +2,21 @@ import { Request, Response } from 'express';
 import { whatsappService } from '../services/whatsappService';
 import { aiService } from '../services/aiService';
 import { messageBufferService } from '../services/messageBufferService';
+import { savedSearchService } from '../services/savedSearchService';
 import { storage } from '../storage';
 import { constructWebhookUrl, logDomainInfo } from '../utils/domainDetection';
 import { internalWebhookService } from '../services/internalWebhookService';
 import { evolutionApiService } from '../services/evolutionApiService';
+import { resolveInventoryProviderType } from '../services/inventoryProvider';
+
+/**
+ * Las instancias pertenecen a la cuenta de la organización activa (req.accountId).
+ * Los handlers se registran sin bind, por eso es una función del módulo.
+ */
+async function isAccountInstance(req: any, instanceName: string): Promise<boolean> {
+  const instance = await storage.getWhatsappInstance(instanceName);
+  return Boolean(instance && instance.userId === req.accountId);
+}
 
 class WhatsAppController {
   constructor() {
@@ -18,24 +29,29 @@ class WhatsAppController {
 
   async createInstance(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const { instanceName } = req.body;
       
       if (!instanceName) {
         return res.status(400).json({ message: 'Instance name is required' });
       }
 
-      // Create instance in internal Evolution API using only internal events (no HTTP webhooks)
-      console.log(`🔗 Using internal events only for ${instanceName} (no HTTP webhooks)`);
-      const result = await whatsappService.createInstance(instanceName, undefined);
-
-      // Store in database
+      // Store in database first: the auth state is keyed by the instance id
       await storage.createWhatsappInstance({
         userId,
         instanceName,
         status: 'CONNECTING',
       });
 
+      // Create instance in internal Evolution API using only internal events (no HTTP webhooks)
+      console.log(`🔗 Using internal events only for ${instanceName} (no HTTP webhooks)`);
+      try {
+        await whatsappService.createInstance(instanceName, undefined);
+      } catch (error) {
+        await storage.deleteWhatsappInstance(instanceName);
+        throw error;
+      }
+
       // Configure internal event handling
       await internalWebhookService.setupInstanceEvents(instanceName, userId);
 
@@ -179,6 +195,9 @@ class WhatsAppController {
   async getQRCode(req: any, res: Response) {
     try {
       const { instanceName } = req.params;
+      if (!(await isAccountInstance(req, instanceName))) {
+        return res.status(404).json({ message: 'Instance not found', error: true, status: 'ERROR' });
+      }
       const qrData = await whatsappService.getQRCode(instanceName);
       
       // Solo actualizar en base de datos si hay un QR code válido
@@ -202,6 +221,9 @@ class WhatsAppController {
   async sendMessage(req: any, res: Response) {
     try {
       const { instanceName, number, message, isMediaMessage, mediaUrl, caption } = req.body;
+      if (!(await isAccountInstance(req, instanceName))) {
+        return res.status(404).json({ message: 'Instance not found' });
+      }
 
       let result;
       if (isMediaMessage && mediaUrl) {
@@ -220,6 +242,9 @@ class WhatsAppController {
   async getInstanceStatus(req: any, res: Response) {
     try {
       const { instanceName } = req.params;
+      if (!(await isAccountInstance(req, instanceName))) {
+        return res.status(404).json({ message: 'Instance not found' });
+      }
       const status = await whatsappService.getInstanceStatus(instanceName);
       
       // Update status in database using mapped status
@@ -236,6 +261,9 @@ class WhatsAppController {
   async logoutInstance(req: any, res: Response) {
     try {
       const { instanceName } = req.params;
+      if (!(await isAccountInstance(req, instanceName))) {
+        return res.status(404).json({ message: 'Instance not found' });
+      }
       const result = await whatsappService.logoutInstance(instanceName);
       
       // Siempre actualizar estado en base de datos
@@ -251,6 +279,9 @@ class WhatsAppController {
   async forceDeleteInstance(req: any, res: Response) {
     try {
       const { instanceName } = req.params;
+      if (!(await isAccountInstance(req, instanceName))) {
+        return res.status(404).json({ message: 'Instance not found' });
+      }
       
       // 🎯 RESOLVER: Use InstanceResolver for proper instance deletion with migration
       const { instanceResolver } = await import('../services/instanceResolver');
@@ -269,7 +300,7 @@ class WhatsAppController {
 
   async getUserInstances(req: any, res: Response) {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const instances = await storage.getUserWhatsappInstances(userId);
       res.json(instances);
     } catch (error) {
@@ -428,12 +459,12 @@ class WhatsAppController {
           
           // Process multimedia using AI
           if (messageType === 'AUDIO') {
-            const transcription = await aiService.transcribeAudio(mediaBuffer, mimeType);
+            const transcription = await aiService.transcribeAudio(mediaBuffer, mimeType, instance.userId);
             finalMessageContent = `Transcripción de audio: ${transcription}`;
             console.log(`🎤 Audio transcribed: "${transcription}"`);
           } else if (messageType === 'IMAGE') {
             const imageBase64 = mediaBuffer.toString('base64');
-            const imageAnalysis = await aiService.analyzeImage(imageBase64);
+            const imageAnalysis = await aiService.analyzeImage(imageBase64, instance.userId);
             finalMessageContent = `Análisis de imagen: ${imageAnalysis}`;
             console.log(`🖼️ Image analyzed: "${imageAnalysis}"`);
           }
@@ -452,27 +483,36 @@ class WhatsAppController {
         return;
       }
 
+      // Baja de las alertas de búsquedas guardadas ("NO MÁS ALERTAS", "STOP")
+      if (await savedSearchService.handleOptOut(conversation.id, messageContent, instance.instanceName)) {
+        return;
+      }
+
       // Get user settings for buffer configuration
       const settings = await storage.getUserSettings(instance.userId);
       const bufferTime = settings?.bufferTime || 10;
 
       console.log(`⏱️ Using buffer time: ${bufferTime}s`);
 
-      // Add to buffer
-      messageBufferService.addMessageToBuffer(
+      // Add to buffer (persisted, survives restarts)
+      await messageBufferService.addMessageToBuffer(
         conversation.id,
         finalMessageContent,
         message.key.id || `msg_${Date.now()}`,
-        instance.userId
+        instance.userId,
+        rawRemoteJid
       );
 
-      // Process if buffer is ready
-      const bufferedMessage = await messageBufferService.processBufferedMessages(conversation.id);
-      if (bufferedMessage) {
-        console.log('🚀 Processing buffered message with AI');
-        await this.processAIResponse(instance, conversation, bufferedMessage, settings);
-      } else {
-        console.log('⏳ Message added to buffer, waiting for more messages or timeout');
+      // Process right away with this controller's response flow
+      const bufferedMessage = await messageBufferService.processBufferedMessages(conversation.id, {
+        force: true,
+        processor: async ({ combinedMessage }) => {
+          console.log('🚀 Processing buffered message with AI');
+          await this.processAIResponse(instance, conversation, combinedMessage, settings);
+        },
+      });
+      if (!bufferedMessage) {
+        console.log('⏳ Buffered messages already claimed by another worker');
       }
 
       // Emit real-time update
@@ -517,6 +557,8 @@ class WhatsAppController {
         alterEstateEnabled: settings?.alterEstateEnabled || false,
         alterEstateToken: settings?.alterEstateToken,
         alterEstateApiKey: settings?.alterEstateApiKey,
+        // Inventario propio (SQL, Airtable, Google Sheets, CSV, JSON)
+        databaseType: settings?.databaseType,
         userLocation: conversation.clientPhone?.includes('1829') ? 'Santo Domingo' : undefined,
       };
 
@@ -533,7 +575,7 @@ class WhatsAppController {
       const { AIService } = await import('../services/aiService');
       const pendingMedia = AIService.getPendingMedia(conversation.id);
       
-      if (pendingMedia && context.alterEstateToken) {
+      if (pendingMedia) {
         if (pendingMedia.type === 'carousel') {
           console.log('🎠 [WHATSAPP] Pending carousel detected, sending property cards...');
           await this.sendPropertyCarousel(pendingMedia.properties, instance, conversation);
@@ -544,7 +586,7 @@ class WhatsAppController {
       }
       
       // Also check legacy detection method for backwards compatibility
-      if (aiResponse.includes('Te estoy preparando las fotos') && context.alterEstateToken) {
+      if (aiResponse.includes('Te estoy preparando las fotos') && resolveInventoryProviderType(context)) {
         console.log('📸 [WHATSAPP] AI requested property media (legacy method), processing...');
         await this.handlePropertyMediaRequest(message, instance, conversation, context);
       }
@@ -557,7 +599,7 @@ class WhatsAppController {
       console.log(`✅ AI response received: "${aiResponse}"`);
 
       // Check if user shows interest for lead creation
-      if (this.detectUserInterest(message) && context.alterEstateEnabled) {
+      if (this.detectUserInterest(message) && resolveInventoryProviderType(context)) {
         console.log('💡 [WHATSAPP] User interest detected, creating lead');
         await this.createLeadFromInterest(message, instance, conversation, context);
       }
@@ -839,13 +881,11 @@ class WhatsAppController {
       console.log(`🏠 [WHATSAPP] Sending media for property: ${propertyId}`);
       
       // Get property details including images
-      const { alterEstateService } = await import('../services/alterEstateService');
-      
-      // First, search for the property to get its slug
-      const searchResult = await alterEstateService.searchProperties(context.alterEstateToken, {});
-      const property = searchResult.results.find(p => p.uid === propertyId);
+      const { getInventoryProvider } = await import('../services/inventoryProvider');
+      const provider = await getInventoryProvider(instance.userId);
+      const propertyDetail = provider ? await provider.getProperty(propertyId) : null;
       
-      if (!property) {
+      if (!propertyDetail) {
         console.log('❌ [WHATSAPP] Property not found');
         await whatsappService.sendMessage(
           instance.instanceName, 
@@ -855,14 +895,11 @@ class WhatsAppController {
         return;
       }
       
-      // Get detailed property information including gallery
-      const propertyDetail = await alterEstateService.getPropertyDetail(context.alterEstateToken, property.slug);
-      
-      if (propertyDetail.gallery_image && propertyDetail.gallery_image.length > 0) {
-        console.log(`📸 [WHATSAPP] Found ${propertyDetail.gallery_image.length} images for property`);
+      if (propertyDetail.media.images.length > 0) {
+        console.log(`📸 [WHATSAPP] Found ${propertyDetail.media.images.length} images for property`);
         
         // Send up to 5 images to avoid overwhelming the user
-        const imagesToSend = propertyDetail.gallery_image.slice(0, 5);
+        const imagesToSend = propertyDetail.media.images.slice(0, 5);
         
         for (let i = 0; i < imagesToSend.length; i++) {
           const imageUrl = imagesToSend[i];
@@ -874,7 +911,7 @@ class WhatsAppController {
               conversation.clientPhone,
               imageUrl,
               'image',
-              i === 0 ? `📸 Fotos de ${propertyDetail.name}` : ''
+              i === 0 ? `📸 Fotos de ${propertyDetail.title}` : ''
             );
             
             // Small delay between images
@@ -891,7 +928,7 @@ class WhatsAppController {
         await whatsappService.sendMessage(
           instance.instanceName,
           conversation.clientPhone,
-          `📸 Te envié ${imagesToSend.length} fotos de ${propertyDetail.name}. ¿Te gustaría más información o programar una visita?`
+          `📸 Te envié ${imagesToSend.length} fotos de ${propertyDetail.title}. ¿Te gustaría más información o programar una visita?`
         );
         
       } else {
@@ -929,7 +966,7 @@ class WhatsAppController {
   }
 
   /**
-   * Crear lead en AlterEstate cuando hay interés
+   * Crear lead en el CRM del inventario cuando hay interés
    */
   private async createLeadFromInterest(
     message: string, 
@@ -949,7 +986,7 @@ class WhatsAppController {
       
       // Crear lead usando el servicio de IA
       const leadCreated = await aiService.createLeadFromConversation(
-        context,
+        instance.userId,
         conversation.clientPhone,
         clientName,
         propertyUid,
@@ -1016,27 +1053,26 @@ class WhatsAppController {
         alterEstateApiKey: settings?.alterEstateApiKey,
       };
       
-      if (!context.alterEstateEnabled || !context.alterEstateToken) {
+      const { createInventoryProvider } = await import('../services/inventoryProvider');
+      const provider = createInventoryProvider(instance.userId, settings);
+      
+      if (!provider) {
         await whatsappService.sendMessage(
           instance.instanceName,
           conversation.clientPhone,
-          'Para acceder a los detalles de la propiedad, necesito que AlterEstate CRM esté configurado.'
+          'Para acceder a los detalles de la propiedad, necesito que el inventario de propiedades esté configurado.'
         );
         return;
       }
-
-      const { alterEstateService } = await import('../services/alterEstateService');
       
       if (action === 'info') {
         // Enviar información detallada de la propiedad
         console.log(`📋 [WHATSAPP] Sending detailed info for property: ${propertyUid}`);
         
         try {
-          // Buscar la propiedad por UID
-          const searchResult = await alterEstateService.searchProperties(context.alterEstateToken, {});
-          const property = searchResult.results.find(p => p.uid === propertyUid);
+          const propertyDetail = await provider.getProperty(propertyUid);
           
-          if (!property) {
+          if (!propertyDetail) {
             await whatsappService.sendMessage(
               instance.instanceName,
               conversation.clientPhone,
@@ -1045,29 +1081,22 @@ class WhatsAppController {
             return;
           }
           
-          // Obtener detalles completos
-          const propertyDetail = await alterEstateService.getPropertyDetail(context.alterEstateToken, property.slug);
-          const propertyUrl = alterEstateService.getPropertyPublicUrl(
-            property.slug, 
-            settings?.realEstateWebsiteUrl || undefined
-          );
+          const { rooms, bathrooms, parking, area } = propertyDetail.specifications;
           
           // Formatear información detallada
-          const detailsMessage = `🏠 **${propertyDetail.name}**
+          const detailsMessage = `🏠 **${propertyDetail.title}**
 
-💰 **Precio**: ${propertyDetail.currency_sale} ${propertyDetail.sale_price.toLocaleString()}
-🏢 **Tipo**: ${propertyDetail.category.name}
-🏠 **Habitaciones**: ${propertyDetail.room || 'N/A'}
-🚿 **Baños**: ${propertyDetail.bathroom || 'N/A'}
-🚗 **Estacionamientos**: ${propertyDetail.parkinglot || 'N/A'}
-📐 **Área**: ${propertyDetail.property_area ? propertyDetail.property_area + ' m²' : 'N/A'}
-📍 **Ubicación**: ${propertyDetail.sector}, ${propertyDetail.city}
+💰 **Precio**: ${propertyDetail.priceLabel}
+🏢 **Tipo**: ${propertyDetail.propertyType || 'N/A'}
+🏠 **Habitaciones**: ${rooms || 'N/A'}
+🚿 **Baños**: ${bathrooms || 'N/A'}
+🚗 **Estacionamientos**: ${parking || 'N/A'}
+📐 **Área**: ${area ? area + ' m²' : 'N/A'}
+📍 **Ubicación**: ${propertyDetail.location.label}
 
 📝 **Descripción**: 
-${propertyDetail.description || propertyDetail.short_description}
-
-🔗 **Ver en línea**: ${propertyUrl}
-
+${propertyDetail.description}
+${propertyDetail.url ? `\n🔗 **Ver en línea**: ${propertyDetail.url}\n` : ''}
 ¿Te gustaría agendar una visita o ver las fotos de esta propiedad?`;
 
           await whatsappService.sendMessage(
@@ -1090,11 +1119,9 @@ ${propertyDetail.description || propertyDetail.short_description}
         console.log(`📸 [WHATSAPP] Sending photos for property: ${propertyUid}`);
         
         try {
-          // Buscar la propiedad y obtener media
-          const searchResult = await alterEstateService.searchProperties(context.alterEstateToken, {});
-          const property = searchResult.results.find(p => p.uid === propertyUid);
+          const media = await provider.getMedia(propertyUid);
           
-          if (!property) {
+          if (!media) {
             await whatsappService.sendMessage(
               instance.instanceName,
               conversation.clientPhone,
@@ -1103,12 +1130,9 @@ ${propertyDetail.description || propertyDetail.short_description}
             return;
           }
           
-          // Obtener media de la propiedad
-          const media = await alterEstateService.getPropertyMedia(context.alterEstateToken, property.slug);
-          
           // Enviar fotos usando el sistema existente
           const mediaQueue = {
-            propertySlug: property.slug,
+            propertySlug: propertyUid,
             images: media.images,
             featuredImage: media.featuredImage,
             virtualTour: media.virtualTour
@@ -1130,9 +1154,7 @@ ${propertyDetail.description || propertyDetail.short_description}
         console.log(`🗓️ [WHATSAPP] Scheduling visit for property: ${propertyUid}`);
         
         try {
-          // Buscar la propiedad por UID
-          const searchResult = await alterEstateService.searchProperties(context.alterEstateToken, {});
-          const property = searchResult.results.find(p => p.uid === propertyUid);
+          const property = await provider.getProperty(propertyUid);
           
           if (!property) {
             await whatsappService.sendMessage(
@@ -1146,20 +1168,20 @@ ${propertyDetail.description || propertyDetail.short_description}
           // Crear lead automáticamente si hay interés en visita
           const { aiService } = await import('../services/aiService');
           await aiService.createLeadFromConversation(
-            context,
+            instance.userId,
             conversation.clientPhone,
             conversation.clientName || 'Cliente WhatsApp',
-            propertyUid,
-            `Interesado en agendar visita para propiedad: ${property.name}`
+            property.id,
+            `Interesado en agendar visita para propiedad: ${property.title}`
           );
           
           // Mensaje para coordinar la visita
-          const visitMessage = `🗓️ **Agendar Visita - ${property.name}**
+          const visitMessage = `🗓️ **Agendar Visita - ${property.title}**
 
 ¡Perfecto! Me encanta que te interese esta propiedad. 
 
-📍 **Ubicación**: ${property.sector}, ${property.city}
-💰 **Precio**: ${property.currency_sale} ${property.sale_price.toLocaleString()}
+📍 **Ubicación**: ${property.location.label}
+💰 **Precio**: ${property.priceLabel}
 
 Para coordinar tu visita, necesito algunos datos:
 
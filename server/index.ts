@@ -3,6 +3,13 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { evolutionApiService } from "./services/evolutionApiService";
 import { internalWebhookService } from "./services/internalWebhookService";
+import { propertyIndexService } from "./services/propertyIndexService";
+import { savedSearchService } from "./services/savedSearchService";
+import { escalationSlaService } from "./services/escalationSlaService";
+import { calDavSyncService } from "./services/calDavSyncService";
+import { appointmentReminderService } from "./services/appointmentReminderService";
+import { leadScoringService } from "./services/leadScoringService";
+import { leadCrmSyncService } from "./services/leadCrmSyncService";
 
 const app = express();
 app.use(express.json());
@@ -55,6 +62,27 @@ app.use((req, res, next) => {
     }
   }, 3000); // Wait 3 seconds for services to be fully initialized
 
+  // Periodic mirror of each tenant's inventory into the local property index
+  propertyIndexService.start();
+
+  // Re-run saved searches and alert clients about new or price-reduced listings
+  savedSearchService.start();
+
+  // Re-notify, alert the backup contact or return escalated chats to the AI when nobody answers
+  escalationSlaService.start();
+
+  // Two-way sync of appointments with each agent's CalDAV calendar
+  calDavSyncService.start();
+
+  // Send persisted 24h/2h/30m appointment reminders to clients and agents
+  appointmentReminderService.start();
+
+  // Keep lead scores fresh as chat activity ages
+  leadScoringService.start();
+
+  // Two-way sync of lead stage, assigned agent and notes with AlterEstate
+  leadCrmSyncService.start();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
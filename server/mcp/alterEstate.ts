@@ -1123,6 +1123,9 @@ class AlterEstateMCPServer {
           phone: property.agent?.phone || '',
           email: property.agent?.email || ''
         },
+        category: property.category?.name || '',
+        forSale: property.forSale || false,
+        forRent: property.forRent || property.forRental || false,
         isProject: property.is_project_v2 === true,
         propertyUrl: `${this.userSettings?.realEstateWebsiteUrl || 'https://habitaterd.com'}/propiedad/${property.slug}`
       };
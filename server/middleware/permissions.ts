@@ -0,0 +1,25 @@
+import { Response, NextFunction } from 'express';
+import { organizationService, type Permission } from '../services/organizationService';
+
+/**
+ * Se usa después de isAuthenticated. Resuelve la organización activa del usuario y deja en
+ * req.organizationContext la membresía y en req.accountId el userId bajo el que se guardan
+ * los datos de la organización; responde 403 si el rol no tiene el permiso.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const context = await organizationService.resolveContext(req.user.claims.sub, req.session?.organizationId);
+      if (!context.permissions.includes(permission)) {
+        return res.status(403).json({ message: 'Forbidden', permission, role: context.role });
+      }
+
+      req.organizationContext = context;
+      req.accountId = context.organization.accountId;
+      next();
+    } catch (error) {
+      console.error('❌ [ORG] Error resolving organization:', error);
+      res.status(500).json({ message: 'Failed to resolve organization' });
+    }
+  };
+}
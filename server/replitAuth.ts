@@ -117,7 +117,13 @@ export async function setupAuth(app: Express) {
     const finalStrategy = `replitauth:${fallbackDomain}`;
     
     console.log('🔐 [AUTH] Using strategy:', finalStrategy);
-    
+
+    // Volver a la página de origen (p. ej. /invite/:token) después del login; solo rutas locales
+    const returnTo = req.query.returnTo;
+    if (typeof returnTo === 'string' && /^\/(?![\/\\])/.test(returnTo)) {
+      (req.session as any).returnTo = returnTo;
+    }
+
     passport.authenticate(finalStrategy, {
       prompt: "login consent",
       scope: ["openid", "email", "profile", "offline_access"],
@@ -131,6 +137,7 @@ export async function setupAuth(app: Express) {
     passport.authenticate(finalStrategy, {
       successReturnToOrRedirect: "/",
       failureRedirect: "/api/auth/login",
+      keepSessionInfo: true, // conservar returnTo al regenerar la sesión
     })(req, res, next);
   });
 
@@ -6,14 +6,32 @@ import { setupAuth, isAuthenticated } from "./replitAuth";
 import { whatsappController } from "./controllers/whatsappController";
 import { crmController } from "./controllers/crmController";
 import { appointmentController } from "./controllers/appointmentController";
+import { leadController } from "./controllers/leadController";
+import { organizationController } from "./controllers/organizationController";
+import { knowledgeBaseService } from "./services/knowledgeBaseService";
+import { propertyIndexService } from "./services/propertyIndexService";
 import { validateRequest } from "./middleware/validation";
+import { requirePermission } from "./middleware/permissions";
 import { insertUserSettingsSchema } from "../shared/schema";
+import { applySecretUpdates, maskSecretSettings, redactSecretSettings, SECRET_SETTINGS_FIELDS } from "./utils/secretSettings";
 import axios from "axios";
 
+const INVENTORY_TEST_LIMIT = 5;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  // Los formularios no reciben los secretos guardados: si no envían uno nuevo se usa el almacenado
+  const withStoredSecrets = async (userId: string, body: Record<string, any>) => {
+    const settings = await storage.getUserSettings(userId);
+    const merged: Record<string, any> = { ...body };
+    for (const field of SECRET_SETTINGS_FIELDS) {
+      if (!merged[field] && settings?.[field]) merged[field] = settings[field];
+    }
+    return merged;
+  };
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -27,9 +45,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard routes
-  app.get('/api/dashboard/stats', isAuthenticated, async (req: any, res) => {
+  app.get('/api/dashboard/stats', isAuthenticated, requirePermission('dashboard:read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const stats = await storage.getDashboardStats(userId);
       res.json(stats);
     } catch (error) {
@@ -65,24 +83,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/settings', isAuthenticated, async (req: any, res) => {
+  app.get('/api/settings', isAuthenticated, requirePermission('settings:read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const settings = await storage.getUserSettings(userId);
-      res.json(settings || {});
+      res.json(settings ? maskSecretSettings(settings) : {});
     } catch (error) {
       console.error("Error fetching settings:", error);
       res.status(500).json({ message: "Failed to fetch settings" });
     }
   });
 
-  app.post('/api/settings', isAuthenticated, async (req: any, res) => {
+  app.post('/api/settings', isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      console.log('🔧 [SETTINGS] Incoming settings data:', JSON.stringify(req.body, null, 2));
+      const userId = req.accountId;
+      console.log('🔧 [SETTINGS] Incoming settings data:', JSON.stringify(redactSecretSettings(req.body), null, 2));
       
-      // Process the data to handle date conversions
-      const processedData = { ...req.body };
+      // Process the data to handle date conversions; secrets are write-only
+      const processedData = applySecretUpdates(req.body);
       
       // Handle lastRateUpdate date conversion
       if (processedData.lastRateUpdate) {
@@ -91,21 +109,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      console.log('🔧 [SETTINGS] Processed data:', JSON.stringify(processedData, null, 2));
+      console.log('🔧 [SETTINGS] Processed data:', JSON.stringify(redactSecretSettings(processedData), null, 2));
       
       const settings = await storage.upsertUserSettings({ userId, ...processedData });
       console.log('✅ [SETTINGS] Settings saved successfully for user:', userId);
-      res.json(settings);
+      
+      const { inventoryService } = await import('./services/inventoryService');
+      inventoryService.clearCache(userId);
+      
+      // Resincronizar el índice de propiedades si cambió la fuente del inventario
+      const inventoryFields = ['alterEstateEnabled', 'alterEstateToken', 'databaseType', 'sqlConnectionString', 'airtableApiKey', 'airtableBaseId', 'googleSheetsId', 'inventoryTable'];
+      if (inventoryFields.some(field => field in processedData)) {
+        propertyIndexService.syncUser(userId).catch(error => {
+          console.error('❌ [INDEX] Background sync failed:', error);
+        });
+      }
+      
+      // Reindexar la base de conocimiento en segundo plano si cambiaron las fuentes
+      const trainingChanged = ['trainingEnabled', 'trainingUrls', 'trainingDocs'].some(field => field in processedData);
+      if (settings.trainingEnabled && trainingChanged) {
+        knowledgeBaseService.ingestUserSources(userId).catch(error => {
+          console.error('❌ [KB] Background ingestion failed:', error);
+        });
+      }
+      
+      res.json(maskSecretSettings(settings));
     } catch (error) {
       console.error("❌ [SETTINGS] Error updating settings:", error);
       res.status(500).json({ message: "Failed to update settings" });
     }
   });
 
+  // Knowledge base (RAG)
+  app.get('/api/knowledge', isAuthenticated, requirePermission('settings:read'), async (req: any, res) => {
+    try {
+      const userId = req.accountId;
+      const sources = await storage.getKnowledgeSources(userId);
+      res.json(sources);
+    } catch (error) {
+      console.error("Error fetching knowledge sources:", error);
+      res.status(500).json({ message: "Failed to fetch knowledge sources" });
+    }
+  });
+
+  app.post('/api/knowledge/ingest', isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
+    try {
+      const userId = req.accountId;
+      const result = await knowledgeBaseService.ingestUserSources(userId);
+      const sources = await storage.getKnowledgeSources(userId);
+      res.json({ ...result, sources });
+    } catch (error) {
+      console.error("Error ingesting knowledge sources:", error);
+      res.status(500).json({ message: "Failed to ingest knowledge sources" });
+    }
+  });
+
   // Exchange Rate Management
-  app.get("/api/exchange-rate", isAuthenticated, async (req: any, res) => {
+  app.get("/api/exchange-rate", isAuthenticated, requirePermission('properties:read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const settings = await storage.getUserSettings(userId);
       
       res.json({
@@ -118,20 +180,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/exchange-rate", isAuthenticated, async (req: any, res) => {
+  app.put("/api/exchange-rate", isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const { usdToRdRate } = req.body;
       
       if (!usdToRdRate || usdToRdRate <= 0) {
         return res.status(400).json({ message: "Invalid exchange rate" });
       }
       
-      // Get current settings and update only exchange rate fields
-      const currentSettings = await storage.getUserSettings(userId);
+      // Update only exchange rate fields
       await storage.upsertUserSettings({
         userId,
-        ...currentSettings,
         usdToRdRate,
         lastRateUpdate: new Date(),
       });
@@ -149,9 +209,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Currency Conversion Utility
-  app.post("/api/convert-currency", isAuthenticated, async (req: any, res) => {
+  app.post("/api/convert-currency", isAuthenticated, requirePermission('properties:read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const { amount, fromCurrency, toCurrency } = req.body;
       
       if (!amount || !fromCurrency || !toCurrency) {
@@ -270,9 +330,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST version for debugging (handles long slugs better)
-  app.post('/api/debug-property-data', async (req: any, res: any) => {
+  app.post('/api/debug-property-data', isAuthenticated, requirePermission('settings:write'), async (req: any, res: any) => {
     try {
-      const { slug, token } = req.body;
+      const { slug } = req.body;
+      // Sin token en el body se usa el guardado en la configuración de la organización
+      const token = req.body.token || (await storage.getUserSettings(req.accountId))?.alterEstateToken;
       
       if (!token) {
         return res.status(400).json({ error: 'Token requerido en el body' });
@@ -355,9 +417,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test AlterEstate read token only
-  app.post('/api/test-alterestate-read-token', isAuthenticated, async (req: any, res) => {
+  app.post('/api/test-alterestate-read-token', isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
     try {
-      const { alterEstateToken } = req.body;
+      const { alterEstateToken } = await withStoredSecrets(req.accountId, req.body);
       
       if (!alterEstateToken) {
         return res.status(400).json({ 
@@ -393,7 +455,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Obtener configuración del usuario para URL del sitio web
-        const userId = req.user.claims.sub;
+        const userId = req.accountId;
         const userSettings = await storage.getUserSettings(userId);
         const userWebsiteUrl = userSettings?.realEstateWebsiteUrl || '';
         
@@ -499,10 +561,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Probar el inventario propio con la configuración del formulario (sin guardarla)
+  app.post('/api/inventory/test', isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
+    try {
+      const userId = req.accountId;
+      const { inventoryService } = await import('./services/inventoryService');
+      const { createInventoryProvider } = await import('./services/inventoryProvider');
+
+      const settings = { ...(await withStoredSecrets(userId, req.body)), alterEstateEnabled: false };
+      const provider = req.body?.databaseType ? createInventoryProvider(userId, settings) : null;
+      if (!provider) {
+        return res.status(400).json({ message: "Configuración de inventario incompleta" });
+      }
+
+      // Basta con unas pocas filas para comprobar la conexión y el mapeo de columnas
+      const properties = inventoryService.createSource(settings)
+        ? await inventoryService.sampleProperties(settings, INVENTORY_TEST_LIMIT)
+        : (await provider.search({ limit: INVENTORY_TEST_LIMIT })).properties;
+      inventoryService.clearCache(userId);
+
+      res.json({
+        count: properties.length,
+        limit: INVENTORY_TEST_LIMIT,
+        sample: properties.slice(0, 3).map(({ raw, ...property }) => property),
+      });
+    } catch (error: any) {
+      console.error("Error testing inventory source:", error);
+      res.status(400).json({ message: error.message || "No se pudo leer el inventario" });
+    }
+  });
+
   // Test AlterEstate API key only
-  app.post('/api/test-alterestate-api-key', isAuthenticated, async (req: any, res) => {
+  app.post('/api/test-alterestate-api-key', isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
     try {
-      const { alterEstateApiKey } = req.body;
+      const { alterEstateApiKey } = await withStoredSecrets(req.accountId, req.body);
       
       if (!alterEstateApiKey) {
         return res.status(400).json({ 
@@ -597,9 +689,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test AlterEstate connection with detailed validation (legacy)
-  app.post('/api/test-alterestate-connection', isAuthenticated, async (req: any, res) => {
+  app.post('/api/test-alterestate-connection', isAuthenticated, requirePermission('settings:write'), async (req: any, res) => {
     try {
-      const { alterEstateToken, alterEstateApiKey, alterEstateCompanyId } = req.body;
+      const { alterEstateToken, alterEstateApiKey, alterEstateCompanyId } = await withStoredSecrets(req.accountId, req.body);
       
       if (!alterEstateToken) {
         return res.status(400).json({ 
@@ -755,17 +847,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // WhatsApp routes
-  app.post('/api/whatsapp/create-instance', isAuthenticated, whatsappController.createInstance);
-  app.get('/api/whatsapp/qr-code/:instanceName', isAuthenticated, whatsappController.getQRCode);
-  app.post('/api/whatsapp/send-message', isAuthenticated, whatsappController.sendMessage);
-  app.get('/api/whatsapp/instance-status/:instanceName', isAuthenticated, whatsappController.getInstanceStatus);
-  app.delete('/api/whatsapp/logout/:instanceName', isAuthenticated, whatsappController.logoutInstance);
-  app.delete('/api/whatsapp/force-delete/:instanceName', isAuthenticated, whatsappController.forceDeleteInstance);
-  app.get('/api/whatsapp/instances', isAuthenticated, whatsappController.getUserInstances);
-  app.get('/api/whatsapp/test-connection', isAuthenticated, whatsappController.testConnection);
-  app.get('/api/whatsapp/diagnose', isAuthenticated, whatsappController.diagnoseSystem);
+  app.post('/api/whatsapp/create-instance', isAuthenticated, requirePermission('whatsapp:manage'), whatsappController.createInstance);
+  app.get('/api/whatsapp/qr-code/:instanceName', isAuthenticated, requirePermission('whatsapp:manage'), whatsappController.getQRCode);
+  app.post('/api/whatsapp/send-message', isAuthenticated, requirePermission('conversations:write'), whatsappController.sendMessage);
+  app.get('/api/whatsapp/instance-status/:instanceName', isAuthenticated, requirePermission('whatsapp:read'), whatsappController.getInstanceStatus);
+  app.delete('/api/whatsapp/logout/:instanceName', isAuthenticated, requirePermission('whatsapp:manage'), whatsappController.logoutInstance);
+  app.delete('/api/whatsapp/force-delete/:instanceName', isAuthenticated, requirePermission('whatsapp:manage'), whatsappController.forceDeleteInstance);
+  app.get('/api/whatsapp/instances', isAuthenticated, requirePermission('whatsapp:read'), whatsappController.getUserInstances);
+  app.get('/api/whatsapp/test-connection', isAuthenticated, requirePermission('whatsapp:read'), whatsappController.testConnection);
+  app.get('/api/whatsapp/diagnose', isAuthenticated, requirePermission('whatsapp:manage'), whatsappController.diagnoseSystem);
   app.get('/api/whatsapp/diagnose-public', whatsappController.diagnoseSystem);
-  app.post('/api/whatsapp/initialize-instances', isAuthenticated, whatsappController.initializeInstances);
+  app.post('/api/whatsapp/initialize-instances', isAuthenticated, requirePermission('whatsapp:manage'), whatsappController.initializeInstances);
   app.post('/api/whatsapp/initialize-instances-public', whatsappController.initializeInstances);
   app.post('/api/whatsapp/simulate-message', whatsappController.simulateIncomingMessage);
 
@@ -900,11 +992,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WhatsApp webhook
   app.post('/webhook/whatsapp/:instanceName', whatsappController.handleWebhook);
 
+  // Organization routes
+  app.get('/api/organizations/current', isAuthenticated, requirePermission('members:read'), organizationController.getCurrent);
+  app.post('/api/organizations/switch', isAuthenticated, organizationController.switchOrganization);
+  app.patch('/api/organizations/current', isAuthenticated, requirePermission('organization:manage'), organizationController.updateOrganization);
+  app.get('/api/organizations/members', isAuthenticated, requirePermission('members:read'), organizationController.getMembers);
+  app.patch('/api/organizations/members/:userId', isAuthenticated, requirePermission('members:manage'), organizationController.updateMemberRole);
+  app.patch('/api/organizations/members/:userId/availability', isAuthenticated, requirePermission('members:read'), organizationController.updateMemberAvailability);
+  app.delete('/api/organizations/members/:userId', isAuthenticated, requirePermission('members:manage'), organizationController.removeMember);
+  app.get('/api/organizations/invitations', isAuthenticated, requirePermission('members:manage'), organizationController.getInvitations);
+  app.post('/api/organizations/invitations', isAuthenticated, requirePermission('members:manage'), organizationController.createInvitation);
+  app.delete('/api/organizations/invitations/:id', isAuthenticated, requirePermission('members:manage'), organizationController.revokeInvitation);
+  app.post('/api/organizations/invitations/:token/accept', isAuthenticated, organizationController.acceptInvitation);
+
   // Conversations routes
-  app.get('/api/conversations', isAuthenticated, async (req: any, res) => {
+  app.get('/api/conversations', isAuthenticated, requirePermission('conversations:read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const conversations = await storage.getUserConversations(userId);
+      const userId = req.accountId;
+      // ?assigned=me: solo las conversaciones de las que es responsable quien consulta
+      const conversations = await storage.getUserConversations(userId, {
+        assignedTo: req.query.assigned === 'me' ? req.user.claims.sub : undefined,
+      });
       res.json(conversations);
     } catch (error) {
       console.error("Error fetching conversations:", error);
@@ -912,9 +1020,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/conversations/:id/messages', isAuthenticated, async (req: any, res) => {
+  app.get('/api/conversations/:id/messages', isAuthenticated, requirePermission('conversations:read'), async (req: any, res) => {
     try {
       const { id } = req.params;
+      const conversation = await storage.getConversationById(id);
+      if (!conversation || conversation.userId !== req.accountId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
       const messages = await storage.getConversationMessages(id);
       res.json(messages);
     } catch (error) {
@@ -924,11 +1037,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send message to conversation (manual agent control)
-  app.post('/api/conversations/:id/send', isAuthenticated, async (req: any, res) => {
+  app.post('/api/conversations/:id/send', isAuthenticated, requirePermission('conversations:write'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { message, type = 'text' } = req.body;
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
 
       if (!message || !message.trim()) {
         return res.status(400).json({ message: "Message content is required" });
@@ -960,13 +1073,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         whatsappInstanceId: conversation.whatsappInstanceId,
         messageId: `manual_${Date.now()}`,
         fromMe: true,
+        sentByAgent: true,
         messageType: type,
         content: message.trim(),
         timestamp: new Date(),
       });
 
-      // Update conversation last message time
-      await storage.updateConversationLastMessage(id);
+      // Update conversation last message time (also stops the escalation SLA)
+      await storage.recordAgentMessage(id);
 
       console.log(`✅ [MANUAL] Message sent by agent to conversation ${id}`);
       res.json({ 
@@ -982,11 +1096,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Toggle AI escalation for conversation (manual control)
-  app.post('/api/conversations/:id/escalate', isAuthenticated, async (req: any, res) => {
+  app.post('/api/conversations/:id/escalate', isAuthenticated, requirePermission('conversations:write'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { escalated } = req.body;
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
 
       // Verify conversation belongs to user
       const conversation = await storage.getConversationById(id);
@@ -996,9 +1110,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Update escalation status
       await storage.updateConversationEscalation(id, escalated);
+
+      // Quien toma el control manual queda como responsable si nadie lo era
+      if (escalated && !conversation.assignedTo) {
+        await storage.assignConversation(id, req.user.claims.sub);
+      }
       
       const action = escalated ? "escalated to manual control" : "returned to AI control";
-      console.log(`🔄 [ESCALATION] Conversation ${id} ${action} by user ${userId}`);
+      console.log(`🔄 [ESCALATION] Conversation ${id} ${action} by user ${req.user.claims.sub}`);
 
       res.json({ 
         success: true, 
@@ -1012,23 +1131,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reassign conversation (null releases it)
+  app.patch('/api/conversations/:id/assignee', isAuthenticated, requirePermission('conversations:write'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const assignedTo = req.body.userId ?? null;
+      const actorId = req.user.claims.sub;
+
+      if (assignedTo !== null && typeof assignedTo !== 'string') {
+        return res.status(400).json({ message: "userId must be a string or null" });
+      }
+
+      const conversation = await storage.getConversationById(id);
+      if (!conversation || conversation.userId !== req.accountId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      // Sin members:manage solo se puede tomar o soltar una conversación propia o libre
+      const canManage = req.organizationContext.permissions.includes('members:manage');
+      const ownsOrFree = !conversation.assignedTo || conversation.assignedTo === actorId;
+      if (!canManage && (!ownsOrFree || (assignedTo !== null && assignedTo !== actorId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const { conversationRoutingService } = await import('./services/conversationRoutingService');
+      await conversationRoutingService.assign(conversation, req.organizationContext.organization.id, assignedTo, actorId);
+      res.json({ success: true, assignedTo });
+    } catch (error: any) {
+      console.error("Error assigning conversation:", error);
+      res.status(400).json({ message: error.message || "Failed to assign conversation" });
+    }
+  });
+
   // CRM routes
-  app.get('/api/crm/properties', isAuthenticated, crmController.getProperties);
-  app.get('/api/crm/properties/:slug', isAuthenticated, crmController.getPropertyDetail);
-  app.post('/api/crm/leads', isAuthenticated, crmController.createLead);
-  app.get('/api/crm/locations/cities', isAuthenticated, crmController.getCities);
-  app.get('/api/crm/locations/sectors/:cityId', isAuthenticated, crmController.getSectors);
-  app.get('/api/crm/agents', isAuthenticated, crmController.getAgents);
+  app.get('/api/crm/index/status', isAuthenticated, requirePermission('properties:read'), crmController.getIndexStatus);
+  app.post('/api/crm/index/sync', isAuthenticated, requirePermission('properties:sync'), crmController.syncIndex);
+  app.get('/api/crm/properties', isAuthenticated, requirePermission('properties:read'), crmController.getProperties);
+  app.get('/api/crm/properties/:slug', isAuthenticated, requirePermission('properties:read'), crmController.getPropertyDetail);
+  app.post('/api/crm/leads', isAuthenticated, requirePermission('leads:write'), crmController.createLead);
+  app.get('/api/crm/locations/cities', isAuthenticated, requirePermission('properties:read'), crmController.getCities);
+  app.get('/api/crm/locations/sectors/:cityId', isAuthenticated, requirePermission('properties:read'), crmController.getSectors);
+  app.get('/api/crm/agents', isAuthenticated, requirePermission('properties:read'), crmController.getAgents);
 
   // Appointments routes
-  app.post('/api/appointments', isAuthenticated, appointmentController.createAppointment);
-  app.get('/api/appointments', isAuthenticated, appointmentController.getUserAppointments);
-  app.patch('/api/appointments/:id/status', isAuthenticated, appointmentController.updateStatus);
+  app.post('/api/appointments', isAuthenticated, requirePermission('appointments:write'), appointmentController.createAppointment);
+  app.get('/api/appointments', isAuthenticated, requirePermission('appointments:read'), appointmentController.getUserAppointments);
+  app.patch('/api/appointments/:id/status', isAuthenticated, requirePermission('appointments:write'), appointmentController.updateStatus);
+  app.post('/api/appointments/:id/reschedule', isAuthenticated, requirePermission('appointments:write'), appointmentController.rescheduleAppointment);
+  app.post('/api/appointments/:id/cancel', isAuthenticated, requirePermission('appointments:write'), appointmentController.cancelAppointment);
+  app.get('/api/appointments/:id/history', isAuthenticated, requirePermission('appointments:read'), appointmentController.getHistory);
+
+  // Calendar availability routes
+  app.get('/api/calendar/availability', isAuthenticated, requirePermission('appointments:read'), appointmentController.getAvailability);
+  app.get('/api/calendar/schedule', isAuthenticated, requirePermission('appointments:read'), appointmentController.getSchedule);
+  app.put('/api/calendar/schedule', isAuthenticated, requirePermission('appointments:write'), appointmentController.updateSchedule);
+  app.get('/api/calendar/busy-blocks', isAuthenticated, requirePermission('appointments:read'), appointmentController.getBusyBlocks);
+  app.post('/api/calendar/busy-blocks', isAuthenticated, requirePermission('appointments:write'), appointmentController.createBusyBlock);
+  app.delete('/api/calendar/busy-blocks/:id', isAuthenticated, requirePermission('appointments:write'), appointmentController.deleteBusyBlock);
+
+  // Calendar sync routes (el feed ICS es público: el token hace de credencial)
+  app.get('/api/calendar/connection', isAuthenticated, requirePermission('appointments:read'), appointmentController.getCalendarConnection);
+  app.put('/api/calendar/connection', isAuthenticated, requirePermission('appointments:write'), appointmentController.updateCalendarConnection);
+  app.post('/api/calendar/connection/sync', isAuthenticated, requirePermission('appointments:write'), appointmentController.syncCalendarConnection);
+  app.post('/api/calendar/feed/rotate', isAuthenticated, requirePermission('appointments:write'), appointmentController.rotateCalendarFeed);
+  app.get('/api/calendar/feed/:token.ics', appointmentController.getCalendarFeed);
 
   // Leads routes
-  app.get('/api/leads', isAuthenticated, async (req: any, res) => {
+  app.get('/api/leads', isAuthenticated, requirePermission('leads:read'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.accountId;
       const leads = await storage.getUserLeads(userId);
       res.json(leads);
     } catch (error) {
@@ -1037,6 +1208,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lead pipeline routes
+  app.get('/api/leads/stages', isAuthenticated, requirePermission('leads:read'), leadController.getStages);
+  app.put('/api/leads/stages', isAuthenticated, requirePermission('settings:write'), leadController.updateStages);
+  app.get('/api/leads/duplicates', isAuthenticated, requirePermission('leads:read'), leadController.getDuplicates);
+  app.post('/api/leads/merge', isAuthenticated, requirePermission('leads:write'), leadController.mergeLeads);
+  app.patch('/api/leads/:id/stage', isAuthenticated, requirePermission('leads:write'), leadController.moveLead);
+  app.get('/api/leads/:id/timeline', isAuthenticated, requirePermission('leads:read'), leadController.getTimeline);
+  app.get('/api/leads/:id/field-history', isAuthenticated, requirePermission('leads:read'), leadController.getFieldHistory);
+  app.post('/api/leads/:id/notes', isAuthenticated, requirePermission('leads:write'), leadController.addNote);
+  app.patch('/api/leads/:id/agent', isAuthenticated, requirePermission('leads:write'), leadController.assignAgent);
+  app.post('/api/leads/:id/crm-sync', isAuthenticated, requirePermission('leads:write'), leadController.syncWithCrm);
+  app.get('/api/leads/:id/sync-log', isAuthenticated, requirePermission('leads:read'), leadController.getSyncLog);
+
   const httpServer = createServer(app);
 
   // WebSocket setup for real-time messaging
@@ -0,0 +1,109 @@
+/**
+ * Rotación de la llave maestra de datos.
+ *
+ * 1. Mover la llave actual a DATA_ENCRYPTION_PREVIOUS_KEYS ("id:llave") y configurar la nueva
+ *    en DATA_ENCRYPTION_KEY con un DATA_ENCRYPTION_KEY_ID distinto.
+ * 2. Ejecutar `npm run secrets:rotate` (`-- --dry-run` para solo contar).
+ * 3. Cuando termine sin errores, retirar la llave anterior de DATA_ENCRYPTION_PREVIOUS_KEYS.
+ *
+ * Solo se vuelven a envolver las llaves de datos; los secretos en texto plano de user_settings
+ * anteriores al cifrado se cifran en el mismo paso. Incluye las contraseñas CalDAV de calendar_connections.
+ */
+import { asc, eq, gt } from 'drizzle-orm';
+import { calendarConnections, userSettings, whatsappAuthStates } from '@shared/schema';
+import { db, pool } from '../db';
+import { encrypt, isEncrypted, needsRewrap, rewrap } from '../utils/encryption';
+import { SECRET_SETTINGS_FIELDS } from '../utils/secretSettings';
+
+const BATCH_SIZE = 500;
+const dryRun = process.argv.includes('--dry-run');
+
+function rotateValue(value: string): string {
+  if (!isEncrypted(value)) return encrypt(value);
+  return needsRewrap(value) ? rewrap(value) : value;
+}
+
+async function rotateUserSettings(): Promise<number> {
+  let updated = 0;
+  const rows = await db.select().from(userSettings);
+
+  for (const row of rows) {
+    const changes: Partial<Record<typeof SECRET_SETTINGS_FIELDS[number], string>> = {};
+    for (const field of SECRET_SETTINGS_FIELDS) {
+      const value = row[field];
+      if (!value) continue;
+      const rotated = rotateValue(value);
+      if (rotated !== value) changes[field] = rotated;
+    }
+
+    if (Object.keys(changes).length === 0) continue;
+    updated++;
+    if (!dryRun) {
+      await db.update(userSettings).set(changes).where(eq(userSettings.id, row.id));
+    }
+  }
+  return updated;
+}
+
+async function rotateCalendarConnections(): Promise<number> {
+  let updated = 0;
+  const rows = await db
+    .select({ id: calendarConnections.id, caldavPassword: calendarConnections.caldavPassword })
+    .from(calendarConnections);
+
+  for (const row of rows) {
+    if (!row.caldavPassword) continue;
+    const rotated = rotateValue(row.caldavPassword);
+    if (rotated === row.caldavPassword) continue;
+    updated++;
+    if (!dryRun) {
+      await db.update(calendarConnections).set({ caldavPassword: rotated }).where(eq(calendarConnections.id, row.id));
+    }
+  }
+  return updated;
+}
+
+async function rotateWhatsappAuthStates(): Promise<number> {
+  let updated = 0;
+  let lastId = '';
+
+  while (true) {
+    const rows = await db
+      .select({ id: whatsappAuthStates.id, data: whatsappAuthStates.data })
+      .from(whatsappAuthStates)
+      .where(gt(whatsappAuthStates.id, lastId))
+      .orderBy(asc(whatsappAuthStates.id))
+      .limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      if (!needsRewrap(row.data)) continue;
+      updated++;
+      if (!dryRun) {
+        await db.update(whatsappAuthStates).set({ data: rewrap(row.data) }).where(eq(whatsappAuthStates.id, row.id));
+      }
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+  return updated;
+}
+
+async function main() {
+  console.log(`🔑 [ROTATE] ${dryRun ? 'Dry run: counting' : 'Re-wrapping'} values not using DATA_ENCRYPTION_KEY_ID=${process.env.DATA_ENCRYPTION_KEY_ID || 'primary'}`);
+
+  const settingsCount = await rotateUserSettings();
+  console.log(`🔑 [ROTATE] user_settings: ${settingsCount} row(s)`);
+
+  const calendarCount = await rotateCalendarConnections();
+  console.log(`🔑 [ROTATE] calendar_connections: ${calendarCount} row(s)`);
+
+  const authStateCount = await rotateWhatsappAuthStates();
+  console.log(`🔑 [ROTATE] whatsapp_auth_states: ${authStateCount} row(s)`);
+}
+
+main()
+  .catch(error => {
+    console.error('❌ [ROTATE] Key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
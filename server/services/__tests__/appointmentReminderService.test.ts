@@ -0,0 +1,58 @@
+import { isAwaitingReminderReply, isReminderSuperseded, parseReminderReply, planReminders } from '../appointmentReminderService';
+
+const scheduledAt = new Date('2024-06-03T15:00:00Z');
+
+describe('planReminders', () => {
+  test('should schedule 24h, 2h and 30m before the appointment', () => {
+    const plan = planReminders(scheduledAt, new Date('2024-06-01T00:00:00Z'));
+
+    expect(plan.map(reminder => reminder.dueAt.toISOString())).toEqual([
+      '2024-06-02T15:00:00.000Z',
+      '2024-06-03T13:00:00.000Z',
+      '2024-06-03T14:30:00.000Z',
+    ]);
+    expect(plan.every(reminder => reminder.status === 'PENDING')).toBe(true);
+  });
+
+  test('should skip reminders already due when the appointment is booked', () => {
+    const plan = planReminders(scheduledAt, new Date('2024-06-03T12:00:00Z'));
+    expect(plan.map(reminder => reminder.status)).toEqual(['SKIPPED', 'PENDING', 'PENDING']);
+  });
+});
+
+describe('isReminderSuperseded', () => {
+  test('should only send the closest overdue reminder after downtime', () => {
+    const now = new Date('2024-06-03T13:10:00Z');
+    expect(isReminderSuperseded('24h', scheduledAt, now)).toBe(true);
+    expect(isReminderSuperseded('2h', scheduledAt, now)).toBe(false);
+    expect(isReminderSuperseded('30m', scheduledAt, new Date('2024-06-03T15:05:00Z'))).toBe(true);
+  });
+});
+
+describe('parseReminderReply', () => {
+  test('should map numbered and written replies', () => {
+    expect(parseReminderReply('1')).toBe('confirm');
+    expect(parseReminderReply('Confirmo!')).toBe('confirm');
+    expect(parseReminderReply(' 2 ')).toBe('reschedule');
+    expect(parseReminderReply('cancelar la cita')).toBe('cancel');
+  });
+
+  test('should ignore regular messages', () => {
+    expect(parseReminderReply('tengo 1 pregunta sobre el precio')).toBeNull();
+    expect(parseReminderReply('sí')).toBeNull();
+  });
+});
+
+describe('isAwaitingReminderReply', () => {
+  const reminder = { sentAt: new Date('2024-06-03T13:00:00Z'), messageId: 'reminder-msg' };
+
+  test('should accept a reply right after the reminder', () => {
+    expect(isAwaitingReminderReply(reminder, { messageId: 'reminder-msg' }, new Date('2024-06-03T13:20:00Z'))).toBe(true);
+  });
+
+  test('should ignore digits once the window passed or another message was sent', () => {
+    expect(isAwaitingReminderReply(reminder, { messageId: 'reminder-msg' }, new Date('2024-06-03T16:00:00Z'))).toBe(false);
+    expect(isAwaitingReminderReply(reminder, { messageId: 'ai-answer' }, new Date('2024-06-03T13:20:00Z'))).toBe(false);
+    expect(isAwaitingReminderReply({ ...reminder, messageId: null }, undefined, new Date('2024-06-03T13:20:00Z'))).toBe(false);
+  });
+});
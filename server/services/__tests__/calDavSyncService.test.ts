@@ -0,0 +1,103 @@
+import { appointmentIdFromUid, appointmentUid, parseMultistatus, reconcileEvent } from '../calDavSyncService';
+import { parseIcsEvents } from '../../utils/ics';
+
+// Respuesta de un REPORT calendar-query de Radicale: namespace DAV: por defecto y CR escapado
+const multistatus = `<?xml version='1.0' encoding='utf-8'?>
+<multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <response>
+    <href>/agente/citas/appt-1.ics</href>
+    <propstat><prop>
+      <getetag>"etag-1"</getetag>
+      <C:calendar-data>BEGIN:VCALENDAR&#13;
+BEGIN:VEVENT&#13;
+UID:appt-1@realestate-ai&#13;
+DTSTART:20240603T150000Z&#13;
+DTEND:20240603T160000Z&#13;
+SUMMARY:Visita con Ana&#13;
+BEGIN:VALARM&#13;
+TRIGGER:-PT15M&#13;
+END:VALARM&#13;
+END:VEVENT&#13;
+END:VCALENDAR&#13;
+</C:calendar-data>
+    </prop></propstat>
+  </response>
+  <response>
+    <href>/agente/citas/dentista.ics</href>
+    <propstat><prop>
+      <getetag>"etag-2"</getetag>
+      <C:calendar-data>BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:dentista
+DTSTART;TZID=America/Santo_Domingo:20240603T140000
+DURATION:PT1H30M
+SUMMARY:Dentista\\, chequeo
+END:VEVENT
+END:VCALENDAR
+</C:calendar-data>
+    </prop></propstat>
+  </response>
+</multistatus>`;
+
+describe('parseMultistatus', () => {
+  test('should extract href, etag and calendar data of each resource', () => {
+    const resources = parseMultistatus(multistatus);
+
+    expect(resources.map(resource => resource.href)).toEqual(['/agente/citas/appt-1.ics', '/agente/citas/dentista.ics']);
+    expect(resources[0].etag).toBe('"etag-1"');
+    expect(resources[0].calendarData).toContain('UID:appt-1@realestate-ai\r\n');
+  });
+});
+
+describe('parseIcsEvents', () => {
+  test('should read UTC, TZID and DURATION times', () => {
+    const [appointment, dentist] = parseMultistatus(multistatus).flatMap(resource => parseIcsEvents(resource.calendarData));
+
+    expect(appointment.start.toISOString()).toBe('2024-06-03T15:00:00.000Z');
+    expect(appointment.summary).toBe('Visita con Ana');
+    expect(dentist.start.toISOString()).toBe('2024-06-03T18:00:00.000Z');
+    expect(dentist.end.toISOString()).toBe('2024-06-03T19:30:00.000Z');
+    expect(dentist.summary).toBe('Dentista, chequeo');
+  });
+
+  test('should treat all-day events as the whole local day', () => {
+    const [event] = parseIcsEvents('BEGIN:VEVENT\nUID:feriado\nDTSTART;VALUE=DATE:20240604\nEND:VEVENT', 'America/Santo_Domingo');
+
+    expect(event.allDay).toBe(true);
+    expect(event.start.toISOString()).toBe('2024-06-04T04:00:00.000Z');
+    expect(event.end.toISOString()).toBe('2024-06-05T04:00:00.000Z');
+  });
+});
+
+describe('appointment UIDs', () => {
+  test('should only map events created by the platform back to appointments', () => {
+    expect(appointmentIdFromUid(appointmentUid('appt-1'))).toBe('appt-1');
+    expect(appointmentIdFromUid('dentista')).toBeNull();
+  });
+});
+
+describe('reconcileEvent', () => {
+  const appointment = { scheduledAt: new Date('2024-06-03T15:00:00Z'), duration: 60, caldavEtag: '"etag-1"' };
+  const event = (start: string, etag: string) => ({
+    uid: appointmentUid('appt-1'),
+    start: new Date(start),
+    end: new Date(new Date(start).getTime() + 60 * 60 * 1000),
+    transparent: false,
+    allDay: false,
+    etag,
+  });
+
+  test('should re-publish a platform reschedule when the event was not edited', () => {
+    // La cita se movió a las 17:00 en la plataforma pero el PUT no llegó: el calendario sigue en la versión publicada
+    expect(reconcileEvent({ ...appointment, scheduledAt: new Date('2024-06-03T17:00:00Z') }, event('2024-06-03T15:00:00Z', '"etag-1"'))).toBe('push');
+  });
+
+  test('should apply the change when the agent edited the event', () => {
+    expect(reconcileEvent(appointment, event('2024-06-03T18:00:00Z', '"etag-2"'))).toBe('pull');
+    expect(reconcileEvent({ ...appointment, caldavEtag: null }, event('2024-06-03T18:00:00Z', '"etag-2"'))).toBe('pull');
+  });
+
+  test('should do nothing when both sides match', () => {
+    expect(reconcileEvent(appointment, event('2024-06-03T15:00:00Z', '"etag-2"'))).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { computeDaySlots, rulesFromSchedule, zonedTimeToUtc, type BusyInterval } from '../calendarService';
+
+// Santo Domingo no cambia de horario: 09:00 local = 13:00 UTC
+const rules = { ...rulesFromSchedule(null, 'America/Santo_Domingo'), travelMinutes: 45 };
+const now = new Date('2024-05-01T00:00:00Z');
+const times = (slots: { start: Date }[]) => slots.map(slot => slot.start.toISOString().slice(11, 16));
+
+const showing: BusyInterval = {
+  start: new Date('2024-06-03T15:00:00Z'),
+  end: new Date('2024-06-03T16:00:00Z'),
+  kind: 'appointment',
+  propertyId: 'prop-a',
+};
+
+describe('zonedTimeToUtc', () => {
+  test('should follow daylight saving changes of the time zone', () => {
+    expect(zonedTimeToUtc('2024-06-03', '09:00', 'America/New_York').toISOString()).toBe('2024-06-03T13:00:00.000Z');
+    expect(zonedTimeToUtc('2024-12-02', '09:00', 'America/New_York').toISOString()).toBe('2024-12-02T14:00:00.000Z');
+  });
+});
+
+describe('computeDaySlots', () => {
+  test('should offer slots only inside working hours of the weekday', () => {
+    const monday = times(computeDaySlots('2024-06-03', rules, [], { durationMinutes: 60 }, now));
+    expect(monday[0]).toBe('13:00');
+    expect(monday[monday.length - 1]).toBe('21:00');
+    expect(computeDaySlots('2024-06-02', rules, [], { durationMinutes: 60 }, now)).toHaveLength(0);
+  });
+
+  test('should keep the buffer around visits to the same property', () => {
+    const slots = times(computeDaySlots('2024-06-03', rules, [showing], { durationMinutes: 60, propertyId: 'prop-a' }, now));
+    expect(slots).toContain('13:30');
+    expect(slots).not.toContain('14:00');
+    expect(slots).toContain('16:30');
+  });
+
+  test('should require travel time between different properties', () => {
+    const slots = times(computeDaySlots('2024-06-03', rules, [showing], { durationMinutes: 60, propertyId: 'prop-b' }, now));
+    expect(slots).not.toContain('13:30');
+    expect(slots).not.toContain('16:30');
+    expect(slots).toContain('17:00');
+  });
+
+  test('should skip blackout dates and past slots', () => {
+    expect(computeDaySlots('2024-06-03', { ...rules, blackoutDates: ['2024-06-03'] }, [], { durationMinutes: 60 }, now)).toHaveLength(0);
+    const afternoon = times(computeDaySlots('2024-06-03', rules, [], { durationMinutes: 60 }, new Date('2024-06-03T18:10:00Z')));
+    expect(afternoon[0]).toBe('18:30');
+  });
+});
@@ -0,0 +1,45 @@
+import { matchZoneRule, pickRoundRobin } from '../conversationRoutingService';
+
+describe('pickRoundRobin', () => {
+  test('should prefer members that never received a conversation', () => {
+    const candidates = [
+      { id: 'a', member: { lastAssignedAt: new Date('2024-01-02') } },
+      { id: 'b', member: { lastAssignedAt: null } },
+    ];
+    expect(pickRoundRobin(candidates)?.id).toBe('b');
+  });
+
+  test('should pick the member assigned longest ago', () => {
+    const candidates = [
+      { id: 'a', member: { lastAssignedAt: new Date('2024-01-03') } },
+      { id: 'b', member: { lastAssignedAt: new Date('2024-01-01') } },
+      { id: 'c', member: { lastAssignedAt: new Date('2024-01-02') } },
+    ];
+    expect(pickRoundRobin(candidates)?.id).toBe('b');
+  });
+
+  test('should return null without candidates', () => {
+    expect(pickRoundRobin([])).toBeNull();
+  });
+});
+
+describe('matchZoneRule', () => {
+  const rules = [
+    { zone: 'Piantini', userIds: ['ana'] },
+    { zone: 'Bávaro', userIds: ['luis', 'marta'] },
+  ];
+
+  test('should match zones ignoring case and accents', () => {
+    expect(matchZoneRule(rules, ['bavaro'])).toEqual(['luis', 'marta']);
+    expect(matchZoneRule(rules, ['PIANTINI'])).toEqual(['ana']);
+  });
+
+  test('should match sectors that contain the rule zone', () => {
+    expect(matchZoneRule(rules, ['Bávaro, Punta Cana'])).toEqual(['luis', 'marta']);
+  });
+
+  test('should return no members when nothing matches', () => {
+    expect(matchZoneRule(rules, ['Naco'])).toEqual([]);
+    expect(matchZoneRule([{ zone: '', userIds: ['x'] }], ['Naco'])).toEqual([]);
+  });
+});
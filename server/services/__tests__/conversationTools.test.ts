@@ -0,0 +1,30 @@
+import { conversationTools } from '../conversationTools';
+
+const ctx = { userId: 'user-1', conversationId: 'conv-1', context: {} };
+
+describe('ConversationToolRegistry', () => {
+  test('should only offer property tools when AlterEstate is configured', () => {
+    const withoutCrm = conversationTools.getDefinitions({}).map(tool => tool.name);
+    const withCrm = conversationTools.getDefinitions({ alterEstateEnabled: true, alterEstateToken: 'token' }).map(tool => tool.name);
+
+    expect(withoutCrm).toEqual(['get_available_slots', 'book_appointment', 'reschedule_appointment', 'cancel_appointment', 'create_lead', 'escalate_to_human']);
+    expect(withCrm).toContain('search_properties');
+    expect(withCrm).toContain('send_property_media');
+  });
+
+  test('should return an error result for unknown tools', async () => {
+    const result = await conversationTools.execute({ id: 'call_1', name: 'delete_everything', arguments: '{}' }, ctx);
+
+    expect(result.error).toContain('delete_everything');
+  });
+
+  test('should validate arguments before executing', async () => {
+    const result = await conversationTools.execute(
+      { id: 'call_1', name: 'book_appointment', arguments: '{"scheduledAt":"mañana en la tarde"}' },
+      ctx
+    );
+
+    expect(result.error).toBe('Argumentos inválidos');
+    expect(result.issues[0]).toContain('scheduledAt');
+  });
+});
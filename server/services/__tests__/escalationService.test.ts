@@ -0,0 +1,57 @@
+import { buildEscalationSummary, evaluateIntent, readUnderstandingSignal, UNCLEAR_MARKER } from '../escalationService';
+
+describe('evaluateIntent', () => {
+  test('should escalate when the client asks for a person or complains', () => {
+    expect(evaluateIntent({ intent: 'escalate_human', confidence: 0.9 }).escalate).toBe(true);
+    expect(evaluateIntent({ intent: 'complaint', confidence: 0.8 }).reason).toBe('El cliente presentó una queja');
+  });
+
+  test('should ignore uncertain escalation intents', () => {
+    expect(evaluateIntent({ intent: 'escalate_human', confidence: 0.5 }).escalate).toBe(false);
+  });
+
+  test('should escalate after repeated low-confidence messages', () => {
+    const first = evaluateIntent({ intent: 'ask_question', confidence: 0.2 }, 0);
+    const second = evaluateIntent({ intent: 'ask_question', confidence: 0.3 }, first.lowConfidenceStreak);
+    expect(second).toEqual({ escalate: false, lowConfidenceStreak: 2 });
+
+    const third = evaluateIntent({ intent: 'ask_question', confidence: 0.1 }, second.lowConfidenceStreak);
+    expect(third.escalate).toBe(true);
+    expect(third.lowConfidenceStreak).toBe(0);
+  });
+
+  test('should reset the streak when the AI understands the client', () => {
+    expect(evaluateIntent({ intent: 'search_property', confidence: 0.9 }, 2).lowConfidenceStreak).toBe(0);
+  });
+});
+
+describe('readUnderstandingSignal', () => {
+  test('should strip the marker and report a low-confidence reply', () => {
+    const result = readUnderstandingSignal(`${UNCLEAR_MARKER} ¿Me podrías explicar un poco más lo que buscas?`);
+    expect(result.content).toBe('¿Me podrías explicar un poco más lo que buscas?');
+    expect(evaluateIntent(result.signal, 2).escalate).toBe(true);
+  });
+
+  test('should leave normal replies untouched and reset the streak', () => {
+    const result = readUnderstandingSignal('Tengo 3 apartamentos en Naco.');
+    expect(result.content).toBe('Tengo 3 apartamentos en Naco.');
+    expect(evaluateIntent(result.signal, 2).lowConfidenceStreak).toBe(0);
+  });
+});
+
+describe('buildEscalationSummary', () => {
+  test('should include the client, reason, recent client messages and link', () => {
+    const conversation: any = { id: 'c1', clientName: 'Ana', clientPhone: '18095551234' };
+    const messages: any[] = [
+      { fromMe: false, content: 'Hola' },
+      { fromMe: true, content: 'Hola, ¿en qué te ayudo?' },
+      { fromMe: false, content: 'Quiero hablar con alguien' },
+    ];
+
+    const summary = buildEscalationSummary(conversation, messages, 'El cliente pidió hablar con una persona', 'https://app.test/conversations?id=c1');
+    expect(summary).toContain('Ana (+18095551234)');
+    expect(summary).toContain('• Quiero hablar con alguien');
+    expect(summary).not.toContain('¿en qué te ayudo?');
+    expect(summary).toContain('https://app.test/conversations?id=c1');
+  });
+});
@@ -0,0 +1,39 @@
+import { evaluateEscalation, type EscalationPolicy } from '../escalationSlaService';
+
+const policy: EscalationPolicy = {
+  slaMinutes: 15,
+  backupEmail: 'backup@agency.com',
+  aiTakebackEnabled: false,
+  aiTakebackMinutes: 60,
+  idleReturnMinutes: 0,
+};
+
+const escalatedAt = new Date('2024-06-01T10:00:00Z');
+const minutesLater = (minutes: number) => new Date(escalatedAt.getTime() + minutes * 60 * 1000);
+const pending = { escalatedAt, lastAgentMessageAt: null, lastMessageAt: escalatedAt, slaLevel: 0 };
+
+describe('evaluateEscalation', () => {
+  test('should wait until the SLA expires', () => {
+    expect(evaluateEscalation(pending, policy, minutesLater(10))).toBe('none');
+    expect(evaluateEscalation(pending, policy, minutesLater(15))).toBe('renotify');
+  });
+
+  test('should alert the backup contact at twice the SLA once re-notified', () => {
+    expect(evaluateEscalation({ ...pending, slaLevel: 1 }, policy, minutesLater(20))).toBe('none');
+    expect(evaluateEscalation({ ...pending, slaLevel: 1 }, policy, minutesLater(30))).toBe('backup');
+    expect(evaluateEscalation({ ...pending, slaLevel: 1 }, { ...policy, backupEmail: '' }, minutesLater(30))).toBe('none');
+    expect(evaluateEscalation({ ...pending, slaLevel: 2 }, policy, minutesLater(45))).toBe('none');
+  });
+
+  test('should return the chat to the AI only when takeback is enabled', () => {
+    expect(evaluateEscalation({ ...pending, slaLevel: 2 }, policy, minutesLater(90))).toBe('none');
+    expect(evaluateEscalation({ ...pending, slaLevel: 2 }, { ...policy, aiTakebackEnabled: true }, minutesLater(60))).toBe('takeback');
+  });
+
+  test('should stop the SLA once an agent replies and return after the idle period', () => {
+    const answered = { ...pending, lastAgentMessageAt: minutesLater(5), lastMessageAt: minutesLater(5) };
+    expect(evaluateEscalation(answered, policy, minutesLater(500))).toBe('none');
+    expect(evaluateEscalation(answered, { ...policy, idleReturnMinutes: 30 }, minutesLater(20))).toBe('none');
+    expect(evaluateEscalation(answered, { ...policy, idleReturnMinutes: 30 }, minutesLater(35))).toBe('idle_return');
+  });
+});
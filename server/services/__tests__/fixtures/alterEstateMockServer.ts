@@ -0,0 +1,88 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { AlterEstateLead, AlterEstateLeadNote } from '../../alterEstateService';
+
+export interface AlterEstateMock {
+  url: string;
+  leads: Map<string, AlterEstateLead>;
+  notes: Map<string, AlterEstateLeadNote[]>;
+  requests: { method: string; path: string; body: any }[];
+  close(): Promise<void>;
+}
+
+/**
+ * Servidor en memoria con los endpoints de leads de AlterEstate que usa la sincronización
+ * (/leads/, /leads/<id>/ y /leads/<id>/notes/), autenticado con `Authorization: Token <apiKey>`
+ */
+export async function startAlterEstateMock(apiKey = 'test-api-key'): Promise<AlterEstateMock> {
+  const leads = new Map<string, AlterEstateLead>();
+  const notes = new Map<string, AlterEstateLeadNote[]>();
+  const requests: AlterEstateMock['requests'] = [];
+  let nextId = 1000;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      const path = (req.url || '').split('?')[0];
+      requests.push({ method: req.method!, path, body });
+
+      const send = (status: number, data?: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(data === undefined ? '' : JSON.stringify(data));
+      };
+      if (req.headers.authorization !== `Token ${apiKey}`) {
+        return send(401, { message: 'Invalid token' });
+      }
+
+      if (req.method === 'POST' && path === '/leads/') {
+        const lead: AlterEstateLead = {
+          id: nextId++,
+          full_name: body.full_name,
+          phone: body.phone,
+          email: body.email,
+          status: 'new',
+          agent_email: body.related || null,
+          modified: new Date().toISOString(),
+        };
+        leads.set(String(lead.id), lead);
+        return send(201, lead);
+      }
+
+      const match = path.match(/^\/leads\/([^/]+)\/(notes\/)?$/);
+      const lead = match && leads.get(match[1]);
+      if (!match || !lead) {
+        return send(404, { message: 'Not found' });
+      }
+
+      if (match[2]) {
+        const leadNotes = notes.get(match[1]) || [];
+        if (req.method === 'GET') return send(200, leadNotes);
+        if (req.method === 'POST') {
+          const note: AlterEstateLeadNote = { id: nextId++, content: body.content, author: 'API', created: new Date().toISOString() };
+          notes.set(match[1], [...leadNotes, note]);
+          return send(201, note);
+        }
+      } else {
+        if (req.method === 'GET') return send(200, lead);
+        if (req.method === 'PATCH') {
+          Object.assign(lead, body, { modified: new Date().toISOString() });
+          return send(200, lead);
+        }
+      }
+      send(405, { message: 'Method not allowed' });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    leads,
+    notes,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
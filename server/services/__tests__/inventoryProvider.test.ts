@@ -0,0 +1,82 @@
+import path from 'path';
+import { JsonFileInventoryProvider, createInventoryProvider, fromAlterEstateListing, resolveInventoryProviderType, toProperty } from '../inventoryProvider';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+describe('toProperty', () => {
+  test('should fill defaults for partial records', () => {
+    const property = toProperty({ id: 'X-1', price: 90000, currency: 'USD', location: { sector: 'Naco', city: 'Santo Domingo' } as any });
+
+    expect(property.slug).toBe('X-1');
+    expect(property.priceLabel).toBe('USD 90,000');
+    expect(property.location.label).toBe('Naco, Santo Domingo');
+    expect(property.media).toEqual({ featuredImage: null, images: [], virtualTour: null });
+  });
+});
+
+describe('JsonFileInventoryProvider', () => {
+  const provider = new JsonFileInventoryProvider('inventory.json', fixturesDir);
+
+  test('should search, exclude already sent properties and return details', async () => {
+    const { properties } = await provider.search({ operation: 'sale', city: 'Santo Domingo' });
+    const { properties: remaining } = await provider.search({ operation: 'sale', excludeIds: ['DEV-1'] });
+    const detail = await provider.getProperty('DEV-1');
+
+    expect(properties.map(p => p.id)).toEqual(['DEV-1']);
+    expect(remaining.map(p => p.id)).toEqual(['DEV-3']);
+    expect(detail?.specifications.parking).toBe(2);
+    expect((await provider.getMedia('DEV-1'))?.images).toHaveLength(2);
+    expect(await provider.getProperty('missing')).toBeNull();
+  });
+
+  test('should derive agents and locations from the listing', async () => {
+    expect((await provider.getAgents()).map(agent => agent.name)).toEqual(['Laura Pérez']);
+    expect((await provider.getLocations()).map(city => city.name)).toEqual(['La Romana', 'Santo Domingo']);
+    expect((await provider.getLocations('Santo Domingo')).map(sector => sector.name)).toEqual(['Naco', 'Piantini']);
+  });
+
+  test('should record created leads', async () => {
+    const result = await provider.createLead({ fullName: 'Cliente Prueba', phone: '+18095550000', propertyId: 'DEV-2' });
+
+    expect(result.id).toBe('json-lead-1');
+    expect(provider.createdLeads[0].propertyId).toBe('DEV-2');
+  });
+
+  test('should reject files outside the data directory', () => {
+    expect(() => new JsonFileInventoryProvider('../../../package.json', fixturesDir)).toThrow();
+  });
+});
+
+describe('createInventoryProvider', () => {
+  test('should prefer AlterEstate and fall back to the own inventory type', () => {
+    expect(resolveInventoryProviderType({ alterEstateEnabled: true, alterEstateToken: 'token', databaseType: 'csv' })).toBe('alterestate');
+    expect(resolveInventoryProviderType({ databaseType: 'json' })).toBe('json');
+    expect(createInventoryProvider('user-1', { databaseType: 'sql' })).toBeNull();
+  });
+});
+
+describe('fromAlterEstateListing', () => {
+  test('should map AlterEstate listing fields to Property', () => {
+    const property = fromAlterEstateListing({
+      uid: 'AB12CD34EF',
+      slug: 'apartamento-piantini',
+      name: 'Apartamento en Piantini',
+      category: { id: 1, name: 'Apartamentos', name_en: 'Apartments' },
+      listing_type: [{ id: 2, listing: 'Alquiler' }],
+      rent_price: 1800,
+      currency_rent: 'USD',
+      city: 'Santo Domingo',
+      sector: 'Piantini',
+      room: 2,
+      bathroom: 2,
+      featured_image: 'https://example.com/a.jpg',
+    }, 'https://example.com/propiedad/apartamento-piantini');
+
+    expect(property.id).toBe('AB12CD34EF');
+    expect(property.operation).toBe('rent');
+    expect(property.price).toBe(1800);
+    expect(property.propertyType).toBe('Apartamentos');
+    expect(property.location.label).toBe('Piantini, Santo Domingo');
+    expect(property.media.featuredImage).toBe('https://example.com/a.jpg');
+  });
+});
@@ -0,0 +1,55 @@
+import path from 'path';
+import { CsvInventorySource, filterProperties, normalizeInventoryRow, parseCsv } from '../inventoryService';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+async function loadFixture() {
+  const rows = await new CsvInventorySource('inventory.csv', fixturesDir).fetchRows();
+  return rows.map((row, index) => normalizeInventoryRow(row, index));
+}
+
+describe('parseCsv', () => {
+  test('should handle quoted fields with commas', () => {
+    const rows = parseCsv('nombre,precio\n"Casa, con patio","1,000"\n');
+
+    expect(rows).toEqual([{ nombre: 'Casa, con patio', precio: '1,000' }]);
+  });
+});
+
+describe('CsvInventorySource', () => {
+  test('should only read the requested number of rows', async () => {
+    const rows = await new CsvInventorySource('inventory.csv', fixturesDir).fetchRows(1);
+    expect(rows).toHaveLength(1);
+  });
+});
+
+describe('normalizeInventoryRow', () => {
+  test('should map Spanish column names to property fields', async () => {
+    const [property] = await loadFixture();
+
+    expect(property.id).toBe('A-101');
+    expect(property.price).toBe(250000);
+    expect(property.currency).toBe('USD');
+    expect(property.operation).toBe('sale');
+    expect(property.specifications.rooms).toBe(3);
+    expect(property.location.label).toBe('Piantini, Santo Domingo');
+  });
+});
+
+describe('filterProperties', () => {
+  test('should filter by operation, zone and budget', async () => {
+    const properties = await loadFixture();
+
+    expect(filterProperties(properties, { operation: 'rent' }).map(p => p.id)).toEqual(['A-102']);
+    expect(filterProperties(properties, { zones: ['Piantini'] }).map(p => p.id)).toEqual(['A-101']);
+    expect(filterProperties(properties, { propertyType: 'house' }).map(p => p.id)).toEqual(['C-201']);
+    expect(filterProperties(properties, { budgetMax: 200000, currency: 'USD', operation: 'sale' }).map(p => p.id)).toEqual(['C-201']);
+  });
+});
+
+describe('CsvInventorySource', () => {
+  test('should reject paths outside the data directory', () => {
+    expect(() => new CsvInventorySource('../../../package.json', fixturesDir)).toThrow();
+    expect(() => new CsvInventorySource('/etc/passwd.csv', fixturesDir)).toThrow();
+  });
+});
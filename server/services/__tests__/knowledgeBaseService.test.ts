@@ -0,0 +1,63 @@
+import { KnowledgeBaseService } from '../knowledgeBaseService';
+import { ScriptedLLMProvider } from '../llmProvider';
+import { assertPublicUrl, isPrivateAddress, publicOnlyLookup } from '../../utils/publicUrl';
+
+const service = new KnowledgeBaseService();
+
+describe('KnowledgeBaseService.chunkText', () => {
+  test('should keep short documents in a single chunk', () => {
+    expect(service.chunkText('La comisión es del 5% sobre el precio de venta.')).toHaveLength(1);
+  });
+
+  test('should split long documents with overlap and bounded size', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Párrafo ${i} sobre costos de cierre y gastos legales.`).join('\n\n');
+    const chunks = service.chunkText(text, 500, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(500));
+    const lastWords = chunks[0].split(/\s+/).slice(-3).join(' ');
+    expect(chunks[1]).toContain(lastWords);
+  });
+});
+
+describe('KnowledgeBaseService.htmlToText', () => {
+  test('should drop scripts and tags but keep paragraphs', () => {
+    const text = service.htmlToText('<html><script>var x = 1;</script><h1>FAQ</h1><p>Comisión &amp; gastos</p></html>');
+
+    expect(text).not.toContain('var x');
+    expect(text).toContain('FAQ');
+    expect(text).toContain('Comisión & gastos');
+  });
+});
+
+describe('ScriptedLLMProvider.embed', () => {
+  test('should produce closer vectors for related texts', async () => {
+    const provider = new ScriptedLLMProvider();
+    const [query, related, unrelated] = await provider.embed([
+      '¿Cuál es la comisión por venta?',
+      'La comisión por venta es del 5%',
+      'El parqueo de visitantes está en el sótano'
+    ]);
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
+
+describe('training URL guard', () => {
+  test('should reject private, loopback and link-local addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '::1', 'fe80::1', '::ffff:127.0.0.1'].forEach(address =>
+      expect(isPrivateAddress(address)).toBe(true)
+    );
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false);
+  });
+
+  test('should reject internal hosts and other protocols before fetching', async () => {
+    expect(() => assertPublicUrl('http://169.254.169.254/latest/meta-data/')).toThrow('interna');
+    expect(() => assertPublicUrl('http://[::1]:8080/')).toThrow('interna');
+    expect(() => assertPublicUrl('file:///etc/passwd')).toThrow('http');
+    expect(assertPublicUrl('https://example.com/faq').hostname).toBe('example.com');
+    await expect(publicOnlyLookup('localhost')).rejects.toThrow('interna');
+  });
+});
@@ -0,0 +1,99 @@
+import { AlterEstateService } from '../alterEstateService';
+import { DEFAULT_LEAD_STAGES } from '../leadPipelineService';
+import { planNoteSync, reconcileCrmFields, stageFromCrmStatus, stageToCrmStatus, type CrmSyncSide } from '../leadCrmSyncService';
+import { startAlterEstateMock, type AlterEstateMock } from './fixtures/alterEstateMockServer';
+
+const earlier = new Date('2024-06-01T10:00:00Z');
+const later = new Date('2024-06-01T12:00:00Z');
+
+const side = (status: string | null, agentEmail: string | null, changedAt: Date | null = null): CrmSyncSide => ({
+  values: { status, agentEmail },
+  changedAt: { status: changedAt, agentEmail: changedAt },
+});
+
+describe('reconcileCrmFields', () => {
+  const base = { status: 'new', agentEmail: 'ana@agencia.com' };
+
+  test('should copy what changed on only one side to the other', () => {
+    const result = reconcileCrmFields(base, side('qualified', 'ana@agencia.com'), side('new', 'luis@agencia.com'));
+
+    expect(result.push).toEqual({ status: 'qualified' });
+    expect(result.pull).toEqual({ agentEmail: 'luis@agencia.com' });
+    expect(result.conflicts).toEqual([]);
+    expect(result.state).toEqual({ status: 'qualified', agentEmail: 'luis@agencia.com' });
+  });
+
+  test('should keep the most recent change when both sides changed', () => {
+    const localWins = reconcileCrmFields(base, side('qualified', null, later), side('contacted', null, earlier));
+    expect(localWins.push.status).toBe('qualified');
+    expect(localWins.conflicts[0]).toEqual({ field: 'status', local: 'qualified', remote: 'contacted', winner: 'local' });
+
+    const crmWins = reconcileCrmFields(base, side('qualified', null, earlier), side('contacted', null, later));
+    expect(crmWins.pull.status).toBe('contacted');
+    expect(crmWins.conflicts[0].winner).toBe('crm');
+  });
+
+  test('should let AlterEstate win when the change times are unknown', () => {
+    const result = reconcileCrmFields(base, side('qualified', 'ana@agencia.com'), side('contacted', 'ana@agencia.com', later));
+    expect(result.pull).toEqual({ status: 'contacted' });
+  });
+
+  test('should fill empty values on the first sync without reporting conflicts', () => {
+    const result = reconcileCrmFields(null, side('qualified', null, earlier), side('new', 'luis@agencia.com', later));
+
+    expect(result.pull).toEqual({ status: 'new', agentEmail: 'luis@agencia.com' });
+    expect(result.conflicts).toEqual([]);
+  });
+});
+
+describe('CRM status mapping', () => {
+  test('should map stages to AlterEstate statuses and back', () => {
+    expect(DEFAULT_LEAD_STAGES.map(stageToCrmStatus)).toEqual(['new', 'contacted', 'qualified', 'visit_scheduled', 'negotiation', 'won', 'lost']);
+    expect(stageToCrmStatus({ key: 'FIRMA', type: 'OPEN' })).toBe('firma');
+    expect(stageFromCrmStatus(DEFAULT_LEAD_STAGES, 'Negotiation')?.key).toBe('OFFER');
+    expect(stageFromCrmStatus(DEFAULT_LEAD_STAGES, 'archived')).toBe(undefined);
+  });
+});
+
+describe('planNoteSync', () => {
+  test('should push unlinked local notes and pull unknown remote notes', () => {
+    const { toPush, toPull } = planNoteSync(
+      [{ id: 'a', metadata: null }, { id: 'b', metadata: { crmNoteId: '7' } }],
+      [{ id: 7 }, { id: 8 }]
+    );
+    expect(toPush.map(note => note.id)).toEqual(['a']);
+    expect(toPull.map(note => note.id)).toEqual([8]);
+  });
+});
+
+describe('AlterEstate lead API (mock server)', () => {
+  let mock: AlterEstateMock;
+  let client: AlterEstateService;
+
+  beforeAll(async () => {
+    mock = await startAlterEstateMock('test-api-key');
+    client = new AlterEstateService(mock.url);
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  test('should read and update status, agent and notes of a lead', async () => {
+    const created = await client.createLead('test-api-key', { full_name: 'María Pérez', phone: '+18095551234', email: '' });
+    const leadId = String(created.data.id);
+
+    await client.updateLead('test-api-key', leadId, { status: 'qualified', agent_email: 'ana@agencia.com' });
+    await client.addLeadNote('test-api-key', leadId, 'Quiere visitar el sábado');
+
+    const lead = await client.getLead('test-api-key', leadId);
+    expect(lead?.status).toBe('qualified');
+    expect(lead?.agent_email).toBe('ana@agencia.com');
+    expect((await client.getLeadNotes('test-api-key', leadId)).map(note => note.content)).toEqual(['Quiere visitar el sábado']);
+  });
+
+  test('should return null for deleted leads and fail with a wrong API key', async () => {
+    expect(await client.getLead('test-api-key', '404')).toBe(null);
+    await expect(client.getLead('wrong-key', '404')).rejects.toThrow();
+  });
+});
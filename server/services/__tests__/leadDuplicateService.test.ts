@@ -0,0 +1,91 @@
+import type { Lead } from '@shared/schema';
+import { normalizePhone } from '../../utils/phone';
+import { findDuplicateGroups, mergeLeadFields, normalizeName } from '../leadDuplicateService';
+
+const lead = (id: string, fields: Partial<Lead>) => ({
+  id,
+  fullName: 'Cliente WhatsApp',
+  phone: '',
+  email: null,
+  normalizedPhone: null,
+  budget: null,
+  budgetCurrency: null,
+  preferredLocation: null,
+  listingType: null,
+  conversationId: null,
+  alterEstateLeadId: null,
+  interests: null,
+  qualification: null,
+  createdAt: new Date('2024-06-01T10:00:00Z'),
+  ...fields,
+}) as Lead;
+
+describe('normalizePhone', () => {
+  test('should bring every format of the same number to E.164', () => {
+    expect(normalizePhone('18095551234@s.whatsapp.net')).toBe('+18095551234');
+    expect(normalizePhone('(809) 555-1234')).toBe('+18095551234');
+    expect(normalizePhone('+1 809 555 1234')).toBe('+18095551234');
+    expect(normalizePhone('0018095551234')).toBe('+18095551234');
+    expect(normalizePhone('555-1234')).toBe('+18095551234');
+    expect(normalizePhone('+34 612 345 678')).toBe('+34612345678');
+  });
+
+  test('should reject values that are not phone numbers', () => {
+    expect(normalizePhone('')).toBe(null);
+    expect(normalizePhone('sin teléfono')).toBe(null);
+    expect(normalizePhone('12345')).toBe(null);
+  });
+});
+
+describe('normalizeName', () => {
+  test('should ignore accents, case and placeholder or single names', () => {
+    expect(normalizeName('  José   PÉREZ ')).toBe('jose perez');
+    expect(normalizeName('José')).toBe(null);
+    expect(normalizeName('Cliente WhatsApp')).toBe(null);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  test('should group leads that share a phone, email or full name transitively', () => {
+    const groups = findDuplicateGroups([
+      lead('a', { phone: '18095551234' }),
+      lead('b', { phone: '(809) 555-1234', email: 'maria@example.com', fullName: 'María Pérez' }),
+      lead('c', { phone: '8295550000', email: 'MARIA@example.com' }),
+      lead('d', { phone: '8495550000', fullName: 'Maria Perez' }),
+      lead('e', { phone: '8095559999', fullName: 'Juan Gómez' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].leads.map(item => item.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(groups[0].reasons).toEqual(['phone', 'email', 'name']);
+  });
+
+  test('should not match the provisional WhatsApp email', () => {
+    const groups = findDuplicateGroups([
+      lead('a', { phone: '8095551111', email: 'x@whatsapp.com' }),
+      lead('b', { phone: '8095552222', email: 'x@whatsapp.com' }),
+    ]);
+    expect(groups).toEqual([]);
+  });
+});
+
+describe('mergeLeadFields', () => {
+  test('should keep the primary data and fill the gaps from the newest duplicate', () => {
+    const primary = lead('a', { phone: '18095551234', budget: 200000, interests: { rooms: 3, propertyUids: ['p1'] } });
+    const older = lead('b', { email: 'old@example.com', fullName: 'María Pérez', alterEstateLeadId: 'AE-1' });
+    const newer = lead('c', {
+      email: 'new@example.com',
+      budget: 90000,
+      interests: { bathrooms: 2, propertyUids: ['p2', 'p1'] },
+      createdAt: new Date('2024-06-05T10:00:00Z'),
+    });
+
+    const updates = mergeLeadFields(primary, [older, newer]);
+
+    expect(updates.email).toBe('new@example.com');
+    expect(updates.budget).toBe(undefined);
+    expect(updates.alterEstateLeadId).toBe('AE-1');
+    expect(updates.fullName).toBe('María Pérez');
+    expect(updates.interests).toEqual({ rooms: 3, bathrooms: 2, propertyUids: ['p2', 'p1'] });
+  });
+});
@@ -0,0 +1,75 @@
+import type { Lead } from '@shared/schema';
+import { isPlaceholderName, planLeadEnrichment, qualificationToLeadFields } from '../leadEnrichmentService';
+
+const extracted = {
+  personalInfo: { name: 'María Pérez', familySituation: 'familia' },
+  searchObjective: { operation: 'compra', purpose: 'vivienda_propia', urgency: 'null' },
+  budget: { min: 150000, max: 250000, currency: 'DOP', paymentMethod: 'financiamiento' },
+  location: { zones: ['Piantini', 'Naco'] },
+  specifications: { rooms: 3, bathrooms: 2, parking: null },
+  amenities: { priority: ['piscina'] },
+};
+
+describe('qualificationToLeadFields', () => {
+  test('should map the qualification criteria to lead columns and interests', () => {
+    expect(qualificationToLeadFields(extracted)).toEqual({
+      fullName: 'María Pérez',
+      budget: 250000,
+      budgetCurrency: 'DOP',
+      preferredLocation: 'Piantini, Naco',
+      listingType: 'sale',
+      interests: {
+        purpose: 'vivienda_propia',
+        budgetMin: 150000,
+        budgetMax: 250000,
+        paymentMethod: 'financiamiento',
+        rooms: 3,
+        bathrooms: 2,
+        amenities: ['piscina'],
+        familySituation: 'familia',
+      },
+    });
+  });
+
+  test('should keep "any zone" as a location', () => {
+    expect(qualificationToLeadFields({ location: { zones: ['cualquier_zona'] } }).preferredLocation).toBe('Cualquier zona');
+  });
+});
+
+describe('planLeadEnrichment', () => {
+  const lead = {
+    fullName: 'Cliente WhatsApp',
+    phone: '18095551234',
+    budget: 250000,
+    budgetCurrency: 'DOP',
+    preferredLocation: 'Naco',
+    listingType: null,
+    interests: { notes: 'Vio el anuncio en Instagram', rooms: 2 },
+  } as unknown as Lead;
+
+  test('should only record the fields that changed', () => {
+    const { updates, changes } = planLeadEnrichment(lead, qualificationToLeadFields(extracted));
+
+    expect(changes.map(change => change.field)).toEqual([
+      'fullName', 'preferredLocation', 'listingType',
+      'interests.purpose', 'interests.budgetMin', 'interests.budgetMax', 'interests.paymentMethod',
+      'interests.rooms', 'interests.bathrooms', 'interests.amenities', 'interests.familySituation',
+    ]);
+    expect(changes.find(change => change.field === 'interests.rooms')).toEqual({ field: 'interests.rooms', previousValue: 2, newValue: 3 });
+    expect((updates.interests as any).notes).toBe('Vio el anuncio en Instagram');
+  });
+
+  test('should not erase data or rename a lead with a real name', () => {
+    const named = { ...lead, fullName: 'Juan Gómez' } as Lead;
+    const { changes } = planLeadEnrichment(named, { fullName: 'María', budget: 250000 });
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('isPlaceholderName', () => {
+  test('should treat generic names and the phone number as placeholders', () => {
+    expect(isPlaceholderName('Cliente WhatsApp')).toBe(true);
+    expect(isPlaceholderName('+1 809-555-1234', '18095551234')).toBe(true);
+    expect(isPlaceholderName('Ana')).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import type { Appointment, Lead, LeadActivity, Message } from '@shared/schema';
+import { buildLeadTimeline, DEFAULT_LEAD_STAGES, resolveStages, stageKeyFromName } from '../leadPipelineService';
+
+describe('stageKeyFromName', () => {
+  test('should build an uppercase key without accents', () => {
+    expect(stageKeyFromName('Visita agendada')).toBe('VISITA_AGENDADA');
+    expect(stageKeyFromName('  Negociación / oferta ')).toBe('NEGOCIACION_OFERTA');
+    expect(stageKeyFromName('!!!')).toBe('ETAPA');
+  });
+});
+
+describe('resolveStages', () => {
+  const input = DEFAULT_LEAD_STAGES.map(({ key, name, type, color }) => ({ key, name, type, color })) as any[];
+
+  test('should assign unique keys to new stages', () => {
+    const stages = resolveStages([...input, { name: 'Oferta', type: 'OPEN', color: 'gray' }]);
+    expect(stages.map(stage => stage.key)).toContain('OFERTA');
+    expect(resolveStages([...input, { name: 'Won', type: 'OPEN', color: 'gray' }]).pop()!.key).toBe('WON_2');
+  });
+
+  test('should require open, won and lost stages', () => {
+    expect(() => resolveStages(input.filter(stage => stage.type !== 'LOST'))).toThrow('al menos una etapa abierta');
+  });
+
+  test('should not remove stages that still have leads', () => {
+    const withoutOffer = input.filter(stage => stage.key !== 'OFFER');
+    expect(() => resolveStages(withoutOffer, { OFFER: 2 }, DEFAULT_LEAD_STAGES)).toThrow('Oferta');
+    expect(resolveStages(withoutOffer, { NEW: 3 }, DEFAULT_LEAD_STAGES)).toHaveLength(DEFAULT_LEAD_STAGES.length - 1);
+  });
+});
+
+describe('buildLeadTimeline', () => {
+  test('should merge activity, messages and appointments newest first', () => {
+    const lead = { id: 'lead-1', source: 'whatsapp', createdAt: new Date('2024-06-01T10:00:00Z') } as Lead;
+    const activities = [{
+      id: 'act-1',
+      type: 'STAGE_CHANGE',
+      actorId: 'agent-1',
+      metadata: { from: 'NEW', to: 'LOST', lostReason: 'Compró con otra agencia' },
+      createdAt: new Date('2024-06-04T10:00:00Z'),
+    }] as LeadActivity[];
+    const messages = [{
+      id: 'msg-1',
+      fromMe: false,
+      messageType: 'text',
+      content: 'Hola, me interesa el apartamento',
+      timestamp: new Date('2024-06-01T10:05:00Z'),
+    }] as Message[];
+    const appointments = [{
+      id: 'apt-1',
+      status: 'SCHEDULED',
+      location: 'Piantini',
+      scheduledAt: new Date('2024-06-05T15:00:00Z'),
+      createdAt: new Date('2024-06-02T09:00:00Z'),
+    }] as Appointment[];
+
+    const timeline = buildLeadTimeline(lead, activities, messages, appointments, DEFAULT_LEAD_STAGES);
+
+    expect(timeline.map(entry => entry.type)).toEqual(['stage_change', 'appointment', 'message', 'created']);
+    expect(timeline[0].title).toBe('Nuevo → Perdido');
+    expect(timeline[0].detail).toBe('Motivo: Compró con otra agencia');
+    expect(timeline[2].title).toBe('Mensaje del cliente');
+  });
+});
@@ -0,0 +1,72 @@
+import { computeLeadScore, type LeadScoreSignals } from '../leadScoringService';
+
+const now = new Date('2024-06-10T12:00:00Z');
+const at = (iso: string) => new Date(iso);
+
+const base: LeadScoreSignals = {
+  qualification: null,
+  interests: {},
+  inventory: { hasBudget: false, matches: null },
+  messages: [],
+  appointments: [],
+  now,
+};
+
+const points = (signals: LeadScoreSignals, key: string) =>
+  computeLeadScore(signals).factors.find(factor => factor.key === key)!.points;
+
+describe('computeLeadScore', () => {
+  test('should score an unknown lead at zero with every factor explained', () => {
+    const { score, factors } = computeLeadScore(base);
+    expect(score).toBe(0);
+    expect(factors.map(factor => factor.key)).toEqual(['qualification', 'inventory', 'urgency', 'engagement', 'appointments']);
+    expect(factors.reduce((sum, factor) => sum + factor.maxPoints, 0)).toBe(100);
+  });
+
+  test('should reach 100 for a qualified, urgent, responsive lead who visited', () => {
+    const { score } = computeLeadScore({
+      ...base,
+      qualification: {
+        isQualified: true,
+        qualificationStep: 7,
+        completedSteps: ['step1', 'step2', 'step3', 'step4', 'step5', 'step6', 'step7'],
+        missingCriteria: [],
+        assessedAt: now.toISOString(),
+      },
+      interests: { urgency: 'inmediata' },
+      inventory: { hasBudget: true, matches: 12 },
+      messages: Array.from({ length: 8 }, (_, i) => [
+        { fromMe: true, timestamp: at(`2024-06-10T0${i}:00:00Z`) },
+        { fromMe: false, timestamp: at(`2024-06-10T0${i}:03:00Z`) },
+      ]).flat(),
+      appointments: [{ status: 'COMPLETED' }],
+    });
+    expect(score).toBe(100);
+  });
+
+  test('should use the median reply latency and decay with inactivity', () => {
+    const messages = [
+      { fromMe: true, timestamp: at('2024-06-01T10:00:00Z') },
+      { fromMe: false, timestamp: at('2024-06-01T10:05:00Z') },
+      { fromMe: true, timestamp: at('2024-06-01T11:00:00Z') },
+      { fromMe: false, timestamp: at('2024-06-01T12:30:00Z') },
+      { fromMe: true, timestamp: at('2024-06-01T13:00:00Z') },
+      { fromMe: false, timestamp: at('2024-06-02T13:00:00Z') },
+    ];
+    // 3 mensajes + mediana 90 min (5) + último hace 8 días (0)
+    expect(points({ ...base, messages }, 'engagement')).toBe(8);
+    expect(points({ ...base, messages, now: at('2024-06-02T20:00:00Z') }, 'engagement')).toBe(13);
+  });
+
+  test('should reward budgets that fit the inventory', () => {
+    expect(points({ ...base, inventory: { hasBudget: true, matches: null } }, 'inventory')).toBe(10);
+    expect(points({ ...base, inventory: { hasBudget: true, matches: 2 } }, 'inventory')).toBe(14);
+    expect(points({ ...base, inventory: { hasBudget: true, matches: 0, matchesOutsideZones: 4 } }, 'inventory')).toBe(6);
+    expect(points({ ...base, inventory: { hasBudget: true, matches: 0, matchesOutsideZones: 0 } }, 'inventory')).toBe(0);
+  });
+
+  test('should prefer upcoming visits over cancelled ones', () => {
+    expect(points({ ...base, appointments: [{ status: 'CANCELLED' }, { status: 'SCHEDULED' }] }, 'appointments')).toBe(12);
+    expect(points({ ...base, appointments: [{ status: 'NO_SHOW' }] }, 'appointments')).toBe(3);
+  });
+});
@@ -0,0 +1,111 @@
+import { ScriptedLLMProvider, createLLMProvider, tenantLLMConfig } from '../llmProvider';
+
+describe('ScriptedLLMProvider', () => {
+  test('should answer greetings with the scripted reply', async () => {
+    const provider = new ScriptedLLMProvider();
+
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: 'Eres un asistente' },
+        { role: 'user', content: 'Hola, buenas tardes' }
+      ]
+    });
+
+    expect(response.content).toContain('¡Hola!');
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  test('should only match JSON rules for JSON requests', async () => {
+    const provider = new ScriptedLLMProvider({
+      rules: [
+        { json: true, response: '{"intent":"greeting","confidence":1}' },
+        { response: 'texto plano' }
+      ]
+    });
+
+    const json = await provider.chat({ messages: [{ role: 'user', content: 'hola' }], jsonMode: true });
+    const text = await provider.chat({ messages: [{ role: 'user', content: 'hola' }] });
+
+    expect(JSON.parse(json.content || '{}').intent).toBe('greeting');
+    expect(text.content).toBe('texto plano');
+  });
+
+  test('should return the scripted transcription', async () => {
+    const provider = new ScriptedLLMProvider({ rules: [], transcription: 'Busco apartamento en Naco' });
+
+    expect(await provider.transcribe()).toBe('Busco apartamento en Naco');
+  });
+});
+
+describe('createLLMProvider', () => {
+  test('should build the provider requested in settings', () => {
+    expect(createLLMProvider({ provider: 'scripted' }).type).toBe('scripted');
+
+    const local = createLLMProvider({ provider: 'local', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' });
+    expect(local.type).toBe('local');
+    expect(local.model).toBe('llama3.1');
+  });
+
+  test('should not send the OpenAI default model to a local endpoint', () => {
+    delete process.env.LOCAL_LLM_MODEL;
+    expect(createLLMProvider({ provider: 'local', model: 'gpt-4o' }).model).toBe('llama3.1');
+    expect(createLLMProvider({ provider: 'local', model: null }).model).toBe('llama3.1');
+    expect(createLLMProvider({ provider: 'local', model: 'qwen2.5' }).model).toBe('qwen2.5');
+  });
+});
+
+describe('tenantLLMConfig', () => {
+  const local = { llmProvider: 'local', llmModel: 'llama3.1', llmBaseUrl: 'http://10.0.0.5:11434/v1' };
+
+  afterEach(() => {
+    delete process.env.LLM_ALLOW_SELF_HOSTED;
+  });
+
+  test('should ignore self-hosted providers and their URL unless the server allows them', () => {
+    expect(tenantLLMConfig(local)).toEqual({});
+    expect(tenantLLMConfig({ llmProvider: 'scripted' })).toEqual({});
+    expect(tenantLLMConfig({ llmProvider: 'openai', llmModel: 'gpt-4o-mini', llmBaseUrl: 'http://10.0.0.5' }))
+      .toEqual({ provider: 'openai', model: 'gpt-4o-mini', baseUrl: null });
+  });
+
+  test('should pass the local endpoint through when LLM_ALLOW_SELF_HOSTED is set', () => {
+    process.env.LLM_ALLOW_SELF_HOSTED = 'true';
+    expect(tenantLLMConfig(local)).toEqual({ provider: 'local', model: 'llama3.1', baseUrl: 'http://10.0.0.5:11434/v1' });
+  });
+});
+
+describe('ScriptedLLMProvider tool calls', () => {
+  const tools = [{ name: 'escalate_to_human', description: 'Transferir', parameters: { type: 'object', properties: {} } }];
+  const script = {
+    rules: [
+      { match: 'agente|persona', toolCall: { name: 'escalate_to_human', arguments: { reason: 'Cliente pidió un agente' } } },
+      { response: 'Te comunico con un agente.' }
+    ]
+  };
+
+  test('should call the scripted tool when it is offered', async () => {
+    const provider = new ScriptedLLMProvider(script);
+
+    const response = await provider.chat({ messages: [{ role: 'user', content: 'Quiero hablar con un agente' }], tools });
+
+    expect(response.toolCalls).toHaveLength(1);
+    expect(response.toolCalls![0].name).toBe('escalate_to_human');
+    expect(JSON.parse(response.toolCalls![0].arguments).reason).toBe('Cliente pidió un agente');
+  });
+
+  test('should answer with text after the tool result', async () => {
+    const provider = new ScriptedLLMProvider(script);
+
+    const response = await provider.chat({
+      messages: [
+        { role: 'user', content: 'Quiero hablar con un agente' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'escalate_to_human', arguments: '{}' }] },
+        { role: 'tool', toolCallId: 'call_0', content: '{"escalated":true}' }
+      ],
+      tools
+    });
+
+    expect(response.toolCalls).toBeUndefined();
+    expect(response.content).toBe('Te comunico con un agente.');
+  });
+});
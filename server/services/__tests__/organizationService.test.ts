@@ -0,0 +1,25 @@
+import { hasPermission, isOrganizationRole } from '../organizationService';
+
+describe('hasPermission', () => {
+  test('should give owners every permission and keep organization management from admins', () => {
+    expect(hasPermission('owner', 'organization:manage')).toBe(true);
+    expect(hasPermission('admin', 'organization:manage')).toBe(false);
+    expect(hasPermission('admin', 'members:manage')).toBe(true);
+  });
+
+  test('should let agents work conversations but not change settings', () => {
+    expect(hasPermission('agent', 'conversations:write')).toBe(true);
+    expect(hasPermission('agent', 'settings:write')).toBe(false);
+    expect(hasPermission('agent', 'whatsapp:manage')).toBe(false);
+  });
+
+  test('should keep viewers read-only', () => {
+    expect(hasPermission('viewer', 'leads:read')).toBe(true);
+    expect(hasPermission('viewer', 'leads:write')).toBe(false);
+  });
+
+  test('should reject unknown roles', () => {
+    expect(isOrganizationRole('superuser')).toBe(false);
+    expect(hasPermission('superuser', 'leads:read')).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import { toProperty } from '../inventoryProvider';
+import { propertyIndexService } from '../propertyIndexService';
+
+describe('PropertyIndexService.toIndexRow', () => {
+  test('should flatten the property and normalize the price to USD', () => {
+    const property = toProperty({
+      id: 'C-201',
+      title: 'Casa familiar en Cerros de Gurabo',
+      operation: 'sale',
+      propertyType: 'Casa',
+      price: 18500000,
+      currency: 'RD$',
+      location: { sector: 'Cerros de Gurabo', city: 'Santiago', address: null, label: '' },
+      specifications: { rooms: 4, bathrooms: 3.5, area: 320, parking: 2 },
+      raw: { Código: 'C-201' },
+    });
+
+    const row = propertyIndexService.toIndexRow('user-1', 'csv', property, 62);
+
+    expect(row.externalId).toBe('C-201');
+    expect(row.priceUsd).toBe(Math.round(18500000 / 62));
+    expect(row.sector).toBe('Cerros de Gurabo');
+    expect(row.bathrooms).toBe(3.5);
+    expect(row.data).not.toHaveProperty('raw');
+  });
+
+  test('should leave unknown currencies without a comparable price', () => {
+    const property = toProperty({ id: 'E-1', price: 300000, currency: 'EUR' });
+
+    expect(propertyIndexService.toIndexRow('user-1', 'json', property).priceUsd).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { toProperty } from '../inventoryProvider';
+import { findAlertCandidates, isOptOutMessage, qualificationToSearchCriteria } from '../savedSearchService';
+
+describe('qualificationToSearchCriteria', () => {
+  test('should map the qualification criteria to inventory search criteria', () => {
+    const criteria = qualificationToSearchCriteria({
+      searchObjective: { operation: 'alquiler' },
+      budget: { min: null, max: 85000, currency: 'DOP' },
+      location: { zones: ['Naco', 'Piantini'] },
+      specifications: { rooms: 2, bathrooms: null },
+      operation: 'alquiler',
+      budget_max: 85000,
+      currency: 'DOP',
+      zones: ['Naco', 'Piantini'],
+      rooms: 2,
+    });
+
+    expect(criteria).toMatchObject({
+      operation: 'rent',
+      budgetMax: 85000,
+      currency: 'RD$',
+      zones: ['Naco', 'Piantini'],
+      rooms: 2,
+    });
+    expect(criteria.budgetMin).toBeUndefined();
+  });
+
+  test('should ignore "any zone" answers', () => {
+    expect(qualificationToSearchCriteria({ zones: ['cualquier_zona'] }).zones).toBeUndefined();
+  });
+});
+
+describe('findAlertCandidates', () => {
+  test('should return unseen and price-reduced properties only', () => {
+    const properties = [
+      toProperty({ id: 'A', price: 200000, currency: 'USD' }),
+      toProperty({ id: 'B', price: 180000, currency: 'USD' }),
+      toProperty({ id: 'C', price: 150000, currency: 'USD' }),
+    ];
+
+    const candidates = findAlertCandidates(properties, { B: 195000, C: 150000 });
+
+    expect(candidates.map(candidate => [candidate.property.id, candidate.reason])).toEqual([
+      ['A', 'new'],
+      ['B', 'price_drop'],
+    ]);
+    expect(candidates[1].previousPrice).toBe(195000);
+  });
+});
+
+describe('isOptOutMessage', () => {
+  test('should recognize opt-out replies', () => {
+    expect(isOptOutMessage('NO MÁS ALERTAS')).toBe(true);
+    expect(isOptOutMessage('stop')).toBe(true);
+    expect(isOptOutMessage('no quiero avisos!')).toBe(true);
+    expect(isOptOutMessage('No más apartamentos en Naco, mejor casas')).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+import { parseAuthFileName } from '../whatsappAuthState';
+
+describe('parseAuthFileName', () => {
+  test('should read the category and key id of useMultiFileAuthState files', () => {
+    expect(parseAuthFileName('creds.json')).toEqual({ category: 'creds', keyId: 'creds' });
+    expect(parseAuthFileName('pre-key-12.json')).toEqual({ category: 'pre-key', keyId: '12' });
+    expect(parseAuthFileName('session-18095551234.0.json')).toEqual({ category: 'session', keyId: '18095551234.0' });
+    expect(parseAuthFileName('app-state-sync-key-AAAAAPr2.json')).toEqual({ category: 'app-state-sync-key', keyId: 'AAAAAPr2' });
+  });
+
+  test('should not confuse sender-key-memory with sender-key', () => {
+    expect(parseAuthFileName('sender-key-memory-120363@g.us.json')?.category).toBe('sender-key-memory');
+  });
+
+  test('should ignore unrelated files', () => {
+    expect(parseAuthFileName('notes.txt')).toBeNull();
+    expect(parseAuthFileName('unknown-1.json')).toBeNull();
+  });
+});
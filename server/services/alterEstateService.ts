@@ -112,10 +112,34 @@ interface LeadData {
   related?: string; // Email del agente para asignar el lead
 }
 
+// Lead tal como lo devuelve /leads/<id>/ (API autenticada con API key)
+interface AlterEstateLead {
+  id: number;
+  full_name: string;
+  phone: string;
+  email: string;
+  status: string;
+  agent_email: string | null;
+  lost_reason?: string | null;
+  modified: string; // ISO, cambia con cualquier edición del lead
+}
+
+interface AlterEstateLeadNote {
+  id: number;
+  content: string;
+  author?: string | null;
+  created: string;
+}
+
 export class AlterEstateService {
-  private baseUrl = 'https://secure.alterestate.com/api/v1';
+  private baseUrl: string;
   private cache = new Map<string, { data: any; expires: number }>();
 
+  // ALTERESTATE_API_URL permite apuntar a un servidor de pruebas
+  constructor(baseUrl = process.env.ALTERESTATE_API_URL || 'https://secure.alterestate.com/api/v1') {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
   private getCacheKey(endpoint: string, params?: any): string {
     return `${endpoint}:${JSON.stringify(params || {})}`;
   }
@@ -1082,19 +1106,84 @@ export class AlterEstateService {
     }
   }
 
+  /**
+   * Obtener un lead por id; null si ya no existe en AlterEstate
+   */
+  async getLead(apiKey: string, leadId: string): Promise<AlterEstateLead | null> {
+    const response = await axios.get(`${this.baseUrl}/leads/${leadId}/`, {
+      headers: this.leadHeaders(apiKey),
+      timeout: 30000,
+      validateStatus: status => status < 500,
+    });
+    if (response.status === 404) return null;
+    if (response.status >= 400) {
+      throw new Error(`AlterEstate respondió ${response.status} al leer el lead ${leadId}`);
+    }
+    return response.data;
+  }
+
+  /**
+   * Actualizar estado y/o agente asignado de un lead
+   */
+  async updateLead(apiKey: string, leadId: string, changes: { status?: string; agent_email?: string | null; lost_reason?: string | null }): Promise<AlterEstateLead> {
+    console.log(`📝 [ALTERESTATE] Updating lead ${leadId}:`, changes);
+    const response = await axios.patch(`${this.baseUrl}/leads/${leadId}/`, changes, {
+      headers: this.leadHeaders(apiKey),
+      timeout: 30000,
+      validateStatus: () => true,
+    });
+    if (response.status >= 400) {
+      throw new Error(`AlterEstate respondió ${response.status} al actualizar el lead ${leadId}: ${response.data?.message || response.statusText}`);
+    }
+    return response.data;
+  }
+
+  async getLeadNotes(apiKey: string, leadId: string): Promise<AlterEstateLeadNote[]> {
+    const response = await axios.get(`${this.baseUrl}/leads/${leadId}/notes/`, {
+      headers: this.leadHeaders(apiKey),
+      timeout: 30000,
+      validateStatus: () => true,
+    });
+    if (response.status >= 400) {
+      throw new Error(`AlterEstate respondió ${response.status} al leer las notas del lead ${leadId}`);
+    }
+    return Array.isArray(response.data) ? response.data : response.data?.results || [];
+  }
+
+  async addLeadNote(apiKey: string, leadId: string, content: string): Promise<AlterEstateLeadNote> {
+    const response = await axios.post(`${this.baseUrl}/leads/${leadId}/notes/`, { content }, {
+      headers: this.leadHeaders(apiKey),
+      timeout: 30000,
+      validateStatus: () => true,
+    });
+    if (response.status >= 400) {
+      throw new Error(`AlterEstate respondió ${response.status} al agregar una nota al lead ${leadId}`);
+    }
+    return response.data;
+  }
+
+  private leadHeaders(apiKey: string) {
+    return {
+      'Authorization': `Token ${apiKey}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    };
+  }
+
   /**
    * Buscar propiedades inteligentemente basado en consulta natural
    */
   async intelligentPropertySearch(
     aeToken: string, 
     query: string, 
-    userLocation?: string
+    userLocation?: string,
+    userId?: string
   ): Promise<AlterEstateProperty[]> {
     try {
       console.log(`🔍 [ALTERESTATE] Intelligent search for: "${query}"`);
       
-      // Analizar la consulta usando IA para extraer criterios más precisos
-      const filters: PropertyFilters = await this.analyzeQueryWithAI(query);
+      // Analizar la consulta usando IA (proveedor LLM del usuario) para extraer criterios más precisos
+      const filters: PropertyFilters = await this.analyzeQueryWithAI(query, userId);
       
       // Si hay ubicación del usuario, agregarla o combinarla
       if (userLocation && !filters.search) {
@@ -1120,10 +1209,10 @@ export class AlterEstateService {
    * Analizar consulta usando IA para extraer criterios precisos - Especificación Sección 3
    * Implementa análisis avanzado según casos prácticos de la sección 8
    */
-  private async analyzeQueryWithAI(query: string): Promise<PropertyFilters> {
+  private async analyzeQueryWithAI(query: string, userId?: string): Promise<PropertyFilters> {
     try {
-      const { OpenAI } = await import('openai');
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      const { getUserLLMProvider } = await import('./llmProvider');
+      const provider = await getUserLLMProvider(userId);
       
       const prompt = `Analiza esta consulta de búsqueda de propiedades inmobiliarias y extrae TODOS los criterios específicos posibles según las especificaciones AlterEstate CRM:
 
@@ -1189,15 +1278,14 @@ Responde en JSON:
   "condition": number_o_null
 }`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await provider.chat({
         messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        max_tokens: 500,
+        jsonMode: true,
+        maxTokens: 500,
         temperature: 0.3,
       });
 
-      const filters = JSON.parse(response.choices[0].message.content || '{}');
+      const filters = JSON.parse(response.content || '{}');
       console.log(`🧠 [ALTERESTATE] AI analyzed query "${query}" -> filters:`, filters);
       
       // Filtrar valores null y convertir a PropertyFilters
@@ -1692,6 +1780,8 @@ export type {
   AlterEstateProperty, 
   AlterEstatePropertyDetail, 
   AlterEstateAgent,
+  AlterEstateLead,
+  AlterEstateLeadNote,
   PropertyFilters,
   LeadData 
 };
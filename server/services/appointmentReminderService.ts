@@ -0,0 +1,294 @@
+import type { Appointment, AppointmentReminder, Conversation, InsertAppointmentReminder, Message } from '@shared/schema';
+import { storage } from '../storage';
+import { formatDateTimeLabel } from '../utils/timezone';
+import { calendarService } from './calendarService';
+import { notificationService } from './notificationService';
+
+const DEFAULT_POLL_SECONDS = 60;
+const CLAIM_BATCH_SIZE = 50;
+const STALE_CLAIM_MS = 5 * 60 * 1000; // Un proceso caído no deja recordatorios reclamados para siempre
+const MAX_ATTEMPTS = 3;
+const REPLY_WINDOW_MS = 2 * 60 * 60 * 1000; // Pasado este tiempo un "1" ya no se toma como respuesta al recordatorio
+
+export type ReminderType = '24h' | '2h' | '30m';
+export type ReminderReply = 'confirm' | 'reschedule' | 'cancel';
+
+// De mayor a menor antelación
+export const REMINDER_OFFSETS: Array<{ type: ReminderType; minutes: number }> = [
+  { type: '24h', minutes: 24 * 60 },
+  { type: '2h', minutes: 2 * 60 },
+  { type: '30m', minutes: 30 },
+];
+
+// Solo estas citas reciben recordatorios
+const ACTIVE_STATUSES = ['SCHEDULED', 'CONFIRMED'];
+
+const REPLY_PATTERNS: Array<{ reply: ReminderReply; pattern: RegExp }> = [
+  { reply: 'confirm', pattern: /^\s*(1|confirm[oa]?|confirmar|confirmada|s[ií],?\s+confirm[oa]|ah[ií] estar[eé])\s*[.!👍✅]*\s*$/i },
+  { reply: 'reschedule', pattern: /^\s*(2|reprogramar|reagendar|cambiar (la )?(hora|fecha|cita)|otro (d[ií]a|horario))\s*[.!]*\s*$/i },
+  { reply: 'cancel', pattern: /^\s*(3|cancelar|cancela(r)? la (cita|visita)|no (podr[eé]|puedo) ir)\s*[.!]*\s*$/i },
+];
+
+export function parseReminderReply(message: string): ReminderReply | null {
+  return REPLY_PATTERNS.find(({ pattern }) => pattern.test(message || ''))?.reply ?? null;
+}
+
+/**
+ * Recordatorios de una cita: los que ya vencieron al agendarla se guardan como SKIPPED
+ */
+export function planReminders(scheduledAt: Date, now: Date = new Date()): Array<{ reminderType: ReminderType; dueAt: Date; status: 'PENDING' | 'SKIPPED' }> {
+  return REMINDER_OFFSETS.map(({ type, minutes }) => {
+    const dueAt = new Date(scheduledAt.getTime() - minutes * 60 * 1000);
+    return { reminderType: type, dueAt, status: dueAt > now ? 'PENDING' : 'SKIPPED' };
+  });
+}
+
+/**
+ * Tras una caída larga solo se envía el recordatorio más cercano a la cita:
+ * uno vencido queda reemplazado si el siguiente también venció
+ */
+export function isReminderSuperseded(reminderType: string, scheduledAt: Date, now: Date = new Date()): boolean {
+  if (scheduledAt <= now) return true;
+  const index = REMINDER_OFFSETS.findIndex(offset => offset.type === reminderType);
+  const next = REMINDER_OFFSETS[index + 1];
+  return !!next && scheduledAt.getTime() - next.minutes * 60 * 1000 <= now.getTime();
+}
+
+/**
+ * Un 1, 2 o 3 solo responde al recordatorio si llegó dentro de la ventana y el recordatorio
+ * sigue siendo el último mensaje que se le envió al cliente
+ */
+export function isAwaitingReminderReply(
+  reminder: Pick<AppointmentReminder, 'sentAt' | 'messageId'>,
+  lastOutgoing: Pick<Message, 'messageId'> | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!reminder.sentAt || !reminder.messageId || now.getTime() - reminder.sentAt.getTime() > REPLY_WINDOW_MS) return false;
+  return lastOutgoing?.messageId === reminder.messageId;
+}
+
+function reminderLead(reminderType: string): string {
+  return reminderType === '24h' ? 'mañana' : reminderType === '2h' ? 'en 2 horas' : 'en 30 minutos';
+}
+
+/**
+ * Recordatorios de citas por WhatsApp al cliente y por email/WhatsApp al agente.
+ * Se guardan en appointment_reminders y un sondeo periódico envía los vencidos,
+ * así sobreviven a reinicios. El cliente responde 1, 2 o 3 para confirmar, reprogramar o cancelar.
+ */
+export class AppointmentReminderService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Sondeo de recordatorios vencidos (APPOINTMENT_REMINDER_POLL_SECONDS, 0 lo desactiva)
+   */
+  start(): void {
+    const seconds = Number(process.env.APPOINTMENT_REMINDER_POLL_SECONDS ?? DEFAULT_POLL_SECONDS);
+    if (!seconds || this.timer) return;
+
+    console.log(`⏰ [REMINDERS] Checking appointment reminders every ${seconds} seconds`);
+    this.timer = setInterval(() => this.processDue(), seconds * 1000);
+    this.processDue();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Programar (o reprogramar, si la cita se movió) los recordatorios de la cita
+   */
+  async scheduleReminders(appointment: Appointment): Promise<void> {
+    const reminders: InsertAppointmentReminder[] = planReminders(appointment.scheduledAt).map(plan => ({
+      ...plan,
+      appointmentId: appointment.id,
+      userId: appointment.userId,
+    }));
+    await storage.upsertAppointmentReminders(reminders);
+
+    const pending = reminders.filter(reminder => reminder.status === 'PENDING').map(reminder => reminder.reminderType);
+    console.log(`⏰ [REMINDERS] Appointment ${appointment.id} reminders: ${pending.join(', ') || 'none pending'}`);
+  }
+
+  async processDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const reminders = await storage.claimDueReminders(new Date(Date.now() - STALE_CLAIM_MS), CLAIM_BATCH_SIZE);
+      for (const reminder of reminders) {
+        await this.processReminder(reminder);
+      }
+    } catch (error) {
+      console.error('❌ [REMINDERS] Error processing due reminders:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processReminder(reminder: AppointmentReminder): Promise<void> {
+    const appointment = await storage.getAppointment(reminder.appointmentId);
+    if (!appointment || !ACTIVE_STATUSES.includes(appointment.status) || isReminderSuperseded(reminder.reminderType, appointment.scheduledAt)) {
+      await storage.updateAppointmentReminder(reminder.id, { status: 'SKIPPED', claimedAt: null });
+      return;
+    }
+
+    let timeZone: string;
+    try {
+      ({ timeZone } = await calendarService.getRules(appointment.userId, appointment.agentId || appointment.userId));
+      const messageId = await this.sendClientReminder(appointment, reminder.reminderType, timeZone);
+      await storage.updateAppointmentReminder(reminder.id, { status: 'SENT', sentAt: new Date(), messageId, claimedAt: null, lastError: null });
+      console.log(`⏰ [REMINDERS] Sent ${reminder.reminderType} reminder for appointment ${appointment.id}`);
+    } catch (error) {
+      // Se libera el reclamo para reintentar en el próximo sondeo hasta MAX_ATTEMPTS
+      const failed = reminder.attempts >= MAX_ATTEMPTS;
+      await storage.updateAppointmentReminder(reminder.id, {
+        status: failed ? 'FAILED' : 'PENDING',
+        claimedAt: null,
+        lastError: (error as Error).message,
+      });
+      console.error(`❌ [REMINDERS] ${reminder.reminderType} reminder for appointment ${appointment.id} failed (attempt ${reminder.attempts}):`, (error as Error).message);
+      return;
+    }
+
+    // El cliente ya lo recibió: si falla el aviso al agente no se reintenta el recordatorio
+    try {
+      await this.notifyAgent(
+        appointment,
+        `Recordatorio de visita - ${appointment.clientName}`,
+        `⏰ Visita ${reminderLead(reminder.reminderType)} con ${appointment.clientName} (${appointment.clientPhone}): ${formatDateTimeLabel(appointment.scheduledAt, timeZone)}${appointment.location ? `, ${appointment.location}` : ''}.`
+      );
+    } catch (error) {
+      console.error(`❌ [REMINDERS] Could not notify agent of ${reminder.reminderType} reminder for appointment ${appointment.id}:`, (error as Error).message);
+    }
+  }
+
+  private async sendClientReminder(appointment: Appointment, reminderType: string, timeZone: string): Promise<string> {
+    const text = [
+      `Hola ${appointment.clientName} 👋, te recordamos tu visita ${reminderLead(reminderType)}: ${formatDateTimeLabel(appointment.scheduledAt, timeZone)}.`,
+      ...(appointment.location ? [`📍 ${appointment.location}`] : []),
+      'Responde *1* para confirmar, *2* para reprogramar o *3* para cancelar.',
+    ].join('\n');
+    return await this.messageClient(appointment, text);
+  }
+
+  /**
+   * Respuesta del cliente a un recordatorio. Devuelve true si el mensaje era una respuesta
+   * (1, 2 o 3) al último recordatorio de una cita sin confirmar y ya se atendió sin la IA.
+   */
+  async handleClientReply(conversation: Conversation, message: string, instanceName?: string): Promise<boolean> {
+    const reply = parseReminderReply(message);
+    if (!reply) return false;
+
+    const awaiting = await storage.getAppointmentAwaitingReply(conversation.id, new Date(Date.now() - REPLY_WINDOW_MS));
+    if (!awaiting) return false;
+
+    const messages = await storage.getConversationMessages(conversation.id);
+    const lastOutgoing = messages.filter(entry => entry.fromMe).pop();
+    if (!isAwaitingReminderReply(awaiting.reminder, lastOutgoing)) return false;
+
+    const { appointment } = awaiting;
+    const { timeZone } = await calendarService.getRules(appointment.userId, appointment.agentId || appointment.userId);
+    const when = formatDateTimeLabel(appointment.scheduledAt, timeZone);
+    let answer: string;
+    let notice: string;
+
+    if (reply === 'confirm') {
+      await calendarService.changeStatus(appointment.userId, appointment.id, 'CONFIRMED', { changedBy: 'client', reason: 'Respuesta al recordatorio' });
+      answer = `¡Gracias! Tu visita del ${when} quedó confirmada. Te esperamos 🙌`;
+      notice = `✅ ${appointment.clientName} confirmó la visita del ${when}.`;
+    } else if (reply === 'cancel') {
+      await calendarService.cancelAppointment(appointment.userId, appointment.id, { changedBy: 'client', reason: 'Respuesta al recordatorio' });
+      answer = `Listo, cancelé tu visita del ${when}. Si quieres agendar otra fecha, escríbeme cuando gustes.`;
+      notice = `❌ ${appointment.clientName} canceló la visita del ${when}.`;
+    } else {
+      // La IA propone horarios y la mueve con reschedule_appointment
+      await calendarService.changeStatus(appointment.userId, appointment.id, 'RESCHEDULE_REQUESTED', { changedBy: 'client', reason: 'Respuesta al recordatorio' });
+      answer = 'Claro, reprogramemos tu visita. ¿Qué día y horario te quedan mejor?';
+      notice = `🔁 ${appointment.clientName} pidió reprogramar la visita del ${when}.`;
+    }
+    console.log(`⏰ [REMINDERS] Client replied "${reply}" to appointment ${appointment.id}`);
+
+    try {
+      await this.messageClient(appointment, answer, { conversation, instanceName });
+    } catch (error) {
+      console.error(`❌ [REMINDERS] Could not answer reminder reply for appointment ${appointment.id}:`, (error as Error).message);
+    }
+    await this.notifyAgent(appointment, `Respuesta a recordatorio - ${appointment.clientName}`, `${notice} Tel: ${appointment.clientPhone}`);
+    return true;
+  }
+
+  // Las citas creadas desde el panel se vinculan a la conversación del cliente para recibir sus respuestas
+  private async getAppointmentConversation(appointment: Appointment): Promise<Conversation | undefined> {
+    if (appointment.conversationId) {
+      return await storage.getConversationById(appointment.conversationId);
+    }
+    const conversation = await storage.getConversationByUserAndPhone(appointment.userId, appointment.clientPhone);
+    if (conversation) {
+      await storage.updateAppointment(appointment.id, { conversationId: conversation.id });
+    }
+    return conversation;
+  }
+
+  /**
+   * Mensaje de WhatsApp al cliente de la cita, guardado en su conversación. Devuelve su messageId.
+   * Con document se envía como adjunto con el texto de pie (p. ej. el .ics actualizado).
+   */
+  async messageClient(
+    appointment: Appointment,
+    text: string,
+    options: { conversation?: Conversation; instanceName?: string; document?: { content: Buffer; fileName: string; mimetype: string } } = {}
+  ): Promise<string> {
+    const { instanceResolver } = await import('./instanceResolver');
+    const resolvedInstance = await instanceResolver.resolveForOutgoing(appointment.userId, options.instanceName);
+    if (!resolvedInstance) {
+      throw new Error('No hay una instancia de WhatsApp conectada');
+    }
+
+    const conversation = options.conversation || await this.getAppointmentConversation(appointment);
+    const number = conversation?.clientPhone || appointment.clientPhone;
+    const { evolutionApiService } = await import('./evolutionApiService');
+    const { document } = options;
+    const result = document
+      ? await evolutionApiService.sendDocument(resolvedInstance, number, document.content, document.fileName, document.mimetype, text)
+      : await evolutionApiService.sendMessage(resolvedInstance, number, text);
+
+    const messageId = result.messageId || `appointment_${appointment.id}_${Date.now()}`;
+    if (conversation) {
+      await storage.createMessage({
+        conversationId: conversation.id,
+        whatsappInstanceId: conversation.whatsappInstanceId,
+        messageId,
+        fromMe: true,
+        messageType: document ? 'document' : 'text',
+        content: text,
+        timestamp: new Date(),
+      });
+    }
+    return messageId;
+  }
+
+  // Por los canales de notificationMethod; el WhatsApp del titular es notificationWhatsApp
+  async notifyAgent(appointment: Appointment, subject: string, text: string): Promise<void> {
+    const agentId = appointment.agentId || appointment.userId;
+    const [agent, settings] = await Promise.all([storage.getUser(agentId), storage.getUserSettings(appointment.userId)]);
+    const method = settings?.notificationMethod || 'Email y WhatsApp';
+
+    const isOwner = agentId === appointment.userId;
+    const email = agent?.email || (isOwner ? settings?.notificationEmail : undefined);
+    const phone = isOwner ? settings?.notificationWhatsApp?.trim() || agent?.phone : agent?.phone;
+
+    if (method.includes('Email') && email) {
+      await notificationService.sendAppointmentUpdate(email, subject, text);
+    }
+    if (method.includes('WhatsApp') && phone) {
+      await notificationService.sendWhatsAppAlert(appointment.userId, phone, text);
+    }
+  }
+}
+
+export const appointmentReminderService = new AppointmentReminderService();
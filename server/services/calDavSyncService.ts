@@ -0,0 +1,428 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import type { Appointment, CalendarConnection, InsertCalendarBusyBlock } from '@shared/schema';
+import { storage } from '../storage';
+import { buildIcsEvent, formatIcsDate, parseIcsEvents, type IcsEvent, type ParsedIcsEvent } from '../utils/ics';
+import { assertPublicUrl, publicOnlyLookup } from '../utils/publicUrl';
+import { resolveTimeZone } from '../utils/timezone';
+
+const DEFAULT_SYNC_MINUTES = 10;
+const DEFAULT_SYNC_DAYS = 60;
+const REQUEST_TIMEOUT_MS = 15000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UID_SUFFIX = '@realestate-ai';
+
+interface CalDavResponse {
+  status: number;
+  ok: boolean;
+  etag: string | null;
+  body: string;
+}
+
+export interface CalDavResource {
+  href: string;
+  etag?: string;
+  calendarData: string;
+}
+
+// Evento con el ETag del recurso que lo contiene, para saber si cambió desde la última publicación
+export interface RemoteEvent extends ParsedIcsEvent {
+  etag?: string;
+}
+
+export interface CalDavSyncResult {
+  pushed: number;
+  moved: number;
+  cancelled: number;
+  busyBlocks: number;
+}
+
+export function appointmentUid(appointmentId: string): string {
+  return `${appointmentId}${UID_SUFFIX}`;
+}
+
+// Solo los eventos creados por la plataforma se reflejan de vuelta en las citas
+export function appointmentIdFromUid(uid: string): string | null {
+  return uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : null;
+}
+
+// Evento de la cita tal como lo ve el agente en su calendario
+export function appointmentToIcsEvent(appointment: Appointment): IcsEvent {
+  return {
+    uid: appointmentUid(appointment.id),
+    start: appointment.scheduledAt,
+    end: new Date(appointment.scheduledAt.getTime() + (appointment.duration ?? 60) * 60 * 1000),
+    summary: `Visita con ${appointment.clientName}`,
+    description: [`Cliente: ${appointment.clientName} (+${appointment.clientPhone})`, appointment.notes].filter(Boolean).join('\n'),
+    location: appointment.location || undefined,
+    sequence: appointment.sequence,
+  };
+}
+
+/**
+ * Qué hacer cuando el evento del calendario no coincide con la cita. Si el ETag es el que se
+ * guardó al publicar, el agente no tocó el evento y la diferencia es un cambio de la plataforma
+ * que no llegó al servidor (se vuelve a publicar); si el ETag cambió, el agente lo editó
+ */
+export function reconcileEvent(appointment: Pick<Appointment, 'scheduledAt' | 'duration' | 'caldavEtag'>, event: RemoteEvent): 'pull' | 'push' | null {
+  const duration = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
+  const differs = event.status === 'CANCELLED'
+    || event.start.getTime() !== appointment.scheduledAt.getTime()
+    || duration !== (appointment.duration ?? 60);
+  if (!differs) return null;
+  return event.etag && event.etag === appointment.caldavEtag ? 'push' : 'pull';
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, '\r')
+    .replace(/&#10;/g, '\n')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Recursos de una respuesta 207 Multi-Status de un REPORT calendar-query.
+ * Los servidores usan prefijos de namespace distintos (d:, D:, sin prefijo), así que se ignoran.
+ */
+export function parseMultistatus(xml: string): CalDavResource[] {
+  const resources: CalDavResource[] = [];
+  const responsePattern = /<(?:[\w-]+:)?response\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/g;
+
+  for (const [, body] of Array.from(xml.matchAll(responsePattern))) {
+    const href = body.match(/<(?:[\w-]+:)?href\b[^>]*>([^<]+)</)?.[1];
+    const calendarData = body.match(/<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/)?.[1];
+    if (!href || !calendarData) continue;
+
+    const etag = body.match(/<(?:[\w-]+:)?getetag\b[^>]*>([^<]+)</)?.[1];
+    resources.push({
+      href: decodeXml(href.trim()),
+      etag: etag ? decodeXml(etag.trim()) : undefined,
+      calendarData: decodeXml(calendarData),
+    });
+  }
+  return resources;
+}
+
+function calendarQuery(from: Date, to: Date): string {
+  const start = formatIcsDate(from);
+  const end = formatIcsDate(to);
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data><C:expand start="${start}" end="${end}"/></C:calendar-data>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        <C:time-range start="${start}" end="${end}"/>
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+}
+
+function collectionUrl(connection: CalendarConnection): string {
+  const url = connection.caldavUrl!.trim();
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * Sincronización bidireccional con el calendario CalDAV de cada agente (Radicale, Nextcloud,
+ * iCloud, Fastmail...). Las citas se publican como eventos con UID `<id>@realestate-ai`;
+ * si el agente mueve o borra el evento desde su teléfono la cita se actualiza, y el resto de
+ * sus eventos se guardan como bloques ocupados para el motor de disponibilidad.
+ */
+export class CalDavSyncService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Sincronización periódica (CALDAV_SYNC_MINUTES, 0 la desactiva)
+   */
+  start(): void {
+    const minutes = Number(process.env.CALDAV_SYNC_MINUTES ?? DEFAULT_SYNC_MINUTES);
+    if (!minutes || this.timer) return;
+
+    console.log(`📆 [CALDAV] Syncing calendars every ${minutes} minutes`);
+    this.timer = setInterval(() => this.syncAll(), minutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async syncAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const connections = await storage.getCalDavConnections();
+      for (const connection of connections) {
+        try {
+          await this.syncConnection(connection);
+        } catch (error) {
+          console.error(`❌ [CALDAV] Error syncing calendar of agent ${connection.agentId}:`, (error as Error).message);
+        }
+      }
+    } catch (error) {
+      console.error('❌ [CALDAV] Error loading calendar connections:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Conexión del agente, creándola con un token de feed si todavía no existe
+   */
+  async getOrCreateConnection(accountId: string, agentId: string): Promise<CalendarConnection> {
+    const existing = await storage.getCalendarConnection(accountId, agentId);
+    if (existing) return existing;
+    return await storage.upsertCalendarConnection({ accountId, agentId, feedToken: this.generateFeedToken() });
+  }
+
+  generateFeedToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  /**
+   * Verificar URL y credenciales antes de guardarlas (PROPFIND de la colección)
+   */
+  async testConnection(connection: Pick<CalendarConnection, 'caldavUrl' | 'caldavUsername' | 'caldavPassword'>): Promise<void> {
+    const response = await this.request(connection as CalendarConnection, 'PROPFIND', collectionUrl(connection as CalendarConnection),
+      '<?xml version="1.0" encoding="utf-8" ?><D:propfind xmlns:D="DAV:"><D:prop><D:resourcetype/></D:prop></D:propfind>',
+      { Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' });
+    if (response.status !== 207 && !response.ok) {
+      throw new Error(`El servidor CalDAV respondió ${response.status}`);
+    }
+  }
+
+  /**
+   * Crear o actualizar el evento de la cita en el calendario del agente
+   */
+  async pushAppointment(appointment: Appointment): Promise<void> {
+    const connection = await this.getConnectionFor(appointment);
+    if (!connection) return;
+
+    const href = appointment.caldavHref || `${collectionUrl(connection)}${encodeURIComponent(appointment.id)}.ics`;
+    const ics = buildIcsEvent(appointmentToIcsEvent(appointment));
+
+    const response = await this.request(connection, 'PUT', new URL(href, collectionUrl(connection)).toString(), ics, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      ...(appointment.caldavHref ? {} : { 'If-None-Match': '*' }),
+    });
+    if (!response.ok) {
+      throw new Error(`PUT ${href} respondió ${response.status}`);
+    }
+
+    await storage.updateAppointment(appointment.id, {
+      caldavHref: href,
+      caldavEtag: response.etag,
+    });
+    console.log(`📆 [CALDAV] Appointment ${appointment.id} published to calendar of ${connection.agentId}`);
+  }
+
+  async deleteAppointment(appointment: Appointment): Promise<void> {
+    if (!appointment.caldavHref) return;
+    const connection = await this.getConnectionFor(appointment);
+    if (!connection) return;
+
+    const response = await this.request(connection, 'DELETE', new URL(appointment.caldavHref, collectionUrl(connection)).toString());
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`DELETE ${appointment.caldavHref} respondió ${response.status}`);
+    }
+    await storage.updateAppointment(appointment.id, { caldavHref: null, caldavEtag: null });
+    console.log(`📆 [CALDAV] Appointment ${appointment.id} removed from calendar of ${connection.agentId}`);
+  }
+
+  /**
+   * Sincronizar una conexión: traer eventos del rango, aplicar cambios hechos desde el
+   * teléfono a las citas, publicar las citas pendientes y reemplazar los bloques ocupados
+   */
+  async syncConnection(connection: CalendarConnection): Promise<CalDavSyncResult> {
+    const result: CalDavSyncResult = { pushed: 0, moved: 0, cancelled: 0, busyBlocks: 0 };
+    const days = Number(process.env.CALDAV_SYNC_DAYS) || DEFAULT_SYNC_DAYS;
+    const from = new Date(Date.now() - DAY_MS);
+    const to = new Date(Date.now() + days * DAY_MS);
+
+    try {
+      const settings = await storage.getUserSettings(connection.accountId);
+      const timeZone = resolveTimeZone(settings?.timezone);
+      const events = await this.fetchEvents(connection, from, to, timeZone);
+
+      const isOwner = connection.agentId === connection.accountId;
+      const appointments = (await storage.getAppointmentsInRange(connection.accountId, from, to))
+        .filter(appointment => (appointment.agentId || connection.accountId) === connection.agentId);
+      const byId = new Map(appointments.map(appointment => [appointment.id, appointment]));
+
+      const seen = new Set<string>();
+      const blocks: InsertCalendarBusyBlock[] = [];
+
+      for (const event of events) {
+        const appointmentId = appointmentIdFromUid(event.uid);
+        if (appointmentId) {
+          seen.add(appointmentId);
+          const appointment = byId.get(appointmentId);
+          if (appointment) {
+            const action = reconcileEvent(appointment, event);
+            if (action === 'push') {
+              await this.pushAppointment(appointment);
+              result.pushed++;
+            } else if (action === 'pull') {
+              const change = await this.applyRemoteChanges(appointment, event);
+              if (change === 'moved') result.moved++;
+              if (change === 'cancelled') result.cancelled++;
+            } else if (event.etag && event.etag !== appointment.caldavEtag) {
+              // Editado sin mover la cita (p. ej. la descripción): se recuerda la versión vista
+              await storage.updateAppointment(appointment.id, { caldavEtag: event.etag });
+            }
+          } else {
+            // Cancelada en la plataforma pero el DELETE no llegó al servidor: se reintenta
+            const stored = await storage.getAppointment(appointmentId);
+            if (stored?.userId === connection.accountId && stored.status === 'CANCELLED') {
+              await this.deleteAppointment(stored);
+            }
+          }
+          continue;
+        }
+
+        if (event.transparent || event.status === 'CANCELLED') continue;
+        blocks.push({
+          userId: connection.accountId,
+          agentId: isOwner ? null : connection.agentId,
+          startAt: event.start,
+          endAt: event.end,
+          source: 'caldav',
+          externalId: event.recurrenceId ? `${event.uid}#${event.recurrenceId}` : event.uid,
+          summary: event.summary?.slice(0, 200),
+        });
+      }
+
+      for (const appointment of appointments) {
+        if (seen.has(appointment.id)) continue;
+        if (appointment.caldavHref?.startsWith(collectionUrl(connection))) {
+          // Publicada antes en esta colección y ya no está: el agente la borró desde su calendario
+          await storage.updateAppointment(appointment.id, { status: 'CANCELLED', caldavHref: null, caldavEtag: null });
+          await this.recordRemoteChange(appointment, 'CANCELLED');
+          console.log(`📆 [CALDAV] Appointment ${appointment.id} cancelled: event deleted from agent calendar`);
+          result.cancelled++;
+        } else {
+          // Nueva o publicada en otra colección antes de cambiar la URL
+          await this.pushAppointment({ ...appointment, caldavHref: null });
+          result.pushed++;
+        }
+      }
+
+      await storage.replaceBusyBlocks(connection.accountId, isOwner ? null : connection.agentId, 'caldav', from, to, blocks);
+      result.busyBlocks = blocks.length;
+
+      await storage.updateCalendarConnection(connection.id, { lastSyncAt: new Date(), lastSyncError: null });
+      console.log(`📆 [CALDAV] Synced calendar of ${connection.agentId}: ${JSON.stringify(result)}`);
+      return result;
+    } catch (error) {
+      await storage.updateCalendarConnection(connection.id, { lastSyncError: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private async applyRemoteChanges(appointment: Appointment, event: RemoteEvent): Promise<'moved' | 'cancelled' | null> {
+    const caldavEtag = event.etag ?? appointment.caldavEtag;
+    if (event.status === 'CANCELLED') {
+      await storage.updateAppointment(appointment.id, { status: 'CANCELLED', caldavEtag });
+      await this.recordRemoteChange(appointment, 'CANCELLED');
+      console.log(`📆 [CALDAV] Appointment ${appointment.id} cancelled from agent calendar`);
+      return 'cancelled';
+    }
+
+    const duration = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
+    if (event.start.getTime() !== appointment.scheduledAt.getTime() || duration !== (appointment.duration ?? 60)) {
+      const moved = await storage.updateAppointment(appointment.id, { scheduledAt: event.start, duration, caldavEtag });
+      await this.recordRemoteChange(appointment, 'RESCHEDULED', event.start);
+      if (moved) {
+        const { appointmentReminderService } = await import('./appointmentReminderService');
+        await appointmentReminderService.scheduleReminders(moved);
+      }
+      console.log(`📆 [CALDAV] Appointment ${appointment.id} moved to ${event.start.toISOString()} from agent calendar`);
+      return 'moved';
+    }
+    return null;
+  }
+
+  // Historial de la cita para los cambios hechos desde el calendario del agente
+  private async recordRemoteChange(appointment: Appointment, changeType: 'RESCHEDULED' | 'CANCELLED', newScheduledAt?: Date): Promise<void> {
+    await storage.createAppointmentChange({
+      appointmentId: appointment.id,
+      userId: appointment.userId,
+      changedBy: 'calendar',
+      changeType,
+      previousScheduledAt: appointment.scheduledAt,
+      newScheduledAt,
+      previousStatus: appointment.status,
+      newStatus: changeType === 'CANCELLED' ? 'CANCELLED' : appointment.status,
+    });
+  }
+
+  private async fetchEvents(connection: CalendarConnection, from: Date, to: Date, timeZone: string): Promise<RemoteEvent[]> {
+    const response = await this.request(connection, 'REPORT', collectionUrl(connection), calendarQuery(from, to), {
+      Depth: '1',
+      'Content-Type': 'application/xml; charset=utf-8',
+    });
+    if (response.status !== 207) {
+      throw new Error(`REPORT respondió ${response.status}`);
+    }
+
+    const resources = parseMultistatus(response.body);
+    return resources.flatMap(resource => parseIcsEvents(resource.calendarData, timeZone).map(event => ({ ...event, etag: resource.etag })));
+  }
+
+  private async getConnectionFor(appointment: Appointment): Promise<CalendarConnection | null> {
+    const connection = await storage.getCalendarConnection(appointment.userId, appointment.agentId || appointment.userId);
+    return connection?.caldavUrl ? connection : null;
+  }
+
+  /**
+   * La URL la configura el agente: solo se permiten hosts públicos y sin redirecciones,
+   * salvo CALDAV_ALLOW_PRIVATE_HOSTS=true para servidores propios en la red local
+   */
+  private async request(connection: CalendarConnection, method: string, url: string, body?: string, headers: Record<string, string> = {}): Promise<CalDavResponse> {
+    const allowPrivateHosts = process.env.CALDAV_ALLOW_PRIVATE_HOSTS === 'true';
+    if (!allowPrivateHosts) {
+      assertPublicUrl(url);
+    }
+    if (connection.caldavUsername) {
+      headers = {
+        Authorization: `Basic ${Buffer.from(`${connection.caldavUsername}:${connection.caldavPassword || ''}`).toString('base64')}`,
+        ...headers,
+      };
+    }
+
+    const response = await axios.request<string>({
+      method,
+      url,
+      headers,
+      data: body,
+      timeout: REQUEST_TIMEOUT_MS,
+      responseType: 'text',
+      transformResponse: data => data,
+      maxRedirects: 0,
+      validateStatus: () => true,
+      ...(allowPrivateHosts ? {} : { lookup: publicOnlyLookup }),
+    });
+    return {
+      status: response.status,
+      ok: response.status >= 200 && response.status < 300,
+      etag: response.headers.etag || null,
+      body: response.data || '',
+    };
+  }
+}
+
+export const calDavSyncService = new CalDavSyncService();
@@ -1,66 +1,507 @@
+import { z } from 'zod';
+import type { AgentSchedule, Appointment, InsertAppointment } from '@shared/schema';
+import { storage, type DbExecutor } from '../storage';
+import { buildIcsEvent } from '../utils/ics';
+import { dayKeyInTimeZone, formatDateTimeLabel, resolveTimeZone, zonedTimeToUtc } from '../utils/timezone';
+
+export { dayKeyInTimeZone, resolveTimeZone, zonedTimeToUtc };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_APPOINTMENT_MINUTES = 240;
+const DEFAULT_DURATION_MINUTES = 60;
+
+export type WeeklyHours = Record<string, Array<{ start: string; end: string }>>;
+
+// Lunes a viernes de 9 a 18 y sábados por la mañana (0 = domingo)
+export const DEFAULT_WEEKLY_HOURS: WeeklyHours = {
+  '1': [{ start: '09:00', end: '18:00' }],
+  '2': [{ start: '09:00', end: '18:00' }],
+  '3': [{ start: '09:00', end: '18:00' }],
+  '4': [{ start: '09:00', end: '18:00' }],
+  '5': [{ start: '09:00', end: '18:00' }],
+  '6': [{ start: '09:00', end: '13:00' }],
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const scheduleInputSchema = z.object({
+  weeklyHours: z.record(
+    z.enum(['0', '1', '2', '3', '4', '5', '6']),
+    z.array(z.object({
+      start: z.string().regex(TIME_PATTERN, 'Hora inválida (HH:MM)'),
+      end: z.string().regex(TIME_PATTERN, 'Hora inválida (HH:MM)'),
+    }).refine(range => range.start < range.end, 'La hora de fin debe ser posterior a la de inicio'))
+  ),
+  slotMinutes: z.coerce.number().int().min(5).max(240).default(30),
+  bufferMinutes: z.coerce.number().int().min(0).max(240).default(15),
+  travelMinutes: z.coerce.number().int().min(0).max(480).default(30),
+  blackoutDates: z.array(z.string().regex(DATE_PATTERN, 'Fecha inválida (AAAA-MM-DD)')).default([]),
+});
+
+export type ScheduleInput = z.infer<typeof scheduleInputSchema>;
+
+export interface AvailabilityRules extends Omit<ScheduleInput, 'weeklyHours'> {
+  weeklyHours: WeeklyHours;
+  timeZone: string;
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  kind: 'appointment' | 'block';
+  propertyId?: string | null;
+  location?: string | null;
+}
+
+export interface SlotRequest {
+  durationMinutes: number;
+  propertyId?: string | null;
+  location?: string | null;
+}
+
+export interface AvailabilitySlot {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailabilityOptions {
+  agentId?: string; // Por defecto el titular de la cuenta
+  durationMinutes?: number;
+  propertyId?: string | null;
+  location?: string | null;
+  excludeAppointmentId?: string; // Al reprogramar, la cita no choca consigo misma
+}
+
+export type SlotCheck = { available: true } | { available: false; reason: string };
+
+export type ScheduleResult =
+  | { booked: true; appointment: Appointment }
+  | { booked: false; reason: string };
+
+export interface AppointmentChangeOptions {
+  changedBy: string; // Id del usuario del panel, o client, assistant, calendar
+  reason?: string;
+  notifyClient?: boolean; // Avisar al cliente por WhatsApp
+}
+
+// Citas que ya no se pueden mover ni cancelar
+const CLOSED_STATUSES = ['CANCELLED', 'COMPLETED', 'NO_SHOW'];
+
+export function rulesFromSchedule(schedule?: AgentSchedule | null, timeZone?: string | null): AvailabilityRules {
+  return {
+    weeklyHours: (schedule?.weeklyHours as WeeklyHours) ?? DEFAULT_WEEKLY_HOURS,
+    slotMinutes: schedule?.slotMinutes ?? 30,
+    bufferMinutes: schedule?.bufferMinutes ?? 15,
+    travelMinutes: schedule?.travelMinutes ?? 30,
+    blackoutDates: (schedule?.blackoutDates as string[]) ?? [],
+    timeZone: resolveTimeZone(timeZone),
+  };
+}
+
+function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekday(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return String(new Date(Date.UTC(year, month - 1, date)).getUTCDay());
+}
+
+// Entre propiedades distintas hace falta el tiempo de traslado; si no se sabe dónde es, basta el margen
+function requiredGapMinutes(request: SlotRequest, busy: BusyInterval, rules: AvailabilityRules): number {
+  if (busy.kind === 'appointment') {
+    const differentProperty = request.propertyId && busy.propertyId
+      ? request.propertyId !== busy.propertyId
+      : !!request.location?.trim() && !!busy.location?.trim() &&
+        request.location.trim().toLowerCase() !== busy.location.trim().toLowerCase();
+    if (differentProperty) return Math.max(rules.travelMinutes, rules.bufferMinutes);
+  }
+  return rules.bufferMinutes;
+}
+
+export function findConflict(start: Date, end: Date, request: SlotRequest, rules: AvailabilityRules, busy: BusyInterval[]): BusyInterval | undefined {
+  return busy.find(interval => {
+    const gap = requiredGapMinutes(request, interval, rules) * MINUTE_MS;
+    return start.getTime() < interval.end.getTime() + gap && end.getTime() + gap > interval.start.getTime();
+  });
+}
+
+// Rangos de trabajo del día en UTC; vacío si es un día bloqueado
+function workingRanges(day: string, rules: AvailabilityRules): Array<{ start: Date; end: Date }> {
+  if (rules.blackoutDates.includes(day)) return [];
+  return (rules.weeklyHours[weekday(day)] || []).map(range => ({
+    start: zonedTimeToUtc(day, range.start, rules.timeZone),
+    end: zonedTimeToUtc(day, range.end, rules.timeZone),
+  }));
+}
+
+/**
+ * Horarios libres de un día local: cada slotMinutes dentro del horario de trabajo,
+ * sin pisar citas ni bloques ocupados (con margen o traslado) y solo en el futuro
+ */
+export function computeDaySlots(
+  day: string,
+  rules: AvailabilityRules,
+  busy: BusyInterval[],
+  request: SlotRequest,
+  now: Date = new Date()
+): AvailabilitySlot[] {
+  const slots: AvailabilitySlot[] = [];
+  const durationMs = request.durationMinutes * MINUTE_MS;
+
+  for (const range of workingRanges(day, rules)) {
+    for (let time = range.start.getTime(); time + durationMs <= range.end.getTime(); time += rules.slotMinutes * MINUTE_MS) {
+      const start = new Date(time);
+      const end = new Date(time + durationMs);
+      if (start <= now || findConflict(start, end, request, rules, busy)) continue;
+      slots.push({ start, end });
+    }
+  }
+  return slots;
+}
+
+/**
+ * Disponibilidad para agendar visitas.
+ * Cada agente tiene su horario semanal (agent_schedules, o el horario por defecto) en la zona
+ * horaria de la cuenta; a ese horario se le restan las citas y los bloques ocupados del agente.
+ */
 export class CalendarService {
-  private googleCalendar: any = null;
-  private calComApi: any = null;
+  async getRules(accountId: string, agentId: string = accountId): Promise<AvailabilityRules> {
+    const [schedule, settings] = await Promise.all([
+      storage.getAgentSchedule(accountId, agentId),
+      storage.getUserSettings(accountId),
+    ]);
+    return rulesFromSchedule(schedule, settings?.timezone);
+  }
 
-  async getAvailability(userId: string, date: Date): Promise<any[]> {
-    try {
-      // This would integrate with Google Calendar or Cal.com
-      // For now, return mock availability slots
-      const slots = [];
-      const startHour = 9;
-      const endHour = 17;
-      
-      for (let hour = startHour; hour < endHour; hour++) {
-        slots.push({
-          start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, 0),
-          end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour + 1, 0),
-          available: true,
-        });
-      }
-      
-      return slots;
-    } catch (error) {
-      console.error('Error getting availability:', error);
-      throw new Error('Failed to get availability');
+  /**
+   * Horarios libres desde el día indicado (fecha local "AAAA-MM-DD" o un instante) durante `days` días
+   */
+  async getAvailability(userId: string, date: Date | string, options: AvailabilityOptions = {}, days: number = 1): Promise<AvailabilitySlot[]> {
+    const rules = await this.getRules(userId, options.agentId);
+    const firstDay = typeof date === 'string' ? date : dayKeyInTimeZone(date, rules.timeZone);
+    if (!DATE_PATTERN.test(firstDay)) {
+      throw new Error('Fecha inválida (AAAA-MM-DD)');
+    }
+
+    const from = zonedTimeToUtc(firstDay, '00:00', rules.timeZone);
+    const to = zonedTimeToUtc(addDays(firstDay, days), '00:00', rules.timeZone);
+    const busy = await this.getBusyIntervals(userId, from, to, options);
+    const request = this.toSlotRequest(options);
+
+    const slots: AvailabilitySlot[] = [];
+    for (let offset = 0; offset < days; offset++) {
+      slots.push(...computeDaySlots(addDays(firstDay, offset), rules, busy, request));
     }
+    return slots;
   }
 
-  async scheduleAppointment(userId: string, appointmentData: any): Promise<any> {
-    try {
-      // This would create an event in Google Calendar or Cal.com
-      console.log('Scheduling appointment:', appointmentData);
-      
-      // Return mock response
+  /**
+   * Comprobar un horario concreto. Las citas creadas desde el panel pueden quedar fuera del
+   * horario de trabajo (ignoreWorkingHours), pero nunca encima de otra
+   */
+  async checkSlot(userId: string, start: Date, options: AvailabilityOptions & { ignoreWorkingHours?: boolean; tx?: DbExecutor } = {}): Promise<SlotCheck> {
+    const request = this.toSlotRequest(options);
+    const end = new Date(start.getTime() + request.durationMinutes * MINUTE_MS);
+    const rules = await this.getRules(userId, options.agentId);
+
+    if (!options.ignoreWorkingHours) {
+      const day = dayKeyInTimeZone(start, rules.timeZone);
+      if (rules.blackoutDates.includes(day)) {
+        return { available: false, reason: 'El agente no atiende visitas ese día' };
+      }
+      const withinHours = workingRanges(day, rules).some(range => start >= range.start && end <= range.end);
+      if (!withinHours) {
+        return { available: false, reason: 'El horario está fuera del horario de trabajo' };
+      }
+    }
+
+    const busy = await this.getBusyIntervals(userId, start, end, options, options.tx);
+    const conflict = findConflict(start, end, request, rules, busy);
+    if (conflict) {
       return {
-        success: true,
-        eventId: `evt_${Date.now()}`,
-        calendarUrl: 'https://calendar.google.com/calendar/event?eid=...',
+        available: false,
+        reason: conflict.kind === 'appointment'
+          ? 'El horario se cruza con otra cita (incluyendo margen o traslado)'
+          : 'El agente tiene ese horario ocupado en su calendario',
       };
-    } catch (error) {
-      console.error('Error scheduling appointment:', error);
-      throw new Error('Failed to schedule appointment');
     }
+    return { available: true };
+  }
+
+  /**
+   * Crear la cita solo si el horario sigue libre para el agente. La comprobación y el insert
+   * corren con el candado del agente, así dos reservas simultáneas no toman el mismo horario
+   */
+  async scheduleAppointment(userId: string, appointmentData: InsertAppointment, options: { ignoreWorkingHours?: boolean } = {}): Promise<ScheduleResult> {
+    const agentId = appointmentData.agentId || userId;
+    const result = await storage.withAgentScheduleLock(agentId, async (tx) => {
+      const check = await this.checkSlot(userId, appointmentData.scheduledAt, {
+        agentId,
+        durationMinutes: appointmentData.duration ?? DEFAULT_DURATION_MINUTES,
+        propertyId: appointmentData.propertyId,
+        location: appointmentData.location,
+        ignoreWorkingHours: options.ignoreWorkingHours,
+        tx,
+      });
+      if (!check.available) {
+        return { booked: false as const, reason: check.reason };
+      }
+      return { booked: true as const, appointment: await storage.createAppointment({ ...appointmentData, userId }, tx) };
+    });
+    if (!result.booked) {
+      console.log(`📅 [CALENDAR] Rejected appointment at ${appointmentData.scheduledAt.toISOString()} for ${userId}: ${result.reason}`);
+      return result;
+    }
+
+    const { appointment } = result;
+    console.log(`📅 [CALENDAR] Appointment ${appointment.id} scheduled at ${appointment.scheduledAt.toISOString()}`);
+
+    // Los recordatorios 24h/2h/30m se guardan con la cita; un fallo aquí no deshace la reserva
+    const { appointmentReminderService } = await import('./appointmentReminderService');
+    await appointmentReminderService.scheduleReminders(appointment).catch(error =>
+      console.error(`❌ [CALENDAR] Could not schedule reminders for appointment ${appointment.id}:`, error)
+    );
+
+    // El calendario externo no bloquea la reserva; la sincronización periódica reintenta
+    const { calDavSyncService } = await import('./calDavSyncService');
+    calDavSyncService.pushAppointment(appointment).catch(error =>
+      console.warn(`⚠️ [CALENDAR] Could not publish appointment ${appointment.id} to CalDAV:`, error.message)
+    );
+    this.rescoreLead(appointment);
+    return { booked: true, appointment };
+  }
+
+  /**
+   * Mover la cita a otro horario si está libre para el agente. Vuelve a SCHEDULED
+   * (la confirmación era para la hora anterior) y reprograma recordatorios y calendario.
+   */
+  async rescheduleAppointment(
+    userId: string,
+    appointmentId: string,
+    scheduledAt: Date,
+    options: AppointmentChangeOptions & { duration?: number; ignoreWorkingHours?: boolean }
+  ): Promise<ScheduleResult> {
+    const appointment = await this.getOwnedAppointment(userId, appointmentId);
+    if (CLOSED_STATUSES.includes(appointment.status)) {
+      return { booked: false, reason: 'La cita ya no está activa' };
+    }
+    if (scheduledAt.getTime() <= Date.now()) {
+      return { booked: false, reason: 'La fecha indicada ya pasó' };
+    }
+
+    const duration = options.duration ?? appointment.duration ?? DEFAULT_DURATION_MINUTES;
+    const agentId = appointment.agentId || userId;
+    const result = await storage.withAgentScheduleLock(agentId, async (tx) => {
+      const check = await this.checkSlot(userId, scheduledAt, {
+        agentId,
+        durationMinutes: duration,
+        propertyId: appointment.propertyId,
+        location: appointment.location,
+        excludeAppointmentId: appointment.id,
+        ignoreWorkingHours: options.ignoreWorkingHours,
+        tx,
+      });
+      if (!check.available) {
+        return { booked: false as const, reason: check.reason };
+      }
+      const moved = await storage.updateAppointment(appointment.id, {
+        scheduledAt,
+        duration,
+        status: 'SCHEDULED',
+        sequence: appointment.sequence + 1,
+      }, tx);
+      if (!moved) {
+        throw new Error('Cita no encontrada');
+      }
+      return { booked: true as const, appointment: moved };
+    });
+    if (!result.booked) {
+      console.log(`📅 [CALENDAR] Rejected reschedule of ${appointment.id} to ${scheduledAt.toISOString()}: ${result.reason}`);
+      return result;
+    }
+
+    const updated = result.appointment;
+    await storage.createAppointmentChange({
+      appointmentId: appointment.id,
+      userId,
+      changedBy: options.changedBy,
+      changeType: 'RESCHEDULED',
+      previousScheduledAt: appointment.scheduledAt,
+      newScheduledAt: scheduledAt,
+      previousStatus: appointment.status,
+      newStatus: updated.status,
+      reason: options.reason,
+    });
+    console.log(`📅 [CALENDAR] Appointment ${appointment.id} moved from ${appointment.scheduledAt.toISOString()} to ${scheduledAt.toISOString()}`);
+
+    const { appointmentReminderService } = await import('./appointmentReminderService');
+    await appointmentReminderService.scheduleReminders(updated).catch(error =>
+      console.error(`❌ [CALENDAR] Could not reschedule reminders for appointment ${appointment.id}:`, error)
+    );
+    const { calDavSyncService } = await import('./calDavSyncService');
+    calDavSyncService.pushAppointment(updated).catch(error =>
+      console.warn(`⚠️ [CALENDAR] Could not update appointment ${appointment.id} in CalDAV:`, error.message)
+    );
+    if (options.notifyClient) {
+      await this.notifyClientOfChange(updated, 'RESCHEDULED', appointment.scheduledAt);
+    }
+    this.rescoreLead(updated);
+    return { booked: true, appointment: updated };
   }
 
-  async cancelAppointment(userId: string, appointmentId: string): Promise<void> {
+  /**
+   * Cancelar la cita y quitarla del calendario externo del agente
+   */
+  async cancelAppointment(userId: string, appointmentId: string, options: AppointmentChangeOptions = { changedBy: userId }): Promise<Appointment> {
+    const appointment = await this.getOwnedAppointment(userId, appointmentId);
+    if (appointment.status === 'CANCELLED') {
+      return appointment;
+    }
+
+    await storage.updateAppointmentStatus(appointmentId, 'CANCELLED');
+    await storage.createAppointmentChange({
+      appointmentId,
+      userId,
+      changedBy: options.changedBy,
+      changeType: 'CANCELLED',
+      previousScheduledAt: appointment.scheduledAt,
+      previousStatus: appointment.status,
+      newStatus: 'CANCELLED',
+      reason: options.reason,
+    });
+    console.log(`📅 [CALENDAR] Appointment ${appointmentId} cancelled by ${options.changedBy}`);
+
+    const { calDavSyncService } = await import('./calDavSyncService');
     try {
-      // This would cancel the event in the external calendar
-      console.log('Cancelling appointment:', appointmentId);
+      await calDavSyncService.deleteAppointment(appointment);
     } catch (error) {
-      console.error('Error cancelling appointment:', error);
-      throw new Error('Failed to cancel appointment');
+      console.warn(`⚠️ [CALENDAR] Could not remove appointment ${appointmentId} from CalDAV:`, (error as Error).message);
+    }
+
+    const cancelled = { ...appointment, status: 'CANCELLED' };
+    if (options.notifyClient) {
+      await this.notifyClientOfChange(cancelled, 'CANCELLED');
+    }
+    this.rescoreLead(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Cambios de estado que no mueven la cita (confirmada, completada, no asistió...)
+   */
+  async changeStatus(userId: string, appointmentId: string, status: string, options: AppointmentChangeOptions): Promise<void> {
+    if (status === 'CANCELLED') {
+      await this.cancelAppointment(userId, appointmentId, options);
+      return;
+    }
+
+    const appointment = await this.getOwnedAppointment(userId, appointmentId);
+    if (appointment.status === status) return;
+
+    await storage.updateAppointmentStatus(appointmentId, status);
+    await storage.createAppointmentChange({
+      appointmentId,
+      userId,
+      changedBy: options.changedBy,
+      changeType: 'STATUS',
+      previousStatus: appointment.status,
+      newStatus: status,
+      reason: options.reason,
+    });
+    this.rescoreLead(appointment);
+  }
+
+  // Las visitas cuentan en la puntuación del prospecto; se recalcula sin esperar
+  private rescoreLead(appointment: Appointment): void {
+    if (!appointment.conversationId) return;
+    import('./leadScoringService')
+      .then(({ leadScoringService }) => leadScoringService.rescoreConversation(appointment.conversationId!))
+      .catch(error => console.warn(`⚠️ [CALENDAR] Could not rescore lead for appointment ${appointment.id}:`, error.message));
+  }
+
+  private async getOwnedAppointment(userId: string, appointmentId: string): Promise<Appointment> {
+    const appointment = await storage.getAppointment(appointmentId);
+    if (!appointment || appointment.userId !== userId) {
+      throw new Error('Cita no encontrada');
     }
+    return appointment;
   }
 
-  async getUpcomingAppointments(userId: string): Promise<any[]> {
+  // El aviso al cliente no deshace el cambio: un fallo de WhatsApp solo se registra
+  private async notifyClientOfChange(appointment: Appointment, changeType: 'RESCHEDULED' | 'CANCELLED', previousScheduledAt?: Date): Promise<void> {
     try {
-      // This would fetch upcoming appointments from external calendar
-      return [];
+      const { appointmentReminderService } = await import('./appointmentReminderService');
+      const { timeZone } = await this.getRules(appointment.userId, appointment.agentId || appointment.userId);
+
+      if (changeType === 'CANCELLED') {
+        await appointmentReminderService.messageClient(
+          appointment,
+          `Tu visita del ${formatDateTimeLabel(appointment.scheduledAt, timeZone)} fue cancelada. Si quieres agendar otra fecha, escríbenos por aquí.`
+        );
+        return;
+      }
+
+      // La invitación con el mismo UID y SEQUENCE mayor actualiza el evento en el calendario del cliente
+      const { appointmentUid } = await import('./calDavSyncService');
+      const ics = buildIcsEvent({
+        uid: appointmentUid(appointment.id),
+        start: appointment.scheduledAt,
+        end: new Date(appointment.scheduledAt.getTime() + (appointment.duration ?? DEFAULT_DURATION_MINUTES) * MINUTE_MS),
+        summary: 'Visita inmobiliaria',
+        location: appointment.location || undefined,
+        sequence: appointment.sequence,
+      });
+      const caption = [
+        `📅 Tu visita${previousScheduledAt ? ` del ${formatDateTimeLabel(previousScheduledAt, timeZone)}` : ''} se movió al ${formatDateTimeLabel(appointment.scheduledAt, timeZone)}.`,
+        ...(appointment.location ? [`📍 ${appointment.location}`] : []),
+        'Te adjunto la invitación actualizada.',
+      ].join('\n');
+      await appointmentReminderService.messageClient(appointment, caption, {
+        document: { content: Buffer.from(ics, 'utf8'), fileName: 'cita.ics', mimetype: 'text/calendar' },
+      });
     } catch (error) {
-      console.error('Error getting upcoming appointments:', error);
-      throw new Error('Failed to get upcoming appointments');
+      console.error(`❌ [CALENDAR] Could not notify client about appointment ${appointment.id}:`, (error as Error).message);
     }
   }
+
+  private toSlotRequest(options: AvailabilityOptions): SlotRequest {
+    return {
+      durationMinutes: options.durationMinutes ?? DEFAULT_DURATION_MINUTES,
+      propertyId: options.propertyId,
+      location: options.location,
+    };
+  }
+
+  // Citas y bloques del agente; las citas sin agente son del titular de la cuenta
+  private async getBusyIntervals(userId: string, from: Date, to: Date, options: AvailabilityOptions, tx?: DbExecutor): Promise<BusyInterval[]> {
+    const agentId = options.agentId || userId;
+    // Margen para citas que empiezan antes del rango y para el traslado
+    const windowFrom = new Date(from.getTime() - MAX_APPOINTMENT_MINUTES * MINUTE_MS * 2);
+    const windowTo = new Date(to.getTime() + MAX_APPOINTMENT_MINUTES * MINUTE_MS);
+    const [appointments, blocks] = await Promise.all([
+      storage.getAppointmentsInRange(userId, windowFrom, windowTo, tx),
+      storage.getBusyBlocksInRange(userId, windowFrom, windowTo, tx),
+    ]);
+
+    return [
+      ...appointments
+        .filter(appointment => (appointment.agentId || userId) === agentId && appointment.id !== options.excludeAppointmentId)
+        .map(appointment => ({
+          start: appointment.scheduledAt,
+          end: new Date(appointment.scheduledAt.getTime() + (appointment.duration ?? DEFAULT_DURATION_MINUTES) * MINUTE_MS),
+          kind: 'appointment' as const,
+          propertyId: appointment.propertyId,
+          location: appointment.location,
+        })),
+      ...blocks
+        .filter(block => (block.agentId || userId) === agentId)
+        .map(block => ({ start: block.startAt, end: block.endAt, kind: 'block' as const })),
+    ];
+  }
 }
 
 export const calendarService = new CalendarService();
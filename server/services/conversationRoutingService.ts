@@ -0,0 +1,157 @@
+import type { Conversation, OrganizationMember, User } from '@shared/schema';
+import { storage } from '../storage';
+import { organizationService } from './organizationService';
+import { notificationService } from './notificationService';
+import type { Property } from './inventoryProvider';
+
+export const ROUTING_STRATEGIES = ['manual', 'round_robin', 'zone', 'listing_agent'] as const;
+export type RoutingStrategy = typeof ROUTING_STRATEGIES[number];
+
+export interface RoutingZoneRule {
+  zone: string;
+  userIds: string[];
+}
+
+interface RoutingCandidate {
+  member: OrganizationMember;
+  user: User;
+}
+
+function normalizeZone(zone: string): string {
+  return zone.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+}
+
+export function isRoutingStrategy(strategy: unknown): strategy is RoutingStrategy {
+  return typeof strategy === 'string' && (ROUTING_STRATEGIES as readonly string[]).includes(strategy);
+}
+
+/**
+ * Siguiente turno del round-robin: quien nunca recibió una conversación o la recibió hace más tiempo
+ */
+export function pickRoundRobin<T extends { member: Pick<OrganizationMember, 'lastAssignedAt'> }>(candidates: T[]): T | null {
+  if (candidates.length === 0) return null;
+  return candidates.reduce((next, candidate) => {
+    const nextTime = next.member.lastAssignedAt?.getTime() ?? 0;
+    const candidateTime = candidate.member.lastAssignedAt?.getTime() ?? 0;
+    return candidateTime < nextTime ? candidate : next;
+  });
+}
+
+/**
+ * Miembros de la primera regla cuya zona coincide con alguna zona de interés del cliente
+ * (sin distinguir mayúsculas ni acentos)
+ */
+export function matchZoneRule(rules: RoutingZoneRule[], zones: string[]): string[] {
+  const wanted = zones.filter(Boolean).map(normalizeZone);
+  const rule = rules.find(({ zone }) => {
+    const normalized = normalizeZone(zone || '');
+    return normalized && wanted.some(candidate => candidate === normalized || candidate.includes(normalized));
+  });
+  return rule?.userIds || [];
+}
+
+/**
+ * Reparto de conversaciones escaladas entre los miembros de la organización de la cuenta.
+ * La estrategia se configura en user_settings; si la regla por zona o por agente de la
+ * propiedad no encuentra a nadie disponible se usa el round-robin.
+ */
+export class ConversationRoutingService {
+  /**
+   * Asignar automáticamente una conversación sin responsable. Devuelve el usuario asignado
+   * (o el que ya lo estaba) y null si no hay a quién asignarla.
+   */
+  async routeConversation(conversationId: string): Promise<User | null> {
+    const conversation = await storage.getConversationById(conversationId);
+    if (!conversation) return null;
+    if (conversation.assignedTo) {
+      return (await storage.getUser(conversation.assignedTo)) || null;
+    }
+
+    const settings = await storage.getUserSettings(conversation.userId);
+    const strategy: RoutingStrategy = isRoutingStrategy(settings?.routingStrategy) ? settings!.routingStrategy as RoutingStrategy : 'round_robin';
+    if (strategy === 'manual') {
+      return null;
+    }
+
+    const organization = await organizationService.ensurePersonalOrganization(conversation.userId);
+    const candidates = (await storage.getOrganizationMembers(organization.id))
+      .filter(({ member }) => member.role !== 'viewer' && member.acceptsAssignments !== false);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    let preferred: RoutingCandidate[] = [];
+    if (strategy === 'zone') {
+      const userIds = matchZoneRule((settings?.routingZoneRules as RoutingZoneRule[]) || [], await this.getConversationZones(conversation));
+      preferred = candidates.filter(({ member }) => userIds.includes(member.userId));
+    } else if (strategy === 'listing_agent') {
+      const emails = await this.getListingAgentEmails(conversation);
+      const email = emails.find(agentEmail => candidates.some(({ user }) => user.email?.toLowerCase() === agentEmail));
+      preferred = candidates.filter(({ user }) => email && user.email?.toLowerCase() === email);
+    }
+
+    const selected = pickRoundRobin(preferred.length > 0 ? preferred : candidates)!;
+    await storage.assignConversation(conversation.id, selected.member.userId);
+    await storage.updateOrganizationMember(organization.id, selected.member.userId, { lastAssignedAt: new Date() });
+
+    console.log(`🧭 [ROUTING] Conversation ${conversation.id} assigned to ${selected.member.userId} (${preferred.length > 0 ? strategy : 'round_robin'})`);
+    return selected.user;
+  }
+
+  /**
+   * Asignación manual (o liberación con null). El nuevo responsable debe ser miembro de la
+   * organización de la cuenta y recibe un aviso por email.
+   */
+  async assign(conversation: Conversation, organizationId: string, userId: string | null, assignedBy: string): Promise<void> {
+    if (userId) {
+      const member = await storage.getOrganizationMember(organizationId, userId);
+      if (!member || member.role === 'viewer') {
+        throw new Error('El miembro no puede atender conversaciones');
+      }
+    }
+
+    await storage.assignConversation(conversation.id, userId);
+    console.log(`🧭 [ROUTING] Conversation ${conversation.id} ${userId ? `assigned to ${userId}` : 'unassigned'} by ${assignedBy}`);
+
+    if (userId && userId !== assignedBy) {
+      const user = await storage.getUser(userId);
+      if (user?.email) {
+        await notificationService.sendConversationAssignment(user.email, conversation);
+      }
+    }
+  }
+
+  // Zonas buscadas por el cliente (búsqueda guardada) y sectores de las propiedades que recibió
+  private async getConversationZones(conversation: Conversation): Promise<string[]> {
+    const zones: string[] = [];
+    const savedSearch = await storage.getSavedSearchByConversation(conversation.id);
+    zones.push(...((savedSearch?.criteria as any)?.zones || []));
+
+    const properties = await this.getSentProperties(conversation);
+    zones.push(...properties.map(property => property.location?.sector).filter((sector): sector is string => !!sector));
+    return zones;
+  }
+
+  private async getListingAgentEmails(conversation: Conversation): Promise<string[]> {
+    const properties = await this.getSentProperties(conversation);
+    return properties
+      .map(property => property.agent?.email?.toLowerCase())
+      .filter((email): email is string => !!email);
+  }
+
+  // Lo más reciente primero: la última propiedad enviada es la que motivó la escalación
+  private async getSentProperties(conversation: Conversation): Promise<Property[]> {
+    const sentPropertyIds: string[] = (conversation.context as any)?.sentPropertyIds || [];
+    if (sentPropertyIds.length === 0) return [];
+
+    const indexed = await storage.getIndexedPropertiesByExternalIds(conversation.userId, sentPropertyIds);
+    const byId = new Map(indexed.map(property => [property.externalId, property.data as Property]));
+    return sentPropertyIds
+      .slice()
+      .reverse()
+      .map(id => byId.get(id))
+      .filter((property): property is Property => !!property);
+  }
+}
+
+export const conversationRoutingService = new ConversationRoutingService();
@@ -0,0 +1,817 @@
+import { z } from 'zod';
+import type { Appointment, Conversation } from '@shared/schema';
+import type { ClientQualification } from './aiService';
+import type { LLMToolCall, LLMToolDefinition } from './llmProvider';
+import { resolveInventoryProviderType, type InventoryProvider, type Property, type PropertySearchResult } from './inventoryProvider';
+import { formatDateTimeLabel } from '../utils/timezone';
+
+/**
+ * Herramientas disponibles para el motor conversacional.
+ * El modelo decide cuándo llamarlas; cada herramienta valida sus argumentos con zod
+ * y devuelve un resultado serializable que se le entrega de vuelta al modelo.
+ */
+
+export interface ToolExecutionContext {
+  userId: string;
+  conversationId: string;
+  message?: string; // Mensaje actual del cliente
+  context: any; // Contexto de processWithAI (alterEstate*, databaseType, instanceName, phoneNumber, remoteJid, etc.)
+  assessQualification?: () => Promise<ClientQualification>; // Calificación del turno, evaluada una sola vez
+}
+
+interface ConversationTool<TArgs = any> {
+  definition: LLMToolDefinition;
+  schema: z.ZodType<TArgs, z.ZodTypeDef, any>;
+  requiresInventory?: boolean; // Necesita un InventoryProvider configurado
+  execute(args: TArgs, ctx: ToolExecutionContext): Promise<any>;
+}
+
+const SearchPropertiesArgs = z.object({
+  operation: z.enum(['sale', 'rent']).optional(),
+  propertyType: z.string().optional(),
+  budgetMin: z.coerce.number().optional(),
+  budgetMax: z.coerce.number().optional(),
+  currency: z.enum(['USD', 'RD$', 'DOP']).optional(),
+  zones: z.array(z.string()).optional(),
+  city: z.string().optional(),
+  rooms: z.coerce.number().optional(),
+  bathrooms: z.coerce.number().optional(),
+  limit: z.coerce.number().min(1).max(8).default(6),
+});
+
+const CountPropertiesArgs = SearchPropertiesArgs.omit({ limit: true }).extend({
+  query: z.string().optional(),
+});
+
+const SaveSearchArgs = SearchPropertiesArgs.omit({ limit: true });
+
+const PropertySlugArgs = z.object({
+  slug: z.string().min(1),
+});
+
+const AvailableSlotsArgs = z.object({
+  date: z.string().refine(value => !isNaN(Date.parse(value)), 'Fecha inválida').optional(),
+  days: z.coerce.number().min(1).max(7).default(3),
+  propertyId: z.string().optional(),
+  duration: z.coerce.number().min(15).max(240).default(60),
+});
+
+const BookAppointmentArgs = z.object({
+  scheduledAt: z.string().refine(value => !isNaN(Date.parse(value)), 'Fecha inválida'),
+  clientName: z.string().optional(),
+  clientEmail: z.string().email().optional(),
+  propertyId: z.string().optional(),
+  location: z.string().optional(),
+  duration: z.coerce.number().min(15).max(240).default(60),
+  notes: z.string().optional(),
+});
+
+const RescheduleAppointmentArgs = z.object({
+  scheduledAt: z.string().refine(value => !isNaN(Date.parse(value)), 'Fecha inválida'),
+  appointmentId: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const CancelAppointmentArgs = z.object({
+  appointmentId: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const CreateLeadArgs = z.object({
+  fullName: z.string().min(1),
+  email: z.string().email().optional(),
+  propertyUid: z.string().optional(),
+  budget: z.coerce.number().optional(),
+  budgetCurrency: z.string().optional(),
+  preferredLocation: z.string().optional(),
+  listingType: z.enum(['sale', 'rent']).optional(),
+  notes: z.string().optional(),
+});
+
+const EscalateArgs = z.object({
+  reason: z.string().min(1),
+});
+
+async function getProviderFor(ctx: ToolExecutionContext): Promise<InventoryProvider> {
+  const { getInventoryProvider } = await import('./inventoryProvider');
+  const provider = await getInventoryProvider(ctx.userId);
+  if (!provider) {
+    throw new Error('No hay inventario de propiedades configurado');
+  }
+  return provider;
+}
+
+// Detalle para el modelo; raw conserva columnas que los alias no cubren en inventarios propios
+function summarizeProperty({ media, ...property }: Property) {
+  return {
+    ...property,
+    hasVirtualTour: !!media.virtualTour,
+    imageCount: media.images.length,
+  };
+}
+
+const searchPropertiesTool: ConversationTool<z.infer<typeof SearchPropertiesArgs>> = {
+  definition: {
+    name: 'search_properties',
+    description: 'Busca propiedades en el inventario según los criterios del cliente. Los resultados se envían automáticamente al cliente como tarjetas después de tu respuesta; no repitas el listado completo.',
+    parameters: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string', enum: ['sale', 'rent'], description: 'Compra (sale) o alquiler (rent)' },
+        propertyType: { type: 'string', description: 'apartment, house, penthouse, villa, loft, townhouse' },
+        budgetMin: { type: 'number' },
+        budgetMax: { type: 'number' },
+        currency: { type: 'string', enum: ['USD', 'RD$', 'DOP'] },
+        zones: { type: 'array', items: { type: 'string' }, description: 'Sectores o zonas, p. ej. Piantini, Naco' },
+        city: { type: 'string' },
+        rooms: { type: 'number' },
+        bathrooms: { type: 'number' },
+        limit: { type: 'number', description: 'Máximo de propiedades (1-8)' },
+      },
+    },
+  },
+  schema: SearchPropertiesArgs,
+  requiresInventory: true,
+  async execute(args, ctx) {
+    const { storage } = await import('../storage');
+    const { AIService } = await import('./aiService');
+    const provider = await getProviderFor(ctx);
+
+    const conversation = await storage.getConversationById(ctx.conversationId);
+    const conversationContext = (conversation?.context as any) || {};
+    const sentPropertyIds: string[] = conversationContext.sentPropertyIds || [];
+
+    let result: PropertySearchResult;
+    try {
+      result = await provider.search({ ...args, excludeIds: sentPropertyIds });
+    } catch (error) {
+      // Si el proveedor no responde se busca en el índice local sincronizado
+      const { propertyIndexService } = await import('./propertyIndexService');
+      const indexed = await propertyIndexService.search(ctx.userId, { ...args, excludeIds: sentPropertyIds });
+      if (!indexed.lastSyncedAt) throw error;
+      console.warn(`⚠️ [TOOLS] ${provider.type} search failed, using local property index:`, (error as Error).message);
+      result = { properties: indexed.properties };
+    }
+    const properties = result.properties;
+
+    const cards = properties.filter(property => property.media.featuredImage);
+    if (cards.length > 0) {
+      AIService.queuePendingMedia(ctx.conversationId, {
+        type: 'carousel',
+        properties: cards.map(property => ({
+          imageUrl: property.media.featuredImage,
+          title: property.title,
+          price: property.priceLabel,
+          description: property.location.label,
+          propertyUrl: property.url || '',
+          uid: property.id,
+          slug: property.slug,
+        })),
+      });
+    }
+
+    if (properties.length > 0) {
+      await storage.updateConversationContext(ctx.conversationId, {
+        ...conversationContext,
+        sentPropertyIds: [...sentPropertyIds, ...properties.map(property => property.id)],
+      });
+    }
+
+    // Sin resultados: se guarda la búsqueda para avisar al cliente cuando entre algo que coincida
+    let alertsEnabled = false;
+    if (properties.length === 0) {
+      const { savedSearchService } = await import('./savedSearchService');
+      const { limit, ...criteria } = args;
+      alertsEnabled = !!await savedSearchService.saveFromConversation(ctx.userId, ctx.conversationId, criteria, {
+        message: ctx.message,
+        assessQualification: ctx.assessQualification,
+      });
+    }
+
+    return {
+      count: properties.length,
+      // Si es true, ofrece al cliente avisarle por WhatsApp cuando haya propiedades nuevas o rebajas
+      alertsEnabled,
+      rationale: result.rationale,
+      relaxationApplied: result.relaxationApplied || [],
+      cardsQueued: cards.length > 0,
+      // Indicaciones de la inmobiliaria sobre cómo interpretar su inventario
+      inventoryNotes: result.notes,
+      properties: properties.map(property => ({
+        uid: property.id,
+        slug: property.slug,
+        title: property.title,
+        price: property.priceLabel,
+        operation: property.operation,
+        propertyType: property.propertyType,
+        location: property.location.label,
+        specifications: property.specifications,
+        reasons: property.matchReasons,
+      })),
+    };
+  },
+};
+
+const countPropertiesTool: ConversationTool<z.infer<typeof CountPropertiesArgs>> = {
+  definition: {
+    name: 'count_properties',
+    description: 'Cuenta cuántas propiedades del inventario cumplen unos criterios y las agrupa por ciudad, tipo, habitaciones y rango de precio (USD). Úsala para preguntas como "¿cuántos apartamentos de 3 habitaciones tienen en Piantini?".',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Texto libre sobre nombre, descripción o sector' },
+        operation: { type: 'string', enum: ['sale', 'rent'] },
+        propertyType: { type: 'string' },
+        budgetMin: { type: 'number' },
+        budgetMax: { type: 'number' },
+        currency: { type: 'string', enum: ['USD', 'RD$', 'DOP'] },
+        zones: { type: 'array', items: { type: 'string' } },
+        city: { type: 'string' },
+        rooms: { type: 'number', description: 'Mínimo de habitaciones' },
+        bathrooms: { type: 'number', description: 'Mínimo de baños' },
+      },
+    },
+  },
+  schema: CountPropertiesArgs,
+  requiresInventory: true,
+  async execute(args, ctx) {
+    const { propertyIndexService } = await import('./propertyIndexService');
+    const result = await propertyIndexService.search(ctx.userId, { ...args, limit: 1 });
+
+    if (!result.lastSyncedAt) {
+      return { error: 'El índice de propiedades aún no está sincronizado' };
+    }
+
+    return {
+      total: result.total,
+      byCity: result.facets.city,
+      byType: result.facets.propertyType,
+      byRooms: result.facets.rooms,
+      byPriceBandUsd: result.facets.priceBand,
+      lastSyncedAt: result.lastSyncedAt,
+    };
+  },
+};
+
+const saveSearchTool: ConversationTool<z.infer<typeof SaveSearchArgs>> = {
+  definition: {
+    name: 'save_search',
+    description: 'Guarda los criterios del cliente para avisarle por WhatsApp cuando entren propiedades nuevas o bajen de precio. Úsala cuando el cliente pida que le avises; las búsquedas sin resultados se guardan automáticamente.',
+    parameters: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string', enum: ['sale', 'rent'] },
+        propertyType: { type: 'string' },
+        budgetMin: { type: 'number' },
+        budgetMax: { type: 'number' },
+        currency: { type: 'string', enum: ['USD', 'RD$', 'DOP'] },
+        zones: { type: 'array', items: { type: 'string' } },
+        city: { type: 'string' },
+        rooms: { type: 'number' },
+        bathrooms: { type: 'number' },
+      },
+    },
+  },
+  schema: SaveSearchArgs,
+  requiresInventory: true,
+  async execute(args, ctx) {
+    const { savedSearchService } = await import('./savedSearchService');
+    // El cliente lo pidió explícitamente: reactiva alertas aunque antes se hubiera dado de baja
+    const saved = await savedSearchService.saveFromConversation(ctx.userId, ctx.conversationId, args, {
+      message: ctx.message,
+      assessQualification: ctx.assessQualification,
+      reactivate: true,
+    });
+
+    if (!saved) {
+      return { saved: false, reason: 'No hay criterios suficientes para guardar la búsqueda' };
+    }
+    return { saved: true, criteria: saved.criteria, optOutHint: 'El cliente puede responder "NO MÁS ALERTAS" para dejar de recibirlas' };
+  },
+};
+
+const getPropertyDetailTool: ConversationTool<z.infer<typeof PropertySlugArgs>> = {
+  definition: {
+    name: 'get_property_detail',
+    description: 'Obtiene la información completa de una propiedad (precio, especificaciones, ubicación, amenidades, agente) a partir de su slug.',
+    parameters: {
+      type: 'object',
+      properties: {
+        slug: { type: 'string', description: 'Slug de la propiedad devuelto por search_properties' },
+      },
+      required: ['slug'],
+    },
+  },
+  schema: PropertySlugArgs,
+  requiresInventory: true,
+  async execute(args, ctx) {
+    const { aiService } = await import('./aiService');
+    const provider = await getProviderFor(ctx);
+
+    const property = await provider.getProperty(args.slug);
+    if (!property) {
+      return { error: `No existe la propiedad ${args.slug} en el inventario` };
+    }
+
+    aiService.setPropertyContext(ctx.conversationId, property.slug);
+    return summarizeProperty(property);
+  },
+};
+
+const sendPropertyMediaTool: ConversationTool<z.infer<typeof PropertySlugArgs>> = {
+  definition: {
+    name: 'send_property_media',
+    description: 'Envía al cliente las fotos y el tour virtual de una propiedad. Úsala cuando el cliente pida fotos, videos o imágenes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        slug: { type: 'string', description: 'Slug de la propiedad' },
+      },
+      required: ['slug'],
+    },
+  },
+  schema: PropertySlugArgs,
+  requiresInventory: true,
+  async execute(args, ctx) {
+    const { AIService, aiService } = await import('./aiService');
+    const provider = await getProviderFor(ctx);
+    const media = await provider.getMedia(args.slug);
+
+    if (!media) {
+      return { sent: false, reason: `No existe la propiedad ${args.slug} en el inventario` };
+    }
+    if (media.images.length === 0 && !media.featuredImage) {
+      return { sent: false, reason: 'La propiedad no tiene fotos disponibles' };
+    }
+
+    AIService.queuePendingMedia(ctx.conversationId, {
+      conversationId: ctx.conversationId,
+      propertySlug: args.slug,
+      images: media.images,
+      featuredImage: media.featuredImage,
+      virtualTour: media.virtualTour,
+      timestamp: Date.now(),
+    });
+    aiService.setPropertyContext(ctx.conversationId, args.slug);
+
+    return { sent: true, imageCount: media.images.length, hasVirtualTour: !!media.virtualTour };
+  },
+};
+
+const MAX_PROPOSED_SLOTS = 8;
+
+// La visita la atiende el agente asignado a la conversación o, si no hay, el titular de la cuenta
+async function getConversationAgent(ctx: ToolExecutionContext): Promise<{ conversation?: Conversation; agentId: string }> {
+  const { storage } = await import('../storage');
+  const conversation = await storage.getConversationById(ctx.conversationId);
+  return { conversation, agentId: conversation?.assignedTo || ctx.userId };
+}
+
+const getAvailableSlotsTool: ConversationTool<z.infer<typeof AvailableSlotsArgs>> = {
+  definition: {
+    name: 'get_available_slots',
+    description: 'Consulta los horarios libres para agendar una visita. Úsala antes de proponer horarios al cliente y antes de book_appointment.',
+    parameters: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'Primer día a consultar (AAAA-MM-DD). Por defecto hoy' },
+        days: { type: 'number', description: 'Cantidad de días a consultar, de 1 a 7 (por defecto 3)' },
+        propertyId: { type: 'string', description: 'UID de la propiedad a visitar, para contar el traslado entre visitas' },
+        duration: { type: 'number', description: 'Duración en minutos (por defecto 60)' },
+      },
+    },
+  },
+  schema: AvailableSlotsArgs,
+  async execute(args, ctx) {
+    const { calendarService, dayKeyInTimeZone } = await import('./calendarService');
+    const { agentId } = await getConversationAgent(ctx);
+    const { timeZone } = await calendarService.getRules(ctx.userId, agentId);
+
+    const firstDay = args.date && /^\d{4}-\d{2}-\d{2}$/.test(args.date)
+      ? args.date
+      : dayKeyInTimeZone(args.date ? new Date(args.date) : new Date(), timeZone);
+    const availability = await calendarService.getAvailability(ctx.userId, firstDay, {
+      agentId,
+      durationMinutes: args.duration,
+      propertyId: args.propertyId,
+    }, args.days);
+
+    // Repartir las propuestas entre los días en lugar de agotar la primera mañana
+    const byDay = new Map<string, typeof availability>();
+    for (const slot of availability) {
+      const day = dayKeyInTimeZone(slot.start, timeZone);
+      byDay.set(day, [...(byDay.get(day) || []), slot]);
+    }
+    const perDay = Math.max(2, Math.ceil(MAX_PROPOSED_SLOTS / Math.max(byDay.size, 1)));
+    const slots = Array.from(byDay.values())
+      .flatMap(daySlots => daySlots.filter((_, index) => index % Math.ceil(daySlots.length / perDay) === 0).slice(0, perDay))
+      .slice(0, MAX_PROPOSED_SLOTS)
+      .map(slot => ({ start: slot.start.toISOString(), end: slot.end.toISOString(), label: formatDateTimeLabel(slot.start, timeZone) }));
+
+    if (slots.length === 0) {
+      return { slots, reason: 'No hay horarios libres en esos días; ofrece consultar otras fechas' };
+    }
+    return { timeZone, slots };
+  },
+};
+
+const bookAppointmentTool: ConversationTool<z.infer<typeof BookAppointmentArgs>> = {
+  definition: {
+    name: 'book_appointment',
+    description: 'Agenda una visita o cita con el cliente y le envía la confirmación con la invitación de calendario. Solo úsala cuando el cliente haya confirmado uno de los horarios de get_available_slots.',
+    parameters: {
+      type: 'object',
+      properties: {
+        scheduledAt: { type: 'string', description: 'Fecha y hora en formato ISO 8601 con zona horaria' },
+        clientName: { type: 'string' },
+        clientEmail: { type: 'string' },
+        propertyId: { type: 'string', description: 'UID de la propiedad a visitar' },
+        location: { type: 'string' },
+        duration: { type: 'number', description: 'Duración en minutos (por defecto 60)' },
+        notes: { type: 'string' },
+      },
+      required: ['scheduledAt'],
+    },
+  },
+  schema: BookAppointmentArgs,
+  async execute(args, ctx) {
+    const { storage } = await import('../storage');
+    const { calendarService } = await import('./calendarService');
+    const { notificationService } = await import('./notificationService');
+
+    const scheduledAt = new Date(args.scheduledAt);
+    if (scheduledAt.getTime() <= Date.now()) {
+      return { booked: false, reason: 'La fecha indicada ya pasó' };
+    }
+
+    // Sin ubicación explícita se usa la propiedad del índice
+    let location = args.location;
+    let propertyTitle: string | undefined;
+    if (args.propertyId) {
+      const [property] = await storage.getIndexedPropertiesByExternalIds(ctx.userId, [args.propertyId]);
+      propertyTitle = property?.title;
+      if (!location && property) {
+        location = [property.title, property.sector, property.city].filter(Boolean).join(', ');
+      }
+    }
+
+    const { conversation, agentId } = await getConversationAgent(ctx);
+    const result = await calendarService.scheduleAppointment(ctx.userId, {
+      userId: ctx.userId,
+      conversationId: ctx.conversationId,
+      agentId,
+      clientName: args.clientName || conversation?.clientName || 'Cliente WhatsApp',
+      clientPhone: conversation?.clientPhone || ctx.context.phoneNumber,
+      clientEmail: args.clientEmail,
+      scheduledAt,
+      duration: args.duration,
+      location,
+      propertyId: args.propertyId,
+      notes: args.notes,
+    });
+    if (!result.booked) {
+      return { booked: false, reason: `${result.reason}; consulta get_available_slots y propone otro horario` };
+    }
+    const { appointment } = result;
+
+    // La nueva cita reemplaza a la que el cliente pidió reprogramar desde un recordatorio
+    const rescheduled = (await storage.getConversationAppointments(ctx.conversationId))
+      .filter(previous => previous.status === 'RESCHEDULE_REQUESTED');
+    for (const previous of rescheduled) {
+      await calendarService.cancelAppointment(ctx.userId, previous.id, { changedBy: 'assistant', reason: 'Reemplazada por una nueva cita' });
+    }
+
+    const agent = await storage.getUser(agentId);
+    if (agent?.email) {
+      await notificationService.sendAppointmentNotification(
+        agent.email,
+        appointment,
+        args.notes || 'Cita agendada por el asistente desde WhatsApp'
+      );
+    }
+
+    const { timeZone } = await calendarService.getRules(ctx.userId, agentId);
+    const end = new Date(scheduledAt.getTime() + args.duration * 60 * 1000);
+    const confirmationSent = conversation
+      ? await sendAppointmentConfirmation(ctx, conversation, appointment, end, timeZone, propertyTitle)
+      : false;
+
+    return {
+      booked: true,
+      appointmentId: appointment.id,
+      scheduledAt: appointment.scheduledAt,
+      label: formatDateTimeLabel(scheduledAt, timeZone),
+      location,
+      confirmationSent,
+      replacedAppointmentIds: rescheduled.length > 0 ? rescheduled.map(previous => previous.id) : undefined,
+    };
+  },
+};
+
+// Sin id explícito se usa la próxima visita activa de la conversación
+async function findClientAppointment(ctx: ToolExecutionContext, appointmentId?: string): Promise<Appointment | undefined> {
+  const { storage } = await import('../storage');
+  const appointments = await storage.getConversationAppointments(ctx.conversationId);
+  return appointments.find(appointment =>
+    (appointmentId ? appointment.id === appointmentId : appointment.scheduledAt.getTime() > Date.now()) &&
+    ['SCHEDULED', 'CONFIRMED', 'RESCHEDULE_REQUESTED'].includes(appointment.status)
+  );
+}
+
+const rescheduleAppointmentTool: ConversationTool<z.infer<typeof RescheduleAppointmentArgs>> = {
+  definition: {
+    name: 'reschedule_appointment',
+    description: 'Mueve la visita ya agendada del cliente a otro horario y le envía la invitación actualizada. Úsala cuando pida cambiar el día o la hora, después de confirmar con él uno de los horarios de get_available_slots.',
+    parameters: {
+      type: 'object',
+      properties: {
+        scheduledAt: { type: 'string', description: 'Nueva fecha y hora en formato ISO 8601 con zona horaria' },
+        appointmentId: { type: 'string', description: 'Id de la cita; por defecto la próxima visita del cliente' },
+        reason: { type: 'string', description: 'Motivo del cambio según el cliente' },
+      },
+      required: ['scheduledAt'],
+    },
+  },
+  schema: RescheduleAppointmentArgs,
+  async execute(args, ctx) {
+    const { calendarService } = await import('./calendarService');
+    const appointment = await findClientAppointment(ctx, args.appointmentId);
+    if (!appointment) {
+      return { rescheduled: false, reason: 'El cliente no tiene visitas agendadas; usa book_appointment para una nueva' };
+    }
+
+    const result = await calendarService.rescheduleAppointment(ctx.userId, appointment.id, new Date(args.scheduledAt), {
+      changedBy: 'assistant',
+      reason: args.reason,
+      notifyClient: true,
+    });
+    if (!result.booked) {
+      return { rescheduled: false, reason: `${result.reason}; consulta get_available_slots y propone otro horario` };
+    }
+
+    const { timeZone } = await calendarService.getRules(ctx.userId, appointment.agentId || ctx.userId);
+    return {
+      rescheduled: true,
+      appointmentId: appointment.id,
+      previousLabel: formatDateTimeLabel(appointment.scheduledAt, timeZone),
+      label: formatDateTimeLabel(result.appointment.scheduledAt, timeZone),
+      location: result.appointment.location,
+    };
+  },
+};
+
+const cancelAppointmentTool: ConversationTool<z.infer<typeof CancelAppointmentArgs>> = {
+  definition: {
+    name: 'cancel_appointment',
+    description: 'Cancela la visita ya agendada del cliente. Úsala solo cuando el cliente confirme que quiere cancelarla y no moverla.',
+    parameters: {
+      type: 'object',
+      properties: {
+        appointmentId: { type: 'string', description: 'Id de la cita; por defecto la próxima visita del cliente' },
+        reason: { type: 'string', description: 'Motivo de la cancelación según el cliente' },
+      },
+    },
+  },
+  schema: CancelAppointmentArgs,
+  async execute(args, ctx) {
+    const { calendarService } = await import('./calendarService');
+    const appointment = await findClientAppointment(ctx, args.appointmentId);
+    if (!appointment) {
+      return { cancelled: false, reason: 'El cliente no tiene visitas agendadas' };
+    }
+
+    await calendarService.cancelAppointment(ctx.userId, appointment.id, { changedBy: 'assistant', reason: args.reason });
+    const { timeZone } = await calendarService.getRules(ctx.userId, appointment.agentId || ctx.userId);
+    return { cancelled: true, appointmentId: appointment.id, label: formatDateTimeLabel(appointment.scheduledAt, timeZone) };
+  },
+};
+
+/**
+ * Confirmación al cliente por WhatsApp con la invitación .ics adjunta.
+ * Un fallo de envío no deshace la cita: el modelo confirma por texto igualmente.
+ */
+async function sendAppointmentConfirmation(
+  ctx: ToolExecutionContext,
+  conversation: Conversation,
+  appointment: Appointment,
+  end: Date,
+  timeZone: string,
+  propertyTitle?: string
+): Promise<boolean> {
+  try {
+    const { storage } = await import('../storage');
+    const { instanceResolver } = await import('./instanceResolver');
+    const { evolutionApiService } = await import('./evolutionApiService');
+    const { buildIcsEvent } = await import('../utils/ics');
+    const { appointmentUid } = await import('./calDavSyncService');
+
+    const instanceName = await instanceResolver.resolveForOutgoing(ctx.userId, ctx.context.instanceName);
+    if (!instanceName) {
+      console.warn(`⚠️ [TOOLS] Cannot send appointment confirmation for ${appointment.id}: no connected instance`);
+      return false;
+    }
+
+    const summary = propertyTitle ? `Visita: ${propertyTitle}` : 'Visita inmobiliaria';
+    const ics = buildIcsEvent({
+      uid: appointmentUid(appointment.id),
+      start: appointment.scheduledAt,
+      end,
+      summary,
+      description: appointment.notes || undefined,
+      location: appointment.location || undefined,
+    });
+    const caption = [
+      `✅ Tu visita quedó agendada para el ${formatDateTimeLabel(appointment.scheduledAt, timeZone)}.`,
+      ...(appointment.location ? [`📍 ${appointment.location}`] : []),
+      'Te adjunto la invitación para que la agregues a tu calendario.',
+    ].join('\n');
+
+    const result = await evolutionApiService.sendDocument(
+      instanceName,
+      ctx.context.remoteJid || conversation.clientPhone,
+      Buffer.from(ics, 'utf8'),
+      'cita.ics',
+      'text/calendar',
+      caption
+    );
+    await storage.createMessage({
+      conversationId: conversation.id,
+      whatsappInstanceId: conversation.whatsappInstanceId,
+      messageId: result.messageId || `appointment_${appointment.id}`,
+      fromMe: true,
+      messageType: 'document',
+      content: caption,
+      timestamp: new Date(),
+    });
+    return true;
+  } catch (error) {
+    console.error(`❌ [TOOLS] Error sending appointment confirmation for ${appointment.id}:`, error);
+    return false;
+  }
+}
+
+const createLeadTool: ConversationTool<z.infer<typeof CreateLeadArgs>> = {
+  definition: {
+    name: 'create_lead',
+    description: 'Registra al cliente como lead cuando muestra interés real (quiere visitar, pide contacto de un agente o comparte sus datos).',
+    parameters: {
+      type: 'object',
+      properties: {
+        fullName: { type: 'string' },
+        email: { type: 'string' },
+        propertyUid: { type: 'string', description: 'UID de la propiedad de interés' },
+        budget: { type: 'number' },
+        budgetCurrency: { type: 'string' },
+        preferredLocation: { type: 'string' },
+        listingType: { type: 'string', enum: ['sale', 'rent'] },
+        notes: { type: 'string' },
+      },
+      required: ['fullName'],
+    },
+  },
+  schema: CreateLeadArgs,
+  async execute(args, ctx) {
+    const { storage } = await import('../storage');
+    const conversation = await storage.getConversationById(ctx.conversationId);
+    const phone = conversation?.clientPhone || ctx.context.phoneNumber;
+
+    // Un lead por cliente: si ya se creó al calificar al cliente (o desde otra conversación) se completa y se sube al CRM
+    const existing = await storage.getLeadByConversation(ctx.conversationId)
+      ?? (phone ? await storage.findLeadByPhone(ctx.userId, phone) : undefined);
+    let crmLeadId = existing?.alterEstateLeadId || undefined;
+    if (!crmLeadId && resolveInventoryProviderType(ctx.context)) {
+      try {
+        const provider = await getProviderFor(ctx);
+        const result = await provider.createLead({
+          fullName: args.fullName,
+          phone,
+          email: args.email,
+          propertyId: args.propertyUid,
+          notes: args.notes,
+          via: 'WhatsApp Bot',
+        });
+        crmLeadId = result.id || undefined;
+      } catch (error) {
+        console.warn('⚠️ [TOOLS] CRM lead creation failed, saving locally only:', (error as Error).message);
+      }
+    }
+
+    if (existing) {
+      if (crmLeadId && !existing.alterEstateLeadId) {
+        await storage.updateLead(existing.id, { alterEstateLeadId: crmLeadId });
+      }
+      if (conversation) {
+        const { leadEnrichmentService } = await import('./leadEnrichmentService');
+        const propertyUids: string[] = (existing.interests as any)?.propertyUids || [];
+        await leadEnrichmentService.applyFields(conversation, {
+          fullName: args.fullName,
+          budget: args.budget,
+          budgetCurrency: args.budgetCurrency,
+          preferredLocation: args.preferredLocation,
+          listingType: args.listingType,
+          interests: {
+            ...(args.propertyUid && !propertyUids.includes(args.propertyUid) ? { propertyUids: [...propertyUids, args.propertyUid] } : {}),
+            ...(args.notes ? { notes: args.notes } : {}),
+          },
+        }, { source: 'assistant' });
+      }
+      return { created: false, leadId: existing.id, syncedToCrm: !!crmLeadId, reason: 'El cliente ya estaba registrado como lead; se completaron sus datos' };
+    }
+
+    const lead = await storage.createLead({
+      userId: ctx.userId,
+      conversationId: ctx.conversationId,
+      fullName: args.fullName,
+      phone,
+      email: args.email,
+      budget: args.budget,
+      budgetCurrency: args.budgetCurrency,
+      preferredLocation: args.preferredLocation,
+      listingType: args.listingType,
+      interests: args.propertyUid ? { propertyUids: [args.propertyUid], notes: args.notes } : { notes: args.notes },
+      alterEstateLeadId: crmLeadId,
+    });
+
+    return { created: true, leadId: lead.id, syncedToCrm: !!crmLeadId };
+  },
+};
+
+const escalateToHumanTool: ConversationTool<z.infer<typeof EscalateArgs>> = {
+  definition: {
+    name: 'escalate_to_human',
+    description: 'Transfiere la conversación a un agente humano. Úsala cuando el cliente lo pida, tenga una queja o no puedas ayudarle.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Motivo breve de la transferencia' },
+      },
+      required: ['reason'],
+    },
+  },
+  schema: EscalateArgs,
+  async execute(args, ctx) {
+    const { escalationService } = await import('./escalationService');
+    return await escalationService.escalate(ctx.conversationId, args.reason);
+  },
+};
+
+const tools: ConversationTool[] = [
+  searchPropertiesTool,
+  countPropertiesTool,
+  saveSearchTool,
+  getPropertyDetailTool,
+  sendPropertyMediaTool,
+  getAvailableSlotsTool,
+  bookAppointmentTool,
+  rescheduleAppointmentTool,
+  cancelAppointmentTool,
+  createLeadTool,
+  escalateToHumanTool,
+];
+
+export class ConversationToolRegistry {
+  constructor(private registeredTools: ConversationTool[] = tools) {}
+
+  /**
+   * Definiciones que se ofrecen al modelo según la configuración de la conversación
+   */
+  getDefinitions(context: any): LLMToolDefinition[] {
+    const inventoryReady = !!resolveInventoryProviderType(context);
+    return this.registeredTools
+      .filter(tool => inventoryReady || !tool.requiresInventory)
+      .map(tool => tool.definition);
+  }
+
+  /**
+   * Ejecutar una llamada del modelo. Los errores se devuelven como resultado
+   * para que el modelo pueda explicarlos o intentar otra cosa.
+   */
+  async execute(call: LLMToolCall, ctx: ToolExecutionContext): Promise<any> {
+    const tool = this.registeredTools.find(candidate => candidate.definition.name === call.name);
+    if (!tool) {
+      return { error: `Herramienta desconocida: ${call.name}` };
+    }
+
+    let rawArgs: unknown;
+    try {
+      rawArgs = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      return { error: 'Argumentos no son JSON válido' };
+    }
+
+    const parsed = tool.schema.safeParse(rawArgs);
+    if (!parsed.success) {
+      return { error: 'Argumentos inválidos', issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) };
+    }
+
+    try {
+      console.log(`🛠️ [TOOLS] ${call.name}(${JSON.stringify(parsed.data)})`);
+      return await tool.execute(parsed.data, ctx);
+    } catch (error) {
+      console.error(`❌ [TOOLS] ${call.name} failed:`, error);
+      return { error: error instanceof Error ? error.message : 'Error desconocido' };
+    }
+  }
+}
+
+export const conversationTools = new ConversationToolRegistry();
@@ -0,0 +1,145 @@
+import type { Conversation, Message } from '@shared/schema';
+import { storage } from '../storage';
+import { notificationService } from './notificationService';
+import { appUrl } from '../utils/appUrl';
+
+export const ESCALATION_INTENTS = ['escalate_human', 'complaint'] as const;
+const MIN_INTENT_CONFIDENCE = 0.6;
+const LOW_CONFIDENCE_THRESHOLD = 0.4;
+const LOW_CONFIDENCE_STREAK = 3;
+const SUMMARY_MESSAGES = 5;
+
+// Marca con la que el modelo indica, en su propia respuesta, que no entendió al cliente
+export const UNCLEAR_MARKER = '[NO_ENTENDIDO]';
+
+const HANDOFF_MESSAGES: Record<string, string> = {
+  escalate_human: 'Claro, ya le avisé a un asesor de nuestro equipo y te escribirá por aquí en breve. 🙌',
+  complaint: 'Lamento mucho lo ocurrido. Ya le pasé tu caso a un asesor de nuestro equipo para que te contacte personalmente lo antes posible.',
+  low_confidence: 'Para darte la mejor respuesta, le pedí a un asesor de nuestro equipo que continúe la conversación contigo. Te escribirá en breve.',
+};
+
+export interface IntentSignal {
+  intent: string;
+  confidence: number;
+}
+
+export interface EscalationDecision {
+  escalate: boolean;
+  reason?: string;
+  handoffMessage?: string;
+  lowConfidenceStreak: number;
+}
+
+export interface EscalationResult {
+  escalated: boolean;
+  reason?: string;
+  assigned?: boolean;
+}
+
+/**
+ * Decidir si el mensaje del cliente justifica pasar la conversación a una persona:
+ * pide hablar con alguien, se queja o la IA lleva varios mensajes sin entenderle
+ */
+export function evaluateIntent(signal: IntentSignal, previousLowConfidenceStreak: number = 0): EscalationDecision {
+  if ((ESCALATION_INTENTS as readonly string[]).includes(signal.intent) && signal.confidence >= MIN_INTENT_CONFIDENCE) {
+    return {
+      escalate: true,
+      reason: signal.intent === 'complaint' ? 'El cliente presentó una queja' : 'El cliente pidió hablar con una persona',
+      handoffMessage: HANDOFF_MESSAGES[signal.intent],
+      lowConfidenceStreak: 0,
+    };
+  }
+
+  const lowConfidenceStreak = signal.confidence < LOW_CONFIDENCE_THRESHOLD ? previousLowConfidenceStreak + 1 : 0;
+  if (lowConfidenceStreak >= LOW_CONFIDENCE_STREAK) {
+    return {
+      escalate: true,
+      reason: `La IA no logró entender al cliente en ${lowConfidenceStreak} mensajes seguidos`,
+      handoffMessage: HANDOFF_MESSAGES.low_confidence,
+      lowConfidenceStreak: 0,
+    };
+  }
+  return { escalate: false, lowConfidenceStreak };
+}
+
+/**
+ * Señal de confianza de la respuesta del modelo: quita la marca de "no entendí" del texto
+ * que se envía al cliente, sin otra llamada al modelo para clasificar el mensaje
+ */
+export function readUnderstandingSignal(content: string): { content: string; signal: IntentSignal } {
+  const unclear = content.includes(UNCLEAR_MARKER);
+  return {
+    content: unclear ? content.split(UNCLEAR_MARKER).join('').trim() : content,
+    signal: unclear ? { intent: 'unclear', confidence: 0 } : { intent: 'answered', confidence: 1 },
+  };
+}
+
+/**
+ * Resumen para el aviso por WhatsApp: cliente, motivo, últimos mensajes del cliente y enlace
+ */
+export function buildEscalationSummary(conversation: Conversation, messages: Message[], reason: string, link: string): string {
+  const clientMessages = messages
+    .filter(message => !message.fromMe && message.content?.trim())
+    .slice(-SUMMARY_MESSAGES)
+    .map(message => `• ${message.content.trim().slice(0, 200)}`);
+
+  return [
+    '🚨 *Conversación escalada*',
+    `Cliente: ${conversation.clientName && conversation.clientName !== 'Unknown' ? `${conversation.clientName} ` : ''}(+${conversation.clientPhone})`,
+    `Motivo: ${reason}`,
+    ...(clientMessages.length > 0 ? ['', 'Últimos mensajes:', ...clientMessages] : []),
+    '',
+    `Responder: ${link}`,
+  ].join('\n');
+}
+
+/**
+ * Escalación de conversaciones a humanos.
+ * La usan la herramienta escalate_to_human y el contador de respuestas sin entender de processConversation:
+ * marca la conversación, la asigna con el ruteo de la cuenta y avisa por los canales de notificationMethod.
+ */
+export class EscalationService {
+  async escalate(conversationId: string, reason: string): Promise<EscalationResult> {
+    const conversation = await storage.getConversationById(conversationId);
+    if (!conversation) {
+      return { escalated: false, reason: 'Conversación no encontrada' };
+    }
+
+    const settings = await storage.getUserSettings(conversation.userId);
+    if (settings?.humanEscalationEnabled === false) {
+      return { escalated: false, reason: 'La escalación a humanos está desactivada' };
+    }
+    // Ya la atiende una persona: no se repiten los avisos
+    if (conversation.isEscalated) {
+      return { escalated: true, assigned: !!conversation.assignedTo };
+    }
+
+    await storage.updateConversationEscalation(conversationId, true);
+    console.log(`🙋 [ESCALATION] Conversation ${conversationId} escalated: ${reason}`);
+
+    const { conversationRoutingService } = await import('./conversationRoutingService');
+    const assignee = await conversationRoutingService.routeConversation(conversationId);
+
+    const method = settings?.notificationMethod || 'Email y WhatsApp';
+    const useEmail = method.includes('Email');
+    const useWhatsApp = method.includes('WhatsApp') && !!settings?.notificationWhatsApp?.trim();
+
+    // El email va al miembro asignado; sin asignación, al email de notificación de la cuenta
+    let email: string | undefined;
+    if (useEmail) {
+      const user = await storage.getUser(conversation.userId);
+      email = assignee?.email || settings?.notificationEmail || user?.email || undefined;
+    }
+    await notificationService.escalateToHuman(conversationId, reason, email);
+
+    if (useWhatsApp) {
+      const messages = await storage.getConversationMessages(conversationId);
+      const summary = buildEscalationSummary(conversation, messages, reason, appUrl(`/conversations?id=${conversationId}`));
+      await notificationService.sendWhatsAppAlert(conversation.userId, settings!.notificationWhatsApp!, summary);
+    }
+
+    return { escalated: true, assigned: !!assignee };
+  }
+}
+
+export const escalationService = new EscalationService();
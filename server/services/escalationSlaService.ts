@@ -0,0 +1,192 @@
+import type { Conversation, UserSettings } from '@shared/schema';
+import { storage } from '../storage';
+import { notificationService } from './notificationService';
+
+const DEFAULT_POLL_SECONDS = 60;
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_HOLDING_MESSAGE = 'Gracias por tu paciencia 🙏 Nuestros asesores no están disponibles en este momento; te contactarán lo antes posible. Mientras tanto sigo aquí para ayudarte con lo que necesites.';
+
+export type EscalationAction = 'none' | 'renotify' | 'backup' | 'takeback' | 'idle_return';
+
+export interface EscalationPolicy {
+  slaMinutes: number;
+  backupEmail?: string | null;
+  aiTakebackEnabled: boolean;
+  aiTakebackMinutes: number;
+  idleReturnMinutes: number;
+}
+
+type EscalationState = Pick<Conversation, 'escalatedAt' | 'lastAgentMessageAt' | 'lastMessageAt' | 'slaLevel'>;
+
+export function policyFromSettings(settings?: UserSettings | null): EscalationPolicy {
+  return {
+    slaMinutes: settings?.escalationSlaMinutes ?? 15,
+    backupEmail: settings?.escalationBackupEmail,
+    aiTakebackEnabled: settings?.escalationAiTakebackEnabled ?? false,
+    aiTakebackMinutes: settings?.escalationAiTakebackMinutes ?? 60,
+    idleReturnMinutes: settings?.escalationIdleReturnMinutes ?? 0,
+  };
+}
+
+/**
+ * Siguiente paso para una conversación escalada.
+ * Sin respuesta humana: re-notificar al cumplirse el SLA, avisar al respaldo al doble del SLA
+ * y devolver a la IA si está habilitado. Con respuesta humana: volver a la IA tras el periodo
+ * de inactividad configurado.
+ */
+export function evaluateEscalation(state: EscalationState, policy: EscalationPolicy, now: Date = new Date()): EscalationAction {
+  if (state.lastAgentMessageAt) {
+    const lastActivity = Math.max(state.lastAgentMessageAt.getTime(), state.lastMessageAt?.getTime() ?? 0);
+    return policy.idleReturnMinutes > 0 && now.getTime() - lastActivity >= policy.idleReturnMinutes * MINUTE_MS
+      ? 'idle_return'
+      : 'none';
+  }
+
+  // Escalaciones anteriores al SLA no tienen escalatedAt; lastMessageAt se actualizó al escalar
+  const escalatedAt = state.escalatedAt ?? state.lastMessageAt;
+  if (!escalatedAt) return 'none';
+  const elapsedMinutes = (now.getTime() - escalatedAt.getTime()) / MINUTE_MS;
+
+  if (policy.aiTakebackEnabled && policy.aiTakebackMinutes > 0 && elapsedMinutes >= policy.aiTakebackMinutes) {
+    return 'takeback';
+  }
+  if (policy.slaMinutes <= 0) return 'none';
+
+  const level = state.slaLevel ?? 0;
+  if (level === 0 && elapsedMinutes >= policy.slaMinutes) {
+    return 'renotify';
+  }
+  if (level === 1 && policy.backupEmail && elapsedMinutes >= policy.slaMinutes * 2) {
+    return 'backup';
+  }
+  return 'none';
+}
+
+/**
+ * SLA de las conversaciones escaladas.
+ * Mientras nadie del equipo responde la IA está en pausa; este servicio revisa periódicamente
+ * las escalaciones para que ningún cliente quede sin atender.
+ */
+export class EscalationSlaService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Revisión periódica (ESCALATION_SLA_POLL_SECONDS, 0 la desactiva)
+   */
+  start(): void {
+    const seconds = Number(process.env.ESCALATION_SLA_POLL_SECONDS ?? DEFAULT_POLL_SECONDS);
+    if (!seconds || this.timer) return;
+
+    console.log(`⏱️ [SLA] Checking escalated conversations every ${seconds} seconds`);
+    this.timer = setInterval(() => this.checkAll(), seconds * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async checkAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const escalated = await storage.getEscalatedConversations();
+      const settingsCache = new Map<string, UserSettings | undefined>();
+
+      for (const conversation of escalated) {
+        try {
+          if (!settingsCache.has(conversation.userId)) {
+            settingsCache.set(conversation.userId, await storage.getUserSettings(conversation.userId));
+          }
+          const settings = settingsCache.get(conversation.userId);
+          const action = evaluateEscalation(conversation, policyFromSettings(settings));
+          if (action !== 'none') {
+            await this.apply(conversation, action, settings);
+          }
+        } catch (error) {
+          console.error(`❌ [SLA] Error checking conversation ${conversation.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ [SLA] Error loading escalated conversations:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async apply(conversation: Conversation, action: EscalationAction, settings?: UserSettings): Promise<void> {
+    const policy = policyFromSettings(settings);
+
+    switch (action) {
+      case 'renotify': {
+        const email = await this.getResponsibleEmail(conversation, settings);
+        await notificationService.escalateToHuman(
+          conversation.id,
+          `Sin respuesta de un agente después de ${policy.slaMinutes} minutos`,
+          email
+        );
+        await storage.updateConversationSlaLevel(conversation.id, 1);
+        console.log(`⏱️ [SLA] Conversation ${conversation.id} re-notified to ${email || 'dashboard'}`);
+        break;
+      }
+      case 'backup': {
+        await notificationService.escalateToHuman(
+          conversation.id,
+          `Nadie del equipo respondió en ${policy.slaMinutes * 2} minutos; eres el contacto de respaldo`,
+          policy.backupEmail || undefined
+        );
+        await storage.updateConversationSlaLevel(conversation.id, 2);
+        console.log(`⏱️ [SLA] Conversation ${conversation.id} escalated to backup contact`);
+        break;
+      }
+      case 'takeback': {
+        await storage.updateConversationEscalation(conversation.id, false);
+        await this.sendHoldingMessage(conversation, settings?.escalationHoldingMessage?.trim() || DEFAULT_HOLDING_MESSAGE);
+        console.log(`🤖 [SLA] Conversation ${conversation.id} returned to AI after ${policy.aiTakebackMinutes} minutes without an agent`);
+        break;
+      }
+      case 'idle_return': {
+        await storage.updateConversationEscalation(conversation.id, false);
+        console.log(`🤖 [SLA] Conversation ${conversation.id} returned to AI after ${policy.idleReturnMinutes} idle minutes`);
+        break;
+      }
+    }
+  }
+
+  // Mismo destinatario que la escalación: el miembro asignado o el email de notificación de la cuenta
+  private async getResponsibleEmail(conversation: Conversation, settings?: UserSettings): Promise<string | undefined> {
+    const assignee = conversation.assignedTo ? await storage.getUser(conversation.assignedTo) : undefined;
+    if (assignee?.email) return assignee.email;
+    if (settings?.notificationEmail) return settings.notificationEmail;
+    const user = await storage.getUser(conversation.userId);
+    return user?.email || undefined;
+  }
+
+  private async sendHoldingMessage(conversation: Conversation, message: string): Promise<void> {
+    const { instanceResolver } = await import('./instanceResolver');
+    const instanceName = await instanceResolver.resolveForOutgoing(conversation.userId);
+    if (!instanceName) {
+      console.warn(`⚠️ [SLA] Cannot send holding message to conversation ${conversation.id}: no connected instance`);
+      return;
+    }
+
+    const { evolutionApiService } = await import('./evolutionApiService');
+    const result = await evolutionApiService.sendMessage(instanceName, conversation.clientPhone, message);
+    await storage.createMessage({
+      conversationId: conversation.id,
+      whatsappInstanceId: conversation.whatsappInstanceId,
+      messageId: result.messageId || `sla_holding_${Date.now()}`,
+      fromMe: true,
+      messageType: 'text',
+      content: message,
+      timestamp: new Date(),
+    });
+  }
+}
+
+export const escalationSlaService = new EscalationSlaService();
@@ -2,22 +2,24 @@ import makeWASocket, {
   ConnectionState, 
   DisconnectReason, 
   WASocket, 
-  useMultiFileAuthState,
   fetchLatestBaileysVersion,
   isJidUser,
   jidNormalizedUser,
   proto,
   getContentType,
-  downloadMediaMessage
+  downloadMediaMessage,
+  generateMessageIDV2,
+  type AnyMessageContent
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import QRCode from 'qrcode';
 import NodeCache from 'node-cache';
 import path from 'path';
-import fs from 'fs';
 import { EventEmitter } from 'events';
 import { MessageBufferService } from './messageBufferService';
 import { storage } from '../storage';
+import { EVOLUTION_CONFIG } from '../config/evolution';
+import { migrateAuthFolder, useDatabaseAuthState } from './whatsappAuthState';
 
 interface WhatsAppInstance {
   socket: WASocket | null;
@@ -46,77 +48,42 @@ class EvolutionApiService {
   private instances: Map<string, WhatsAppInstance> = new Map();
   private qrCodeCache = new NodeCache({ stdTTL: 300 }); // 5 minutos
   private messageBufferService = new MessageBufferService();
-  private instancesPath: string;
+  private sentMessageIds = new NodeCache({ stdTTL: 600 }); // Ecos de lo que envía el bot en messages.upsert
   
   constructor() {
-    // Use persistent auth directory outside VCS (SECURITY: moved from '/tmp')
-    this.instancesPath = process.env.WHATSAPP_AUTH_DIR || path.join(process.cwd(), 'whatsapp_instances');
-    this.ensureInstancesDirectory();
-    this.migrateFromTemporary();
+    console.log('🔐 [AUTH] WhatsApp auth state stored encrypted in the database');
   }
 
-  private ensureInstancesDirectory() {
-    if (!fs.existsSync(this.instancesPath)) {
-      fs.mkdirSync(this.instancesPath, { recursive: true });
-    }
+  /**
+   * Carpetas donde useMultiFileAuthState guardaba credenciales en versiones anteriores
+   */
+  private getLegacyAuthFolders(instanceName: string): string[] {
+    const roots = [
+      process.env.WHATSAPP_AUTH_DIR,
+      path.join(process.cwd(), 'whatsapp_instances'),
+      path.join('/tmp', 'whatsapp_auth'),
+      path.join(process.cwd(), EVOLUTION_CONFIG.INSTANCE_STORAGE_PATH),
+    ].filter((root): root is string => !!root);
+    return Array.from(new Set(roots)).map(root => path.join(root, instanceName));
   }
 
-  private migrateFromTemporary() {
-    const tempPath = path.join('/tmp', 'whatsapp_auth');
-    
-    if (fs.existsSync(tempPath)) {
-      console.log('🔄 [MIGRATION] Found existing credentials in /tmp, migrating to persistent storage...');
-      
+  /**
+   * Importar a la base de datos las credenciales que aún estén en disco y borrar la carpeta
+   */
+  private async migrateFromFilesystem(instanceName: string, instanceId: string) {
+    for (const folder of this.getLegacyAuthFolders(instanceName)) {
       try {
-        const tempDirs = fs.readdirSync(tempPath, { withFileTypes: true })
-          .filter(dirent => dirent.isDirectory())
-          .map(dirent => dirent.name);
-        
-        for (const instanceDir of tempDirs) {
-          const sourcePath = path.join(tempPath, instanceDir);
-          const destPath = path.join(this.instancesPath, instanceDir);
-          
-          if (!fs.existsSync(destPath)) {
-            console.log(`📁 [MIGRATION] Migrating instance: ${instanceDir}`);
-            
-            // Create destination directory
-            fs.mkdirSync(destPath, { recursive: true });
-            
-            // Copy all files from source to destination
-            const files = fs.readdirSync(sourcePath);
-            for (const file of files) {
-              const sourceFile = path.join(sourcePath, file);
-              const destFile = path.join(destPath, file);
-              
-              if (fs.statSync(sourceFile).isFile()) {
-                fs.copyFileSync(sourceFile, destFile);
-              }
-            }
-            
-            console.log(`✅ [MIGRATION] Successfully migrated ${instanceDir}`);
-          } else {
-            console.log(`⏭️ [MIGRATION] Instance ${instanceDir} already exists in persistent storage`);
-          }
+        const imported = await migrateAuthFolder(instanceId, folder);
+        if (imported > 0) {
+          console.log(`📁 [MIGRATION] Imported ${imported} auth files for ${instanceName} from ${folder} and removed the folder`);
+          return;
         }
-        
-        console.log('🎉 [MIGRATION] Credential migration completed successfully');
-        
-        // Optional: Clean up temp directory after successful migration
-        // fs.rmSync(tempPath, { recursive: true, force: true });
-        // console.log('🧹 [MIGRATION] Cleaned up temporary directory');
-        
       } catch (error) {
-        console.error('❌ [MIGRATION] Failed to migrate credentials:', error);
+        console.error(`❌ [MIGRATION] Failed to migrate auth folder ${folder}:`, error);
       }
-    } else {
-      console.log('✅ [MIGRATION] No temporary credentials found, using persistent storage');
     }
   }
 
-  private getInstancePath(instanceName: string): string {
-    return path.join(this.instancesPath, instanceName);
-  }
-
   async createInstance(instanceName: string, webhookUrl?: string): Promise<{ 
     success: boolean; 
     instanceName: string; 
@@ -130,12 +97,14 @@ class EvolutionApiService {
         throw new Error(`Instance ${instanceName} already exists`);
       }
 
-      const instancePath = this.getInstancePath(instanceName);
-      if (!fs.existsSync(instancePath)) {
-        fs.mkdirSync(instancePath, { recursive: true });
+      // El estado de autenticación se guarda por whatsappInstances.id
+      const dbInstance = await storage.getWhatsappInstance(instanceName);
+      if (!dbInstance) {
+        throw new Error(`Instance ${instanceName} must be registered in the database before connecting`);
       }
+      await this.migrateFromFilesystem(instanceName, dbInstance.id);
 
-      const { state, saveCreds } = await useMultiFileAuthState(instancePath);
+      const { state, saveCreds } = await useDatabaseAuthState(dbInstance.id);
       const { version, isLatest } = await fetchLatestBaileysVersion();
       
       console.log(`Using Baileys version: ${version}, isLatest: ${isLatest}`);
@@ -240,7 +209,14 @@ class EvolutionApiService {
     // Manejar mensajes entrantes
     socket.ev.on('messages.upsert', async (m: any) => {
       const message = m.messages[0];
-      if (!message || message.key.fromMe) return;
+      if (!message) return;
+
+      // Los mensajes propios que no envió el bot los escribió un agente desde el teléfono
+      if (message.key.fromMe) {
+        if (this.sentMessageIds.take(message.key.id || '')) return;
+        if (!isJidUser(message.key.remoteJid || '') || !this.isAgentContent(message)) return;
+        console.log(`📱 [AGENT] Message sent from the phone on ${instanceName} to ${message.key.remoteJid}`);
+      }
 
       try {
         const incomingMessage = await this.processIncomingMessage(instanceName, message);
@@ -259,6 +235,22 @@ class EvolutionApiService {
     });
   }
 
+  /**
+   * Enviar con un ID generado de antemano: el eco en messages.upsert puede llegar antes de
+   * que sendMessage devuelva la clave
+   */
+  private async sendTracked(socket: WASocket, jid: string, content: AnyMessageContent) {
+    const messageId = generateMessageIDV2(socket.user?.id);
+    this.sentMessageIds.set(messageId, true);
+    return await socket.sendMessage(jid, content, { messageId });
+  }
+
+  // Reacciones, ediciones y mensajes de protocolo no cuentan como respuesta del agente
+  private isAgentContent(message: any): boolean {
+    const type = getContentType(message.message);
+    return !!type && !['protocolMessage', 'reactionMessage', 'senderKeyDistributionMessage', 'editedMessage'].includes(type);
+  }
+
   private async processIncomingMessage(instanceName: string, message: any): Promise<IncomingMessage> {
     const messageKey = message.key.id || 'unknown';
     const remoteJid = message.key.remoteJid || '';
@@ -380,7 +372,7 @@ class EvolutionApiService {
       const formattedNumber = this.formatPhoneNumber(number);
       
       // Enviar mensaje
-      const sentMessage = await instance.socket.sendMessage(formattedNumber, { text: message });
+      const sentMessage = await this.sendTracked(instance.socket, formattedNumber, { text: message });
       
       console.log(`✅ Message sent via ${instanceName} to ${formattedNumber}`);
       
@@ -444,7 +436,7 @@ class EvolutionApiService {
       }
       
       // Enviar mensaje multimedia
-      const sentMessage = await instance.socket.sendMessage(formattedNumber, mediaMessage);
+      const sentMessage = await this.sendTracked(instance.socket, formattedNumber, mediaMessage);
       
       console.log(`✅ ${mediaType} sent via ${instanceName} to ${formattedNumber}`);
       
@@ -459,6 +451,43 @@ class EvolutionApiService {
     }
   }
 
+  /**
+   * Enviar un documento generado en memoria (p. ej. la invitación .ics de una cita)
+   */
+  async sendDocument(instanceName: string, number: string, document: Buffer, fileName: string, mimetype: string, caption?: string): Promise<{ success: boolean; messageId?: string }> {
+    const instance = this.instances.get(instanceName);
+
+    if (!instance || !instance.socket) {
+      throw new Error(`Instance ${instanceName} not found or not connected`);
+    }
+
+    if (instance.status !== 'CONNECTED') {
+      throw new Error(`Instance ${instanceName} is not connected. Status: ${instance.status}`);
+    }
+
+    try {
+      const formattedNumber = this.formatPhoneNumber(number);
+      console.log(`📎 Sending document ${fileName} from ${instanceName} to ${formattedNumber}`);
+
+      const sentMessage = await this.sendTracked(instance.socket, formattedNumber, {
+        document,
+        mimetype,
+        fileName,
+        caption: caption || '',
+      });
+
+      console.log(`✅ Document sent via ${instanceName} to ${formattedNumber}`);
+
+      return {
+        success: true,
+        messageId: sentMessage?.key?.id || undefined
+      };
+    } catch (error) {
+      console.error(`Error sending document via ${instanceName}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Enviar mensaje con botones interactivos
    */
@@ -591,7 +620,7 @@ class EvolutionApiService {
         }
       }
 
-      const result = await instance.socket.sendMessage(formattedNumber, buttonMessage);
+      const result = await this.sendTracked(instance.socket, formattedNumber, buttonMessage);
       
       return {
         success: true,
@@ -606,7 +635,7 @@ class EvolutionApiService {
         const fallbackText = messageData.buttonMessage.text + '\n\n' + 
           messageData.buttonMessage.buttons.map((btn: any, i: number) => `${i + 1}. ${btn.buttonText}`).join('\n');
         
-        const result = await instance.socket.sendMessage(this.formatPhoneNumber(messageData.number), { text: fallbackText });
+        const result = await this.sendTracked(instance.socket, this.formatPhoneNumber(messageData.number), { text: fallbackText });
         return {
           success: true,
           messageId: result?.key?.id || undefined
@@ -649,7 +678,7 @@ class EvolutionApiService {
         }))
       };
 
-      const result = await instance.socket.sendMessage(formattedNumber, listMessage);
+      const result = await this.sendTracked(instance.socket, formattedNumber, listMessage);
       
       return {
         success: true,
@@ -681,7 +710,7 @@ class EvolutionApiService {
           fallbackText += `\n${messageData.listMessage.footer}`;
         }
         
-        const result = await instance.socket.sendMessage(this.formatPhoneNumber(messageData.number), { text: fallbackText });
+        const result = await this.sendTracked(instance.socket, this.formatPhoneNumber(messageData.number), { text: fallbackText });
         return {
           success: true,
           messageId: result?.key?.id || undefined
@@ -1482,6 +1511,11 @@ class EvolutionApiService {
   }
 
   private formatPhoneNumber(number: string): string {
+    // Los chats con LID o de grupo no tienen un teléfono que reconstruir: se usa el JID tal cual
+    if (/@(lid|g\.us)$/.test(number)) {
+      return number;
+    }
+
     // Limpiar número y agregar formato WhatsApp
     let cleaned = number.replace(/\D/g, '');
     
@@ -1518,11 +1552,8 @@ class EvolutionApiService {
       instance.status = 'DISCONNECTED';
       this.instances.delete(instanceName);
       
-      // Limpiar archivos de autenticación
-      const instancePath = this.getInstancePath(instanceName);
-      if (fs.existsSync(instancePath)) {
-        fs.rmSync(instancePath, { recursive: true, force: true });
-      }
+      // Limpiar credenciales de autenticación
+      await this.clearAuthState(instanceName);
       
       return { success: true };
       
@@ -1532,6 +1563,13 @@ class EvolutionApiService {
     }
   }
 
+  private async clearAuthState(instanceName: string) {
+    const dbInstance = await storage.getWhatsappInstance(instanceName);
+    if (dbInstance) {
+      await storage.clearWhatsappAuthState(dbInstance.id);
+    }
+  }
+
   async deleteInstance(instanceName: string): Promise<{ success: boolean }> {
     const instance = this.instances.get(instanceName);
     
@@ -1545,11 +1583,8 @@ class EvolutionApiService {
     
     this.instances.delete(instanceName);
     
-    // Limpiar archivos
-    const instancePath = this.getInstancePath(instanceName);
-    if (fs.existsSync(instancePath)) {
-      fs.rmSync(instancePath, { recursive: true, force: true });
-    }
+    // Limpiar credenciales
+    await this.clearAuthState(instanceName);
     
     return { success: true };
   }
@@ -1,14 +1,24 @@
 import { evolutionApiService } from './evolutionApiService';
 import { aiService } from './aiService';
 import { messageBufferService } from './messageBufferService';
+import { savedSearchService } from './savedSearchService';
+import { appointmentReminderService } from './appointmentReminderService';
 import { storage } from '../storage';
 import { instanceResolver } from './instanceResolver';
+import { resolveInventoryProviderType, type Property } from './inventoryProvider';
+import type { Conversation } from '@shared/schema';
+
+// Pausa tras una respuesta del agente desde el teléfono
+function isAiPaused(conversation: Conversation): boolean {
+  return !!conversation.aiPausedUntil && conversation.aiPausedUntil > new Date();
+}
 
 class InternalWebhookService {
   private activeInstances = new Map<string, boolean>();
 
   constructor() {
     console.log('🔄 Internal Webhook Service initialized');
+    messageBufferService.setProcessor(job => this.processBufferedConversation(job.conversationId, job.userId, job.combinedMessage, job.remoteJid));
   }
 
   // Inicializar todas las instancias existentes al arrancar la aplicación
@@ -69,6 +79,30 @@ class InternalWebhookService {
     } catch (error) {
       console.error('❌ [STARTUP] Error initializing existing instances:', error);
     }
+
+    // Responder los mensajes que quedaron en buffer antes del reinicio y arrancar el worker
+    try {
+      const recovered = await messageBufferService.recoverPendingMessages();
+      console.log(`♻️ [STARTUP] Recovered ${recovered} buffered conversations`);
+    } catch (error) {
+      console.error('❌ [STARTUP] Error recovering buffered messages:', error);
+      messageBufferService.start();
+    }
+  }
+
+  // Responder una ráfaga del buffer persistente (puede venir de otro proceso o de antes de un reinicio)
+  private async processBufferedConversation(conversationId: string, userId: string, combinedMessage: string, remoteJid?: string) {
+    const conversation = await storage.getConversationById(conversationId);
+    if (!conversation) return;
+    if (conversation.isEscalated || isAiPaused(conversation)) {
+      console.log(`👤 [INTERNAL] Conversation ${conversationId} was taken over by a human while buffering, skipping AI`);
+      return;
+    }
+
+    const instances = await storage.getUserWhatsappInstances(userId);
+    const instance = instances.find(candidate => candidate.id === conversation.whatsappInstanceId);
+    // Los mensajes en buffer de antes de guardar el JID solo tienen el teléfono
+    await this.processWithAI(remoteJid || `${conversation.clientPhone}@s.whatsapp.net`, combinedMessage, conversationId, userId, instance?.instanceName);
   }
 
   // Simular mensaje entrante para pruebas
@@ -191,7 +225,8 @@ class InternalWebhookService {
           userId: resolvedUserId,
           whatsappInstanceId: dbInstance.id,
           clientPhone: phoneNumber,
-          clientName: messageData.senderName || 'Unknown',
+          // En los mensajes propios senderName es el nombre del agente
+          clientName: messageData.fromMe ? 'Unknown' : messageData.senderName || 'Unknown',
         });
         console.log(`✅ [INTERNAL] New conversation created: ${conversation.id}`);
       } else {
@@ -209,12 +244,35 @@ class InternalWebhookService {
         whatsappInstanceId: dbInstance.id,
         messageId: messageData.messageKey,
         fromMe: messageData.fromMe,
+        sentByAgent: messageData.fromMe, // Los mensajes del bot no llegan aquí
         messageType: messageData.messageType || 'text',
         content: messageData.message,
         timestamp: new Date(messageData.timestamp),
       });
+      await storage.updateConversationLastMessage(conversation.id);
       console.log(`💾 [INTERNAL] Message stored in database`);
 
+      if (messageData.fromMe) {
+        await this.handleAgentPhoneReply(conversation.id, resolvedUserId, new Date(messageData.timestamp));
+        return;
+      }
+
+      // Respuestas 1/2/3 a un recordatorio de cita: se atienden aunque la IA esté pausada o escalada
+      if (messageData.message && await appointmentReminderService.handleClientReply(conversation, messageData.message, effectiveInstance)) {
+        return;
+      }
+
+      if (isAiPaused(conversation)) {
+        console.log(`⏸️ [INTERNAL] AI paused for conversation ${conversation.id} until ${conversation.aiPausedUntil?.toISOString()}, skipping AI`);
+        return;
+      }
+
+      // Con la conversación escalada responde un humano; el SLA se encarga de devolverla a la IA
+      if (conversation.isEscalated && !messageData.fromMe) {
+        console.log(`👤 [INTERNAL] Conversation ${conversation.id} is under human control, skipping AI`);
+        return;
+      }
+
       // Procesar con IA solo si no es de nosotros
       if (!messageData.fromMe && messageData.message && messageData.message.trim()) {
         console.log(`🤖 [INTERNAL] Starting AI processing for conversation ${conversation.id}`);
@@ -229,7 +287,14 @@ class InternalWebhookService {
           dbInstance
         );
         
-        if (!isButtonResponse) {
+        // Baja de las alertas de búsquedas guardadas ("NO MÁS ALERTAS", "STOP")
+        const isAlertOptOut = !isButtonResponse && await savedSearchService.handleOptOut(
+          conversation.id,
+          messageData.message,
+          effectiveInstance
+        );
+        
+        if (!isButtonResponse && !isAlertOptOut) {
           // Procesar contenido multimedia si existe
           let processedMessage = messageData.message;
           
@@ -238,19 +303,18 @@ class InternalWebhookService {
               messageData.message, 
               messageData.mediaBuffer,
               messageData.messageType,
-              messageData.mimeType
+              messageData.mimeType,
+              resolvedUserId
             );
           }
           
-          // Usar el buffer de mensajes con el contenido procesado
+          // Usar el buffer de mensajes con el contenido procesado (lo responde processBufferedConversation)
           await messageBufferService.addMessageToBuffer(
             conversation.id,
             processedMessage,
             messageData.messageKey,
             resolvedUserId,
-            async (combinedMessage: string) => {
-              await this.processWithAI(messageData.remoteJid, combinedMessage, conversation.id, resolvedUserId, effectiveInstance);
-            }
+            messageData.remoteJid
           );
         }
       } else {
@@ -262,6 +326,23 @@ class InternalWebhookService {
     }
   }
 
+  /**
+   * Un agente respondió desde el teléfono: la IA se pausa durante agentReplyPauseMinutes
+   * (contados desde el mensaje) y se descarta la respuesta pendiente en el buffer
+   */
+  private async handleAgentPhoneReply(conversationId: string, userId: string, sentAt: Date) {
+    await storage.recordAgentMessage(conversationId);
+
+    const settings = await storage.getUserSettings(userId);
+    const pauseMinutes = settings?.agentReplyPauseMinutes ?? 30;
+    if (pauseMinutes <= 0) return;
+
+    const until = new Date(sentAt.getTime() + pauseMinutes * 60 * 1000);
+    await storage.pauseConversationAi(conversationId, until);
+    const cancelled = await messageBufferService.clearBuffer(conversationId);
+    console.log(`⏸️ [AGENT] AI paused for conversation ${conversationId} until ${until.toISOString()}${cancelled ? ` (${cancelled} buffered messages cancelled)` : ''}`);
+  }
+
   // Helper method to resolve active instance for user
   private async resolveActiveInstance(userId: string, preferredInstanceName?: string): Promise<{instanceName: string, instanceId: string} | null> {
     try {
@@ -367,11 +448,14 @@ class InternalWebhookService {
         // WhatsApp instance details for AI service (using resolved instance)
         instanceName: effectiveInstanceName,
         phoneNumber: phoneNumber,
+        remoteJid, // Chat del turno: en chats con LID o de grupo el teléfono no sirve para responder
         userId: userId,
         // AlterEstate integration
         alterEstateEnabled: settings?.alterEstateEnabled || false,
         alterEstateToken: settings?.alterEstateToken,
         alterEstateApiKey: settings?.alterEstateApiKey,
+        // Inventario propio (SQL, Airtable, Google Sheets, CSV, JSON)
+        databaseType: settings?.databaseType,
         userLocation: phoneNumber?.includes('1829') ? 'Santo Domingo' : undefined,
         realEstateWebsiteUrl: settings?.realEstateWebsiteUrl,
       };
@@ -388,11 +472,18 @@ class InternalWebhookService {
 
       console.log(`📤 [INTERNAL AI] AI response received: "${aiResponse}"`);
 
+      // Un agente pudo responder desde el teléfono mientras la IA generaba la respuesta
+      const latestConversation = await storage.getConversationById(conversationId);
+      if (latestConversation && isAiPaused(latestConversation)) {
+        console.log(`⏸️ [INTERNAL AI] Agent replied while generating, discarding AI response for ${conversationId}`);
+        return;
+      }
+
       // Check if there are pending media files or carousels to send
       const { AIService } = await import('./aiService');
       const pendingMedia = AIService.getPendingMedia(conversationId);
       
-      if (pendingMedia && context.alterEstateToken) {
+      if (pendingMedia) {
         // 🎯 RESOLVER: Use InstanceResolver for pending media
         const resolvedInstanceName = await instanceResolver.resolveForOutgoing(userId, effectiveInstanceName);
         if (!resolvedInstanceName) {
@@ -477,6 +568,8 @@ class InternalWebhookService {
     } catch (error: any) {
       console.error('❌ [INTERNAL AI] Error processing AI response:', error);
       console.error('❌ [INTERNAL AI] Error stack:', error.stack);
+      // El buffer devuelve la ráfaga a la cola y la reintenta
+      throw error;
     }
   }
 
@@ -512,11 +605,11 @@ class InternalWebhookService {
       // Get user settings for AlterEstate integration
       const settings = await storage.getUserSettings(conversation.userId);
       
-      if (!settings?.alterEstateEnabled || !settings.alterEstateToken) {
+      if (!resolveInventoryProviderType(settings)) {
         await this.sendErrorMessage(
           conversation.userId,
           messageData.remoteJid,
-          'Para acceder a los detalles de propiedades, necesitas configurar AlterEstate CRM en tu cuenta.'
+          'Para acceder a los detalles de propiedades, necesitas configurar tu inventario de propiedades en tu cuenta.'
         );
         return true;
       }
@@ -593,15 +686,10 @@ class InternalWebhookService {
       }
       const { instanceName } = activeInstanceInfo;
       
-      // Import AlterEstate service
-      const { alterEstateService } = await import('./alterEstateService');
-      
-      // Get property details from AlterEstate
-      const propertyDetails = await alterEstateService.getPropertyDetail(
-        propertyId,
-        settings.alterEstateToken,
-        settings.alterEstateApiKey
-      );
+      // Get property details from the user's inventory provider
+      const { createInventoryProvider } = await import('./inventoryProvider');
+      const provider = createInventoryProvider(userId, settings);
+      const propertyDetails = provider ? await provider.getProperty(propertyId) : null;
 
       if (!propertyDetails) {
         await this.sendErrorMessage(
@@ -625,14 +713,11 @@ class InternalWebhookService {
       );
 
       // Send property URL if available
-      if (settings.realEstateWebsiteUrl && propertyDetails.uid) {
-        const baseUrl = settings.realEstateWebsiteUrl.endsWith('/') ? settings.realEstateWebsiteUrl : settings.realEstateWebsiteUrl + '/';
-        const propertyUrl = `${baseUrl}propiedad/${propertyDetails.uid}/`;
-        
+      if (propertyDetails.url) {
         await evolutionApiService.sendMessage(
           instanceName,
           remoteJid.replace('@s.whatsapp.net', ''),
-          `🔗 Ver propiedad completa: ${propertyUrl}`
+          `🔗 Ver propiedad completa: ${propertyDetails.url}`
         );
       }
       
@@ -685,6 +770,8 @@ class InternalWebhookService {
         alterEstateEnabled: settings?.alterEstateEnabled || false,
         alterEstateToken: settings?.alterEstateToken,
         alterEstateApiKey: settings?.alterEstateApiKey,
+        // Inventario propio (SQL, Airtable, Google Sheets, CSV, JSON)
+        databaseType: settings?.databaseType,
         userLocation: phoneNumber?.includes('1829') ? 'Santo Domingo' : undefined,
         realEstateWebsiteUrl: settings?.realEstateWebsiteUrl,
         focusedPropertyId: propertyId // Set the property as focus for questions
@@ -753,35 +840,36 @@ class InternalWebhookService {
   /**
    * Format property details for message display
    */
-  private formatPropertyDetailsMessage(property: any): string {
+  private formatPropertyDetailsMessage(property: Property): string {
+    const { rooms, bathrooms, area } = property.specifications;
     let message = `🏠 *DETALLES DE LA PROPIEDAD*\n\n`;
     
     message += `🏷️ *${property.title}*\n`;
-    message += `💰 *Precio:* ${property.price}\n`;
+    message += `💰 *Precio:* ${property.priceLabel}\n`;
     
     if (property.description) {
       message += `📋 *Descripción:* ${property.description}\n`;
     }
     
-    if (property.location) {
-      message += `📍 *Ubicación:* ${property.location}\n`;
+    if (property.location.label) {
+      message += `📍 *Ubicación:* ${property.location.label}\n`;
     }
     
-    if (property.area) {
-      message += `📐 *Área:* ${property.area}m²\n`;
+    if (area) {
+      message += `📐 *Área:* ${area}m²\n`;
     }
     
-    if (property.rooms) {
-      message += `🛏️ *Habitaciones:* ${property.rooms}\n`;
+    if (rooms) {
+      message += `🛏️ *Habitaciones:* ${rooms}\n`;
     }
     
-    if (property.bathrooms) {
-      message += `🚿 *Baños:* ${property.bathrooms}\n`;
+    if (bathrooms) {
+      message += `🚿 *Baños:* ${bathrooms}\n`;
     }
     
-    if (property.features && property.features.length > 0) {
+    if (property.amenities.length > 0) {
       message += `✨ *Características:*\n`;
-      property.features.forEach((feature: string) => {
+      property.amenities.forEach((feature: string) => {
         message += `• ${feature}\n`;
       });
     }
@@ -790,13 +878,14 @@ class InternalWebhookService {
   }
 
   /**
-   * Procesa mensajes multimedia (audio e imágenes) usando OpenAI
+   * Procesa mensajes multimedia (audio e imágenes) usando el proveedor LLM del usuario
    */
   private async processMultimediaMessage(
     originalMessage: string,
     mediaBuffer: Buffer,
     messageType: string,
-    mimeType?: string
+    mimeType?: string,
+    userId?: string
   ): Promise<string> {
     try {
       console.log(`🎯 [MULTIMEDIA] Processing ${messageType} with ${mediaBuffer.length} bytes`);
@@ -805,7 +894,7 @@ class InternalWebhookService {
         case 'audioMessage':
           try {
             console.log(`🎤 [MULTIMEDIA] Transcribing audio message`);
-            const transcription = await aiService.transcribeAudio(mediaBuffer, mimeType);
+            const transcription = await aiService.transcribeAudio(mediaBuffer, mimeType, userId);
             console.log(`✅ [MULTIMEDIA] Audio transcribed: "${transcription}"`);
             
             // Si hay caption/texto adicional, combinarlo
@@ -823,7 +912,7 @@ class InternalWebhookService {
           try {
             console.log(`🖼️ [MULTIMEDIA] Analyzing image message`);
             const imageBase64 = mediaBuffer.toString('base64');
-            const imageAnalysis = await aiService.analyzeImage(imageBase64);
+            const imageAnalysis = await aiService.analyzeImage(imageBase64, userId);
             console.log(`✅ [MULTIMEDIA] Image analyzed: "${imageAnalysis}"`);
             
             // Si hay caption/texto adicional, combinarlo
@@ -0,0 +1,579 @@
+import fs from 'fs';
+import { filterProperties, inventoryService, resolveDataFile } from './inventoryService';
+
+/**
+ * Capa de proveedores de inventario.
+ * La lógica conversacional, los controladores y los webhooks trabajan con el tipo
+ * normalizado Property; cada CRM o fuente de datos se integra como un InventoryProvider.
+ */
+
+export type InventoryProviderType = 'alterestate' | 'sql' | 'airtable' | 'google_sheets' | 'csv' | 'json';
+
+export type PropertyOperation = 'sale' | 'rent';
+
+export interface PropertyMedia {
+  featuredImage: string | null;
+  images: string[];
+  virtualTour: string | null;
+}
+
+export interface PropertyAgent {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  position?: string;
+  avatar?: string;
+}
+
+export interface Property {
+  id: string;                 // Identificador estable en el proveedor (uid en AlterEstate)
+  slug: string;               // Referencia para detalle y fotos (slug en AlterEstate, id en el resto)
+  title: string;
+  description: string;
+  operation: PropertyOperation | null;
+  propertyType: string | null;
+  price: number | null;
+  currency: string | null;
+  priceLabel: string;         // Precio listo para mostrar ("USD $250,000", rangos de proyectos, etc.)
+  location: {
+    sector: string | null;
+    city: string | null;
+    address: string | null;
+    label: string;
+  };
+  specifications: {
+    rooms: number | null;
+    bathrooms: number | null;
+    area: number | null;
+    parking: number | null;
+  };
+  amenities: string[];
+  media: PropertyMedia;
+  agent: PropertyAgent | null;
+  url: string | null;
+  isProject: boolean;
+  matchReasons?: string[];    // Por qué el proveedor recomendó la propiedad
+  raw?: Record<string, any>;  // Datos originales del proveedor
+}
+
+export interface PropertyLocation {
+  id: string;
+  name: string;
+  parentId?: string;
+  parentName?: string;
+}
+
+export interface PropertySearchCriteria {
+  operation?: PropertyOperation;
+  propertyType?: string;
+  budgetMin?: number;
+  budgetMax?: number;
+  currency?: string;
+  zones?: string[];
+  city?: string;
+  rooms?: number;
+  bathrooms?: number;
+  excludeIds?: string[];
+  limit?: number;
+}
+
+export interface PropertySearchResult {
+  properties: Property[];
+  rationale?: string;
+  relaxationApplied?: string[];
+  notes?: string;             // Indicaciones de la inmobiliaria sobre su inventario
+}
+
+export interface InventoryLeadInput {
+  fullName: string;
+  phone: string;
+  email?: string;
+  propertyId?: string;
+  notes?: string;
+  via?: string;
+  agentEmail?: string;
+}
+
+export interface InventoryProvider {
+  readonly type: InventoryProviderType;
+  search(criteria: PropertySearchCriteria): Promise<PropertySearchResult>;
+  /** Inventario completo (sincronización del índice local) */
+  listProperties(): Promise<Property[]>;
+  getProperty(ref: string): Promise<Property | null>;
+  getMedia(ref: string): Promise<PropertyMedia | null>;
+  getAgents(): Promise<PropertyAgent[]>;
+  /** Ciudades si no se indica parentId; sectores de la ciudad en caso contrario */
+  getLocations(parentId?: string): Promise<PropertyLocation[]>;
+  /** Registra el lead en el CRM del proveedor; id null si el proveedor no gestiona leads */
+  createLead(lead: InventoryLeadInput): Promise<{ id: string | null }>;
+}
+
+export function emptyMedia(): PropertyMedia {
+  return { featuredImage: null, images: [], virtualTour: null };
+}
+
+export function formatPriceLabel(price: number | null, currency: string | null): string {
+  return price ? `${currency || ''} ${price.toLocaleString()}`.trim() : 'Precio a consultar';
+}
+
+/**
+ * Completar un objeto parcial (p. ej. de un archivo JSON) con los valores por defecto de Property
+ */
+export function toProperty(data: Partial<Property> & { id: string }): Property {
+  const price = data.price ?? null;
+  const currency = data.currency ?? null;
+  const sector = data.location?.sector ?? null;
+  const city = data.location?.city ?? null;
+
+  return {
+    id: String(data.id),
+    slug: data.slug || String(data.id),
+    title: data.title || `Propiedad ${data.id}`,
+    description: data.description || '',
+    operation: data.operation ?? null,
+    propertyType: data.propertyType ?? null,
+    price,
+    currency,
+    priceLabel: data.priceLabel || formatPriceLabel(price, currency),
+    location: {
+      sector,
+      city,
+      address: data.location?.address ?? null,
+      label: data.location?.label || [sector, city].filter(Boolean).join(', '),
+    },
+    specifications: {
+      rooms: data.specifications?.rooms ?? null,
+      bathrooms: data.specifications?.bathrooms ?? null,
+      area: data.specifications?.area ?? null,
+      parking: data.specifications?.parking ?? null,
+    },
+    amenities: data.amenities || [],
+    media: { ...emptyMedia(), ...data.media },
+    agent: data.agent ?? null,
+    url: data.url ?? null,
+    isProject: data.isProject ?? false,
+    matchReasons: data.matchReasons,
+    raw: data.raw,
+  };
+}
+
+/**
+ * Ciudades y sectores distintos presentes en un listado (proveedores sin catálogo de ubicaciones)
+ */
+function locationsFromProperties(properties: Property[], parentId?: string): PropertyLocation[] {
+  const names = new Set<string>();
+  for (const property of properties) {
+    if (!parentId && property.location.city) {
+      names.add(property.location.city);
+    } else if (parentId && property.location.city === parentId && property.location.sector) {
+      names.add(property.location.sector);
+    }
+  }
+  return Array.from(names).sort().map(name => ({ id: name, name, ...(parentId ? { parentId, parentName: parentId } : {}) }));
+}
+
+function agentsFromProperties(properties: Property[]): PropertyAgent[] {
+  const agents = new Map<string, PropertyAgent>();
+  for (const property of properties) {
+    if (property.agent && !agents.has(property.agent.id)) {
+      agents.set(property.agent.id, property.agent);
+    }
+  }
+  return Array.from(agents.values());
+}
+
+// UID de AlterEstate (los botones de las tarjetas usan el uid, no el slug)
+const ALTER_ESTATE_UID_PATTERN = /^[A-Z0-9]{8,12}$/;
+const ALTER_ESTATE_MAX_PAGES = 100;
+
+/**
+ * Convertir un resultado de /properties/filter de AlterEstate al tipo Property
+ */
+export function fromAlterEstateListing(listing: any, propertyUrl: string | null = null): Property {
+  const listingIds = (listing.listing_type || []).map((type: any) => Number(type.id));
+  const forSale = listingIds.includes(1) || !!listing.sale_price;
+  const forRent = listingIds.includes(2) || !!listing.rent_price;
+  const price = (forSale ? listing.sale_price : listing.rent_price) || null;
+  const currency = (forSale ? listing.currency_sale : listing.currency_rent) || null;
+
+  return toProperty({
+    id: listing.uid,
+    slug: listing.slug,
+    title: listing.name,
+    description: listing.short_description || '',
+    operation: forRent && !forSale ? 'rent' : forSale ? 'sale' : null,
+    propertyType: listing.category?.name || null,
+    price,
+    currency,
+    location: {
+      sector: listing.sector?.name || listing.sector || null,
+      city: listing.city?.name || listing.city || null,
+      address: null,
+      label: '',
+    },
+    specifications: {
+      rooms: listing.room ?? null,
+      bathrooms: listing.bathroom ?? null,
+      area: listing.property_area ?? null,
+      parking: listing.parkinglot ?? null,
+    },
+    media: { featuredImage: listing.featured_image || null, images: [], virtualTour: null },
+    url: propertyUrl,
+    isProject: listing.is_project_v2 === true,
+    raw: listing,
+  });
+}
+
+/**
+ * AlterEstate CRM: búsqueda con el servidor MCP (puntuación y conversión de moneda)
+ * y catálogos/medios con AlterEstateService
+ */
+export class AlterEstateInventoryProvider implements InventoryProvider {
+  readonly type: InventoryProviderType = 'alterestate';
+
+  constructor(private userId: string, private settings: any) {}
+
+  async search(criteria: PropertySearchCriteria): Promise<PropertySearchResult> {
+    const mcpClient = await this.getMCPClient();
+
+    const request: any = {
+      operation: criteria.operation,
+      propertyType: criteria.propertyType?.toLowerCase(),
+      limit: criteria.limit,
+      excludeIds: criteria.excludeIds?.length ? criteria.excludeIds : undefined,
+    };
+    if (criteria.budgetMin || criteria.budgetMax) {
+      request.budget = { min: criteria.budgetMin, max: criteria.budgetMax, currency: criteria.currency };
+    }
+    if (criteria.zones?.length || criteria.city) {
+      request.location = { zones: criteria.zones, city: criteria.city, flexibility: 'flexible' };
+    }
+    if (criteria.rooms || criteria.bathrooms) {
+      request.specifications = { rooms: criteria.rooms, bathrooms: criteria.bathrooms };
+    }
+
+    const result = await mcpClient.getRecommendations(request);
+    return {
+      properties: result.recommendations.map(recommendation => toProperty({
+        id: recommendation.uid,
+        slug: recommendation.slug,
+        title: recommendation.title,
+        description: recommendation.description,
+        operation: criteria.operation ?? null,
+        price: recommendation.currency === 'USD' ? recommendation.priceUSD : recommendation.priceRD,
+        currency: recommendation.currency,
+        priceLabel: recommendation.price,
+        location: { sector: null, city: null, address: null, label: recommendation.location },
+        specifications: recommendation.specifications,
+        media: { featuredImage: recommendation.imageUrl || null, images: [], virtualTour: null },
+        url: recommendation.propertyUrl,
+        isProject: recommendation.isProject,
+        matchReasons: recommendation.reasons,
+      })),
+      rationale: result.rationale,
+      relaxationApplied: result.relaxationApplied || [],
+    };
+  }
+
+  async listProperties(): Promise<Property[]> {
+    const { alterEstateService } = await import('./alterEstateService');
+    const properties: Property[] = [];
+
+    for (let page = 1; page <= ALTER_ESTATE_MAX_PAGES; page++) {
+      const result = await alterEstateService.searchProperties(this.settings.alterEstateToken, {}, page);
+      properties.push(...result.results.map(listing => fromAlterEstateListing(
+        listing,
+        alterEstateService.getPropertyPublicUrl(listing.slug, this.settings.realEstateWebsiteUrl || undefined)
+      )));
+      if (!result.next || result.results.length === 0) break;
+    }
+
+    return properties;
+  }
+
+  async getProperty(ref: string): Promise<Property | null> {
+    const slug = await this.resolveSlug(ref);
+    if (!slug) return null;
+
+    const mcpClient = await this.getMCPClient();
+    const detail = await mcpClient.getPropertyDetail(slug);
+
+    return toProperty({
+      id: detail.uid,
+      slug: detail.slug,
+      title: detail.title,
+      description: detail.description,
+      operation: detail.forRent && !detail.forSale ? 'rent' : detail.forSale ? 'sale' : null,
+      propertyType: detail.category || null,
+      price: detail.priceUSD || null,
+      currency: detail.priceUSD ? 'USD' : null,
+      priceLabel: detail.price,
+      location: {
+        sector: detail.location?.neighborhood || null,
+        city: detail.location?.city || null,
+        address: detail.location?.address || null,
+        label: detail.location?.fullLocation || '',
+      },
+      specifications: detail.specifications,
+      amenities: [...(detail.amenities || []), ...(detail.features || [])],
+      media: {
+        featuredImage: detail.multimedia?.featuredImage || null,
+        images: detail.multimedia?.images || [],
+        virtualTour: detail.multimedia?.virtualTour || null,
+      },
+      agent: detail.agent?.name
+        ? { id: detail.agent.email || detail.agent.name, name: detail.agent.name, email: detail.agent.email || null, phone: detail.agent.phone || null }
+        : null,
+      url: detail.propertyUrl,
+      isProject: detail.isProject,
+    });
+  }
+
+  async getMedia(ref: string): Promise<PropertyMedia | null> {
+    const slug = await this.resolveSlug(ref);
+    if (!slug) return null;
+
+    const { alterEstateService } = await import('./alterEstateService');
+    const media = await alterEstateService.getPropertyMedia(this.settings.alterEstateToken, slug);
+    return {
+      featuredImage: media.featuredImage || null,
+      images: media.images,
+      virtualTour: media.virtualTour || null,
+    };
+  }
+
+  async getAgents(): Promise<PropertyAgent[]> {
+    const { alterEstateService } = await import('./alterEstateService');
+    const agents = await alterEstateService.getAgents(this.settings.alterEstateToken);
+    return agents.map(agent => ({
+      id: agent.uid,
+      name: agent.full_name || `${agent.first_name} ${agent.last_name}`.trim(),
+      email: agent.email || null,
+      phone: agent.phone || null,
+      position: agent.position,
+      avatar: agent.avatar,
+    }));
+  }
+
+  async getLocations(parentId?: string): Promise<PropertyLocation[]> {
+    const { alterEstateService } = await import('./alterEstateService');
+
+    if (!parentId) {
+      const cities = await alterEstateService.getCities(this.settings.alterEstateToken);
+      return cities.map(city => ({ id: String(city.id), name: city.name, parentName: city.province?.name }));
+    }
+
+    const sectors = await alterEstateService.getSectors(this.settings.alterEstateToken, parseInt(parentId));
+    return sectors.map(sector => ({ id: String(sector.id), name: sector.name, parentId, parentName: sector.city }));
+  }
+
+  async createLead(lead: InventoryLeadInput): Promise<{ id: string | null }> {
+    // Con API key se usa el endpoint autenticado de leads; si no, el token de lectura vía MCP
+    if (this.settings.alterEstateApiKey) {
+      const { alterEstateService } = await import('./alterEstateService');
+      const result = await alterEstateService.createLead(this.settings.alterEstateApiKey, {
+        full_name: lead.fullName,
+        phone: lead.phone,
+        email: lead.email || '',
+        property_uid: lead.propertyId,
+        notes: lead.notes,
+        via: lead.via || 'WhatsApp Bot',
+        related: lead.agentEmail,
+      });
+      if (result.status >= 400) {
+        throw new Error(result.message || `AlterEstate respondió ${result.status}`);
+      }
+      return { id: result.data?.id ? String(result.data.id) : null };
+    }
+
+    const mcpClient = await this.getMCPClient();
+    const result = await mcpClient.createLead({
+      fullName: lead.fullName,
+      phone: lead.phone,
+      email: lead.email,
+      propertyUid: lead.propertyId,
+      notes: lead.notes,
+      via: lead.via || 'WhatsApp Bot',
+      relatedAgent: lead.agentEmail,
+    });
+    return { id: result.leadId ? String(result.leadId) : null };
+  }
+
+  /**
+   * Los detalles se consultan por slug; si llega un uid se busca su slug en el listado
+   */
+  private async resolveSlug(ref: string): Promise<string | null> {
+    if (!ALTER_ESTATE_UID_PATTERN.test(ref)) {
+      return ref;
+    }
+
+    const { alterEstateService } = await import('./alterEstateService');
+    const searchResult = await alterEstateService.searchProperties(this.settings.alterEstateToken, {});
+    return searchResult.results.find(property => property.uid === ref)?.slug || null;
+  }
+
+  private async getMCPClient() {
+    const { getMCPClient } = await import('./mcpClient');
+    return getMCPClient(this.userId, this.settings.alterEstateToken, this.settings);
+  }
+}
+
+/**
+ * Base de búsqueda en memoria para proveedores que entregan el listado completo
+ */
+abstract class ListingInventoryProvider implements InventoryProvider {
+  abstract readonly type: InventoryProviderType;
+
+  protected abstract loadProperties(): Promise<Property[]>;
+
+  protected getNotes(): string | undefined {
+    return undefined;
+  }
+
+  async search(criteria: PropertySearchCriteria): Promise<PropertySearchResult> {
+    const excluded = new Set(criteria.excludeIds || []);
+    const properties = (await this.loadProperties()).filter(property => !excluded.has(property.id));
+    return {
+      properties: filterProperties(properties, criteria).slice(0, criteria.limit || 6),
+      notes: this.getNotes(),
+    };
+  }
+
+  listProperties(): Promise<Property[]> {
+    return this.loadProperties();
+  }
+
+  async getProperty(ref: string): Promise<Property | null> {
+    const properties = await this.loadProperties();
+    return properties.find(property => property.id === ref || property.slug === ref) || null;
+  }
+
+  async getMedia(ref: string): Promise<PropertyMedia | null> {
+    return (await this.getProperty(ref))?.media || null;
+  }
+
+  async getAgents(): Promise<PropertyAgent[]> {
+    return agentsFromProperties(await this.loadProperties());
+  }
+
+  async getLocations(parentId?: string): Promise<PropertyLocation[]> {
+    return locationsFromProperties(await this.loadProperties(), parentId);
+  }
+
+  async createLead(_lead: InventoryLeadInput): Promise<{ id: string | null }> {
+    // Sin CRM remoto: el lead solo se guarda en la base local
+    return { id: null };
+  }
+}
+
+/**
+ * Inventario propio configurado en userSettings (SQL, Airtable, Google Sheets o CSV)
+ */
+export class OwnInventoryProvider extends ListingInventoryProvider {
+  readonly type: InventoryProviderType;
+
+  constructor(private userId: string, private settings: any) {
+    super();
+    this.type = settings.databaseType;
+  }
+
+  protected loadProperties(): Promise<Property[]> {
+    return inventoryService.getProperties(this.userId, this.settings);
+  }
+
+  protected getNotes(): string | undefined {
+    return this.settings.databaseInstructions || undefined;
+  }
+}
+
+interface InventoryJsonFile {
+  properties: Array<Partial<Property> & { id: string }>;
+  agents?: PropertyAgent[];
+  locations?: PropertyLocation[];
+}
+
+/**
+ * Archivo JSON con propiedades ya normalizadas, para desarrollo local sin CRM.
+ * Acepta un arreglo de propiedades o { properties, agents, locations }.
+ * Los leads creados se guardan en memoria para poder inspeccionarlos.
+ */
+export class JsonFileInventoryProvider extends ListingInventoryProvider {
+  readonly type: InventoryProviderType = 'json';
+  readonly createdLeads: Array<InventoryLeadInput & { id: string }> = [];
+  private filePath: string;
+
+  constructor(filePath: string, baseDir?: string) {
+    super();
+    this.filePath = resolveDataFile(filePath, '.json', baseDir);
+  }
+
+  protected async loadProperties(): Promise<Property[]> {
+    return (await this.readFile()).properties.map(toProperty);
+  }
+
+  async getAgents(): Promise<PropertyAgent[]> {
+    const file = await this.readFile();
+    return file.agents || agentsFromProperties(file.properties.map(toProperty));
+  }
+
+  async getLocations(parentId?: string): Promise<PropertyLocation[]> {
+    const file = await this.readFile();
+    if (file.locations) {
+      return file.locations.filter(location => (location.parentId || undefined) === parentId);
+    }
+    return locationsFromProperties(file.properties.map(toProperty), parentId);
+  }
+
+  async createLead(lead: InventoryLeadInput): Promise<{ id: string | null }> {
+    const id = `json-lead-${this.createdLeads.length + 1}`;
+    this.createdLeads.push({ ...lead, id });
+    console.log(`🗂️ [INVENTORY] Lead ${id} registered in JSON provider: ${lead.fullName}`);
+    return { id };
+  }
+
+  private async readFile(): Promise<InventoryJsonFile> {
+    const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    return Array.isArray(data) ? { properties: data } : { ...data, properties: data.properties || [] };
+  }
+}
+
+/**
+ * Tipo de proveedor según la configuración (settings del usuario, contexto de conversación o variables de entorno)
+ */
+export function resolveInventoryProviderType(settings: any): InventoryProviderType | null {
+  if (settings?.alterEstateEnabled && settings?.alterEstateToken) {
+    return 'alterestate';
+  }
+  return (settings?.databaseType || process.env.INVENTORY_PROVIDER || null) as InventoryProviderType | null;
+}
+
+/**
+ * Crear el proveedor de inventario del usuario; null si no hay inventario configurado
+ */
+export function createInventoryProvider(userId: string, settings: any): InventoryProvider | null {
+  switch (resolveInventoryProviderType(settings)) {
+    case 'alterestate':
+      return new AlterEstateInventoryProvider(userId, settings);
+    case 'json': {
+      const filePath = (settings?.databaseType === 'json' && settings.inventoryTable) || process.env.INVENTORY_JSON_PATH;
+      return filePath ? new JsonFileInventoryProvider(filePath) : null;
+    }
+    case 'sql':
+    case 'airtable':
+    case 'google_sheets':
+    case 'csv':
+      return inventoryService.createSource(settings) ? new OwnInventoryProvider(userId, settings) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Proveedor a partir de la configuración guardada del usuario
+ */
+export async function getInventoryProvider(userId: string): Promise<InventoryProvider | null> {
+  const { storage } = await import('../storage');
+  const settings = await storage.getUserSettings(userId);
+  return createInventoryProvider(userId, settings);
+}
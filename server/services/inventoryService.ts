@@ -0,0 +1,407 @@
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import pg from 'pg';
+import { formatPriceLabel, type Property, type PropertySearchCriteria } from './inventoryProvider';
+
+/**
+ * Inventario propio de la inmobiliaria (sin AlterEstate).
+ * Cada conector lee filas con columnas libres; InventoryService las normaliza a Property
+ * con alias de columnas comunes (español/inglés) y filtra por los criterios del cliente.
+ */
+
+export type InventorySourceType = 'sql' | 'airtable' | 'google_sheets' | 'csv';
+
+export type InventoryRow = Record<string, any>;
+
+export interface InventorySource {
+  readonly type: InventorySourceType;
+  fetchRows(limit?: number): Promise<InventoryRow[]>;  // Hasta MAX_ROWS filas
+}
+
+const MAX_ROWS = 2000;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const SQL_CONNECT_TIMEOUT_MS = 10000;
+const SQL_STATEMENT_TIMEOUT_MS = 15000;
+
+function rowLimit(limit: number): number {
+  return Math.min(Math.max(1, Math.floor(limit) || 1), MAX_ROWS);
+}
+
+/**
+ * Tabla o vista de Postgres del cliente, leída con el driver estándar `pg`
+ * en una transacción de solo lectura y con tiempos límite de conexión y consulta.
+ */
+export class SqlInventorySource implements InventorySource {
+  readonly type: InventorySourceType = 'sql';
+
+  constructor(private connectionString: string, private table: string) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/.test(table)) {
+      throw new Error(`Nombre de tabla inválido: ${table}`);
+    }
+  }
+
+  async fetchRows(limit: number = MAX_ROWS): Promise<InventoryRow[]> {
+    const client = new pg.Client({
+      connectionString: this.connectionString,
+      connectionTimeoutMillis: SQL_CONNECT_TIMEOUT_MS,
+      statement_timeout: SQL_STATEMENT_TIMEOUT_MS,
+      query_timeout: SQL_STATEMENT_TIMEOUT_MS + 5000,
+    });
+    await client.connect();
+    try {
+      const quotedTable = this.table.split('.').map(part => `"${part}"`).join('.');
+      await client.query('BEGIN TRANSACTION READ ONLY');
+      const result = await client.query(`SELECT * FROM ${quotedTable} LIMIT $1`, [rowLimit(limit)]);
+      return result.rows;
+    } finally {
+      await client.query('ROLLBACK').catch(() => {});
+      await client.end();
+    }
+  }
+}
+
+export class AirtableInventorySource implements InventorySource {
+  readonly type: InventorySourceType = 'airtable';
+
+  constructor(private apiKey: string, private baseId: string, private table: string) {}
+
+  async fetchRows(limit: number = MAX_ROWS): Promise<InventoryRow[]> {
+    const maxRows = rowLimit(limit);
+    const rows: InventoryRow[] = [];
+    let offset: string | undefined;
+
+    do {
+      const response = await axios.get(
+        `https://api.airtable.com/v0/${this.baseId}/${encodeURIComponent(this.table)}`,
+        {
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+          params: { pageSize: Math.min(100, maxRows), offset },
+          timeout: 15000,
+        }
+      );
+      for (const record of response.data.records || []) {
+        rows.push({ id: record.id, ...record.fields });
+      }
+      offset = response.data.offset;
+    } while (offset && rows.length < maxRows);
+
+    return rows.slice(0, maxRows);
+  }
+}
+
+/**
+ * Google Sheets compartido como "cualquier persona con el enlace" (exportación CSV)
+ */
+export class GoogleSheetsInventorySource implements InventorySource {
+  readonly type: InventorySourceType = 'google_sheets';
+
+  constructor(private sheetId: string, private sheetName?: string) {}
+
+  async fetchRows(limit: number = MAX_ROWS): Promise<InventoryRow[]> {
+    const response = await axios.get(
+      `https://docs.google.com/spreadsheets/d/${this.sheetId}/gviz/tq`,
+      {
+        params: { tqx: 'out:csv', ...(this.sheetName ? { sheet: this.sheetName } : {}) },
+        responseType: 'text',
+        timeout: 15000,
+      }
+    );
+    return parseCsv(String(response.data)).slice(0, rowLimit(limit));
+  }
+}
+
+/**
+ * Resolver un archivo de datos local. Solo se leen archivos dentro de INVENTORY_DATA_DIR
+ * con la extensión esperada para que la ruta configurada no exponga otros archivos del servidor.
+ */
+export function resolveDataFile(filePath: string, extension: string, baseDir?: string): string {
+  const root = path.resolve(baseDir || process.env.INVENTORY_DATA_DIR || path.join(process.cwd(), 'data'));
+  const resolved = path.resolve(root, filePath);
+  if (!resolved.startsWith(root + path.sep) || path.extname(resolved).toLowerCase() !== extension) {
+    throw new Error(`Ruta de archivo no permitida: ${filePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Archivo CSV local (desarrollo y pruebas)
+ */
+export class CsvInventorySource implements InventorySource {
+  readonly type: InventorySourceType = 'csv';
+  private filePath: string;
+
+  constructor(filePath: string, baseDir?: string) {
+    this.filePath = resolveDataFile(filePath, '.csv', baseDir);
+  }
+
+  async fetchRows(limit: number = MAX_ROWS): Promise<InventoryRow[]> {
+    const content = await fs.promises.readFile(this.filePath, 'utf8');
+    return parseCsv(content).slice(0, rowLimit(limit));
+  }
+}
+
+/**
+ * Parser CSV mínimo con soporte de comillas, comas y saltos de línea dentro de campos
+ */
+export function parseCsv(content: string): InventoryRow[] {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(row => row.some(value => value.trim()));
+  if (!header) return [];
+
+  return rows.map(row => Object.fromEntries(header.map((column, i) => [column.trim(), row[i]?.trim() ?? ''])));
+}
+
+// Alias de columnas aceptados (se comparan sin acentos, mayúsculas ni separadores)
+const COLUMN_ALIASES: Record<string, string[]> = {
+  id: ['id', 'codigo', 'code', 'uid', 'ref', 'referencia', 'sku'],
+  title: ['title', 'titulo', 'nombre', 'name', 'propiedad'],
+  price: ['price', 'precio', 'valor', 'saleprice', 'precioventa', 'rentprice', 'precioalquiler', 'monto'],
+  currency: ['currency', 'moneda', 'divisa'],
+  operation: ['operation', 'operacion', 'tipooperacion', 'listingtype', 'ventaalquiler', 'modalidad'],
+  propertyType: ['type', 'tipo', 'propertytype', 'tipopropiedad', 'categoria', 'category'],
+  sector: ['sector', 'zona', 'barrio', 'neighborhood', 'ubicacion', 'location', 'residencial'],
+  city: ['city', 'ciudad', 'provincia', 'municipio'],
+  rooms: ['rooms', 'habitaciones', 'hab', 'bedrooms', 'recamaras', 'dormitorios'],
+  bathrooms: ['bathrooms', 'banos', 'bath', 'bano'],
+  area: ['area', 'm2', 'metros', 'superficie', 'metroscuadrados', 'size'],
+  parking: ['parking', 'parqueos', 'parqueo', 'estacionamientos', 'garage', 'parkinglot'],
+  imageUrl: ['image', 'imagen', 'foto', 'imageurl', 'photo', 'featuredimage'],
+  url: ['url', 'link', 'enlace', 'propertyurl'],
+  description: ['description', 'descripcion', 'detalle', 'detalles', 'notas'],
+};
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+}
+
+function pick(row: InventoryRow, field: string): any {
+  const aliases = COLUMN_ALIASES[field];
+  for (const key of Object.keys(row)) {
+    if (aliases.includes(normalizeKey(key))) {
+      const value = row[key];
+      if (value !== undefined && value !== null && value !== '') return value;
+    }
+  }
+  return null;
+}
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(String(value).replace(/[^0-9.,-]/g, '').replace(/,/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function toOperation(value: any): 'sale' | 'rent' | null {
+  if (!value) return null;
+  const text = normalizeKey(String(value));
+  if (/alquil|rent|renta|arriendo/.test(text)) return 'rent';
+  if (/venta|sale|compra|sell/.test(text)) return 'sale';
+  return null;
+}
+
+function currencyKey(currency: string): string {
+  return /RD|DOP|PESO/i.test(currency) ? 'DOP' : currency.toUpperCase();
+}
+
+function toCurrency(value: any, price: any): string | null {
+  const text = String(value || price || '').toUpperCase();
+  if (/US\$|USD|DOLAR/.test(text)) return 'USD';
+  if (/RD\$|DOP|PESO/.test(text)) return 'RD$';
+  return value ? String(value) : null;
+}
+
+export function normalizeInventoryRow(row: InventoryRow, index: number): Property {
+  const id = String(pick(row, 'id') ?? index + 1);
+  const sector = pick(row, 'sector');
+  const city = pick(row, 'city');
+  const rawPrice = pick(row, 'price');
+  const propertyType = pick(row, 'propertyType');
+  const label = [sector, city].filter(Boolean).join(', ');
+  const price = toNumber(rawPrice);
+  const currency = toCurrency(pick(row, 'currency'), rawPrice);
+  const imageUrl = pick(row, 'imageUrl');
+
+  return {
+    id,
+    slug: id,
+    title: String(pick(row, 'title') || [propertyType, label].filter(Boolean).join(' en ') || `Propiedad ${index + 1}`),
+    description: String(pick(row, 'description') || ''),
+    operation: toOperation(pick(row, 'operation')),
+    propertyType: propertyType ? String(propertyType) : null,
+    price,
+    currency,
+    priceLabel: formatPriceLabel(price, currency),
+    location: {
+      sector: sector ? String(sector) : null,
+      city: city ? String(city) : null,
+      address: null,
+      label,
+    },
+    specifications: {
+      rooms: toNumber(pick(row, 'rooms')),
+      bathrooms: toNumber(pick(row, 'bathrooms')),
+      area: toNumber(pick(row, 'area')),
+      parking: toNumber(pick(row, 'parking')),
+    },
+    amenities: [],
+    media: { featuredImage: imageUrl, images: imageUrl ? [imageUrl] : [], virtualTour: null },
+    agent: null,
+    url: pick(row, 'url'),
+    isProject: false,
+    raw: row,
+  };
+}
+
+// Sinónimos de tipo de propiedad (la búsqueda usa los nombres en inglés de la taxonomía)
+const PROPERTY_TYPE_SYNONYMS: string[][] = [
+  ['apartment', 'apartamento', 'apto', 'apartamentos'],
+  ['house', 'casa', 'casas'],
+  ['penthouse', 'ph'],
+  ['villa', 'villas'],
+  ['loft', 'lofts'],
+  ['townhouse', 'casaadosada'],
+  ['land', 'solar', 'terreno', 'lote'],
+  ['office', 'oficina'],
+  ['commercial', 'local', 'localcomercial', 'comercial'],
+];
+
+/**
+ * Términos equivalentes a un tipo de propiedad (en inglés o español)
+ */
+export function propertyTypeSynonyms(type: string): string[] {
+  const key = normalizeKey(type);
+  return PROPERTY_TYPE_SYNONYMS.find(group => group.includes(key)) || [key];
+}
+
+function typeMatches(wanted: string, actual: string): boolean {
+  const a = normalizeKey(wanted);
+  const b = normalizeKey(actual);
+  if (a.includes(b) || b.includes(a)) return true;
+  return PROPERTY_TYPE_SYNONYMS.some(group => group.includes(a) && group.some(synonym => b.includes(synonym)));
+}
+
+/**
+ * Filtrar propiedades según los criterios; los criterios ausentes o los datos faltantes no excluyen
+ */
+export function filterProperties(properties: Property[], criteria: PropertySearchCriteria): Property[] {
+  const text = (value: string | null) => normalizeKey(value || '');
+  const zones = [...(criteria.zones || []), ...(criteria.city ? [criteria.city] : [])].map(zone => normalizeKey(zone));
+
+  return properties.filter(property => {
+    const { rooms, bathrooms } = property.specifications;
+    if (criteria.operation && property.operation && property.operation !== criteria.operation) return false;
+    if (criteria.propertyType && property.propertyType && !typeMatches(criteria.propertyType, property.propertyType)) return false;
+    // Con monedas distintas no se compara el precio para no descartar por conversión
+    const sameCurrency = !criteria.currency || !property.currency || currencyKey(criteria.currency) === currencyKey(property.currency);
+    if (sameCurrency && criteria.budgetMax && property.price && property.price > criteria.budgetMax) return false;
+    if (sameCurrency && criteria.budgetMin && property.price && property.price < criteria.budgetMin) return false;
+    if (criteria.rooms && rooms !== null && rooms < criteria.rooms) return false;
+    if (criteria.bathrooms && bathrooms !== null && bathrooms < criteria.bathrooms) return false;
+    if (zones.length > 0 && !zones.some(zone => text(property.location.label).includes(zone) || text(property.title).includes(zone))) return false;
+    return true;
+  });
+}
+
+export class InventoryService {
+  private rowCache = new Map<string, { rows: Property[]; expires: number }>();
+
+  /**
+   * Construir el conector configurado en userSettings (databaseType)
+   */
+  createSource(settings: any): InventorySource | null {
+    switch (settings?.databaseType) {
+      case 'sql':
+        return settings.sqlConnectionString && settings.inventoryTable
+          ? new SqlInventorySource(settings.sqlConnectionString, settings.inventoryTable)
+          : null;
+      case 'airtable':
+        return settings.airtableApiKey && settings.airtableBaseId && settings.inventoryTable
+          ? new AirtableInventorySource(settings.airtableApiKey, settings.airtableBaseId, settings.inventoryTable)
+          : null;
+      case 'google_sheets':
+        return settings.googleSheetsId
+          ? new GoogleSheetsInventorySource(settings.googleSheetsId, settings.inventoryTable || undefined)
+          : null;
+      case 'csv':
+        return settings.inventoryTable ? new CsvInventorySource(settings.inventoryTable) : null;
+      default:
+        return null;
+    }
+  }
+
+  async getProperties(userId: string, settings: any, forceRefresh: boolean = false): Promise<Property[]> {
+    const source = this.createSource(settings);
+    if (!source) {
+      throw new Error('Inventario propio no configurado');
+    }
+
+    const cacheKey = `${userId}:${source.type}`;
+    const cached = this.rowCache.get(cacheKey);
+    if (!forceRefresh && cached && cached.expires > Date.now()) {
+      return cached.rows;
+    }
+
+    const rows = await source.fetchRows();
+    const properties = rows.map((row, index) => normalizeInventoryRow(row, index));
+    this.rowCache.set(cacheKey, { rows: properties, expires: Date.now() + CACHE_TTL_MS });
+    console.log(`🗄️ [INVENTORY] Loaded ${properties.length} listings from ${source.type} for user ${userId}`);
+    return properties;
+  }
+
+  /**
+   * Primeras filas del inventario, sin caché: para probar la conexión sin leerlo completo
+   */
+  async sampleProperties(settings: any, limit: number): Promise<Property[]> {
+    const source = this.createSource(settings);
+    if (!source) {
+      throw new Error('Inventario propio no configurado');
+    }
+    const rows = await source.fetchRows(limit);
+    return rows.map((row, index) => normalizeInventoryRow(row, index));
+  }
+
+  clearCache(userId: string): void {
+    for (const key of Array.from(this.rowCache.keys())) {
+      if (key.startsWith(`${userId}:`)) this.rowCache.delete(key);
+    }
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,274 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getUserLLMProvider, type LLMProvider } from './llmProvider';
+import { assertPublicUrl, publicOnlyLookup } from '../utils/publicUrl';
+
+const CHUNK_SIZE = 1000;      // caracteres por fragmento
+const CHUNK_OVERLAP = 150;    // solapamiento entre fragmentos consecutivos
+const EMBEDDING_BATCH_SIZE = 64;
+const MIN_SIMILARITY = 0.25;
+const MAX_SOURCE_BYTES = 5 * 1024 * 1024;
+
+interface IngestionResult {
+  processed: number;
+  skipped: number;
+  failed: number;
+  removed: number;
+}
+
+/**
+ * Base de conocimiento por usuario: ingesta trainingUrls / trainingDocs,
+ * los divide en fragmentos con embeddings y recupera los más relevantes para el prompt.
+ */
+export class KnowledgeBaseService {
+  private runningIngestions = new Map<string, Promise<IngestionResult>>();
+
+  /**
+   * Sincronizar las fuentes configuradas en userSettings con la base de conocimiento.
+   * Solo se recalculan las fuentes cuyo contenido, proveedor o modelo de embeddings cambió.
+   */
+  async ingestUserSources(userId: string): Promise<IngestionResult> {
+    const running = this.runningIngestions.get(userId);
+    if (running) {
+      return running;
+    }
+
+    const ingestion = this.runIngestion(userId).finally(() => this.runningIngestions.delete(userId));
+    this.runningIngestions.set(userId, ingestion);
+    return ingestion;
+  }
+
+  private async runIngestion(userId: string): Promise<IngestionResult> {
+    const { storage } = await import('../storage');
+    const settings = await storage.getUserSettings(userId);
+    const provider = await this.getProvider(userId);
+    const result: IngestionResult = { processed: 0, skipped: 0, failed: 0, removed: 0 };
+
+    const wanted = [
+      ...(settings?.trainingUrls || []).filter(url => url.trim()).map(url => ({
+        sourceType: 'url',
+        source: url.trim(),
+      })),
+      ...(settings?.trainingDocs || []).filter(doc => doc.trim()).map(doc => ({
+        sourceType: 'document',
+        source: `doc:${this.hash(doc).slice(0, 16)}`,
+        content: doc,
+      })),
+    ] as Array<{ sourceType: string; source: string; content?: string }>;
+
+    console.log(`📚 [KB] Ingesting ${wanted.length} sources for user ${userId}`);
+
+    // Eliminar fuentes que ya no están configuradas
+    const existing = await storage.getKnowledgeSources(userId);
+    for (const source of existing) {
+      if (!wanted.some(item => item.source === source.source)) {
+        await storage.deleteKnowledgeSource(source.id);
+        result.removed++;
+      }
+    }
+
+    for (const item of wanted) {
+      const previous = existing.find(source => source.source === item.source);
+      let sourceId = previous?.id;
+
+      try {
+        const content = item.content ?? await this.fetchUrlText(item.source);
+        const contentHash = this.hash(content);
+
+        if (previous?.status === 'READY' && previous.contentHash === contentHash && previous.embeddingProvider === provider.type && previous.embeddingModel === provider.embeddingModel) {
+          result.skipped++;
+          continue;
+        }
+
+        const source = await storage.upsertKnowledgeSource({
+          userId,
+          sourceType: item.sourceType,
+          source: item.source,
+          title: this.extractTitle(content, item.source),
+          status: 'PENDING',
+        });
+        sourceId = source.id;
+
+        const chunks = this.chunkText(content);
+        const embeddings = await this.embedAll(provider, chunks);
+
+        await storage.replaceKnowledgeChunks(source.id, chunks.map((chunk, index) => ({
+          sourceId: source.id,
+          userId,
+          chunkIndex: index,
+          content: chunk,
+          embedding: embeddings[index],
+        })));
+
+        await storage.updateKnowledgeSource(source.id, {
+          status: 'READY',
+          error: null,
+          contentHash,
+          embeddingProvider: provider.type,
+          embeddingModel: provider.embeddingModel,
+          chunkCount: chunks.length,
+          lastIngestedAt: new Date(),
+        });
+
+        console.log(`✅ [KB] ${item.source}: ${chunks.length} chunks`);
+        result.processed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ [KB] Failed to ingest ${item.source}:`, message);
+
+        if (sourceId) {
+          await storage.updateKnowledgeSource(sourceId, { status: 'ERROR', error: message });
+        } else {
+          await storage.upsertKnowledgeSource({
+            userId,
+            sourceType: item.sourceType,
+            source: item.source,
+            title: item.source,
+            status: 'ERROR',
+            error: message,
+          });
+        }
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Recuperar los fragmentos más parecidos a la consulta (similitud coseno)
+   */
+  async retrieveRelevantPassages(userId: string, query: string, limit: number = 4): Promise<string[]> {
+    const { storage } = await import('../storage');
+    const chunks = await storage.getKnowledgeChunks(userId);
+    if (chunks.length === 0 || !query.trim()) {
+      return [];
+    }
+
+    const provider = await this.getProvider(userId);
+    const [queryEmbedding] = await provider.embed([query]);
+
+    return chunks
+      .filter(chunk => chunk.embedding.length === queryEmbedding.length)
+      .map(chunk => ({ content: chunk.content, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .filter(match => match.score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(match => match.content);
+  }
+
+  /**
+   * Dividir texto en fragmentos respetando párrafos cuando es posible
+   */
+  chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+    const normalized = text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    if (!normalized) return [];
+
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < normalized.length) {
+      let end = Math.min(start + size, normalized.length);
+
+      // Cortar en el último salto de párrafo u oración dentro del fragmento
+      if (end < normalized.length) {
+        const window = normalized.slice(start, end);
+        const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+        if (breakAt > size / 2) {
+          end = start + breakAt + 1;
+        }
+      }
+
+      chunks.push(normalized.slice(start, end).trim());
+      if (end >= normalized.length) break;
+      // El siguiente fragmento repite el final del anterior, empezando en una palabra completa
+      const overlapStart = Math.max(end - overlap, start + 1);
+      const wordStart = normalized.slice(overlapStart, end).search(/\s/);
+      start = wordStart === -1 ? overlapStart : overlapStart + wordStart + 1;
+    }
+
+    return chunks.filter(Boolean);
+  }
+
+  /**
+   * Convertir HTML en texto plano legible
+   */
+  htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style|noscript|svg|nav|footer|header)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr|section|article)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n\s*\n\s*/g, '\n\n')
+      .trim();
+  }
+
+  private async fetchUrlText(url: string): Promise<string> {
+    assertPublicUrl(url);
+    const response = await axios.get(url, {
+      timeout: 15000,
+      responseType: 'text',
+      maxContentLength: MAX_SOURCE_BYTES,
+      // Sin redirecciones: cada salto tendría que volver a validarse contra direcciones internas
+      maxRedirects: 0,
+      validateStatus: status => status >= 200 && status < 400,
+      lookup: publicOnlyLookup,
+      headers: { 'User-Agent': 'RealEstateAI-KnowledgeBase/1.0' },
+    });
+
+    if (response.status >= 300) {
+      throw new Error(`La URL redirige a ${response.headers.location || 'otra dirección'}; configure la dirección final`);
+    }
+
+    const contentType = String(response.headers['content-type'] || '');
+    const body = String(response.data || '');
+    const text = contentType.includes('html') || /<html|<body/i.test(body) ? this.htmlToText(body) : body;
+
+    if (!text.trim()) {
+      throw new Error('La URL no contiene texto');
+    }
+    return text;
+  }
+
+  private async embedAll(provider: LLMProvider, chunks: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      embeddings.push(...await provider.embed(chunks.slice(i, i + EMBEDDING_BATCH_SIZE)));
+    }
+    return embeddings;
+  }
+
+  private async getProvider(userId: string): Promise<LLMProvider> {
+    return await getUserLLMProvider(userId);
+  }
+
+  private extractTitle(content: string, fallback: string): string {
+    const firstLine = content.split('\n').map(line => line.trim()).find(Boolean) || fallback;
+    return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+  }
+
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
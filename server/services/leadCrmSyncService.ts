@@ -0,0 +1,326 @@
+import type { InsertLeadStage, Lead, LeadActivity, LeadStage, LeadSyncLog } from '@shared/schema';
+import { storage } from '../storage';
+import { alterEstateService, type AlterEstateLead, type AlterEstateLeadNote } from './alterEstateService';
+import { leadPipelineService } from './leadPipelineService';
+
+const DEFAULT_SYNC_MINUTES = 15;
+const SYNC_BATCH_SIZE = 100;
+
+export interface CrmSyncState {
+  status: string | null; // Estado en AlterEstate (new, contacted... won, lost)
+  agentEmail: string | null;
+}
+
+export type CrmSyncField = keyof CrmSyncState;
+
+export interface CrmSyncSide {
+  values: CrmSyncState;
+  changedAt: Partial<Record<CrmSyncField, Date | null>>;
+}
+
+export interface CrmSyncChange {
+  field: CrmSyncField | 'note';
+  direction: 'push' | 'pull';
+  from: string | null;
+  to: string | null;
+}
+
+export interface CrmSyncConflict {
+  field: CrmSyncField;
+  local: string | null;
+  remote: string | null;
+  winner: 'local' | 'crm';
+}
+
+export interface CrmReconciliation {
+  push: Partial<CrmSyncState>;
+  pull: Partial<CrmSyncState>;
+  conflicts: CrmSyncConflict[];
+  state: CrmSyncState;
+}
+
+// Estados de AlterEstate de las etapas predeterminadas; las etapas propias usan su clave
+const CRM_STATUS_BY_STAGE: Record<string, string> = {
+  NEW: 'new',
+  CONTACTED: 'contacted',
+  QUALIFIED: 'qualified',
+  VISIT_SCHEDULED: 'visit_scheduled',
+  OFFER: 'negotiation',
+};
+
+export function stageToCrmStatus(stage: Pick<InsertLeadStage, 'key' | 'type'>): string {
+  if (stage.type === 'WON') return 'won';
+  if (stage.type === 'LOST') return 'lost';
+  return CRM_STATUS_BY_STAGE[stage.key] || stage.key.toLowerCase();
+}
+
+// Primera etapa (en orden del pipeline) que corresponde al estado de AlterEstate
+export function stageFromCrmStatus<T extends Pick<InsertLeadStage, 'key' | 'type'>>(stages: T[], status: string): T | undefined {
+  const normalized = status.trim().toLowerCase();
+  return stages.find(stage => stageToCrmStatus(stage) === normalized);
+}
+
+/**
+ * Reconciliación a tres bandas contra lo que quedó en la última sincronización (base): lo que solo
+ * cambió de un lado se copia al otro. Si cambió en ambos gana el cambio más reciente y, si no se
+ * puede saber, AlterEstate, donde trabajan los agentes. Sin base (primera sincronización) un
+ * valor vacío de un lado no es un conflicto: se completa con el del otro
+ */
+export function reconcileCrmFields(base: CrmSyncState | null, local: CrmSyncSide, remote: CrmSyncSide): CrmReconciliation {
+  const result: CrmReconciliation = { push: {}, pull: {}, conflicts: [], state: { status: null, agentEmail: null } };
+
+  for (const field of ['status', 'agentEmail'] as const) {
+    const localValue = local.values[field];
+    const remoteValue = remote.values[field];
+    if (localValue === remoteValue) {
+      result.state[field] = localValue;
+      continue;
+    }
+
+    const localChanged = !base || localValue !== base[field];
+    const remoteChanged = !base || remoteValue !== base[field];
+    let winner: 'local' | 'crm';
+    if (!base && (localValue === null || remoteValue === null)) {
+      winner = localValue === null ? 'crm' : 'local';
+    } else if (localChanged && remoteChanged) {
+      const localAt = local.changedAt[field]?.getTime();
+      const remoteAt = remote.changedAt[field]?.getTime();
+      winner = localAt !== undefined && remoteAt !== undefined && localAt > remoteAt ? 'local' : 'crm';
+      if (base) {
+        result.conflicts.push({ field, local: localValue, remote: remoteValue, winner });
+      }
+    } else {
+      winner = localChanged ? 'local' : 'crm';
+    }
+
+    if (winner === 'local') {
+      result.push[field] = localValue;
+      result.state[field] = localValue;
+    } else {
+      result.pull[field] = remoteValue;
+      result.state[field] = remoteValue;
+    }
+  }
+  return result;
+}
+
+/**
+ * Las notas solo se agregan: las locales sin id de AlterEstate se suben y las de AlterEstate que no
+ * están enlazadas a una nota local se traen
+ */
+export function planNoteSync<L extends Pick<LeadActivity, 'metadata'>, R extends Pick<AlterEstateLeadNote, 'id'>>(localNotes: L[], remoteNotes: R[]) {
+  const linked = new Set(localNotes.map(note => (note.metadata as { crmNoteId?: string } | null)?.crmNoteId).filter(Boolean));
+  return {
+    toPush: localNotes.filter(note => !(note.metadata as { crmNoteId?: string } | null)?.crmNoteId),
+    toPull: remoteNotes.filter(note => !linked.has(String(note.id))),
+  };
+}
+
+/**
+ * Sincronización bidireccional de los prospectos enlazados a AlterEstate: etapa, agente asignado
+ * y notas. Cada pasada que cambia algo, encuentra un conflicto o falla queda en lead_sync_logs
+ */
+export class LeadCrmSyncService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private intervalMs = DEFAULT_SYNC_MINUTES * 60 * 1000;
+
+  /**
+   * Sincronización periódica (LEAD_CRM_SYNC_MINUTES, 0 la desactiva)
+   */
+  start(): void {
+    const minutes = Number(process.env.LEAD_CRM_SYNC_MINUTES ?? DEFAULT_SYNC_MINUTES);
+    if (!minutes || this.timer) return;
+
+    this.intervalMs = minutes * 60 * 1000;
+    console.log(`🔄 [CRM-SYNC] Syncing leads with AlterEstate every ${minutes} minutes`);
+    this.timer = setInterval(() => this.syncAll(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async syncAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const leads = await storage.getLeadsToSyncWithCrm(new Date(Date.now() - this.intervalMs), SYNC_BATCH_SIZE);
+      const stagesByUser = new Map<string, LeadStage[]>();
+      let changed = 0;
+
+      for (const lead of leads) {
+        try {
+          if (!stagesByUser.has(lead.userId)) {
+            stagesByUser.set(lead.userId, await leadPipelineService.getStages(lead.userId));
+          }
+          const log = await this.syncLead(lead, stagesByUser.get(lead.userId)!);
+          if (log) changed++;
+        } catch (error) {
+          console.error(`❌ [CRM-SYNC] Error syncing lead ${lead.id}:`, (error as Error).message);
+        }
+      }
+      if (changed > 0) {
+        console.log(`🔄 [CRM-SYNC] Synced ${leads.length} leads, ${changed} with changes`);
+      }
+    } catch (error) {
+      console.error('❌ [CRM-SYNC] Error loading leads to sync:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Sincronizar ahora un prospecto de la cuenta (botón del panel del prospecto)
+   */
+  async syncNow(userId: string, leadId: string): Promise<LeadSyncLog | null> {
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.userId !== userId) {
+      throw new Error('Prospecto no encontrado');
+    }
+    if (!lead.alterEstateLeadId) {
+      throw new Error('El prospecto no está enlazado a AlterEstate');
+    }
+    return await this.syncLead(lead, await leadPipelineService.getStages(userId));
+  }
+
+  async getSyncLog(userId: string, leadId: string): Promise<{ crmSyncedAt: Date | null; logs: LeadSyncLog[] }> {
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.userId !== userId) {
+      throw new Error('Prospecto no encontrado');
+    }
+    return { crmSyncedAt: lead.crmSyncedAt, logs: await storage.getLeadSyncLogs(lead.id, 50) };
+  }
+
+  /**
+   * Una pasada de sincronización. Devuelve la entrada del registro, o null si no había nada que cambiar
+   */
+  async syncLead(lead: Lead, stages: LeadStage[]): Promise<LeadSyncLog | null> {
+    const changes: CrmSyncChange[] = [];
+    try {
+      const settings = await storage.getUserSettings(lead.userId);
+      const apiKey = settings?.alterEstateApiKey;
+      if (!apiKey) {
+        throw new Error('Falta la API key de AlterEstate');
+      }
+
+      const crmLeadId = lead.alterEstateLeadId!;
+      const remote = await alterEstateService.getLead(apiKey, crmLeadId);
+      if (!remote) {
+        // Eliminado en AlterEstate: se desenlaza para no reintentarlo en cada pasada
+        await storage.updateLead(lead.id, { alterEstateLeadId: null, crmSyncState: null, crmSyncedAt: new Date() });
+        return await this.log(lead, 'ERROR', changes, [], `El lead ${crmLeadId} ya no existe en AlterEstate; se desenlazó`);
+      }
+
+      const remoteValues: CrmSyncState = { status: remote.status?.trim().toLowerCase() || null, agentEmail: remote.agent_email?.toLowerCase() || null };
+      // Un estado local que ya no es una etapa no se sube
+      const stage = stages.find(candidate => candidate.key === lead.status);
+      const localValues: CrmSyncState = { status: stage ? stageToCrmStatus(stage) : remoteValues.status, agentEmail: lead.assignedAgentEmail?.toLowerCase() || null };
+      const remoteAt = new Date(remote.modified);
+      const reconciliation = reconcileCrmFields(
+        lead.crmSyncState as CrmSyncState | null,
+        { values: localValues, changedAt: { status: lead.stageChangedAt, agentEmail: lead.assignedAt } },
+        { values: remoteValues, changedAt: { status: remoteAt, agentEmail: remoteAt } }
+      );
+
+      if (Object.keys(reconciliation.push).length > 0) {
+        await alterEstateService.updateLead(apiKey, crmLeadId, {
+          status: reconciliation.push.status ?? undefined,
+          agent_email: reconciliation.push.agentEmail,
+          lost_reason: reconciliation.push.status === 'lost' ? lead.lostReason : undefined,
+        });
+        for (const [field, value] of Object.entries(reconciliation.push) as [CrmSyncField, string | null][]) {
+          changes.push({ field, direction: 'push', from: remoteValues[field], to: value });
+        }
+      }
+
+      const state = reconciliation.state;
+      if (reconciliation.pull.status) {
+        const pulled = await this.pullStatus(lead, stages, remote, reconciliation.pull.status);
+        if (pulled) {
+          changes.push(pulled);
+        } else {
+          // Estado sin etapa equivalente: se deja la base como estaba para no pisarlo con el local
+          state.status = (lead.crmSyncState as CrmSyncState | null)?.status ?? null;
+        }
+      }
+      if (reconciliation.pull.agentEmail !== undefined) {
+        await storage.updateLead(lead.id, { assignedAgentEmail: reconciliation.pull.agentEmail, assignedAt: new Date() });
+        changes.push({ field: 'agentEmail', direction: 'pull', from: lead.assignedAgentEmail, to: reconciliation.pull.agentEmail });
+      }
+
+      changes.push(...await this.syncNotes(lead, apiKey, crmLeadId));
+
+      await storage.updateLead(lead.id, { crmSyncState: state, crmSyncedAt: new Date() });
+      if (changes.length === 0 && reconciliation.conflicts.length === 0) {
+        return null;
+      }
+      console.log(`🔄 [CRM-SYNC] Lead ${lead.id}: ${changes.length} change(s), ${reconciliation.conflicts.length} conflict(s)`);
+      return await this.log(lead, reconciliation.conflicts.length > 0 ? 'CONFLICT' : 'SYNCED', changes, reconciliation.conflicts);
+    } catch (error) {
+      await storage.updateLead(lead.id, { crmSyncedAt: new Date() });
+      // Mientras AlterEstate siga fallando igual no se repite la entrada en cada pasada
+      const [last] = await storage.getLeadSyncLogs(lead.id, 1);
+      if (changes.length > 0 || last?.status !== 'ERROR' || last.error !== (error as Error).message) {
+        await this.log(lead, 'ERROR', changes, [], (error as Error).message);
+      }
+      throw error;
+    }
+  }
+
+  private async pullStatus(lead: Lead, stages: LeadStage[], remote: AlterEstateLead, status: string): Promise<CrmSyncChange | null> {
+    const stage = stageFromCrmStatus(stages, status);
+    if (!stage) {
+      console.log(`⚠️ [CRM-SYNC] AlterEstate status "${status}" of lead ${lead.id} has no matching stage`);
+      return null;
+    }
+
+    const lostReason = stage.type === 'LOST' ? remote.lost_reason?.trim() || 'Marcado como perdido en AlterEstate' : null;
+    await storage.updateLead(lead.id, { status: stage.key, lostReason, stageChangedAt: new Date() });
+    await storage.createLeadActivity({
+      leadId: lead.id,
+      userId: lead.userId,
+      actorId: null,
+      type: 'STAGE_CHANGE',
+      metadata: { from: lead.status, to: stage.key, ...(lostReason ? { lostReason } : {}), source: 'crm' },
+    });
+    return { field: 'status', direction: 'pull', from: lead.status, to: stage.key };
+  }
+
+  private async syncNotes(lead: Lead, apiKey: string, crmLeadId: string): Promise<CrmSyncChange[]> {
+    const [activities, remoteNotes] = await Promise.all([
+      storage.getLeadActivities(lead.id),
+      alterEstateService.getLeadNotes(apiKey, crmLeadId),
+    ]);
+    const { toPush, toPull } = planNoteSync(activities.filter(activity => activity.type === 'NOTE'), remoteNotes);
+    const changes: CrmSyncChange[] = [];
+
+    for (const note of toPush) {
+      const created = await alterEstateService.addLeadNote(apiKey, crmLeadId, note.content || '');
+      await storage.updateLeadActivity(note.id, { metadata: { ...(note.metadata as object || {}), crmNoteId: String(created.id) } });
+      changes.push({ field: 'note', direction: 'push', from: null, to: note.content });
+    }
+    for (const note of toPull) {
+      await storage.createLeadActivity({
+        leadId: lead.id,
+        userId: lead.userId,
+        actorId: null,
+        type: 'NOTE',
+        content: note.content,
+        metadata: { crmNoteId: String(note.id), crmAuthor: note.author || null, crmCreatedAt: note.created },
+      });
+      changes.push({ field: 'note', direction: 'pull', from: null, to: note.content });
+    }
+    return changes;
+  }
+
+  private async log(lead: Lead, status: 'SYNCED' | 'CONFLICT' | 'ERROR', changes: CrmSyncChange[], conflicts: CrmSyncConflict[], error?: string): Promise<LeadSyncLog> {
+    return await storage.createLeadSyncLog({ leadId: lead.id, userId: lead.userId, status, changes, conflicts, error: error ?? null });
+  }
+}
+
+export const leadCrmSyncService = new LeadCrmSyncService();
@@ -0,0 +1,172 @@
+import type { InsertLead, Lead } from '@shared/schema';
+import { storage } from '../storage';
+import { normalizePhone } from '../utils/phone';
+import { isPlaceholderName } from './leadEnrichmentService';
+import { leadScoringService, type LeadQualification } from './leadScoringService';
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateGroup {
+  reasons: DuplicateReason[];
+  leads: Lead[];
+}
+
+// Campos que el principal hereda de los duplicados cuando no los tiene
+const INHERITED_FIELDS = ['email', 'conversationId', 'alterEstateLeadId', 'assignedAgentEmail', 'budget', 'budgetCurrency', 'preferredLocation', 'listingType'] as const;
+
+// createLeadFromConversation registraba "<teléfono>@whatsapp.com" como correo provisional
+function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && normalized.includes('@') && !normalized.endsWith('@whatsapp.com') ? normalized : null;
+}
+
+/**
+ * Nombre comparable: sin acentos, minúsculas y espacios simples. Un solo nombre ("Juan") o uno
+ * provisional no sirven para detectar duplicados
+ */
+export function normalizeName(name: string | null | undefined): string | null {
+  if (!name || isPlaceholderName(name)) return null;
+  const normalized = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return normalized.split(' ').length >= 2 ? normalized : null;
+}
+
+function duplicateKeys(lead: Lead): Record<DuplicateReason, string | null> {
+  return {
+    phone: lead.normalizedPhone || normalizePhone(lead.phone),
+    email: normalizeEmail(lead.email),
+    name: normalizeName(lead.fullName),
+  };
+}
+
+/**
+ * Agrupar prospectos que comparten teléfono (E.164), correo o nombre completo. Los grupos son
+ * transitivos: si A comparte teléfono con B y B correo con C, los tres van juntos
+ */
+export function findDuplicateGroups(leads: Lead[]): DuplicateGroup[] {
+  const parent = leads.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const firstByKey = new Map<string, number>();
+
+  leads.forEach((lead, index) => {
+    for (const [type, value] of Object.entries(duplicateKeys(lead))) {
+      if (!value) continue;
+      const first = firstByKey.get(`${type}:${value}`);
+      if (first === undefined) {
+        firstByKey.set(`${type}:${value}`, index);
+      } else {
+        parent[find(index)] = find(first);
+      }
+    }
+  });
+
+  const groups = new Map<number, Lead[]>();
+  leads.forEach((lead, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), lead]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => ({
+      // Motivos: los datos que al menos dos prospectos del grupo tienen en común
+      reasons: (['phone', 'email', 'name'] as const).filter(type => {
+        const values = group.map(lead => duplicateKeys(lead)[type]).filter(Boolean);
+        return new Set(values).size < values.length;
+      }),
+      leads: group,
+    }));
+}
+
+/**
+ * Datos del prospecto combinado. Se conservan la etapa y los datos del principal; lo que le falta
+ * se toma del duplicado más reciente que lo tenga, los intereses se fusionan y la calificación
+ * que se queda es la más completa
+ */
+export function mergeLeadFields(primary: Lead, duplicates: Lead[]): Partial<InsertLead> {
+  const newestFirst = [...duplicates].sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  const updates: Partial<InsertLead> = {};
+
+  for (const field of INHERITED_FIELDS) {
+    if (primary[field] !== null && primary[field] !== undefined) continue;
+    const source = newestFirst.find(lead => lead[field] !== null && lead[field] !== undefined);
+    if (source) (updates as any)[field] = source[field];
+  }
+
+  if (isPlaceholderName(primary.fullName, primary.phone)) {
+    const named = newestFirst.find(lead => !isPlaceholderName(lead.fullName, lead.phone));
+    if (named) updates.fullName = named.fullName;
+  }
+
+  const interests = [...newestFirst].reverse().concat(primary).map(lead => (lead.interests || {}) as Record<string, any>);
+  const propertyUids = Array.from(new Set(interests.flatMap(item => item.propertyUids || [])));
+  if (duplicates.some(lead => lead.interests)) {
+    updates.interests = { ...Object.assign({}, ...interests), ...(propertyUids.length ? { propertyUids } : {}) };
+  }
+
+  const steps = (lead: Lead) => (lead.qualification as LeadQualification | null)?.completedSteps.length || 0;
+  const bestQualified = newestFirst.find(lead => steps(lead) > steps(primary));
+  if (bestQualified) updates.qualification = bestQualified.qualification as LeadQualification;
+
+  return updates;
+}
+
+/**
+ * Detección y combinación de prospectos duplicados de una cuenta
+ */
+export class LeadDuplicateService {
+  async getDuplicates(userId: string): Promise<DuplicateGroup[]> {
+    const leads = await storage.getUserLeads(userId);
+
+    // Registros anteriores a normalized_phone
+    for (const lead of leads.filter(candidate => !candidate.normalizedPhone && normalizePhone(candidate.phone))) {
+      lead.normalizedPhone = (await storage.updateLead(lead.id, { phone: lead.phone }))?.normalizedPhone ?? null;
+    }
+    return findDuplicateGroups(leads);
+  }
+
+  /**
+   * Combinar duplicados en el principal: su historial pasa al principal, el principal hereda el
+   * id del CRM si no tenía y los duplicados se eliminan
+   */
+  async mergeLeads(userId: string, primaryId: string, duplicateIds: string[], actorId: string | null): Promise<Lead> {
+    const ids = Array.from(new Set(duplicateIds)).filter(id => id !== primaryId);
+    if (ids.length === 0) {
+      throw new Error('Selecciona al menos un prospecto para combinar');
+    }
+
+    const leads = await Promise.all([primaryId, ...ids].map(id => storage.getLead(id)));
+    if (leads.some(lead => !lead || lead.userId !== userId)) {
+      throw new Error('Prospecto no encontrado');
+    }
+    const [primary, ...duplicates] = leads as Lead[];
+
+    const merged = await storage.mergeLeads(primary.id, ids, mergeLeadFields(primary, duplicates));
+    if (!merged) {
+      throw new Error('Prospecto no encontrado');
+    }
+
+    await storage.createLeadActivity({
+      leadId: merged.id,
+      userId,
+      actorId,
+      type: 'MERGE',
+      metadata: {
+        mergedLeads: duplicates.map(lead => ({ id: lead.id, fullName: lead.fullName, phone: lead.phone, alterEstateLeadId: lead.alterEstateLeadId })),
+      },
+    });
+    console.log(`🔗 [LEADS] Merged ${ids.length} duplicate(s) into lead ${merged.id}`);
+
+    return await leadScoringService.scoreLead(merged).catch(error => {
+      console.error(`❌ [LEADS] Error rescoring merged lead ${merged.id}:`, error);
+      return merged;
+    });
+  }
+}
+
+export const leadDuplicateService = new LeadDuplicateService();
@@ -0,0 +1,209 @@
+import type { Conversation, InsertLead, Lead, LeadFieldChange } from '@shared/schema';
+import type { ClientQualification } from './aiService';
+import { storage } from '../storage';
+import { leadScoringService } from './leadScoringService';
+import { qualificationToSearchCriteria } from './savedSearchService';
+
+// Nombres con los que se crea un prospecto antes de conocer al cliente; la IA puede reemplazarlos
+const PLACEHOLDER_NAMES = ['cliente whatsapp', 'cliente'];
+
+type LeadFieldSource = 'ai' | 'assistant';
+
+export interface LeadFields {
+  fullName?: string;
+  budget?: number;
+  budgetCurrency?: string;
+  preferredLocation?: string;
+  listingType?: 'sale' | 'rent';
+  interests?: Record<string, unknown>;
+}
+
+export interface PlannedFieldChange {
+  field: string;
+  previousValue: any;
+  newValue: any;
+}
+
+// Los modelos a veces devuelven "null" o "" en lugar de null
+function clean(value: any): any {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed && !/^(null|undefined|n\/a)$/i.test(trimmed) ? trimmed : undefined;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(clean).filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  return value;
+}
+
+function compact(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, clean(value)]).filter(([, value]) => value !== undefined));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Convertir los criterios extraídos por assessClientQualification en campos del prospecto.
+ * Lo que no tiene columna propia (habitaciones, urgencia, amenidades...) va en interests
+ */
+export function qualificationToLeadFields(extracted: any): LeadFields {
+  const criteria = qualificationToSearchCriteria(extracted);
+  const zones: string[] = clean(extracted?.zones || extracted?.location?.zones) || [];
+  const anyZone = zones.some(zone => /cualquier|toda|no importa/i.test(zone));
+  const name = clean(extracted?.personalInfo?.name);
+
+  return compact({
+    fullName: typeof name === 'string' ? name : undefined,
+    budget: criteria.budgetMax ?? criteria.budgetMin,
+    // Código ISO para que el panel pueda formatear el monto
+    budgetCurrency: criteria.currency === 'RD$' ? 'DOP' : criteria.currency,
+    preferredLocation: criteria.zones?.join(', ') || (anyZone ? 'Cualquier zona' : undefined),
+    listingType: criteria.operation,
+    interests: compact({
+      propertyType: criteria.propertyType,
+      purpose: extracted?.searchObjective?.purpose,
+      urgency: extracted?.searchObjective?.urgency,
+      budgetMin: criteria.budgetMin,
+      budgetMax: criteria.budgetMax,
+      paymentMethod: extracted?.budget?.paymentMethod,
+      rooms: criteria.rooms,
+      bathrooms: criteria.bathrooms,
+      areaMin: extracted?.area_min ?? extracted?.specifications?.area_min,
+      areaMax: extracted?.area_max ?? extracted?.specifications?.area_max,
+      parking: extracted?.parking ?? extracted?.specifications?.parking,
+      amenities: extracted?.amenities?.priority,
+      familySituation: extracted?.personalInfo?.familySituation,
+      availability: extracted?.contact?.availability,
+      timeline: extracted?.contact?.timeline,
+    }),
+  }) as LeadFields;
+}
+
+export function isPlaceholderName(name: string | null | undefined, phone?: string): boolean {
+  const normalized = (name || '').trim().toLowerCase();
+  return !normalized || PLACEHOLDER_NAMES.includes(normalized) || (!!phone && normalized.replace(/\D/g, '') === phone.replace(/\D/g, ''));
+}
+
+/**
+ * Qué cambia en el prospecto con los campos nuevos. Nunca se borra un dato que el cliente ya dio
+ * (lo que falta en la extracción se conserva), el nombre solo se completa si era provisional y
+ * interests se fusiona clave por clave para no perder notas ni propiedades de interés.
+ */
+export function planLeadEnrichment(lead: Lead | undefined, fields: LeadFields): { updates: Partial<InsertLead>; changes: PlannedFieldChange[] } {
+  const updates: Partial<InsertLead> = {};
+  const changes: PlannedFieldChange[] = [];
+
+  if (fields.fullName && isPlaceholderName(lead?.fullName, lead?.phone) && !sameValue(lead?.fullName, fields.fullName)) {
+    updates.fullName = fields.fullName;
+    changes.push({ field: 'fullName', previousValue: lead?.fullName ?? null, newValue: fields.fullName });
+  }
+
+  for (const field of ['budget', 'budgetCurrency', 'preferredLocation', 'listingType'] as const) {
+    const value = fields[field];
+    if (value === undefined || sameValue(lead?.[field], value)) continue;
+    (updates as any)[field] = value;
+    changes.push({ field, previousValue: lead?.[field] ?? null, newValue: value });
+  }
+
+  const currentInterests = (lead?.interests || {}) as Record<string, unknown>;
+  const interestChanges = Object.entries(fields.interests || {}).filter(([key, value]) => !sameValue(currentInterests[key], value));
+  if (interestChanges.length > 0) {
+    updates.interests = { ...currentInterests, ...Object.fromEntries(interestChanges) };
+    for (const [key, value] of interestChanges) {
+      changes.push({ field: `interests.${key}`, previousValue: currentInterests[key] ?? null, newValue: value });
+    }
+  }
+
+  return { updates, changes };
+}
+
+/**
+ * Prospectos que se crean y completan solos a medida que avanza la calificación del cliente,
+ * guardando por cada campo qué infirió la IA y de qué mensaje
+ */
+export class LeadEnrichmentService {
+  private inFlight = new Set<string>();
+
+  /**
+   * Evaluar la conversación y volcar el resultado en su prospecto. Si ya hay una evaluación
+   * en curso para la conversación se omite: la siguiente respuesta volverá a evaluarla completa.
+   * Si el turno ya evaluó la calificación (p. ej. una búsqueda sin resultados) se reutiliza
+   */
+  async enrichFromConversation(conversationId: string, message: string, turnQualification?: Promise<ClientQualification>): Promise<Lead | null> {
+    if (this.inFlight.has(conversationId)) return null;
+    this.inFlight.add(conversationId);
+
+    try {
+      const conversation = await storage.getConversationById(conversationId);
+      if (!conversation) return null;
+
+      const { aiService } = await import('./aiService');
+      const qualification = await (turnQualification ?? aiService.assessClientQualification(message, conversationId));
+      const lead = await this.applyFields(conversation, qualificationToLeadFields(qualification.extractedCriteria), { source: 'ai' });
+      return lead && await leadScoringService.recordQualification(lead, qualification);
+    } finally {
+      this.inFlight.delete(conversationId);
+    }
+  }
+
+  /**
+   * Aplicar campos al prospecto de la conversación (creándolo si hace falta) y registrar el historial.
+   * Un saludo con solo el nombre no crea prospecto: hace falta al menos un dato de lo que busca
+   */
+  async applyFields(conversation: Conversation, fields: LeadFields, options: { source: LeadFieldSource; messageId?: string }): Promise<Lead | null> {
+    // El mismo cliente desde otra conversación (u otro número de la cuenta) no crea un duplicado
+    const lead = await storage.getLeadByConversation(conversation.id)
+      ?? await storage.findLeadByPhone(conversation.userId, conversation.clientPhone);
+    const { updates, changes } = planLeadEnrichment(lead, fields);
+    if (changes.length === 0) return lead || null;
+    if (!lead && changes.every(change => change.field === 'fullName')) return null;
+    if (lead && !lead.conversationId) {
+      updates.conversationId = conversation.id;
+    }
+
+    const saved = lead
+      ? await storage.updateLead(lead.id, updates)
+      : await storage.createLead({
+        userId: conversation.userId,
+        conversationId: conversation.id,
+        fullName: conversation.clientName || 'Cliente WhatsApp',
+        phone: conversation.clientPhone,
+        ...updates,
+      });
+    if (!saved) return null;
+
+    const messageId = options.messageId ?? await this.getLastClientMessageId(conversation.id);
+    await storage.createLeadFieldChanges(changes.map(change => ({
+      leadId: saved.id,
+      userId: saved.userId,
+      field: change.field,
+      previousValue: change.previousValue,
+      newValue: change.newValue,
+      source: options.source,
+      messageId,
+    })));
+
+    console.log(`🧩 [LEADS] ${lead ? 'Updated' : 'Created'} lead ${saved.id} from conversation ${conversation.id}: ${changes.map(change => change.field).join(', ')}`);
+    return saved;
+  }
+
+  async getFieldHistory(userId: string, leadId: string): Promise<(LeadFieldChange & { messageContent: string | null })[]> {
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.userId !== userId) {
+      throw new Error('Prospecto no encontrado');
+    }
+    return await storage.getLeadFieldChanges(lead.id);
+  }
+
+  // El mensaje del cliente más reciente es el que disparó la evaluación
+  private async getLastClientMessageId(conversationId: string): Promise<string | null> {
+    const messages = await storage.getConversationMessages(conversationId);
+    return [...messages].reverse().find(message => !message.fromMe)?.id ?? null;
+  }
+}
+
+export const leadEnrichmentService = new LeadEnrichmentService();
@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import type { Appointment, InsertLeadStage, Lead, LeadActivity, LeadStage, Message } from '@shared/schema';
+import { storage } from '../storage';
+
+export const STAGE_TYPES = ['OPEN', 'WON', 'LOST'] as const;
+export const STAGE_COLORS = ['blue', 'yellow', 'purple', 'indigo', 'orange', 'green', 'red', 'gray'] as const;
+
+const MAX_TIMELINE_MESSAGES = 30;
+
+type StageDefinition = Pick<InsertLeadStage, 'key' | 'name' | 'type' | 'color'>;
+
+export const DEFAULT_LEAD_STAGES: StageDefinition[] = [
+  { key: 'NEW', name: 'Nuevo', type: 'OPEN', color: 'blue' },
+  { key: 'CONTACTED', name: 'Contactado', type: 'OPEN', color: 'yellow' },
+  { key: 'QUALIFIED', name: 'Calificado', type: 'OPEN', color: 'purple' },
+  { key: 'VISIT_SCHEDULED', name: 'Visita agendada', type: 'OPEN', color: 'indigo' },
+  { key: 'OFFER', name: 'Oferta', type: 'OPEN', color: 'orange' },
+  { key: 'WON', name: 'Ganado', type: 'WON', color: 'green' },
+  { key: 'LOST', name: 'Perdido', type: 'LOST', color: 'red' },
+];
+
+export const stagesInputSchema = z.array(z.object({
+  key: z.string().trim().max(40).optional(), // Sin clave es una etapa nueva
+  name: z.string().trim().min(1, 'Cada etapa necesita un nombre').max(60),
+  type: z.enum(STAGE_TYPES).default('OPEN'),
+  color: z.enum(STAGE_COLORS).default('gray'),
+})).min(2, 'El pipeline necesita al menos dos etapas').max(15);
+
+export type StagesInput = z.infer<typeof stagesInputSchema>;
+
+export interface LeadTimelineEntry {
+  id: string;
+  type: 'created' | 'stage_change' | 'note' | 'merge' | 'message' | 'appointment';
+  at: Date;
+  title: string;
+  detail?: string;
+  actorId?: string | null;
+  scheduledAt?: Date; // Solo en citas; el panel la muestra en la hora local
+}
+
+// "Visita agendada" -> VISITA_AGENDADA
+export function stageKeyFromName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40) || 'ETAPA';
+}
+
+/**
+ * Normalizar la configuración de etapas: asigna claves a las nuevas, exige al menos una etapa
+ * abierta, una ganada y una perdida, y no deja eliminar etapas que aún tienen prospectos
+ */
+export function resolveStages(input: StagesInput, leadCountByStatus: Record<string, number> = {}, previous: StageDefinition[] = []): StageDefinition[] {
+  const used = new Set<string>();
+  const stages = input.map(stage => {
+    let key = stage.key || stageKeyFromName(stage.name);
+    if (!stage.key) {
+      const base = key;
+      for (let suffix = 2; used.has(key); suffix++) key = `${base}_${suffix}`;
+    }
+    if (used.has(key)) {
+      throw new Error(`La etapa ${stage.name} está repetida`);
+    }
+    used.add(key);
+    return { key, name: stage.name, type: stage.type, color: stage.color };
+  });
+
+  for (const type of STAGE_TYPES) {
+    if (!stages.some(stage => stage.type === type)) {
+      throw new Error('El pipeline necesita al menos una etapa abierta, una ganada y una perdida');
+    }
+  }
+
+  for (const stage of previous) {
+    if (!used.has(stage.key) && (leadCountByStatus[stage.key] || 0) > 0) {
+      throw new Error(`Mueve los prospectos de "${stage.name}" a otra etapa antes de eliminarla`);
+    }
+  }
+  return stages;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Línea de tiempo del prospecto, de lo más reciente a lo más antiguo: alta, cambios de etapa,
+ * notas, últimos mensajes de su conversación y citas
+ */
+export function buildLeadTimeline(
+  lead: Lead,
+  activities: LeadActivity[],
+  messages: Message[],
+  appointments: Appointment[],
+  stages: Pick<LeadStage, 'key' | 'name'>[]
+): LeadTimelineEntry[] {
+  const stageName = (key?: string) => stages.find(stage => stage.key === key)?.name || key || '—';
+  const entries: LeadTimelineEntry[] = [];
+
+  if (lead.createdAt) {
+    entries.push({ id: `lead-${lead.id}`, type: 'created', at: lead.createdAt, title: 'Prospecto creado', detail: `Origen: ${lead.source}` });
+  }
+
+  for (const activity of activities) {
+    const metadata = (activity.metadata || {}) as {
+      from?: string;
+      to?: string;
+      lostReason?: string;
+      source?: string;
+      mergedLeads?: { fullName: string; phone: string }[];
+      crmAuthor?: string | null;
+      crmCreatedAt?: string;
+    };
+    if (activity.type === 'MERGE') {
+      entries.push({
+        id: activity.id,
+        type: 'merge',
+        at: activity.createdAt!,
+        title: 'Duplicados combinados',
+        detail: (metadata.mergedLeads || []).map(lead => `${lead.fullName} (${lead.phone})`).join(', '),
+        actorId: activity.actorId,
+      });
+      continue;
+    }
+    // Lo que llega de AlterEstate se marca como tal; las notas conservan su fecha original
+    const fromCrm = metadata.source === 'crm' ? ' (AlterEstate)' : '';
+    entries.push(activity.type === 'STAGE_CHANGE'
+      ? {
+        id: activity.id,
+        type: 'stage_change',
+        at: activity.createdAt!,
+        title: `${stageName(metadata.from)} → ${stageName(metadata.to)}${fromCrm}`,
+        detail: metadata.lostReason ? `Motivo: ${metadata.lostReason}` : undefined,
+        actorId: activity.actorId,
+      }
+      : {
+        id: activity.id,
+        type: 'note',
+        at: metadata.crmCreatedAt ? new Date(metadata.crmCreatedAt) : activity.createdAt!,
+        title: metadata.crmCreatedAt ? `Nota en AlterEstate${metadata.crmAuthor ? ` de ${metadata.crmAuthor}` : ''}` : 'Nota',
+        detail: activity.content || '',
+        actorId: activity.actorId,
+      });
+  }
+
+  for (const message of messages.slice(-MAX_TIMELINE_MESSAGES)) {
+    entries.push({
+      id: message.id,
+      type: 'message',
+      at: message.timestamp,
+      title: message.fromMe ? (message.sentByAgent ? 'Mensaje del agente' : 'Mensaje del asistente') : 'Mensaje del cliente',
+      detail: truncate(message.content || `[${message.messageType}]`, 200),
+    });
+  }
+
+  for (const appointment of appointments) {
+    entries.push({
+      id: appointment.id,
+      type: 'appointment',
+      at: appointment.createdAt || appointment.scheduledAt,
+      title: 'Visita agendada',
+      detail: [appointment.status, appointment.location].filter(Boolean).join(' · '),
+      scheduledAt: appointment.scheduledAt,
+    });
+  }
+
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+/**
+ * Pipeline de prospectos: etapas configurables por cuenta, cambios de etapa con motivo
+ * de pérdida y línea de tiempo con la actividad del prospecto
+ */
+export class LeadPipelineService {
+  async getStages(userId: string): Promise<LeadStage[]> {
+    const stages = await storage.getLeadStages(userId);
+    if (stages.length > 0) return stages;
+    return await storage.replaceLeadStages(userId, DEFAULT_LEAD_STAGES.map((stage, position) => ({ ...stage, userId, position })));
+  }
+
+  async updateStages(userId: string, input: StagesInput): Promise<LeadStage[]> {
+    const [previous, leads] = await Promise.all([this.getStages(userId), storage.getUserLeads(userId)]);
+    const leadCountByStatus: Record<string, number> = {};
+    for (const lead of leads) {
+      leadCountByStatus[lead.status] = (leadCountByStatus[lead.status] || 0) + 1;
+    }
+
+    const stages = resolveStages(input, leadCountByStatus, previous);
+    const saved = await storage.replaceLeadStages(userId, stages.map((stage, position) => ({ ...stage, userId, position })));
+    return saved.sort((a, b) => a.position - b.position);
+  }
+
+  async moveLead(userId: string, leadId: string, stageKey: string, options: { actorId?: string | null; lostReason?: string } = {}): Promise<Lead> {
+    const lead = await this.getOwnedLead(userId, leadId);
+    const stage = (await this.getStages(userId)).find(candidate => candidate.key === stageKey);
+    if (!stage) {
+      throw new Error('Etapa no encontrada');
+    }
+
+    const lostReason = stage.type === 'LOST' ? options.lostReason?.trim() : undefined;
+    if (stage.type === 'LOST' && !lostReason) {
+      throw new Error('Indica el motivo por el que se perdió el prospecto');
+    }
+    if (lead.status === stage.key && (lead.lostReason || undefined) === lostReason) {
+      return lead;
+    }
+
+    const updated = await storage.updateLead(lead.id, { status: stage.key, lostReason: lostReason || null, stageChangedAt: new Date() });
+    await storage.createLeadActivity({
+      leadId: lead.id,
+      userId,
+      actorId: options.actorId ?? null,
+      type: 'STAGE_CHANGE',
+      metadata: { from: lead.status, to: stage.key, ...(lostReason ? { lostReason } : {}) },
+    });
+    console.log(`🗂️ [PIPELINE] Lead ${lead.id} moved from ${lead.status} to ${stage.key}`);
+    return updated!;
+  }
+
+  /**
+   * Agente responsable del prospecto, por email para que coincida con el de AlterEstate
+   */
+  async assignAgent(userId: string, leadId: string, agentEmail: string | null): Promise<Lead> {
+    const lead = await this.getOwnedLead(userId, leadId);
+    const email = agentEmail?.trim().toLowerCase() || null;
+    if ((lead.assignedAgentEmail || null) === email) {
+      return lead;
+    }
+    return (await storage.updateLead(lead.id, { assignedAgentEmail: email, assignedAt: new Date() }))!;
+  }
+
+  async addNote(userId: string, leadId: string, actorId: string, content: string): Promise<LeadActivity> {
+    const lead = await this.getOwnedLead(userId, leadId);
+    return await storage.createLeadActivity({ leadId: lead.id, userId, actorId, type: 'NOTE', content });
+  }
+
+  async getTimeline(userId: string, leadId: string): Promise<LeadTimelineEntry[]> {
+    const lead = await this.getOwnedLead(userId, leadId);
+    const [activities, stages, messages, appointments] = await Promise.all([
+      storage.getLeadActivities(lead.id),
+      this.getStages(userId),
+      lead.conversationId ? storage.getConversationMessages(lead.conversationId) : Promise.resolve([]),
+      lead.conversationId ? storage.getConversationAppointments(lead.conversationId) : Promise.resolve([]),
+    ]);
+    return buildLeadTimeline(lead, activities, messages, appointments, stages);
+  }
+
+  private async getOwnedLead(userId: string, leadId: string): Promise<Lead> {
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.userId !== userId) {
+      throw new Error('Prospecto no encontrado');
+    }
+    return lead;
+  }
+}
+
+export const leadPipelineService = new LeadPipelineService();
@@ -0,0 +1,273 @@
+import type { Appointment, Lead, Message } from '@shared/schema';
+import { storage } from '../storage';
+import type { PropertyIndexQuery } from './propertyIndexService';
+
+const DEFAULT_REFRESH_MINUTES = 60;
+const RESCORE_AFTER_MS = 6 * 60 * 60 * 1000; // La actividad reciente pierde peso con los días
+const RESCORE_BATCH_SIZE = 100;
+const QUALIFICATION_STEPS = 7;
+
+export interface LeadQualification {
+  isQualified: boolean;
+  qualificationStep: number;
+  completedSteps: string[];
+  missingCriteria: string[];
+  assessedAt: string;
+}
+
+export interface LeadScoreFactor {
+  key: 'qualification' | 'inventory' | 'urgency' | 'engagement' | 'appointments';
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface InventoryFit {
+  hasBudget: boolean;
+  matches: number | null; // null = sin inventario indexado con el que comparar
+  matchesOutsideZones?: number;
+}
+
+export interface LeadScoreSignals {
+  qualification: LeadQualification | null;
+  interests: Record<string, any>;
+  inventory: InventoryFit;
+  messages: Pick<Message, 'fromMe' | 'timestamp'>[];
+  appointments: Pick<Appointment, 'status'>[];
+  now?: Date;
+}
+
+function scoreQualification(qualification: LeadQualification | null): LeadScoreFactor {
+  const steps = qualification?.completedSteps.length || 0;
+  return {
+    key: 'qualification',
+    label: 'Calificación',
+    points: Math.round(30 * Math.min(steps, QUALIFICATION_STEPS) / QUALIFICATION_STEPS),
+    maxPoints: 30,
+    detail: qualification
+      ? `${steps} de ${QUALIFICATION_STEPS} pasos${qualification.isQualified ? ' · listo para buscar' : qualification.missingCriteria.length ? ` · falta ${qualification.missingCriteria.join(', ')}` : ''}`
+      : 'Sin calificar',
+  };
+}
+
+function scoreInventory(inventory: InventoryFit): LeadScoreFactor {
+  const factor = { key: 'inventory' as const, label: 'Presupuesto vs. inventario', maxPoints: 20 };
+  if (!inventory.hasBudget) {
+    return { ...factor, points: 0, detail: 'Sin presupuesto' };
+  }
+  if (inventory.matches === null) {
+    // Sin índice no se castiga al prospecto: puntuación neutra
+    return { ...factor, points: 10, detail: 'Sin inventario indexado para comparar' };
+  }
+  if (inventory.matches >= 5) {
+    return { ...factor, points: 20, detail: `${inventory.matches} propiedades encajan` };
+  }
+  if (inventory.matches > 0) {
+    return { ...factor, points: 14, detail: `${inventory.matches} ${inventory.matches === 1 ? 'propiedad encaja' : 'propiedades encajan'}` };
+  }
+  if (inventory.matchesOutsideZones) {
+    return { ...factor, points: 6, detail: 'Hay opciones en su presupuesto, pero no en sus zonas' };
+  }
+  return { ...factor, points: 0, detail: 'Nada en inventario para su presupuesto' };
+}
+
+function scoreUrgency(interests: Record<string, any>): LeadScoreFactor {
+  const text = `${interests.urgency || ''} ${interests.timeline || ''}`;
+  const factor = { key: 'urgency' as const, label: 'Urgencia', maxPoints: 15 };
+  if (/inmediat/i.test(text)) return { ...factor, points: 15, detail: 'Necesita mudarse o comprar ya' };
+  if (/flexible|semana/i.test(text)) return { ...factor, points: 8, detail: 'En las próximas semanas' };
+  if (/exploratori|mes/i.test(text)) return { ...factor, points: 3, detail: 'Explorando, sin prisa' };
+  return { ...factor, points: 0, detail: 'Urgencia desconocida' };
+}
+
+/**
+ * Participación: cuántos mensajes escribe, cuánto tarda en responder (mediana) y cuándo escribió por última vez
+ */
+function scoreEngagement(messages: Pick<Message, 'fromMe' | 'timestamp'>[], now: Date): LeadScoreFactor {
+  const sorted = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const clientMessages = sorted.filter(message => !message.fromMe);
+
+  const latencies: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    if (!sorted[i].fromMe && sorted[i - 1].fromMe) {
+      latencies.push(sorted[i].timestamp.getTime() - sorted[i - 1].timestamp.getTime());
+    }
+  }
+  latencies.sort((a, b) => a - b);
+  const medianMinutes = latencies.length ? latencies[Math.floor(latencies.length / 2)] / 60000 : null;
+  const lastClientAt = clientMessages[clientMessages.length - 1]?.timestamp;
+  const daysSinceLast = lastClientAt ? (now.getTime() - lastClientAt.getTime()) / 86400000 : null;
+
+  const volume = Math.min(clientMessages.length, 8);
+  const speed = medianMinutes === null ? 0 : medianMinutes <= 10 ? 7 : medianMinutes <= 120 ? 5 : medianMinutes <= 1440 ? 2 : 0;
+  const recency = daysSinceLast === null ? 0 : daysSinceLast <= 1 ? 5 : daysSinceLast <= 3 ? 3 : daysSinceLast <= 7 ? 1 : 0;
+
+  const details = [`${clientMessages.length} mensajes`];
+  if (medianMinutes !== null) {
+    details.push(`responde en ${medianMinutes < 60 ? `${Math.max(1, Math.round(medianMinutes))} min` : `${Math.round(medianMinutes / 60)} h`}`);
+  }
+  if (daysSinceLast !== null) {
+    details.push(daysSinceLast < 1 ? 'escribió hoy' : `último mensaje hace ${Math.floor(daysSinceLast)} d`);
+  }
+  return { key: 'engagement', label: 'Participación', points: volume + speed + recency, maxPoints: 20, detail: details.join(' · ') };
+}
+
+function scoreAppointments(appointments: Pick<Appointment, 'status'>[]): LeadScoreFactor {
+  const factor = { key: 'appointments' as const, label: 'Visitas', maxPoints: 15 };
+  const statuses = appointments.map(appointment => appointment.status);
+  if (statuses.includes('COMPLETED')) return { ...factor, points: 15, detail: 'Ya visitó una propiedad' };
+  if (statuses.some(status => status === 'SCHEDULED' || status === 'CONFIRMED')) return { ...factor, points: 12, detail: 'Tiene una visita agendada' };
+  if (statuses.includes('RESCHEDULE_REQUESTED')) return { ...factor, points: 10, detail: 'Pidió mover su visita' };
+  if (statuses.length > 0) return { ...factor, points: 3, detail: 'Canceló o no asistió' };
+  return { ...factor, points: 0, detail: 'Sin visitas' };
+}
+
+/**
+ * Puntuación 0-100 del prospecto: calificación (30), encaje del presupuesto con el inventario (20),
+ * urgencia (15), participación en el chat (20) y visitas (15)
+ */
+export function computeLeadScore(signals: LeadScoreSignals): { score: number; factors: LeadScoreFactor[] } {
+  const factors = [
+    scoreQualification(signals.qualification),
+    scoreInventory(signals.inventory),
+    scoreUrgency(signals.interests),
+    scoreEngagement(signals.messages, signals.now || new Date()),
+    scoreAppointments(signals.appointments),
+  ];
+  return { score: Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0)), factors };
+}
+
+/**
+ * Puntuación persistida de los prospectos. Se recalcula al evaluar la conversación, cuando
+ * cambian sus visitas y periódicamente para que la antigüedad de la actividad cuente
+ */
+export class LeadScoringService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Recalcular prospectos abiertos (LEAD_SCORE_REFRESH_MINUTES, 0 lo desactiva)
+   */
+  start(): void {
+    const minutes = Number(process.env.LEAD_SCORE_REFRESH_MINUTES ?? DEFAULT_REFRESH_MINUTES);
+    if (!minutes || this.timer) return;
+
+    console.log(`📊 [SCORING] Refreshing lead scores every ${minutes} minutes`);
+    this.timer = setInterval(() => this.refreshStale(), minutes * 60 * 1000);
+    this.refreshStale();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async refreshStale(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const leads = await storage.getLeadsToRescore(new Date(Date.now() - RESCORE_AFTER_MS), RESCORE_BATCH_SIZE);
+      for (const lead of leads) {
+        await this.scoreLead(lead).catch(error => console.error(`❌ [SCORING] Error scoring lead ${lead.id}:`, error));
+      }
+      if (leads.length > 0) {
+        console.log(`📊 [SCORING] Refreshed ${leads.length} lead scores`);
+      }
+    } catch (error) {
+      console.error('❌ [SCORING] Error refreshing lead scores:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Guardar el resultado de assessClientQualification y recalcular. Una evaluación fallida
+   * (sin pasos completados) no borra la última buena
+   */
+  async recordQualification(lead: Lead, result: Omit<LeadQualification, 'assessedAt'>): Promise<Lead> {
+    const previous = lead.qualification as LeadQualification | null;
+    if (previous && result.completedSteps.length === 0 && previous.completedSteps.length > 0) {
+      return await this.scoreLead(lead);
+    }
+
+    const qualification: LeadQualification = {
+      isQualified: result.isQualified,
+      qualificationStep: result.qualificationStep,
+      completedSteps: result.completedSteps,
+      missingCriteria: result.missingCriteria,
+      assessedAt: new Date().toISOString(),
+    };
+    return await this.scoreLead({ ...lead, qualification });
+  }
+
+  async rescoreConversation(conversationId: string): Promise<void> {
+    const lead = await storage.getLeadByConversation(conversationId);
+    if (lead) {
+      await this.scoreLead(lead);
+    }
+  }
+
+  async scoreLead(lead: Lead): Promise<Lead> {
+    const [messages, appointments, inventory] = await Promise.all([
+      lead.conversationId ? storage.getConversationMessages(lead.conversationId) : Promise.resolve([]),
+      lead.conversationId ? storage.getConversationAppointments(lead.conversationId) : Promise.resolve([]),
+      this.getInventoryFit(lead),
+    ]);
+
+    const qualification = lead.qualification as LeadQualification | null;
+    const { score, factors } = computeLeadScore({
+      qualification,
+      interests: (lead.interests || {}) as Record<string, any>,
+      inventory,
+      messages,
+      appointments,
+    });
+
+    const updated = await storage.updateLead(lead.id, { score, scoreFactors: factors, scoredAt: new Date(), qualification });
+    if (lead.score !== score) {
+      console.log(`📊 [SCORING] Lead ${lead.id} scored ${score} (was ${lead.score ?? '—'})`);
+    }
+    return updated || lead;
+  }
+
+  /**
+   * Propiedades del índice local que encajan con el presupuesto, la operación y las zonas del prospecto
+   */
+  private async getInventoryFit(lead: Lead): Promise<InventoryFit> {
+    if (!lead.budget) {
+      return { hasBudget: false, matches: null };
+    }
+
+    const { propertyIndexService } = await import('./propertyIndexService');
+    const sync = await propertyIndexService.getStatus(lead.userId);
+    if (!sync?.lastSyncedAt) {
+      return { hasBudget: true, matches: null };
+    }
+
+    const interests = (lead.interests || {}) as Record<string, any>;
+    const zones = (lead.preferredLocation || '')
+      .split(',')
+      .map(zone => zone.trim())
+      .filter(zone => zone && !/cualquier|toda|no importa/i.test(zone));
+    const criteria: PropertyIndexQuery = {
+      operation: lead.listingType === 'rent' ? 'rent' : lead.listingType === 'sale' ? 'sale' : undefined,
+      budgetMax: lead.budget,
+      currency: lead.budgetCurrency || 'USD',
+      rooms: typeof interests.rooms === 'number' ? interests.rooms : undefined,
+      limit: 1,
+    };
+
+    const inZones = await propertyIndexService.search(lead.userId, { ...criteria, zones: zones.length ? zones : undefined });
+    if (inZones.total > 0 || zones.length === 0) {
+      return { hasBudget: true, matches: inZones.total };
+    }
+    const anywhere = await propertyIndexService.search(lead.userId, criteria);
+    return { hasBudget: true, matches: 0, matchesOutsideZones: anywhere.total };
+  }
+}
+
+export const leadScoringService = new LeadScoringService();
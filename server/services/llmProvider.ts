@@ -0,0 +1,355 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import fs from 'fs';
+
+/**
+ * Capa de proveedores LLM.
+ * AIService ya no crea su propio cliente de OpenAI: pide un LLMProvider según
+ * la configuración del usuario (userSettings.llmProvider / llmModel / llmBaseUrl).
+ */
+
+export type LLMProviderType = 'openai' | 'local' | 'scripted';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema de los argumentos
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON serializado tal como lo devuelve el modelo
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | LLMContentPart[];
+  toolCalls?: LLMToolCall[];  // Solo en mensajes del asistente
+  toolCallId?: string;        // Solo en mensajes con role 'tool'
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean;
+  tools?: LLMToolDefinition[];
+}
+
+export interface LLMChatResponse {
+  content: string | null;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  readonly embeddingModel: string;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  transcribe(audioBuffer: Buffer, mimeType: string, language?: string): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LLMProviderConfig {
+  provider?: string | null;
+  model?: string | null;
+  baseUrl?: string | null;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Solo los mensajes del usuario admiten imágenes; el resto se envía como texto
+function contentText(content: string | LLMContentPart[]): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ');
+}
+
+/**
+ * Proveedor OpenAI (por defecto)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'openai';
+  protected client: OpenAI;
+
+  constructor(
+    readonly model: string = DEFAULT_OPENAI_MODEL,
+    apiKey: string = process.env.OPENAI_API_KEY || '',
+    baseURL?: string,
+    protected transcriptionModel: string = 'whisper-1',
+    readonly embeddingModel: string = 'text-embedding-3-small'
+  ) {
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages.map(msg => this.toOpenAIMessage(msg)),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      } : {}),
+    });
+
+    const message = response.choices[0]?.message;
+    const toolCalls = (message?.tool_calls || [])
+      .filter(call => call.type === 'function')
+      .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+
+    return {
+      content: message?.content ?? null,
+      ...(toolCalls.length ? { toolCalls } : {}),
+    };
+  }
+
+  private toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+    switch (message.role) {
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId || '', content: contentText(message.content) };
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: contentText(message.content) || null,
+          ...(message.toolCalls?.length ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          } : {}),
+        };
+      case 'system':
+        return { role: 'system', content: contentText(message.content) };
+      case 'user':
+        return { role: 'user', content: message.content };
+    }
+  }
+
+  async transcribe(audioBuffer: Buffer, mimeType: string, language: string = 'es'): Promise<string> {
+    const file = new File([audioBuffer], 'audio.wav', { type: mimeType });
+    const transcription = await this.client.audio.transcriptions.create({
+      file,
+      model: this.transcriptionModel,
+      language,
+    });
+    return transcription.text;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Endpoint local compatible con la API de OpenAI (Ollama, LM Studio, vLLM, LocalAI)
+ */
+export class LocalLLMProvider extends OpenAIProvider {
+  readonly type: LLMProviderType = 'local';
+
+  constructor(model: string = DEFAULT_LOCAL_MODEL, baseURL: string = DEFAULT_LOCAL_BASE_URL) {
+    super(
+      model,
+      process.env.LOCAL_LLM_API_KEY || 'local',
+      baseURL,
+      process.env.LOCAL_LLM_TRANSCRIPTION_MODEL || 'whisper-1',
+      process.env.LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text'
+    );
+  }
+}
+
+export interface ScriptedRule {
+  match?: string;     // Expresión regular evaluada contra el último mensaje del usuario
+  json?: boolean;     // Solo aplica a solicitudes en modo JSON (true) o texto (false)
+  response?: string;
+  toolCall?: { name: string; arguments?: Record<string, any> }; // Llamar una herramienta en lugar de responder
+}
+
+export interface LLMScript {
+  rules: ScriptedRule[];
+  transcription?: string;
+}
+
+const SCRIPTED_EMBEDDING_DIMENSIONS = 256;
+
+const DEFAULT_SCRIPT: LLMScript = {
+  rules: [
+    { json: true, match: 'intención principal|Posibles intenciones', response: '{"intent":"ask_question","confidence":0.9,"entities":{}}' },
+    { json: true, response: '{}' },
+    { match: '^(hola|buenas|buenos)', response: '¡Hola! Soy tu asistente inmobiliario. ¿En qué puedo ayudarte hoy?' },
+    { response: 'Gracias por tu mensaje. ¿Podrías darme más detalles de lo que buscas?' },
+  ],
+  transcription: 'Nota de voz transcrita',
+};
+
+/**
+ * Proveedor determinista para CI y desarrollo local: responde siguiendo un guion
+ * sin salir a la red. El guion se carga desde LLM_SCRIPT_PATH o usa el predeterminado.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'scripted';
+  readonly model = 'scripted';
+  readonly embeddingModel = `scripted-${SCRIPTED_EMBEDDING_DIMENSIONS}`;
+  readonly calls: LLMChatRequest[] = [];
+
+  constructor(private script: LLMScript = DEFAULT_SCRIPT) {}
+
+  static fromFile(filePath: string): ScriptedLLMProvider {
+    const script = JSON.parse(fs.readFileSync(filePath, 'utf8')) as LLMScript;
+    return new ScriptedLLMProvider(script);
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    this.calls.push(request);
+    const lastUserMessage = [...request.messages].reverse().find(msg => msg.role === 'user');
+    const text = lastUserMessage ? contentText(lastUserMessage.content) : '';
+    const jsonMode = !!request.jsonMode;
+    // Tras el resultado de una herramienta el guion debe responder con texto, no volver a llamarla
+    const awaitingToolResult = request.messages[request.messages.length - 1]?.role === 'tool';
+    const toolNames = (request.tools || []).map(tool => tool.name);
+
+    const rule = this.script.rules.find(candidate => {
+      if (candidate.json !== undefined && candidate.json !== jsonMode) {
+        return false;
+      }
+      if (candidate.toolCall && (awaitingToolResult || !toolNames.includes(candidate.toolCall.name))) {
+        return false;
+      }
+      return !candidate.match || new RegExp(candidate.match, 'i').test(text);
+    });
+
+    if (rule?.toolCall) {
+      return {
+        content: null,
+        toolCalls: [{
+          id: `call_${this.calls.length}`,
+          name: rule.toolCall.name,
+          arguments: JSON.stringify(rule.toolCall.arguments || {}),
+        }],
+      };
+    }
+
+    return { content: rule?.response ?? (jsonMode ? '{}' : '') };
+  }
+
+  async transcribe(): Promise<string> {
+    return this.script.transcription || '';
+  }
+
+  /**
+   * Embedding determinista (bolsa de palabras con hashing) para que la
+   * recuperación de la base de conocimiento funcione sin red
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(SCRIPTED_EMBEDDING_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]{3,}/g) || [];
+      for (const word of words) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) {
+          hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        }
+        vector[hash % SCRIPTED_EMBEDDING_DIMENSIONS] += 1;
+      }
+      return vector;
+    });
+  }
+}
+
+/**
+ * Crear un proveedor a partir de la configuración (settings del usuario o variables de entorno)
+ */
+export function createLLMProvider(config: LLMProviderConfig = {}): LLMProvider {
+  const type = (config.provider || process.env.LLM_PROVIDER || 'openai') as LLMProviderType;
+
+  switch (type) {
+    case 'local':
+      // Las configuraciones guardadas antes de que el modelo dependiera del proveedor traen gpt-4o
+      return new LocalLLMProvider(
+        (config.model !== DEFAULT_OPENAI_MODEL && config.model) || process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL,
+        config.baseUrl || process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL
+      );
+    case 'scripted':
+      return process.env.LLM_SCRIPT_PATH
+        ? ScriptedLLMProvider.fromFile(process.env.LLM_SCRIPT_PATH)
+        : new ScriptedLLMProvider();
+    case 'openai':
+    default:
+      if (!process.env.OPENAI_API_KEY) {
+        console.error('❌ OPENAI_API_KEY environment variable is not set');
+      }
+      return new OpenAIProvider(config.model || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL);
+  }
+}
+
+// Cache de proveedores por usuario (se invalida si cambia la configuración)
+const llmProviders = new Map<string, { signature: string; provider: LLMProvider }>();
+
+export function getLLMProvider(userId: string | undefined, config: LLMProviderConfig = {}): LLMProvider {
+  const key = userId || 'default';
+  const signature = `${config.provider || ''}|${config.model || ''}|${config.baseUrl || ''}`;
+  const cached = llmProviders.get(key);
+
+  if (cached && cached.signature === signature) {
+    return cached.provider;
+  }
+
+  const provider = createLLMProvider(config);
+  console.log(`🧠 [LLM] Using ${provider.type} provider (${provider.model}) for ${key}`);
+  llmProviders.set(key, { signature, provider });
+  return provider;
+}
+
+/**
+ * Configuración que puede elegir cada usuario. Los proveedores local y scripted (y su URL)
+ * solo se aceptan con LLM_ALLOW_SELF_HOSTED=true: la URL la pone el usuario y el servidor
+ * la llamaría aunque apunte a la red interna. Si no, se usa el proveedor del entorno.
+ */
+export function tenantLLMConfig(settings?: { llmProvider?: string | null; llmModel?: string | null; llmBaseUrl?: string | null }): LLMProviderConfig {
+  const provider = settings?.llmProvider;
+  if (provider && provider !== 'openai' && process.env.LLM_ALLOW_SELF_HOSTED !== 'true') {
+    return {};
+  }
+  return {
+    provider,
+    model: settings?.llmModel,
+    baseUrl: provider === 'local' ? settings?.llmBaseUrl : null,
+  };
+}
+
+/**
+ * Proveedor según la configuración guardada del usuario; sin usuario, el de las variables de entorno
+ */
+export async function getUserLLMProvider(userId?: string): Promise<LLMProvider> {
+  if (!userId) {
+    return getLLMProvider(undefined);
+  }
+
+  const { storage } = await import('../storage');
+  const settings = await storage.getUserSettings(userId);
+  return getLLMProvider(userId, tenantLLMConfig(settings));
+}
+
+export function clearLLMProviderCache(): void {
+  llmProviders.clear();
+}
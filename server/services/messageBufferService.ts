@@ -1,132 +1,230 @@
+import type { Message } from '@shared/schema';
 import { storage } from '../storage';
 
-interface BufferedMessage {
-  content: string;
-  timestamp: Date;
-  messageId: string;
-}
+const DEFAULT_POLL_SECONDS = 5;
+const STALE_CLAIM_MS = 5 * 60 * 1000; // Un worker que cayó a mitad de proceso libera el buffer tras 5 minutos
+const CLAIM_RENEW_MS = 60 * 1000; // Mientras responde, el worker renueva el reclamo antes de que quede obsoleto
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 30 * 1000; // Se multiplica por el número de intento
+const MAX_RECOVERY_AGE_MS = 12 * 60 * 60 * 1000; // Ráfagas más antiguas no se responden al recuperar
+const DUE_BATCH_SIZE = 20;
+const RECOVERY_BATCH_SIZE = 500;
 
-interface BufferData {
-  messages: BufferedMessage[];
-  timer: NodeJS.Timeout;
-  userId: string;
+export interface BufferedConversationJob {
   conversationId: string;
-  onProcessCallback?: (combinedMessage: string) => Promise<void>;
+  userId: string;
+  combinedMessage: string;
+  remoteJid?: string; // Chat del último mensaje de la ráfaga; puede ser un LID o un grupo
 }
 
+type BufferProcessor = (job: BufferedConversationJob) => Promise<void>;
+
+/**
+ * Buffer de mensajes entrantes persistido en Postgres (messages.isBuffered / isProcessed).
+ * Los mensajes de una ráfaga se combinan cuando vence el último; un worker reclama las
+ * conversaciones vencidas con bloqueo de fila, así que un reinicio no pierde mensajes y
+ * dos procesos no responden dos veces.
+ */
 export class MessageBufferService {
-  private userBuffers = new Map<string, BufferData>();
-  private processingQueue = new Map<string, boolean>();
+  private processor: BufferProcessor | null = null;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Registrar quién responde una ráfaga combinada (internalWebhookService)
+   */
+  setProcessor(processor: BufferProcessor) {
+    this.processor = processor;
+  }
 
   /**
-   * Agrega un mensaje al buffer y reinicia el temporizador
+   * Worker que procesa los buffers vencidos, incluidos los de otros procesos o de antes
+   * de un reinicio (MESSAGE_BUFFER_POLL_SECONDS)
+   */
+  start() {
+    if (this.pollTimer) return;
+    const seconds = Number(process.env.MESSAGE_BUFFER_POLL_SECONDS || DEFAULT_POLL_SECONDS);
+    console.log(`⏱️ [BUFFER] Durable buffer worker polling every ${seconds}s`);
+    this.pollTimer = setInterval(() => this.processDueBuffers(), seconds * 1000);
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Recuperar al arrancar los mensajes que quedaron en buffer sin procesar
+   */
+  async recoverPendingMessages(): Promise<number> {
+    const conversationIds = await storage.getDueBufferedConversations(new Date(Date.now() - STALE_CLAIM_MS), RECOVERY_BATCH_SIZE);
+    if (conversationIds.length > 0) {
+      console.log(`♻️ [BUFFER] Recovering ${conversationIds.length} conversations with unprocessed buffered messages`);
+    }
+
+    let recovered = 0;
+    for (const conversationId of conversationIds) {
+      if (await this.processBufferedMessages(conversationId, { maxAgeMs: MAX_RECOVERY_AGE_MS })) {
+        recovered++;
+      }
+    }
+    this.start();
+    return recovered;
+  }
+
+  /**
+   * Persiste el mensaje en el buffer y reinicia la ventana de la conversación.
+   * El mensaje ya debe estar guardado con storage.createMessage (se busca por messageId).
+   * remoteJid es el chat tal como llegó, para responder ahí y no a un JID reconstruido del teléfono.
    */
   async addMessageToBuffer(
     conversationId: string, 
     message: string, 
     messageId: string,
     userId: string,
-    onProcessCallback?: (combinedMessage: string) => Promise<void>
+    remoteJid?: string
   ) {
     console.log(`📥 [BUFFER] Adding message to buffer for conversation ${conversationId}: "${message}"`);
     
     // Obtener configuraciones del usuario
     const userSettings = await storage.getUserSettings(userId);
     const bufferEnabled = userSettings?.messageBufferEnabled ?? true;
-    const bufferTime = userSettings?.messageBufferTime ?? 5; // default 5 segundos
+    const bufferTime = bufferEnabled ? (userSettings?.messageBufferTime ?? 5) : 0; // default 5 segundos
     
-    if (!bufferEnabled) {
-      console.log(`⚡ [BUFFER] Buffer disabled for user ${userId}, processing immediately`);
-      if (onProcessCallback) {
-        await onProcessCallback(message);
-      }
+    const buffered = await storage.bufferMessage(messageId, message, new Date(Date.now() + bufferTime * 1000), remoteJid);
+    if (!buffered) {
+      console.warn(`⚠️ [BUFFER] Message ${messageId} is not stored, it cannot be buffered`);
       return;
     }
     
-    console.log(`⏱️ [BUFFER] Buffer enabled with ${bufferTime} seconds delay`);
-    
-    // Clear existing timer if exists
-    const existing = this.userBuffers.get(conversationId);
-    if (existing?.timer) {
+    console.log(bufferEnabled
+      ? `⏱️ [BUFFER] Buffer enabled with ${bufferTime} seconds delay`
+      : `⚡ [BUFFER] Buffer disabled for user ${userId}, processing immediately`);
+
+    // Atajo local: despertar al vencer la ventana sin esperar al worker
+    const existing = this.timers.get(conversationId);
+    if (existing) {
       console.log(`🔄 [BUFFER] Clearing existing timer for conversation ${conversationId}`);
-      clearTimeout(existing.timer);
+      clearTimeout(existing);
     }
-
-    // Add message to buffer
-    const messages = existing?.messages || [];
-    messages.push({
-      content: message,
-      timestamp: new Date(),
-      messageId
-    });
-
-    console.log(`📊 [BUFFER] Total messages in buffer: ${messages.length}`);
-
-    // Set new timer
-    const timer = setTimeout(async () => {
+    this.timers.set(conversationId, setTimeout(async () => {
+      this.timers.delete(conversationId);
       console.log(`⏰ [BUFFER] Timer expired for conversation ${conversationId}, processing buffered messages`);
       await this.processBufferedMessages(conversationId);
-    }, bufferTime * 1000);
-
-    this.userBuffers.set(conversationId, { 
-      messages, 
-      timer, 
-      userId,
-      conversationId,
-      onProcessCallback: onProcessCallback || existing?.onProcessCallback
-    });
+    }, bufferTime * 1000));
   }
 
   /**
-   * Procesa todos los mensajes en buffer cuando expira el temporizador
+   * Reclama y procesa los mensajes en buffer de la conversación.
+   * Con force se procesa aunque la ventana no haya vencido; processor reemplaza al registrado.
+   * Devuelve el mensaje combinado o undefined si no había nada (o lo tiene otro worker).
    */
-  async processBufferedMessages(conversationId: string) {
-    const buffer = this.userBuffers.get(conversationId);
-    if (!buffer || this.processingQueue.get(conversationId)) {
-      console.log(`⚠️ [BUFFER] Buffer not found or already processing for conversation ${conversationId}`);
-      return;
-    }
+  async processBufferedMessages(
+    conversationId: string,
+    options: { force?: boolean; maxAgeMs?: number; processor?: BufferProcessor } = {}
+  ): Promise<string | undefined> {
+    let claimed: Message[] = [];
+    try {
+      claimed = await storage.claimBufferedMessages(conversationId, new Date(Date.now() - STALE_CLAIM_MS), options.force);
+      if (claimed.length === 0) {
+        return;
+      }
 
-    // Mark as processing
-    this.processingQueue.set(conversationId, true);
-    console.log(`🔄 [BUFFER] Processing ${buffer.messages.length} buffered messages for conversation ${conversationId}`);
+      console.log(`🔄 [BUFFER] Processing ${claimed.length} buffered messages for conversation ${conversationId}`);
+
+      const newest = claimed[claimed.length - 1];
+      if (options.maxAgeMs && Date.now() - newest.timestamp.getTime() > options.maxAgeMs) {
+        console.log(`🗑️ [BUFFER] Discarding ${claimed.length} buffered messages older than ${options.maxAgeMs / 3600000}h for conversation ${conversationId}`);
+        await storage.markMessagesProcessed(claimed.map(message => message.id));
+        return;
+      }
 
-    try {
       // Combine all buffered messages
-      const combinedMessage = buffer.messages
-        .map(msg => msg.content)
+      const combinedMessage = claimed
+        .map(message => message.bufferedContent || message.content)
         .join('\n');
       
       console.log(`📝 [BUFFER] Combined message: "${combinedMessage}"`);
-      
-      // Clear buffer
-      this.userBuffers.delete(conversationId);
-      
-      // Process with callback if provided
-      if (buffer.onProcessCallback) {
-        await buffer.onProcessCallback(combinedMessage);
+
+      const processor = options.processor || this.processor;
+      const conversation = await storage.getConversationById(conversationId);
+      if (processor && conversation) {
+        const ids = claimed.map(message => message.id);
+        const renewal = setInterval(() => {
+          storage.renewBufferClaim(ids).catch(error =>
+            console.warn(`⚠️ [BUFFER] Could not renew claim for conversation ${conversationId}:`, error.message)
+          );
+        }, CLAIM_RENEW_MS);
+        try {
+          await processor({ conversationId, userId: conversation.userId, combinedMessage, remoteJid: newest.remoteJid || undefined });
+        } finally {
+          clearInterval(renewal);
+        }
       }
-      
+
+      await storage.markMessagesProcessed(claimed.map(message => message.id));
       return combinedMessage;
     } catch (error) {
       console.error(`❌ [BUFFER] Error processing buffered messages for conversation ${conversationId}:`, error);
-    } finally {
-      // Mark as not processing
-      this.processingQueue.delete(conversationId);
+      await this.releaseAfterFailure(conversationId, claimed).catch(releaseError =>
+        console.error(`❌ [BUFFER] Could not release buffered messages for conversation ${conversationId}:`, releaseError)
+      );
     }
   }
 
+  /**
+   * Un error transitorio (IA o WhatsApp) devuelve la ráfaga al buffer con espera creciente;
+   * tras MAX_ATTEMPTS se da por perdida para no insistir con una respuesta que falla siempre
+   */
+  private async releaseAfterFailure(conversationId: string, claimed: Message[]): Promise<void> {
+    if (claimed.length === 0) return;
 
-  hasBufferedMessages(conversationId: string): boolean {
-    return this.userBuffers.has(conversationId);
+    const ids = claimed.map(message => message.id);
+    const attempt = Math.max(...claimed.map(message => message.bufferAttempts)) + 1;
+    if (attempt >= MAX_ATTEMPTS) {
+      console.error(`❌ [BUFFER] Giving up on ${claimed.length} buffered messages for conversation ${conversationId} after ${attempt} attempts`);
+      await storage.markMessagesProcessed(ids);
+      return;
+    }
+
+    console.log(`🔁 [BUFFER] Retrying conversation ${conversationId} in ${RETRY_DELAY_MS * attempt / 1000}s (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+    await storage.releaseBufferedMessages(ids, new Date(Date.now() + RETRY_DELAY_MS * attempt));
   }
 
-  clearBuffer(conversationId: string) {
-    const buffer = this.userBuffers.get(conversationId);
-    if (buffer?.timer) {
-      clearTimeout(buffer.timer);
+  /**
+   * Procesar las conversaciones cuyo buffer ya venció
+   */
+  async processDueBuffers() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const conversationIds = await storage.getDueBufferedConversations(new Date(Date.now() - STALE_CLAIM_MS), DUE_BATCH_SIZE);
+      for (const conversationId of conversationIds) {
+        await this.processBufferedMessages(conversationId);
+      }
+    } catch (error) {
+      console.error('❌ [BUFFER] Error polling due buffers:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Descartar el buffer pendiente sin responder
+   */
+  async clearBuffer(conversationId: string): Promise<number> {
+    const timer = this.timers.get(conversationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(conversationId);
     }
-    this.userBuffers.delete(conversationId);
+    return await storage.cancelBufferedMessages(conversationId);
   }
 
   /**
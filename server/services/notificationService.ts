@@ -1,5 +1,15 @@
 import nodemailer from 'nodemailer';
 
+// Los nombres los escriben los usuarios: no deben poder inyectar HTML en el correo
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export class NotificationService {
   private emailTransporter: any;
 
@@ -64,9 +74,75 @@ export class NotificationService {
     `;
   }
 
-  async scheduleReminder(appointmentId: string, reminderType: string, delay: number) {
-    // This would integrate with Bull queue for scheduling reminders
-    console.log(`Scheduling ${reminderType} reminder for appointment ${appointmentId} in ${delay}ms`);
+  // Recordatorios y respuestas del cliente a una cita (ver appointmentReminderService)
+  async sendAppointmentUpdate(email: string, subject: string, text: string) {
+    try {
+      await this.emailTransporter.sendMail({
+        from: process.env.SMTP_FROM || 'noreply@realestate-ai.com',
+        to: email,
+        subject,
+        html: `<p>${text.replace(/\n/g, '<br>')}</p>`,
+      });
+    } catch (error) {
+      console.error('Error sending appointment update:', error);
+    }
+  }
+
+  async sendOrganizationInvitation(email: string, organizationName: string, role: string, inviteUrl: string) {
+    try {
+      await this.emailTransporter.sendMail({
+        from: process.env.SMTP_FROM || 'noreply@realestate-ai.com',
+        to: email,
+        subject: `Invitación a ${organizationName}`,
+        html: `
+          <h3>Te invitaron a ${escapeHtml(organizationName)}</h3>
+          <p>Fuiste invitado como <strong>${escapeHtml(role)}</strong> para atender conversaciones, leads y citas del equipo.</p>
+          <p><a href="${escapeHtml(inviteUrl)}">Aceptar invitación</a></p>
+          <p style="color: #64748b; font-size: 14px;">El enlace vence en 7 días.</p>
+        `,
+      });
+    } catch (error) {
+      console.error('Error sending organization invitation:', error);
+    }
+  }
+
+  async sendConversationAssignment(email: string, conversation: { id: string; clientName?: string | null; clientPhone: string }) {
+    try {
+      await this.emailTransporter.sendMail({
+        from: process.env.SMTP_FROM || 'noreply@realestate-ai.com',
+        to: email,
+        subject: `Conversación asignada - ${conversation.clientName || conversation.clientPhone}`,
+        html: `
+          <h3>Tienes una conversación asignada</h3>
+          <p><strong>Cliente:</strong> ${conversation.clientName || 'Sin nombre'}</p>
+          <p><strong>Teléfono:</strong> ${conversation.clientPhone}</p>
+          <p>Eres el responsable de responder a este cliente. Revisa la conversación en el panel.</p>
+        `,
+      });
+    } catch (error) {
+      console.error('Error sending conversation assignment:', error);
+    }
+  }
+
+  /**
+   * Aviso por WhatsApp al equipo desde la instancia conectada de la cuenta
+   */
+  async sendWhatsAppAlert(userId: string, number: string, text: string): Promise<boolean> {
+    try {
+      const { instanceResolver } = await import('./instanceResolver');
+      const instanceName = await instanceResolver.resolveForOutgoing(userId);
+      if (!instanceName) {
+        console.warn(`⚠️ [NOTIFY] No connected WhatsApp instance for user ${userId}, alert not sent`);
+        return false;
+      }
+
+      const { evolutionApiService } = await import('./evolutionApiService');
+      await evolutionApiService.sendMessage(instanceName, number, text);
+      return true;
+    } catch (error) {
+      console.error('Error sending WhatsApp alert:', error);
+      return false;
+    }
   }
 
   async escalateToHuman(conversationId: string, reason: string, agentEmail?: string) {
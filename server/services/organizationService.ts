@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import type { Organization, OrganizationInvitation, OrganizationMember } from '@shared/schema';
+import { storage } from '../storage';
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'agent', 'viewer'] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export const PERMISSIONS = [
+  'dashboard:read',
+  'settings:read',
+  'settings:write',
+  'whatsapp:read',
+  'whatsapp:manage',
+  'conversations:read',
+  'conversations:write',
+  'leads:read',
+  'leads:write',
+  'appointments:read',
+  'appointments:write',
+  'properties:read',
+  'properties:sync',
+  'members:read',
+  'members:manage',
+  'organization:manage',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const READ_PERMISSIONS: Permission[] = [
+  'dashboard:read',
+  'whatsapp:read',
+  'conversations:read',
+  'leads:read',
+  'appointments:read',
+  'properties:read',
+  'members:read',
+];
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: [...PERMISSIONS],
+  admin: PERMISSIONS.filter(permission => permission !== 'organization:manage'),
+  agent: [...READ_PERMISSIONS, 'conversations:write', 'leads:write', 'appointments:write'],
+  viewer: READ_PERMISSIONS,
+};
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface OrganizationContext {
+  organization: Organization;
+  member: OrganizationMember;
+  role: OrganizationRole;
+  permissions: Permission[];
+}
+
+export function isOrganizationRole(role: unknown): role is OrganizationRole {
+  return typeof role === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return isOrganizationRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+function toContext(organization: Organization, member: OrganizationMember): OrganizationContext {
+  const role = isOrganizationRole(member.role) ? member.role : 'viewer';
+  return { organization, member, role, permissions: ROLE_PERMISSIONS[role] };
+}
+
+export class OrganizationService {
+  /**
+   * Cada cuenta existente es su propia organización con el usuario como owner; se crea
+   * la primera vez que la necesita.
+   */
+  async ensurePersonalOrganization(userId: string): Promise<Organization> {
+    const existing = await storage.getOrganizationByAccount(userId);
+    if (existing) return existing;
+
+    const user = await storage.getUser(userId);
+    const name = user?.company || [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.email || 'Mi organización';
+    console.log(`🏢 [ORG] Creating personal organization for user ${userId}`);
+    return await storage.createOrganization({ name, accountId: userId }, userId);
+  }
+
+  /**
+   * Organización activa del usuario: la elegida en la sesión si sigue siendo miembro, si no
+   * la última a la que fue invitado y, por último, la personal.
+   */
+  async resolveContext(userId: string, preferredOrganizationId?: string): Promise<OrganizationContext> {
+    let memberships = await storage.getUserMemberships(userId);
+    if (!memberships.some(({ organization }) => organization.accountId === userId)) {
+      await this.ensurePersonalOrganization(userId);
+      memberships = await storage.getUserMemberships(userId);
+    }
+
+    const invited = memberships.filter(({ organization }) => organization.accountId !== userId);
+    const selected = memberships.find(({ organization }) => organization.id === preferredOrganizationId)
+      || invited[invited.length - 1]
+      || memberships[0];
+    if (!selected) {
+      throw new Error(`User ${userId} has no organization`);
+    }
+    return toContext(selected.organization, selected.member);
+  }
+
+  async getUserOrganizations(userId: string) {
+    const memberships = await storage.getUserMemberships(userId);
+    return memberships.map(({ organization, member }) => ({ ...organization, role: member.role }));
+  }
+
+  async getMembers(organizationId: string) {
+    const members = await storage.getOrganizationMembers(organizationId);
+    return members.map(({ member, user }) => ({
+      userId: member.userId,
+      role: member.role,
+      acceptsAssignments: member.acceptsAssignments !== false,
+      joinedAt: member.createdAt,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      profileImageUrl: user.profileImageUrl,
+    }));
+  }
+
+  async createInvitation(context: OrganizationContext, email: string, role: string, invitedBy: string): Promise<OrganizationInvitation> {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      throw new Error('Email inválido');
+    }
+    this.assertAssignableRole(context, role);
+
+    return await storage.createOrganizationInvitation({
+      organizationId: context.organization.id,
+      email: normalizedEmail,
+      role,
+      token: crypto.randomBytes(24).toString('hex'),
+      invitedBy,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    });
+  }
+
+  async acceptInvitation(token: string, userId: string): Promise<Organization> {
+    const invitation = await storage.getOrganizationInvitationByToken(token);
+    if (!invitation || invitation.status !== 'PENDING') {
+      throw new Error('Invitación no encontrada o ya utilizada');
+    }
+    if (invitation.expiresAt < new Date()) {
+      throw new Error('La invitación expiró');
+    }
+
+    const user = await storage.getUser(userId);
+    // Sin email verificado en la cuenta no hay forma de saber que la invitación es suya
+    if (!user?.email || user.email.toLowerCase() !== invitation.email) {
+      throw new Error(`Esta invitación es para ${invitation.email}`);
+    }
+
+    await storage.acceptOrganizationInvitation(invitation, userId);
+    const organization = await storage.getOrganization(invitation.organizationId);
+    console.log(`🏢 [ORG] User ${userId} joined organization ${invitation.organizationId} as ${invitation.role}`);
+    return organization!;
+  }
+
+  async updateMemberRole(context: OrganizationContext, userId: string, role: string): Promise<void> {
+    const member = await this.getManageableMember(context, userId);
+    this.assertAssignableRole(context, role);
+    await storage.updateOrganizationMember(context.organization.id, member.userId, { role });
+  }
+
+  /**
+   * Entrar o salir del reparto de conversaciones: cada miembro decide por sí mismo y
+   * quien gestiona miembros puede hacerlo por cualquiera
+   */
+  async setAcceptsAssignments(context: OrganizationContext, userId: string, acceptsAssignments: boolean): Promise<void> {
+    if (userId !== context.member.userId && !context.permissions.includes('members:manage')) {
+      throw new Error('No puedes cambiar la disponibilidad de otro miembro');
+    }
+    const member = await storage.getOrganizationMember(context.organization.id, userId);
+    if (!member) {
+      throw new Error('Miembro no encontrado');
+    }
+    await storage.updateOrganizationMember(context.organization.id, userId, { acceptsAssignments });
+  }
+
+  async removeMember(context: OrganizationContext, userId: string): Promise<void> {
+    const member = await this.getManageableMember(context, userId);
+    await storage.removeOrganizationMember(context.organization.id, member.userId);
+  }
+
+  // Nadie gestiona al owner ni a sí mismo, y solo el owner gestiona admins
+  private async getManageableMember(context: OrganizationContext, userId: string): Promise<OrganizationMember> {
+    const member = await storage.getOrganizationMember(context.organization.id, userId);
+    if (!member) {
+      throw new Error('Miembro no encontrado');
+    }
+    if (member.role === 'owner' || member.userId === context.member.userId) {
+      throw new Error('No se puede modificar a este miembro');
+    }
+    if (member.role === 'admin' && context.role !== 'owner') {
+      throw new Error('Solo el owner puede modificar administradores');
+    }
+    return member;
+  }
+
+  private assertAssignableRole(context: OrganizationContext, role: string): void {
+    if (!isOrganizationRole(role) || role === 'owner') {
+      throw new Error('Rol inválido');
+    }
+    if (role === 'admin' && context.role !== 'owner') {
+      throw new Error('Solo el owner puede nombrar administradores');
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
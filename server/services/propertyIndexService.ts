@@ -0,0 +1,198 @@
+import type { InsertIndexedProperty, PropertyIndexSync } from '@shared/schema';
+import type { PropertyIndexFacets } from '../storage';
+import { createInventoryProvider, resolveInventoryProviderType, type Property, type PropertySearchCriteria } from './inventoryProvider';
+import { propertyTypeSynonyms } from './inventoryService';
+
+const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+const STARTUP_SYNC_DELAY_MS = 30 * 1000;
+const DEFAULT_USD_TO_RD_RATE = 60;
+
+export interface PropertyIndexQuery extends PropertySearchCriteria {
+  query?: string;
+  sort?: 'relevance' | 'price_asc' | 'price_desc';
+  page?: number;
+}
+
+export interface PropertyIndexResult {
+  properties: Property[];
+  total: number;
+  page: number;
+  facets: PropertyIndexFacets;
+  lastSyncedAt: Date | null;
+}
+
+/**
+ * Índice local de propiedades en Postgres.
+ * Se sincroniza periódicamente desde el InventoryProvider de cada usuario y responde
+ * búsquedas de texto completo y facetas sin depender del CRM remoto.
+ */
+export class PropertyIndexService {
+  private runningSyncs = new Map<string, Promise<PropertyIndexSync | null>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Sincronización periódica de todos los usuarios (PROPERTY_INDEX_SYNC_MINUTES, 0 la desactiva)
+   */
+  start(): void {
+    const minutes = Number(process.env.PROPERTY_INDEX_SYNC_MINUTES ?? DEFAULT_SYNC_INTERVAL_MINUTES);
+    if (!minutes || this.timer) return;
+
+    console.log(`🗂️ [INDEX] Property index sync every ${minutes} minutes`);
+    setTimeout(() => this.syncAll(), STARTUP_SYNC_DELAY_MS);
+    this.timer = setInterval(() => this.syncAll(), minutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async syncAll(): Promise<void> {
+    const { storage } = await import('../storage');
+    const allSettings = await storage.getAllUserSettings();
+
+    for (const settings of allSettings) {
+      if (!resolveInventoryProviderType(settings)) continue;
+      try {
+        await this.syncUser(settings.userId);
+      } catch (error) {
+        console.error(`❌ [INDEX] Sync failed for user ${settings.userId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Copiar el inventario del usuario al índice. Si el proveedor falla se conserva
+   * el índice anterior, por lo que las búsquedas siguen funcionando durante la caída.
+   */
+  async syncUser(userId: string): Promise<PropertyIndexSync | null> {
+    const running = this.runningSyncs.get(userId);
+    if (running) {
+      return running;
+    }
+
+    const sync = this.runSync(userId).finally(() => this.runningSyncs.delete(userId));
+    this.runningSyncs.set(userId, sync);
+    return sync;
+  }
+
+  private async runSync(userId: string): Promise<PropertyIndexSync | null> {
+    const { storage } = await import('../storage');
+    const settings = await storage.getUserSettings(userId);
+    const provider = createInventoryProvider(userId, settings);
+    if (!provider) {
+      return null;
+    }
+
+    await storage.upsertPropertyIndexSync({
+      userId,
+      provider: provider.type,
+      status: 'SYNCING',
+      lastAttemptAt: new Date(),
+    });
+
+    try {
+      const properties = await provider.listProperties();
+      const rate = settings?.usdToRdRate || DEFAULT_USD_TO_RD_RATE;
+      await storage.replaceIndexedProperties(userId, properties.map(property => this.toIndexRow(userId, provider.type, property, rate)));
+
+      console.log(`✅ [INDEX] Indexed ${properties.length} properties from ${provider.type} for user ${userId}`);
+      return await storage.upsertPropertyIndexSync({
+        userId,
+        provider: provider.type,
+        status: 'READY',
+        error: null,
+        propertyCount: properties.length,
+        lastSyncedAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ [INDEX] Failed to sync ${provider.type} for user ${userId}:`, message);
+      return await storage.upsertPropertyIndexSync({
+        userId,
+        provider: provider.type,
+        status: 'ERROR',
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Búsqueda en el índice con texto completo, filtros y facetas
+   */
+  async search(userId: string, query: PropertyIndexQuery): Promise<PropertyIndexResult> {
+    const { storage } = await import('../storage');
+    const settings = await storage.getUserSettings(userId);
+    const rate = settings?.usdToRdRate || DEFAULT_USD_TO_RD_RATE;
+    const limit = Math.min(Math.max(query.limit || 20, 1), 100);
+    const page = Math.max(query.page || 1, 1);
+
+    const toUsd = (amount?: number) => amount ? this.toUsd(amount, query.currency || 'USD', rate) ?? undefined : undefined;
+
+    const result = await storage.searchIndexedProperties(userId, {
+      query: query.query?.trim() || undefined,
+      operation: query.operation,
+      propertyTypes: query.propertyType ? propertyTypeSynonyms(query.propertyType) : undefined,
+      city: query.city,
+      zones: query.zones,
+      roomsMin: query.rooms,
+      bathroomsMin: query.bathrooms,
+      priceUsdMin: toUsd(query.budgetMin),
+      priceUsdMax: toUsd(query.budgetMax),
+      excludeIds: query.excludeIds,
+      sort: query.sort,
+      limit,
+      offset: (page - 1) * limit,
+    });
+    const sync = await storage.getPropertyIndexSync(userId);
+
+    return {
+      properties: result.properties.map(row => row.data as Property),
+      total: result.total,
+      page,
+      facets: result.facets,
+      lastSyncedAt: sync?.lastSyncedAt || null,
+    };
+  }
+
+  async getStatus(userId: string): Promise<PropertyIndexSync | undefined> {
+    const { storage } = await import('../storage');
+    return await storage.getPropertyIndexSync(userId);
+  }
+
+  toIndexRow(userId: string, provider: string, property: Property, usdToRdRate: number = DEFAULT_USD_TO_RD_RATE): InsertIndexedProperty {
+    const { raw, ...data } = property;
+    return {
+      userId,
+      provider,
+      externalId: property.id,
+      slug: property.slug,
+      title: property.title,
+      description: property.description,
+      operation: property.operation,
+      propertyType: property.propertyType,
+      price: property.price,
+      currency: property.currency,
+      priceUsd: property.price ? this.toUsd(property.price, property.currency, usdToRdRate) : null,
+      sector: property.location.sector,
+      city: property.location.city,
+      rooms: property.specifications.rooms !== null ? Math.round(property.specifications.rooms) : null,
+      bathrooms: property.specifications.bathrooms,
+      area: property.specifications.area,
+      parking: property.specifications.parking !== null ? Math.round(property.specifications.parking) : null,
+      featuredImage: property.media.featuredImage,
+      url: property.url,
+      data,
+    };
+  }
+
+  private toUsd(amount: number, currency: string | null, usdToRdRate: number): number | null {
+    if (!currency || /US/i.test(currency)) return amount;
+    if (/RD|DOP|PESO/i.test(currency)) return Math.round(amount / usdToRdRate);
+    return null; // Moneda desconocida: sin precio comparable
+  }
+}
+
+export const propertyIndexService = new PropertyIndexService();
@@ -0,0 +1,354 @@
+import type { SavedSearch } from '@shared/schema';
+import type { ClientQualification } from './aiService';
+import { formatPriceLabel, type Property, type PropertySearchCriteria } from './inventoryProvider';
+
+const DEFAULT_ALERT_INTERVAL_MINUTES = 360;
+const MAX_ALERT_PROPERTIES = 6; // sendPropertyRecommendations envía como máximo 6
+const MAX_MATCHES_PER_RUN = 100;
+
+// Frases con las que el cliente deja de recibir alertas
+const OPT_OUT_PATTERN = /^\s*(stop|baja|cancelar alertas|no\s+(m[aá]s|quiero)\s+(alertas|avisos|notificaciones)|det[eé]n\s+(las\s+)?(alertas|avisos))\s*[.!]*\s*$/i;
+
+export const OPT_OUT_HINT = 'Si no quieres recibir más avisos, responde *NO MÁS ALERTAS*.';
+
+type SeenPrices = Record<string, number | null>;
+
+export interface AlertCandidate {
+  property: Property;
+  reason: 'new' | 'price_drop';
+  previousPrice?: number;
+}
+
+/**
+ * Convertir los criterios extraídos por assessClientQualification (estructura anidada
+ * más campos legacy) en criterios de búsqueda del inventario
+ */
+export function qualificationToSearchCriteria(extracted: any): PropertySearchCriteria {
+  const number = (value: any) => {
+    const parsed = Number(value);
+    return value !== null && value !== undefined && value !== '' && !isNaN(parsed) && parsed > 0 ? parsed : undefined;
+  };
+  const operation = extracted?.operation || extracted?.searchObjective?.operation;
+  const currency = extracted?.currency || extracted?.budget?.currency;
+  const zones: string[] = (extracted?.zones || extracted?.location?.zones || [])
+    .filter((zone: any) => typeof zone === 'string' && zone.trim() && !/cualquier|toda|no importa/i.test(zone));
+
+  return {
+    operation: /alquil|rent/i.test(operation || '') ? 'rent' : /compra|inversi|sale/i.test(operation || '') ? 'sale' : undefined,
+    propertyType: extracted?.property_type || extracted?.searchObjective?.property_type || undefined,
+    budgetMin: number(extracted?.budget_min ?? extracted?.budget?.min),
+    budgetMax: number(extracted?.budget_max ?? extracted?.budget?.max),
+    currency: /DOP|RD/i.test(currency || '') ? 'RD$' : /USD/i.test(currency || '') ? 'USD' : undefined,
+    zones: zones.length > 0 ? zones : undefined,
+    rooms: number(extracted?.rooms ?? extracted?.specifications?.rooms),
+    bathrooms: number(extracted?.bathrooms ?? extracted?.specifications?.bathrooms),
+  };
+}
+
+/**
+ * Propiedades que justifican una alerta: nuevas (nunca vistas) o con precio rebajado
+ */
+export function findAlertCandidates(properties: Property[], seenPrices: SeenPrices): AlertCandidate[] {
+  return properties.flatMap((property): AlertCandidate[] => {
+    if (!(property.id in seenPrices)) {
+      return [{ property, reason: 'new' }];
+    }
+    const previousPrice = seenPrices[property.id];
+    if (previousPrice && property.price && property.price < previousPrice) {
+      return [{ property, reason: 'price_drop', previousPrice }];
+    }
+    return [];
+  });
+}
+
+export function isOptOutMessage(message: string): boolean {
+  return OPT_OUT_PATTERN.test(message || '');
+}
+
+/**
+ * Búsquedas guardadas por conversación.
+ * Cuando los criterios del cliente no tienen resultados se guardan, se re-ejecutan
+ * periódicamente contra el inventario y las propiedades nuevas o rebajadas se envían por WhatsApp.
+ */
+export class SavedSearchService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Re-ejecución periódica (SAVED_SEARCH_ALERT_MINUTES, 0 la desactiva)
+   */
+  start(): void {
+    const minutes = Number(process.env.SAVED_SEARCH_ALERT_MINUTES ?? DEFAULT_ALERT_INTERVAL_MINUTES);
+    if (!minutes || this.timer) return;
+
+    console.log(`🔔 [ALERTS] Saved search alerts every ${minutes} minutes`);
+    this.timer = setInterval(() => this.runAll(), minutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Guardar los criterios de la conversación. Los criterios de la calificación son la base
+   * y los explícitos (los que usó el modelo en la búsqueda) tienen prioridad.
+   * No reactiva búsquedas de clientes que pidieron no recibir alertas salvo que se indique.
+   * Dentro de un turno se usa la calificación del turno (`assessQualification`) para no repetirla.
+   */
+  async saveFromConversation(
+    userId: string,
+    conversationId: string,
+    explicitCriteria: PropertySearchCriteria = {},
+    options: { message?: string; reactivate?: boolean; assessQualification?: () => Promise<ClientQualification> } = {}
+  ): Promise<SavedSearch | null> {
+    const { storage } = await import('../storage');
+    const conversation = await storage.getConversationById(conversationId);
+    if (!conversation) return null;
+
+    const existing = await storage.getSavedSearchByConversation(conversationId);
+    if (existing?.status === 'OPTED_OUT' && !options.reactivate) {
+      console.log(`🔕 [ALERTS] Conversation ${conversationId} opted out of alerts, not saving search`);
+      return null;
+    }
+
+    let qualificationCriteria: PropertySearchCriteria = {};
+    try {
+      const { aiService } = await import('./aiService');
+      const qualification = options.assessQualification
+        ? await options.assessQualification()
+        : await aiService.assessClientQualification(options.message || '', conversationId);
+      qualificationCriteria = qualificationToSearchCriteria(qualification.extractedCriteria);
+    } catch (error) {
+      console.warn('⚠️ [ALERTS] Qualification criteria unavailable, using explicit criteria only:', (error as Error).message);
+    }
+
+    const { excludeIds, limit, ...explicit } = explicitCriteria;
+    const criteria = Object.fromEntries(
+      Object.entries({ ...qualificationCriteria, ...explicit }).filter(([, value]) => value !== undefined && value !== null)
+    ) as PropertySearchCriteria;
+
+    if (Object.keys(criteria).length === 0) {
+      return null;
+    }
+
+    // Lo que el cliente ya recibió no se vuelve a enviar como novedad
+    const sentPropertyIds: string[] = (conversation.context as any)?.sentPropertyIds || [];
+    const seenPrices: SeenPrices = { ...((existing?.seenPrices as SeenPrices) || {}) };
+    for (const id of sentPropertyIds) {
+      if (!(id in seenPrices)) seenPrices[id] = null;
+    }
+
+    const saved = await storage.upsertSavedSearch({
+      userId,
+      conversationId,
+      clientPhone: conversation.clientPhone,
+      criteria,
+      status: 'ACTIVE',
+      seenPrices,
+      optedOutAt: null,
+    });
+    console.log(`🔔 [ALERTS] Saved search for conversation ${conversationId}:`, criteria);
+    return saved;
+  }
+
+  async runAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const { storage } = await import('../storage');
+      const searches = await storage.getActiveSavedSearches();
+      // El inventario de cada usuario se carga una sola vez por ronda
+      const inventoryCache = new Map<string, Promise<Property[] | null>>();
+
+      for (const search of searches) {
+        try {
+          await this.runSearch(search, inventoryCache);
+        } catch (error) {
+          console.error(`❌ [ALERTS] Saved search ${search.id} failed:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Re-ejecutar una búsqueda guardada y avisar al cliente si hay novedades.
+   * Devuelve cuántas propiedades se enviaron.
+   */
+  async runSearch(search: SavedSearch, inventoryCache: Map<string, Promise<Property[] | null>> = new Map()): Promise<number> {
+    const { storage } = await import('../storage');
+    const matches = await this.findMatches(search.userId, search.criteria as PropertySearchCriteria, inventoryCache);
+
+    if (!matches) {
+      console.log(`⏭️ [ALERTS] No inventory available for user ${search.userId}`);
+      return 0;
+    }
+
+    const seenPrices: SeenPrices = { ...((search.seenPrices as SeenPrices) || {}) };
+    const candidates = findAlertCandidates(matches, seenPrices).slice(0, MAX_ALERT_PROPERTIES);
+
+    // Las coincidencias ya conocidas actualizan su precio; las no enviadas quedan para la próxima vez
+    for (const property of matches) {
+      if (property.id in seenPrices) seenPrices[property.id] = property.price;
+    }
+
+    let sent = 0;
+    if (candidates.length > 0) {
+      sent = await this.sendAlert(search, candidates);
+      if (sent > 0) {
+        for (const { property } of candidates) seenPrices[property.id] = property.price;
+      }
+    }
+
+    await storage.updateSavedSearch(search.id, {
+      seenPrices,
+      lastRunAt: new Date(),
+      ...(sent > 0 ? {
+        lastNotifiedAt: new Date(),
+        notificationCount: (search.notificationCount || 0) + 1,
+      } : {}),
+    });
+
+    return sent;
+  }
+
+  /**
+   * Si el mensaje es una baja y la conversación tiene alertas activas, desactivarlas y confirmar.
+   * Devuelve true cuando el mensaje se consumió como baja.
+   */
+  async handleOptOut(conversationId: string, message: string, instanceName?: string): Promise<boolean> {
+    if (!isOptOutMessage(message)) return false;
+
+    const { storage } = await import('../storage');
+    const search = await storage.getSavedSearchByConversation(conversationId);
+    if (!search || search.status !== 'ACTIVE') return false;
+
+    await storage.updateSavedSearch(search.id, { status: 'OPTED_OUT', optedOutAt: new Date() });
+    console.log(`🔕 [ALERTS] Conversation ${conversationId} opted out of saved search alerts`);
+
+    const conversation = await storage.getConversationById(conversationId);
+    const resolvedInstance = await this.resolveInstance(search.userId, instanceName);
+    if (conversation && resolvedInstance) {
+      const confirmation = 'Listo, no te enviaré más avisos de nuevas propiedades. Si cambias de opinión, solo dime que te avise de nuevo. 🙌';
+      const { evolutionApiService } = await import('./evolutionApiService');
+      const result = await evolutionApiService.sendMessage(resolvedInstance, conversation.clientPhone, confirmation);
+      await storage.createMessage({
+        conversationId,
+        whatsappInstanceId: conversation.whatsappInstanceId,
+        messageId: result.messageId || `alert_optout_${Date.now()}`,
+        fromMe: true,
+        messageType: 'text',
+        content: confirmation,
+        timestamp: new Date(),
+      });
+    }
+    return true;
+  }
+
+  private async findMatches(
+    userId: string,
+    criteria: PropertySearchCriteria,
+    inventoryCache: Map<string, Promise<Property[] | null>>
+  ): Promise<Property[] | null> {
+    const { propertyIndexService } = await import('./propertyIndexService');
+    const indexed = await propertyIndexService.search(userId, { ...criteria, limit: MAX_MATCHES_PER_RUN });
+    if (indexed.lastSyncedAt) {
+      return indexed.properties;
+    }
+
+    // Sin índice sincronizado se filtra el inventario completo del proveedor
+    if (!inventoryCache.has(userId)) {
+      inventoryCache.set(userId, this.loadInventory(userId));
+    }
+    const properties = await inventoryCache.get(userId)!;
+    if (!properties) return null;
+
+    const { filterProperties } = await import('./inventoryService');
+    return filterProperties(properties, criteria).slice(0, MAX_MATCHES_PER_RUN);
+  }
+
+  private async loadInventory(userId: string): Promise<Property[] | null> {
+    const { getInventoryProvider } = await import('./inventoryProvider');
+    const provider = await getInventoryProvider(userId);
+    return provider ? await provider.listProperties() : null;
+  }
+
+  private async sendAlert(
+    search: SavedSearch,
+    candidates: AlertCandidate[]
+  ): Promise<number> {
+    const { storage } = await import('../storage');
+    const { evolutionApiService } = await import('./evolutionApiService');
+
+    const conversation = await storage.getConversationById(search.conversationId);
+    const instanceName = await this.resolveInstance(search.userId);
+    if (!conversation || !instanceName) {
+      console.warn(`⚠️ [ALERTS] Cannot notify conversation ${search.conversationId}: no connected instance`);
+      return 0;
+    }
+
+    const drops = candidates.filter(candidate => candidate.reason === 'price_drop').length;
+    const intro = drops === candidates.length
+      ? `🔔 ¡Buenas noticias! Bajaron de precio ${candidates.length === 1 ? 'una propiedad' : `${candidates.length} propiedades`} que coinciden con lo que buscas:`
+      : `🔔 ¡Hola! Entraron ${candidates.length === 1 ? 'una propiedad nueva' : `${candidates.length} propiedades nuevas`} que coinciden con lo que buscabas:`;
+
+    await evolutionApiService.sendMessage(instanceName, conversation.clientPhone, intro);
+
+    const cards = candidates.map(({ property, reason, previousPrice }) => ({
+      imageUrl: property.media.featuredImage,
+      title: property.title,
+      price: reason === 'price_drop' && previousPrice
+        ? `${property.priceLabel} (antes ${formatPriceLabel(previousPrice, property.currency)})`
+        : property.priceLabel,
+      description: property.description || property.location.label,
+      propertyUrl: property.url || '',
+      uid: property.id,
+      slug: property.slug,
+      forSale: property.operation === 'sale',
+      forRent: property.operation === 'rent',
+      sector: property.location.sector,
+      area: property.specifications.area,
+      parking: property.specifications.parking,
+    }));
+    const result = await evolutionApiService.sendPropertyRecommendations(instanceName, conversation.clientPhone, cards);
+    if (!result.success) {
+      // Sin tarjetas entregadas no se marcan como enviadas: la próxima corrida lo reintenta
+      console.warn(`⚠️ [ALERTS] Property cards were not delivered to conversation ${conversation.id}`);
+      return 0;
+    }
+    await evolutionApiService.sendMessage(instanceName, conversation.clientPhone, OPT_OUT_HINT);
+
+    await storage.createMessage({
+      conversationId: conversation.id,
+      whatsappInstanceId: conversation.whatsappInstanceId,
+      messageId: `alert_${Date.now()}`,
+      fromMe: true,
+      messageType: 'text',
+      content: `${intro}\n${candidates.map(({ property }) => `• ${property.title} (${property.priceLabel})`).join('\n')}\n\n${OPT_OUT_HINT}`,
+      timestamp: new Date(),
+    });
+
+    // Marcar como enviadas para que search_properties no las repita
+    const context = (conversation.context as any) || {};
+    const sentPropertyIds: string[] = context.sentPropertyIds || [];
+    await storage.updateConversationContext(conversation.id, {
+      ...context,
+      sentPropertyIds: Array.from(new Set([...sentPropertyIds, ...candidates.map(({ property }) => property.id)])),
+    });
+
+    console.log(`🔔 [ALERTS] Sent ${candidates.length} properties to conversation ${conversation.id}`);
+    return candidates.length;
+  }
+
+  private async resolveInstance(userId: string, preferredInstance?: string): Promise<string | null> {
+    const { instanceResolver } = await import('./instanceResolver');
+    return await instanceResolver.resolveForOutgoing(userId, preferredInstance);
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
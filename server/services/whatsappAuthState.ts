@@ -0,0 +1,145 @@
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  type AuthenticationCreds,
+  type AuthenticationState,
+  type SignalDataSet,
+  type SignalDataTypeMap,
+} from '@whiskeysockets/baileys';
+import path from 'path';
+import fs from 'fs';
+import { storage } from '../storage';
+import { decrypt, encrypt } from '../utils/encryption';
+
+const CREDS_CATEGORY = 'creds';
+
+// Tipos de clave Signal tal como los nombra useMultiFileAuthState (`${tipo}-${id}.json`);
+// los compuestos primero para que 'sender-key-memory' no se lea como 'sender-key'
+const KEY_CATEGORIES = [
+  'app-state-sync-version',
+  'app-state-sync-key',
+  'sender-key-memory',
+  'sender-key',
+  'pre-key',
+  'session',
+];
+
+// Misma normalización que useMultiFileAuthState aplica a sus nombres de archivo, para que
+// las claves importadas de carpetas coincidan con las que Baileys pide después
+function normalizeKeyId(id: string): string {
+  return id.replace(/\//g, '__').replace(/:/g, '-');
+}
+
+function serialize(value: unknown): string {
+  return encrypt(JSON.stringify(value, BufferJSON.replacer));
+}
+
+function deserialize<T>(data: string): T {
+  return JSON.parse(decrypt(data), BufferJSON.reviver);
+}
+
+/**
+ * Estado de autenticación de Baileys guardado en Postgres (whatsapp_auth_states) y cifrado.
+ * Equivalente a useMultiFileAuthState pero sin secretos en disco: las instancias sobreviven
+ * a la reconstrucción del contenedor.
+ */
+export async function useDatabaseAuthState(instanceId: string): Promise<{
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+}> {
+  const [storedCreds] = await storage.getWhatsappAuthStates(instanceId, CREDS_CATEGORY, [CREDS_CATEGORY]);
+  const creds: AuthenticationCreds = storedCreds ? deserialize(storedCreds.data) : initAuthCreds();
+
+  const state: AuthenticationState = {
+    creds,
+    keys: {
+      get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+        const requested = new Map(ids.map(id => [normalizeKeyId(id), id]));
+        const rows = await storage.getWhatsappAuthStates(instanceId, type, Array.from(requested.keys()));
+        const data: { [id: string]: SignalDataTypeMap[T] } = {};
+        for (const row of rows) {
+          let value = deserialize<any>(row.data);
+          if (type === 'app-state-sync-key' && value) {
+            value = proto.Message.AppStateSyncKeyData.fromObject(value);
+          }
+          data[requested.get(row.keyId) || row.keyId] = value;
+        }
+        return data;
+      },
+      set: async (data: SignalDataSet) => {
+        for (const [category, values] of Object.entries(data)) {
+          const entries = Object.entries(values || {}).map(([id, value]) => [normalizeKeyId(id), value] as const);
+          const upserts = entries.filter(([, value]) => value);
+          const deletions = entries.filter(([, value]) => !value).map(([keyId]) => keyId);
+
+          await storage.upsertWhatsappAuthStates(upserts.map(([keyId, value]) => ({
+            instanceId,
+            category,
+            keyId,
+            data: serialize(value),
+          })));
+          await storage.deleteWhatsappAuthStates(instanceId, category, deletions);
+        }
+      },
+    },
+  };
+
+  return {
+    state,
+    saveCreds: async () => {
+      await storage.upsertWhatsappAuthStates([{
+        instanceId,
+        category: CREDS_CATEGORY,
+        keyId: CREDS_CATEGORY,
+        data: serialize(state.creds),
+      }]);
+    },
+  };
+}
+
+/**
+ * Leer el nombre de archivo de useMultiFileAuthState: 'pre-key-12.json' → ['pre-key', '12']
+ */
+export function parseAuthFileName(fileName: string): { category: string; keyId: string } | null {
+  if (!fileName.endsWith('.json')) return null;
+  const name = fileName.slice(0, -'.json'.length);
+  if (name === CREDS_CATEGORY) {
+    return { category: CREDS_CATEGORY, keyId: CREDS_CATEGORY };
+  }
+
+  const category = KEY_CATEGORIES.find(candidate => name.startsWith(`${candidate}-`));
+  if (!category) return null;
+  return { category, keyId: name.slice(category.length + 1) };
+}
+
+/**
+ * Importar una carpeta de useMultiFileAuthState a la base de datos y borrarla del disco.
+ * Solo se importa si la instancia aún no tiene estado en la base: una carpeta que reaparece
+ * (p. ej. restaurada por un despliegue) es más antigua y no debe pisar las credenciales vigentes.
+ * Devuelve cuántos archivos se importaron (0 si la carpeta no existe o se descartó).
+ */
+export async function migrateAuthFolder(instanceId: string, folderPath: string): Promise<number> {
+  if (!fs.existsSync(folderPath) || !fs.statSync(folderPath).isDirectory()) {
+    return 0;
+  }
+
+  if (await storage.hasWhatsappAuthState(instanceId)) {
+    console.log(`📁 [MIGRATION] ${folderPath} is stale, the database already has auth state for ${instanceId}; removing it`);
+    fs.rmSync(folderPath, { recursive: true, force: true });
+    return 0;
+  }
+
+  const states = [];
+  for (const fileName of fs.readdirSync(folderPath)) {
+    const parsed = parseAuthFileName(fileName);
+    if (!parsed) continue;
+
+    const value = JSON.parse(fs.readFileSync(path.join(folderPath, fileName), 'utf-8'), BufferJSON.reviver);
+    states.push({ instanceId, ...parsed, data: serialize(value) });
+  }
+
+  await storage.upsertWhatsappAuthStates(states);
+  fs.rmSync(folderPath, { recursive: true, force: true });
+  return states.length;
+}
@@ -6,6 +6,24 @@ import {
   messages,
   appointments,
   leads,
+  knowledgeSources,
+  knowledgeChunks,
+  indexedProperties,
+  propertyIndexSyncs,
+  agentSchedules,
+  calendarBusyBlocks,
+  calendarConnections,
+  appointmentReminders,
+  appointmentChanges,
+  leadStages,
+  leadActivities,
+  leadFieldChanges,
+  leadSyncLogs,
+  savedSearches,
+  whatsappAuthStates,
+  organizations,
+  organizationMembers,
+  organizationInvitations,
   type User,
   type UpsertUser,
   type UserSettings,
@@ -19,10 +37,81 @@ import {
   type Appointment,
   type InsertAppointment,
   type Lead,
-  type InsertLead
+  type InsertLead,
+  type KnowledgeSource,
+  type InsertKnowledgeSource,
+  type KnowledgeChunk,
+  type InsertKnowledgeChunk,
+  type IndexedProperty,
+  type InsertIndexedProperty,
+  type PropertyIndexSync,
+  type InsertPropertyIndexSync,
+  type SavedSearch,
+  type InsertSavedSearch,
+  type WhatsappAuthState,
+  type InsertWhatsappAuthState,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type InsertOrganizationMember,
+  type OrganizationInvitation,
+  type InsertOrganizationInvitation,
+  type AgentSchedule,
+  type InsertAgentSchedule,
+  type CalendarBusyBlock,
+  type InsertCalendarBusyBlock,
+  type CalendarConnection,
+  type InsertCalendarConnection,
+  type AppointmentReminder,
+  type InsertAppointmentReminder,
+  type AppointmentChange,
+  type InsertAppointmentChange,
+  type LeadStage,
+  type InsertLeadStage,
+  type LeadActivity,
+  type InsertLeadActivity,
+  type LeadFieldChange,
+  type InsertLeadFieldChange,
+  type LeadSyncLog,
+  type InsertLeadSyncLog
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { decryptSecretSettings, encryptSecretSettings } from "./utils/secretSettings";
+import { decrypt, encrypt, isEncrypted } from "./utils/encryption";
+import { normalizePhone, phoneVariants } from "./utils/phone";
+import { eq, desc, asc, and, or, gte, lte, lt, ilike, inArray, notInArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+
+// Filtros del índice local de propiedades (los precios ya vienen convertidos a USD)
+export interface PropertyIndexFilters {
+  query?: string;
+  operation?: string;
+  propertyTypes?: string[];
+  city?: string;
+  zones?: string[];
+  roomsMin?: number;
+  bathroomsMin?: number;
+  priceUsdMin?: number;
+  priceUsdMax?: number;
+  excludeIds?: string[];
+  sort?: 'relevance' | 'price_asc' | 'price_desc';
+  limit: number;
+  offset: number;
+}
+
+// Conexión o transacción sobre la que corren las consultas (por defecto el pool)
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface PropertyFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PropertyIndexFacets {
+  city: PropertyFacetCount[];
+  propertyType: PropertyFacetCount[];
+  rooms: PropertyFacetCount[];
+  priceBand: PropertyFacetCount[];
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -31,6 +120,7 @@ export interface IStorage {
   
   // User settings
   getUserSettings(userId: string): Promise<UserSettings | undefined>;
+  getAllUserSettings(): Promise<UserSettings[]>;
   upsertUserSettings(settings: InsertUserSettings & { userId: string }): Promise<UserSettings>;
   
   // WhatsApp instances
@@ -42,6 +132,13 @@ export interface IStorage {
   setActiveWhatsappInstance(userId: string, instanceName: string): Promise<void>;
   updateWhatsappInstanceStatus(instanceName: string, status: string, qrCode?: string): Promise<void>;
   deleteWhatsappInstance(instanceName: string): Promise<void>;
+  
+  // WhatsApp auth state (Baileys)
+  getWhatsappAuthStates(instanceId: string, category: string, keyIds: string[]): Promise<WhatsappAuthState[]>;
+  upsertWhatsappAuthStates(states: InsertWhatsappAuthState[]): Promise<void>;
+  deleteWhatsappAuthStates(instanceId: string, category: string, keyIds: string[]): Promise<void>;
+  clearWhatsappAuthState(instanceId: string): Promise<void>;
+  hasWhatsappAuthState(instanceId: string): Promise<boolean>;
   deleteInstanceConversationsAndMessages(instanceName: string): Promise<void>;
   
   // Conversations
@@ -51,8 +148,13 @@ export interface IStorage {
   getConversationByPhone(whatsappInstanceId: string, clientPhone: string): Promise<Conversation | undefined>;
   getConversationByUserAndPhone(userId: string, clientPhone: string): Promise<Conversation | undefined>;
   getConversationsByInstance(instanceName: string): Promise<Conversation[]>;
-  getUserConversations(userId: string): Promise<Conversation[]>;
+  getUserConversations(userId: string, filters?: { assignedTo?: string }): Promise<Conversation[]>;
   updateConversationStatus(id: string, status: string): Promise<void>;
+  assignConversation(id: string, assignedTo: string | null): Promise<void>;
+  getEscalatedConversations(): Promise<Conversation[]>;
+  recordAgentMessage(id: string): Promise<void>;
+  updateConversationSlaLevel(id: string, slaLevel: number): Promise<void>;
+  pauseConversationAi(id: string, until: Date): Promise<void>;
   updateConversationContext(id: string, context: any): Promise<void>;
   updateConversationInstance(id: string, whatsappInstanceId: string): Promise<void>;
   
@@ -60,15 +162,108 @@ export interface IStorage {
   createMessage(message: InsertMessage): Promise<Message>;
   getConversationMessages(conversationId: string): Promise<Message[]>;
   
+  // Message buffer
+  bufferMessage(messageId: string, bufferedContent: string, bufferDueAt: Date, remoteJid?: string): Promise<Message | undefined>;
+  getDueBufferedConversations(staleClaimBefore: Date, limit: number): Promise<string[]>;
+  claimBufferedMessages(conversationId: string, staleClaimBefore: Date, force?: boolean): Promise<Message[]>;
+  renewBufferClaim(ids: string[]): Promise<void>;
+  releaseBufferedMessages(ids: string[], retryAt: Date): Promise<void>;
+  markMessagesProcessed(ids: string[]): Promise<void>;
+  cancelBufferedMessages(conversationId: string): Promise<number>;
+  
   // Appointments
-  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  createAppointment(appointment: InsertAppointment, executor?: DbExecutor): Promise<Appointment>;
+  getAppointment(id: string): Promise<Appointment | undefined>;
+  updateAppointment(id: string, updates: Partial<InsertAppointment>, executor?: DbExecutor): Promise<Appointment | undefined>;
   getUserAppointments(userId: string): Promise<Appointment[]>;
+  getAppointmentsInRange(userId: string, from: Date, to: Date, executor?: DbExecutor): Promise<Appointment[]>;
+  withAgentScheduleLock<T>(agentId: string, fn: (tx: DbExecutor) => Promise<T>): Promise<T>;
+  getConversationAppointments(conversationId: string): Promise<Appointment[]>;
   updateAppointmentStatus(id: string, status: string): Promise<void>;
+  createAppointmentChange(change: InsertAppointmentChange): Promise<AppointmentChange>;
+  getAppointmentChanges(appointmentId: string): Promise<AppointmentChange[]>;
+  
+  // Calendar availability
+  getAgentSchedule(accountId: string, agentId: string): Promise<AgentSchedule | undefined>;
+  upsertAgentSchedule(schedule: InsertAgentSchedule): Promise<AgentSchedule>;
+  getBusyBlocksInRange(userId: string, from: Date, to: Date, executor?: DbExecutor): Promise<CalendarBusyBlock[]>;
+  createBusyBlock(block: InsertCalendarBusyBlock): Promise<CalendarBusyBlock>;
+  getBusyBlock(userId: string, id: string): Promise<CalendarBusyBlock | undefined>;
+  deleteBusyBlock(userId: string, id: string): Promise<void>;
+  replaceBusyBlocks(userId: string, agentId: string | null, source: string, from: Date, to: Date, blocks: InsertCalendarBusyBlock[]): Promise<void>;
+  getCalendarConnection(accountId: string, agentId: string): Promise<CalendarConnection | undefined>;
+  getCalendarConnectionByFeedToken(token: string): Promise<CalendarConnection | undefined>;
+  getCalDavConnections(): Promise<CalendarConnection[]>;
+  upsertCalendarConnection(connection: InsertCalendarConnection): Promise<CalendarConnection>;
+  updateCalendarConnection(id: string, updates: Partial<InsertCalendarConnection>): Promise<void>;
+  
+  // Appointment reminders
+  upsertAppointmentReminders(reminders: InsertAppointmentReminder[]): Promise<void>;
+  claimDueReminders(staleClaimBefore: Date, limit: number): Promise<AppointmentReminder[]>;
+  updateAppointmentReminder(id: string, updates: Partial<InsertAppointmentReminder>): Promise<void>;
+  getAppointmentAwaitingReply(conversationId: string, sentAfter: Date): Promise<{ appointment: Appointment; reminder: AppointmentReminder } | undefined>;
   
   // Leads
   createLead(lead: InsertLead): Promise<Lead>;
   getUserLeads(userId: string): Promise<Lead[]>;
+  getLead(id: string): Promise<Lead | undefined>;
+  getLeadByConversation(conversationId: string): Promise<Lead | undefined>;
+  findLeadByPhone(userId: string, phone: string): Promise<Lead | undefined>;
+  mergeLeads(primaryId: string, duplicateIds: string[], updates: Partial<InsertLead>): Promise<Lead | undefined>;
+  getLeadsToRescore(scoredBefore: Date, limit: number): Promise<Lead[]>;
+  getLeadsToSyncWithCrm(syncedBefore: Date, limit: number): Promise<Lead[]>;
+  updateLead(id: string, updates: Partial<InsertLead>): Promise<Lead | undefined>;
   updateLeadStatus(id: string, status: string): Promise<void>;
+  getLeadStages(userId: string): Promise<LeadStage[]>;
+  replaceLeadStages(userId: string, stages: InsertLeadStage[]): Promise<LeadStage[]>;
+  createLeadActivity(activity: InsertLeadActivity): Promise<LeadActivity>;
+  updateLeadActivity(id: string, updates: Partial<InsertLeadActivity>): Promise<void>;
+  getLeadActivities(leadId: string): Promise<LeadActivity[]>;
+  createLeadFieldChanges(changes: InsertLeadFieldChange[]): Promise<LeadFieldChange[]>;
+  getLeadFieldChanges(leadId: string): Promise<(LeadFieldChange & { messageContent: string | null })[]>;
+  createLeadSyncLog(log: InsertLeadSyncLog): Promise<LeadSyncLog>;
+  getLeadSyncLogs(leadId: string, limit: number): Promise<LeadSyncLog[]>;
+  
+  // Knowledge base
+  getKnowledgeSources(userId: string): Promise<KnowledgeSource[]>;
+  upsertKnowledgeSource(source: InsertKnowledgeSource): Promise<KnowledgeSource>;
+  updateKnowledgeSource(id: string, updates: Partial<InsertKnowledgeSource>): Promise<void>;
+  deleteKnowledgeSource(id: string): Promise<void>;
+  replaceKnowledgeChunks(sourceId: string, chunks: InsertKnowledgeChunk[]): Promise<void>;
+  getKnowledgeChunks(userId: string): Promise<KnowledgeChunk[]>;
+  
+  // Property index
+  replaceIndexedProperties(userId: string, properties: InsertIndexedProperty[]): Promise<void>;
+  searchIndexedProperties(userId: string, filters: PropertyIndexFilters): Promise<{
+    properties: IndexedProperty[];
+    total: number;
+    facets: PropertyIndexFacets;
+  }>;
+  getIndexedPropertiesByExternalIds(userId: string, externalIds: string[]): Promise<IndexedProperty[]>;
+  getPropertyIndexSync(userId: string): Promise<PropertyIndexSync | undefined>;
+  upsertPropertyIndexSync(sync: InsertPropertyIndexSync): Promise<PropertyIndexSync>;
+  
+  // Saved searches
+  getSavedSearchByConversation(conversationId: string): Promise<SavedSearch | undefined>;
+  getActiveSavedSearches(): Promise<SavedSearch[]>;
+  upsertSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: string, updates: Partial<InsertSavedSearch>): Promise<void>;
+  
+  // Organizations
+  getOrganization(id: string): Promise<Organization | undefined>;
+  getOrganizationByAccount(accountId: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization, ownerId: string): Promise<Organization>;
+  updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
+  getUserMemberships(userId: string): Promise<{ organization: Organization; member: OrganizationMember }[]>;
+  getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<{ member: OrganizationMember; user: User }[]>;
+  updateOrganizationMember(organizationId: string, userId: string, updates: Partial<InsertOrganizationMember>): Promise<void>;
+  removeOrganizationMember(organizationId: string, userId: string): Promise<void>;
+  createOrganizationInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
+  getOrganizationInvitationByToken(token: string): Promise<OrganizationInvitation | undefined>;
+  getPendingOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]>;
+  revokeOrganizationInvitation(organizationId: string, id: string): Promise<void>;
+  acceptOrganizationInvitation(invitation: OrganizationInvitation, userId: string): Promise<OrganizationMember>;
   
   // Dashboard stats
   getDashboardStats(userId: string): Promise<{
@@ -104,22 +299,28 @@ export class DatabaseStorage implements IStorage {
   // User settings
   async getUserSettings(userId: string): Promise<UserSettings | undefined> {
     const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
-    return settings;
+    return settings && decryptSecretSettings(settings);
+  }
+
+  async getAllUserSettings(): Promise<UserSettings[]> {
+    const allSettings = await db.select().from(userSettings);
+    return allSettings.map(settings => decryptSecretSettings(settings));
   }
 
   async upsertUserSettings(settingsData: InsertUserSettings & { userId: string }): Promise<UserSettings> {
+    const encryptedData = encryptSecretSettings(settingsData);
     const [settings] = await db
       .insert(userSettings)
-      .values(settingsData)
+      .values(encryptedData)
       .onConflictDoUpdate({
         target: userSettings.userId,
         set: {
-          ...settingsData,
+          ...encryptedData,
           updatedAt: new Date(),
         },
       })
       .returning();
-    return settings;
+    return decryptSecretSettings(settings);
   }
 
   // WhatsApp instances
@@ -215,6 +416,57 @@ export class DatabaseStorage implements IStorage {
       .where(eq(whatsappInstances.instanceName, instanceName));
   }
 
+  // WhatsApp auth state (Baileys)
+  async getWhatsappAuthStates(instanceId: string, category: string, keyIds: string[]): Promise<WhatsappAuthState[]> {
+    if (keyIds.length === 0) return [];
+    return await db
+      .select()
+      .from(whatsappAuthStates)
+      .where(and(
+        eq(whatsappAuthStates.instanceId, instanceId),
+        eq(whatsappAuthStates.category, category),
+        inArray(whatsappAuthStates.keyId, keyIds)
+      ));
+  }
+
+  async upsertWhatsappAuthStates(states: InsertWhatsappAuthState[]): Promise<void> {
+    if (states.length === 0) return;
+    await db
+      .insert(whatsappAuthStates)
+      .values(states)
+      .onConflictDoUpdate({
+        target: [whatsappAuthStates.instanceId, whatsappAuthStates.category, whatsappAuthStates.keyId],
+        set: {
+          data: sql`excluded.data`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async deleteWhatsappAuthStates(instanceId: string, category: string, keyIds: string[]): Promise<void> {
+    if (keyIds.length === 0) return;
+    await db
+      .delete(whatsappAuthStates)
+      .where(and(
+        eq(whatsappAuthStates.instanceId, instanceId),
+        eq(whatsappAuthStates.category, category),
+        inArray(whatsappAuthStates.keyId, keyIds)
+      ));
+  }
+
+  async clearWhatsappAuthState(instanceId: string): Promise<void> {
+    await db.delete(whatsappAuthStates).where(eq(whatsappAuthStates.instanceId, instanceId));
+  }
+
+  async hasWhatsappAuthState(instanceId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: whatsappAuthStates.id })
+      .from(whatsappAuthStates)
+      .where(eq(whatsappAuthStates.instanceId, instanceId))
+      .limit(1);
+    return !!row;
+  }
+
   async deleteInstanceConversationsAndMessages(instanceName: string): Promise<void> {
     // Obtener la instancia para conseguir su ID
     const instance = await this.getWhatsappInstance(instanceName);
@@ -291,11 +543,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(conversations.lastMessageAt));
   }
 
-  async getUserConversations(userId: string): Promise<Conversation[]> {
+  async getUserConversations(userId: string, filters: { assignedTo?: string } = {}): Promise<Conversation[]> {
     return await db
       .select()
       .from(conversations)
-      .where(eq(conversations.userId, userId))
+      .where(and(
+        eq(conversations.userId, userId),
+        filters.assignedTo ? eq(conversations.assignedTo, filters.assignedTo) : undefined,
+      ))
       .orderBy(desc(conversations.lastMessageAt));
   }
 
@@ -321,9 +576,52 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateConversationEscalation(id: string, isEscalated: boolean): Promise<void> {
+    // Cada escalación reinicia el SLA
+    await db
+      .update(conversations)
+      .set({
+        isEscalated,
+        escalatedAt: isEscalated ? new Date() : null,
+        lastAgentMessageAt: null,
+        slaLevel: 0,
+        lastMessageAt: new Date(),
+      })
+      .where(eq(conversations.id, id));
+  }
+
+  async getEscalatedConversations(): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.isEscalated, true))
+      .orderBy(asc(conversations.escalatedAt));
+  }
+
+  async recordAgentMessage(id: string): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ lastAgentMessageAt: new Date(), lastMessageAt: new Date() })
+      .where(eq(conversations.id, id));
+  }
+
+  async pauseConversationAi(id: string, until: Date): Promise<void> {
     await db
       .update(conversations)
-      .set({ isEscalated, lastMessageAt: new Date() })
+      .set({ aiPausedUntil: until })
+      .where(eq(conversations.id, id));
+  }
+
+  async updateConversationSlaLevel(id: string, slaLevel: number): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ slaLevel })
+      .where(eq(conversations.id, id));
+  }
+
+  async assignConversation(id: string, assignedTo: string | null): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ assignedTo, assignedAt: assignedTo ? new Date() : null })
       .where(eq(conversations.id, id));
   }
 
@@ -356,15 +654,133 @@ export class DatabaseStorage implements IStorage {
       .orderBy(messages.timestamp);
   }
 
+  // Message buffer
+  async bufferMessage(messageId: string, bufferedContent: string, bufferDueAt: Date, remoteJid?: string): Promise<Message | undefined> {
+    const [message] = await db
+      .update(messages)
+      .set({ isBuffered: true, isProcessed: false, bufferedContent, bufferDueAt, bufferClaimedAt: null, ...(remoteJid ? { remoteJid } : {}) })
+      .where(eq(messages.messageId, messageId))
+      .returning();
+    return message;
+  }
+
+  private pendingBufferCondition(staleClaimBefore: Date): SQL {
+    return and(
+      eq(messages.isBuffered, true),
+      eq(messages.isProcessed, false),
+      or(isNull(messages.bufferClaimedAt), lt(messages.bufferClaimedAt, staleClaimBefore))
+    )!;
+  }
+
+  // Conversaciones cuyo último mensaje en buffer ya venció
+  async getDueBufferedConversations(staleClaimBefore: Date, limit: number): Promise<string[]> {
+    const rows = await db
+      .select({ conversationId: messages.conversationId })
+      .from(messages)
+      .where(this.pendingBufferCondition(staleClaimBefore))
+      .groupBy(messages.conversationId)
+      .having(sql`max(${messages.bufferDueAt}) <= now()`)
+      .orderBy(sql`min(${messages.timestamp})`)
+      .limit(limit);
+    return rows.map(row => row.conversationId);
+  }
+
+  /**
+   * Reclamar los mensajes en buffer de una conversación. La fila de la conversación se bloquea
+   * con FOR UPDATE SKIP LOCKED para que dos procesos nunca respondan la misma ráfaga.
+   * Devuelve [] si otro worker la tiene o si el buffer aún no vence (salvo force).
+   */
+  async claimBufferedMessages(conversationId: string, staleClaimBefore: Date, force: boolean = false): Promise<Message[]> {
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ id: conversations.id })
+        .from(conversations)
+        .where(eq(conversations.id, conversationId))
+        .for('update', { skipLocked: true });
+      if (!locked) return [];
+
+      const pending = await tx
+        .select()
+        .from(messages)
+        .where(and(eq(messages.conversationId, conversationId), this.pendingBufferCondition(staleClaimBefore)))
+        .orderBy(asc(messages.timestamp));
+
+      const now = new Date();
+      if (pending.length === 0 || (!force && pending.some(message => message.bufferDueAt && message.bufferDueAt > now))) {
+        return [];
+      }
+
+      await tx
+        .update(messages)
+        .set({ bufferClaimedAt: now })
+        .where(inArray(messages.id, pending.map(message => message.id)));
+      return pending;
+    });
+  }
+
+  // Un worker que sigue respondiendo (p. ej. enviando partes con pausas) mantiene su reclamo
+  async renewBufferClaim(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(messages)
+      .set({ bufferClaimedAt: new Date() })
+      .where(and(inArray(messages.id, ids), eq(messages.isProcessed, false)));
+  }
+
+  // Tras un fallo la ráfaga vuelve al buffer y se reintenta al vencer retryAt
+  async releaseBufferedMessages(ids: string[], retryAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(messages)
+      .set({ bufferClaimedAt: null, bufferDueAt: retryAt, bufferAttempts: sql`${messages.bufferAttempts} + 1` })
+      .where(inArray(messages.id, ids));
+  }
+
+  async markMessagesProcessed(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(messages)
+      .set({ isProcessed: true })
+      .where(inArray(messages.id, ids));
+  }
+
+  // Descarta el buffer pendiente (se marca procesado sin respuesta de la IA)
+  async cancelBufferedMessages(conversationId: string): Promise<number> {
+    const cancelled = await db
+      .update(messages)
+      .set({ isProcessed: true })
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.isBuffered, true),
+        eq(messages.isProcessed, false)
+      ))
+      .returning({ id: messages.id });
+    return cancelled.length;
+  }
+
   // Appointments
-  async createAppointment(appointmentData: InsertAppointment): Promise<Appointment> {
-    const [appointment] = await db
+  async createAppointment(appointmentData: InsertAppointment, executor: DbExecutor = db): Promise<Appointment> {
+    const [appointment] = await executor
       .insert(appointments)
       .values(appointmentData)
       .returning();
     return appointment;
   }
 
+  async getAppointment(id: string): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async updateAppointment(id: string, updates: Partial<InsertAppointment>, executor: DbExecutor = db): Promise<Appointment | undefined> {
+    const [appointment] = await executor
+      .update(appointments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(appointments.id, id))
+      .returning();
+    return appointment;
+  }
+
   async getUserAppointments(userId: string): Promise<Appointment[]> {
     return await db
       .select()
@@ -373,6 +789,39 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(appointments.scheduledAt));
   }
 
+  // Citas activas (no canceladas) que empiezan dentro del rango
+  async getAppointmentsInRange(userId: string, from: Date, to: Date, executor: DbExecutor = db): Promise<Appointment[]> {
+    return await executor
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.userId, userId),
+        gte(appointments.scheduledAt, from),
+        lt(appointments.scheduledAt, to),
+        notInArray(appointments.status, ['CANCELLED'])
+      ))
+      .orderBy(asc(appointments.scheduledAt));
+  }
+  /**
+   * Serializar las reservas de un agente: pg_advisory_xact_lock(hashtext(agentId)) se mantiene
+   * hasta el final de la transacción, así la comprobación del horario y el insert no se cruzan
+   * con otra reserva del mismo agente
+   */
+  async withAgentScheduleLock<T>(agentId: string, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${agentId}))`);
+      return await fn(tx);
+    });
+  }
+
+  async getConversationAppointments(conversationId: string): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.conversationId, conversationId))
+      .orderBy(asc(appointments.scheduledAt));
+  }
+
   async updateAppointmentStatus(id: string, status: string): Promise<void> {
     await db
       .update(appointments)
@@ -380,11 +829,225 @@ export class DatabaseStorage implements IStorage {
       .where(eq(appointments.id, id));
   }
 
+  async createAppointmentChange(changeData: InsertAppointmentChange): Promise<AppointmentChange> {
+    const [change] = await db
+      .insert(appointmentChanges)
+      .values(changeData)
+      .returning();
+    return change;
+  }
+
+  async getAppointmentChanges(appointmentId: string): Promise<AppointmentChange[]> {
+    return await db
+      .select()
+      .from(appointmentChanges)
+      .where(eq(appointmentChanges.appointmentId, appointmentId))
+      .orderBy(desc(appointmentChanges.createdAt));
+  }
+
+  // Calendar availability
+  async getAgentSchedule(accountId: string, agentId: string): Promise<AgentSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(agentSchedules)
+      .where(and(eq(agentSchedules.accountId, accountId), eq(agentSchedules.agentId, agentId)));
+    return schedule;
+  }
+
+  async upsertAgentSchedule(scheduleData: InsertAgentSchedule): Promise<AgentSchedule> {
+    const [schedule] = await db
+      .insert(agentSchedules)
+      .values(scheduleData)
+      .onConflictDoUpdate({
+        target: [agentSchedules.accountId, agentSchedules.agentId],
+        set: {
+          ...scheduleData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return schedule;
+  }
+
+  // Bloques que se solapan con el rango
+  async getBusyBlocksInRange(userId: string, from: Date, to: Date, executor: DbExecutor = db): Promise<CalendarBusyBlock[]> {
+    return await executor
+      .select()
+      .from(calendarBusyBlocks)
+      .where(and(
+        eq(calendarBusyBlocks.userId, userId),
+        lt(calendarBusyBlocks.startAt, to),
+        gte(calendarBusyBlocks.endAt, from)
+      ))
+      .orderBy(asc(calendarBusyBlocks.startAt));
+  }
+
+  async createBusyBlock(blockData: InsertCalendarBusyBlock): Promise<CalendarBusyBlock> {
+    const [block] = await db
+      .insert(calendarBusyBlocks)
+      .values(blockData)
+      .returning();
+    return block;
+  }
+
+  async getBusyBlock(userId: string, id: string): Promise<CalendarBusyBlock | undefined> {
+    const [block] = await db
+      .select()
+      .from(calendarBusyBlocks)
+      .where(and(eq(calendarBusyBlocks.id, id), eq(calendarBusyBlocks.userId, userId)));
+    return block;
+  }
+
+  async deleteBusyBlock(userId: string, id: string): Promise<void> {
+    await db
+      .delete(calendarBusyBlocks)
+      .where(and(eq(calendarBusyBlocks.id, id), eq(calendarBusyBlocks.userId, userId)));
+  }
+
+  // Los bloques de una fuente externa se reemplazan completos en cada sincronización
+  async replaceBusyBlocks(userId: string, agentId: string | null, source: string, from: Date, to: Date, blocks: InsertCalendarBusyBlock[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(calendarBusyBlocks)
+        .where(and(
+          eq(calendarBusyBlocks.userId, userId),
+          agentId ? eq(calendarBusyBlocks.agentId, agentId) : isNull(calendarBusyBlocks.agentId),
+          eq(calendarBusyBlocks.source, source),
+          lt(calendarBusyBlocks.startAt, to),
+          gte(calendarBusyBlocks.endAt, from)
+        ));
+      if (blocks.length > 0) {
+        await tx.insert(calendarBusyBlocks).values(blocks);
+      }
+    });
+  }
+
+  // La contraseña CalDAV se cifra al guardar y se entrega descifrada a los servicios
+  private decryptCalendarConnection(connection: CalendarConnection): CalendarConnection {
+    const password = connection.caldavPassword;
+    return password && isEncrypted(password) ? { ...connection, caldavPassword: decrypt(password) } : connection;
+  }
+
+  async getCalendarConnection(accountId: string, agentId: string): Promise<CalendarConnection | undefined> {
+    const [connection] = await db
+      .select()
+      .from(calendarConnections)
+      .where(and(eq(calendarConnections.accountId, accountId), eq(calendarConnections.agentId, agentId)));
+    return connection ? this.decryptCalendarConnection(connection) : undefined;
+  }
+
+  async getCalendarConnectionByFeedToken(token: string): Promise<CalendarConnection | undefined> {
+    const [connection] = await db.select().from(calendarConnections).where(eq(calendarConnections.feedToken, token));
+    return connection ? this.decryptCalendarConnection(connection) : undefined;
+  }
+
+  async getCalDavConnections(): Promise<CalendarConnection[]> {
+    const connections = await db
+      .select()
+      .from(calendarConnections)
+      .where(sql`${calendarConnections.caldavUrl} is not null and ${calendarConnections.caldavUrl} <> ''`);
+    return connections.map(connection => this.decryptCalendarConnection(connection));
+  }
+
+  async upsertCalendarConnection(connectionData: InsertCalendarConnection): Promise<CalendarConnection> {
+    const password = connectionData.caldavPassword;
+    const values = password && !isEncrypted(password) ? { ...connectionData, caldavPassword: encrypt(password) } : connectionData;
+    const [connection] = await db
+      .insert(calendarConnections)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [calendarConnections.accountId, calendarConnections.agentId],
+        set: {
+          ...values,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return this.decryptCalendarConnection(connection);
+  }
+
+  async updateCalendarConnection(id: string, updates: Partial<InsertCalendarConnection>): Promise<void> {
+    await db
+      .update(calendarConnections)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(calendarConnections.id, id));
+  }
+
+  // Appointment reminders
+  // Reprogramar una cita vuelve a dejar pendientes sus recordatorios con la nueva hora
+  async upsertAppointmentReminders(reminders: InsertAppointmentReminder[]): Promise<void> {
+    if (reminders.length === 0) return;
+    await db
+      .insert(appointmentReminders)
+      .values(reminders)
+      .onConflictDoUpdate({
+        target: [appointmentReminders.appointmentId, appointmentReminders.reminderType],
+        set: {
+          dueAt: sql`excluded.due_at`,
+          status: sql`excluded.status`,
+          attempts: 0,
+          claimedAt: null,
+          sentAt: null,
+          lastError: null,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  /**
+   * Reclamar recordatorios vencidos. FOR UPDATE SKIP LOCKED evita que dos procesos envíen
+   * el mismo; los reclamos obsoletos (proceso caído a mitad de envío) se vuelven a tomar.
+   */
+  async claimDueReminders(staleClaimBefore: Date, limit: number): Promise<AppointmentReminder[]> {
+    const due = db
+      .select({ id: appointmentReminders.id })
+      .from(appointmentReminders)
+      .where(and(
+        eq(appointmentReminders.status, 'PENDING'),
+        lte(appointmentReminders.dueAt, new Date()),
+        or(isNull(appointmentReminders.claimedAt), lt(appointmentReminders.claimedAt, staleClaimBefore))
+      ))
+      .orderBy(asc(appointmentReminders.dueAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(appointmentReminders)
+      .set({ claimedAt: new Date(), attempts: sql`${appointmentReminders.attempts} + 1`, updatedAt: new Date() })
+      .where(inArray(appointmentReminders.id, due))
+      .returning();
+  }
+
+  async updateAppointmentReminder(id: string, updates: Partial<InsertAppointmentReminder>): Promise<void> {
+    await db
+      .update(appointmentReminders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(appointmentReminders.id, id));
+  }
+
+  // Último recordatorio enviado desde sentAfter de una cita de la conversación aún sin confirmar
+  async getAppointmentAwaitingReply(conversationId: string, sentAfter: Date): Promise<{ appointment: Appointment; reminder: AppointmentReminder } | undefined> {
+    const [row] = await db
+      .select({ appointment: appointments, reminder: appointmentReminders })
+      .from(appointments)
+      .innerJoin(appointmentReminders, eq(appointmentReminders.appointmentId, appointments.id))
+      .where(and(
+        eq(appointments.conversationId, conversationId),
+        eq(appointments.status, 'SCHEDULED'),
+        gte(appointments.scheduledAt, new Date()),
+        eq(appointmentReminders.status, 'SENT'),
+        gte(appointmentReminders.sentAt, sentAfter)
+      ))
+      .orderBy(desc(appointmentReminders.sentAt))
+      .limit(1);
+    return row;
+  }
+
   // Leads
   async createLead(leadData: InsertLead): Promise<Lead> {
     const [lead] = await db
       .insert(leads)
-      .values(leadData)
+      .values({ ...leadData, normalizedPhone: normalizePhone(leadData.phone) })
       .returning();
     return lead;
   }
@@ -397,6 +1060,97 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(leads.createdAt));
   }
 
+  async getLead(id: string): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads).where(eq(leads.id, id));
+    return lead;
+  }
+
+  // El primer prospecto de la conversación (create_lead y el enriquecimiento evitan duplicarlo)
+  async getLeadByConversation(conversationId: string): Promise<Lead | undefined> {
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(eq(leads.conversationId, conversationId))
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
+    return lead;
+  }
+
+  // Prospectos abiertos (etapa OPEN o desconocida) sin puntuar o con puntuación antigua
+  async getLeadsToRescore(scoredBefore: Date, limit: number): Promise<Lead[]> {
+    const rows = await db
+      .select({ lead: leads })
+      .from(leads)
+      .leftJoin(leadStages, and(eq(leadStages.userId, leads.userId), eq(leadStages.key, leads.status)))
+      .where(and(
+        or(isNull(leadStages.type), eq(leadStages.type, 'OPEN')),
+        or(isNull(leads.scoredAt), lt(leads.scoredAt, scoredBefore))
+      ))
+      .orderBy(sql`${leads.scoredAt} asc nulls first`)
+      .limit(limit);
+    return rows.map(row => row.lead);
+  }
+
+  // Prospectos enlazados a AlterEstate de cuentas con API key, empezando por los que nunca se sincronizaron
+  async getLeadsToSyncWithCrm(syncedBefore: Date, limit: number): Promise<Lead[]> {
+    const rows = await db
+      .select({ lead: leads })
+      .from(leads)
+      .innerJoin(userSettings, eq(userSettings.userId, leads.userId))
+      .where(and(
+        isNotNull(leads.alterEstateLeadId),
+        isNotNull(userSettings.alterEstateApiKey),
+        eq(userSettings.alterEstateEnabled, true),
+        or(isNull(leads.crmSyncedAt), lt(leads.crmSyncedAt, syncedBefore))
+      ))
+      .orderBy(sql`${leads.crmSyncedAt} asc nulls first`)
+      .limit(limit);
+    return rows.map(row => row.lead);
+  }
+
+  async updateLead(id: string, updates: Partial<InsertLead>): Promise<Lead | undefined> {
+    const phoneUpdate = updates.phone ? { normalizedPhone: normalizePhone(updates.phone) } : {};
+    const [lead] = await db
+      .update(leads)
+      .set({ ...updates, ...phoneUpdate, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return lead;
+  }
+
+  // Los registros anteriores a normalized_phone se encuentran por las variantes del número
+  async findLeadByPhone(userId: string, phone: string): Promise<Lead | undefined> {
+    const e164 = normalizePhone(phone);
+    if (!e164) return undefined;
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(and(
+        eq(leads.userId, userId),
+        or(eq(leads.normalizedPhone, e164), inArray(leads.phone, phoneVariants(e164)))
+      ))
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
+    return lead;
+  }
+
+  // El historial de los duplicados pasa al prospecto principal antes de eliminarlos
+  async mergeLeads(primaryId: string, duplicateIds: string[], updates: Partial<InsertLead>): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.update(leadActivities).set({ leadId: primaryId }).where(inArray(leadActivities.leadId, duplicateIds));
+      await tx.update(leadFieldChanges).set({ leadId: primaryId }).where(inArray(leadFieldChanges.leadId, duplicateIds));
+      await tx.update(leadSyncLogs).set({ leadId: primaryId }).where(inArray(leadSyncLogs.leadId, duplicateIds));
+      await tx.delete(leads).where(inArray(leads.id, duplicateIds));
+      const phoneUpdate = updates.phone ? { normalizedPhone: normalizePhone(updates.phone) } : {};
+      const [lead] = await tx
+        .update(leads)
+        .set({ ...updates, ...phoneUpdate, updatedAt: new Date() })
+        .where(eq(leads.id, primaryId))
+        .returning();
+      return lead;
+    });
+  }
+
   async updateLeadStatus(id: string, status: string): Promise<void> {
     await db
       .update(leads)
@@ -404,6 +1158,435 @@ export class DatabaseStorage implements IStorage {
       .where(eq(leads.id, id));
   }
 
+  async getLeadStages(userId: string): Promise<LeadStage[]> {
+    return await db
+      .select()
+      .from(leadStages)
+      .where(eq(leadStages.userId, userId))
+      .orderBy(asc(leadStages.position));
+  }
+
+  // Las etapas se guardan completas: las que no vienen se eliminan
+  async replaceLeadStages(userId: string, stages: InsertLeadStage[]): Promise<LeadStage[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(leadStages).where(eq(leadStages.userId, userId));
+      if (stages.length === 0) return [];
+      return await tx
+        .insert(leadStages)
+        .values(stages.map(stage => ({ ...stage, userId })))
+        .returning();
+    });
+  }
+
+  async createLeadActivity(activityData: InsertLeadActivity): Promise<LeadActivity> {
+    const [activity] = await db
+      .insert(leadActivities)
+      .values(activityData)
+      .returning();
+    return activity;
+  }
+
+  async updateLeadActivity(id: string, updates: Partial<InsertLeadActivity>): Promise<void> {
+    await db
+      .update(leadActivities)
+      .set(updates)
+      .where(eq(leadActivities.id, id));
+  }
+
+  async getLeadActivities(leadId: string): Promise<LeadActivity[]> {
+    return await db
+      .select()
+      .from(leadActivities)
+      .where(eq(leadActivities.leadId, leadId))
+      .orderBy(desc(leadActivities.createdAt));
+  }
+
+  async createLeadFieldChanges(changes: InsertLeadFieldChange[]): Promise<LeadFieldChange[]> {
+    if (changes.length === 0) return [];
+    return await db
+      .insert(leadFieldChanges)
+      .values(changes)
+      .returning();
+  }
+
+  async getLeadFieldChanges(leadId: string): Promise<(LeadFieldChange & { messageContent: string | null })[]> {
+    const rows = await db
+      .select({ change: leadFieldChanges, messageContent: messages.content })
+      .from(leadFieldChanges)
+      .leftJoin(messages, eq(leadFieldChanges.messageId, messages.id))
+      .where(eq(leadFieldChanges.leadId, leadId))
+      .orderBy(desc(leadFieldChanges.createdAt));
+    return rows.map(row => ({ ...row.change, messageContent: row.messageContent }));
+  }
+
+  async createLeadSyncLog(logData: InsertLeadSyncLog): Promise<LeadSyncLog> {
+    const [log] = await db
+      .insert(leadSyncLogs)
+      .values(logData)
+      .returning();
+    return log;
+  }
+
+  async getLeadSyncLogs(leadId: string, limit: number): Promise<LeadSyncLog[]> {
+    return await db
+      .select()
+      .from(leadSyncLogs)
+      .where(eq(leadSyncLogs.leadId, leadId))
+      .orderBy(desc(leadSyncLogs.createdAt))
+      .limit(limit);
+  }
+
+  // Knowledge base
+  async getKnowledgeSources(userId: string): Promise<KnowledgeSource[]> {
+    return await db
+      .select()
+      .from(knowledgeSources)
+      .where(eq(knowledgeSources.userId, userId))
+      .orderBy(desc(knowledgeSources.createdAt));
+  }
+
+  async upsertKnowledgeSource(sourceData: InsertKnowledgeSource): Promise<KnowledgeSource> {
+    const [source] = await db
+      .insert(knowledgeSources)
+      .values(sourceData)
+      .onConflictDoUpdate({
+        target: [knowledgeSources.userId, knowledgeSources.source],
+        set: {
+          ...sourceData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return source;
+  }
+
+  async updateKnowledgeSource(id: string, updates: Partial<InsertKnowledgeSource>): Promise<void> {
+    await db
+      .update(knowledgeSources)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(knowledgeSources.id, id));
+  }
+
+  async deleteKnowledgeSource(id: string): Promise<void> {
+    await db.delete(knowledgeChunks).where(eq(knowledgeChunks.sourceId, id));
+    await db.delete(knowledgeSources).where(eq(knowledgeSources.id, id));
+  }
+
+  async replaceKnowledgeChunks(sourceId: string, chunks: InsertKnowledgeChunk[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(knowledgeChunks).where(eq(knowledgeChunks.sourceId, sourceId));
+      if (chunks.length > 0) {
+        await tx.insert(knowledgeChunks).values(chunks);
+      }
+    });
+  }
+
+  async getKnowledgeChunks(userId: string): Promise<KnowledgeChunk[]> {
+    return await db
+      .select()
+      .from(knowledgeChunks)
+      .where(eq(knowledgeChunks.userId, userId));
+  }
+
+  // Property index
+  async replaceIndexedProperties(userId: string, properties: InsertIndexedProperty[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(indexedProperties).where(eq(indexedProperties.userId, userId));
+      for (let i = 0; i < properties.length; i += 500) {
+        await tx.insert(indexedProperties).values(properties.slice(i, i + 500));
+      }
+    });
+  }
+
+  async searchIndexedProperties(userId: string, filters: PropertyIndexFilters): Promise<{
+    properties: IndexedProperty[];
+    total: number;
+    facets: PropertyIndexFacets;
+  }> {
+    const searchVector = sql`to_tsvector('spanish', coalesce(${indexedProperties.title}, '') || ' ' || coalesce(${indexedProperties.description}, '') || ' ' || coalesce(${indexedProperties.sector}, ''))`;
+    const searchQuery = sql`websearch_to_tsquery('spanish', ${filters.query || ''})`;
+    const conditions: (SQL | undefined)[] = [eq(indexedProperties.userId, userId)];
+
+    if (filters.query) {
+      conditions.push(or(sql`${searchVector} @@ ${searchQuery}`, ilike(indexedProperties.sector, `%${filters.query}%`)));
+    }
+    if (filters.operation) {
+      conditions.push(eq(indexedProperties.operation, filters.operation));
+    }
+    if (filters.propertyTypes?.length) {
+      conditions.push(or(...filters.propertyTypes.map(type => ilike(indexedProperties.propertyType, `%${type}%`))));
+    }
+    if (filters.city) {
+      conditions.push(ilike(indexedProperties.city, `%${filters.city}%`));
+    }
+    if (filters.zones?.length) {
+      conditions.push(or(...filters.zones.map(zone => ilike(indexedProperties.sector, `%${zone}%`))));
+    }
+    if (filters.roomsMin) {
+      conditions.push(gte(indexedProperties.rooms, filters.roomsMin));
+    }
+    if (filters.bathroomsMin) {
+      conditions.push(gte(indexedProperties.bathrooms, filters.bathroomsMin));
+    }
+    if (filters.priceUsdMin) {
+      conditions.push(gte(indexedProperties.priceUsd, filters.priceUsdMin));
+    }
+    if (filters.priceUsdMax) {
+      conditions.push(lte(indexedProperties.priceUsd, filters.priceUsdMax));
+    }
+    if (filters.excludeIds?.length) {
+      conditions.push(notInArray(indexedProperties.externalId, filters.excludeIds));
+    }
+    const where = and(...conditions);
+
+    const orderBy = filters.sort === 'price_asc' ? [sql`${indexedProperties.priceUsd} asc nulls last`]
+      : filters.sort === 'price_desc' ? [sql`${indexedProperties.priceUsd} desc nulls last`]
+      : filters.query ? [desc(sql`ts_rank(${searchVector}, ${searchQuery})`), asc(indexedProperties.title)]
+      : [asc(indexedProperties.title)];
+
+    const properties = await db
+      .select()
+      .from(indexedProperties)
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(filters.limit)
+      .offset(filters.offset);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(indexedProperties)
+      .where(where);
+
+    const priceBand = sql`case
+      when ${indexedProperties.priceUsd} is null then 'sin_precio'
+      when ${indexedProperties.priceUsd} < 100000 then '0-100k'
+      when ${indexedProperties.priceUsd} < 250000 then '100k-250k'
+      when ${indexedProperties.priceUsd} < 500000 then '250k-500k'
+      when ${indexedProperties.priceUsd} < 1000000 then '500k-1M'
+      else '1M+' end`;
+
+    const countBy = async (expression: SQL) => {
+      const rows = await db
+        .select({ value: sql<string>`${expression}::text`, count: sql<number>`count(*)::int` })
+        .from(indexedProperties)
+        .where(where)
+        .groupBy(expression)
+        .orderBy(desc(sql`count(*)`));
+      return rows.filter(row => row.value !== null);
+    };
+
+    const [city, propertyType, rooms, priceBandCounts] = await Promise.all([
+      countBy(sql`${indexedProperties.city}`),
+      countBy(sql`${indexedProperties.propertyType}`),
+      countBy(sql`${indexedProperties.rooms}`),
+      countBy(priceBand),
+    ]);
+
+    return {
+      properties,
+      total,
+      facets: { city, propertyType, rooms, priceBand: priceBandCounts },
+    };
+  }
+
+  async getIndexedPropertiesByExternalIds(userId: string, externalIds: string[]): Promise<IndexedProperty[]> {
+    if (externalIds.length === 0) return [];
+    return await db
+      .select()
+      .from(indexedProperties)
+      .where(and(eq(indexedProperties.userId, userId), inArray(indexedProperties.externalId, externalIds)));
+  }
+
+  async getPropertyIndexSync(userId: string): Promise<PropertyIndexSync | undefined> {
+    const [sync] = await db.select().from(propertyIndexSyncs).where(eq(propertyIndexSyncs.userId, userId));
+    return sync;
+  }
+
+  async upsertPropertyIndexSync(syncData: InsertPropertyIndexSync): Promise<PropertyIndexSync> {
+    const [sync] = await db
+      .insert(propertyIndexSyncs)
+      .values(syncData)
+      .onConflictDoUpdate({
+        target: propertyIndexSyncs.userId,
+        set: {
+          ...syncData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return sync;
+  }
+
+  // Saved searches
+  async getSavedSearchByConversation(conversationId: string): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.conversationId, conversationId));
+    return search;
+  }
+
+  async getActiveSavedSearches(): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.status, 'ACTIVE'))
+      .orderBy(asc(savedSearches.lastRunAt));
+  }
+
+  async upsertSavedSearch(searchData: InsertSavedSearch): Promise<SavedSearch> {
+    const [search] = await db
+      .insert(savedSearches)
+      .values(searchData)
+      .onConflictDoUpdate({
+        target: savedSearches.conversationId,
+        set: {
+          ...searchData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return search;
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<InsertSavedSearch>): Promise<void> {
+    await db
+      .update(savedSearches)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(savedSearches.id, id));
+  }
+
+  // Organizations
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOrganizationByAccount(accountId: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.accountId, accountId));
+    return organization;
+  }
+
+  async createOrganization(organizationData: InsertOrganization, ownerId: string): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(organizations)
+        .values(organizationData)
+        .onConflictDoNothing({ target: organizations.accountId })
+        .returning();
+      if (!created) {
+        // Otra petición creó la organización de esta cuenta al mismo tiempo
+        const [existing] = await tx.select().from(organizations).where(eq(organizations.accountId, organizationData.accountId));
+        return existing;
+      }
+
+      await tx.insert(organizationMembers).values({ organizationId: created.id, userId: ownerId, role: 'owner' });
+      return created;
+    });
+  }
+
+  async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async getUserMemberships(userId: string): Promise<{ organization: Organization; member: OrganizationMember }[]> {
+    return await db
+      .select({ organization: organizations, member: organizationMembers })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizationMembers.createdAt));
+  }
+
+  async getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+    return member;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<{ member: OrganizationMember; user: User }[]> {
+    return await db
+      .select({ member: organizationMembers, user: users })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(asc(organizationMembers.createdAt));
+  }
+
+  async updateOrganizationMember(organizationId: string, userId: string, updates: Partial<InsertOrganizationMember>): Promise<void> {
+    await db
+      .update(organizationMembers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+    await db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  }
+
+  async createOrganizationInvitation(invitationData: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const [invitation] = await db.insert(organizationInvitations).values(invitationData).returning();
+    return invitation;
+  }
+
+  async getOrganizationInvitationByToken(token: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.token, token));
+    return invitation;
+  }
+
+  async getPendingOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+    return await db
+      .select()
+      .from(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.organizationId, organizationId),
+        eq(organizationInvitations.status, 'PENDING'),
+        gte(organizationInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async revokeOrganizationInvitation(organizationId: string, id: string): Promise<void> {
+    await db
+      .update(organizationInvitations)
+      .set({ status: 'REVOKED' })
+      .where(and(
+        eq(organizationInvitations.id, id),
+        eq(organizationInvitations.organizationId, organizationId),
+        eq(organizationInvitations.status, 'PENDING'),
+      ));
+  }
+
+  async acceptOrganizationInvitation(invitation: OrganizationInvitation, userId: string): Promise<OrganizationMember> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(organizationInvitations)
+        .set({ status: 'ACCEPTED', acceptedBy: userId, acceptedAt: new Date() })
+        .where(and(eq(organizationInvitations.id, invitation.id), eq(organizationInvitations.status, 'PENDING')))
+        .returning();
+      if (!claimed) {
+        throw new Error('Invitation is no longer pending');
+      }
+
+      // Si ya era miembro se conserva su rol actual
+      await tx
+        .insert(organizationMembers)
+        .values({ organizationId: invitation.organizationId, userId, role: invitation.role })
+        .onConflictDoNothing();
+      const [member] = await tx
+        .select()
+        .from(organizationMembers)
+        .where(and(eq(organizationMembers.organizationId, invitation.organizationId), eq(organizationMembers.userId, userId)));
+      return member;
+    });
+  }
+
   // Dashboard stats
   async getDashboardStats(userId: string): Promise<{
     activeConversations: number;
@@ -419,7 +1602,8 @@ export class DatabaseStorage implements IStorage {
     const [statsResult] = await db
       .select({
         activeConversations: sql<number>`count(distinct case when ${conversations.status} = 'ACTIVE' then ${conversations.id} end)`,
-        newLeads: sql<number>`count(distinct case when ${leads.status} = 'NEW' then ${leads.id} end)`,
+        // Un mismo teléfono cuenta una vez aunque tenga prospectos sin combinar
+        newLeads: sql<number>`count(distinct case when ${leads.status} = 'NEW' then coalesce(${leads.normalizedPhone}, ${leads.id}) end)`,
         scheduledAppointments: sql<number>`count(distinct case when ${appointments.status} = 'SCHEDULED' then ${appointments.id} end)`,
         todayAppointments: sql<number>`count(distinct case when ${appointments.scheduledAt} >= ${today} and ${appointments.scheduledAt} < ${tomorrow} then ${appointments.id} end)`,
       })
@@ -0,0 +1,5 @@
+// URL pública del panel (APP_URL o el primer dominio de Replit)
+export function appUrl(path: string): string {
+  const base = process.env.APP_URL || `https://${(process.env.REPLIT_DOMAINS || 'localhost:5000').split(',')[0]}`;
+  return `${base.replace(/\/$/, '')}${path}`;
+}
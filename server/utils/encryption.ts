@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const LEGACY_VERSION = 'v1';
+const ENVELOPE_VERSION = 'v2';
+const DEFAULT_KEY_ID = 'primary';
+
+interface Keyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeyring: Keyring | null = null;
+
+function parseKey(value: string, name: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes (64 hex characters or base64)`);
+  }
+  return key;
+}
+
+/**
+ * Llaves maestras del servidor. DATA_ENCRYPTION_KEY es la actual (id DATA_ENCRYPTION_KEY_ID)
+ * y DATA_ENCRYPTION_PREVIOUS_KEYS ("id:llave,id:llave") las que siguen descifrando tras una rotación.
+ * Si no hay llave se deriva de SESSION_SECRET para no romper entornos de desarrollo.
+ */
+function getKeyring(): Keyring {
+  if (cachedKeyring) return cachedKeyring;
+
+  const currentKeyId = process.env.DATA_ENCRYPTION_KEY_ID || DEFAULT_KEY_ID;
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.DATA_ENCRYPTION_PREVIOUS_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const keyId = entry.slice(0, separator).trim();
+    keys.set(keyId, parseKey(entry.slice(separator + 1).trim(), `DATA_ENCRYPTION_PREVIOUS_KEYS (${keyId})`));
+  }
+
+  const configured = process.env.DATA_ENCRYPTION_KEY;
+  if (configured) {
+    keys.set(currentKeyId, parseKey(configured, 'DATA_ENCRYPTION_KEY'));
+  } else if (process.env.SESSION_SECRET) {
+    console.warn('⚠️ [CRYPTO] DATA_ENCRYPTION_KEY not set, deriving the data key from SESSION_SECRET');
+    keys.set(currentKeyId, crypto.createHash('sha256').update(`data-encryption:${process.env.SESSION_SECRET}`).digest());
+  } else {
+    throw new Error('DATA_ENCRYPTION_KEY must be set to encrypt data at rest');
+  }
+
+  cachedKeyring = { currentKeyId, keys };
+  return cachedKeyring;
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown data encryption key "${keyId}"`);
+  }
+  return key;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string[] {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')];
+}
+
+function open(key: Buffer, iv: string, authTag: string, ciphertext: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+function wrapDataKey(dataKey: Buffer, parts: string[]): string {
+  const { currentKeyId } = getKeyring();
+  return [ENVELOPE_VERSION, currentKeyId, ...seal(getMasterKey(currentKeyId), dataKey), ...parts].join(':');
+}
+
+function parseEnvelope(payload: string) {
+  const parts = payload.split(':');
+  if (parts[0] === ENVELOPE_VERSION && parts.length === 8 && parts.slice(1, 7).every(Boolean)) {
+    const [, keyId, wrapIv, wrapTag, wrappedKey, iv, authTag, ciphertext] = parts;
+    return { keyId, dataKey: open(getMasterKey(keyId), wrapIv, wrapTag, wrappedKey), iv, authTag, ciphertext };
+  }
+  throw new Error('Unsupported encrypted payload');
+}
+
+/**
+ * Cifrado de sobre: cada valor usa su propia llave de datos (AES-256-GCM) envuelta con la
+ * llave maestra actual. Formato: v2:keyId:wrapIv:wrapTag:wrappedKey:iv:authTag:ciphertext (base64)
+ */
+export function encrypt(plaintext: string): string {
+  const dataKey = crypto.randomBytes(32);
+  return wrapDataKey(dataKey, seal(dataKey, Buffer.from(plaintext, 'utf8')));
+}
+
+export function decrypt(payload: string): string {
+  if (payload.startsWith(`${LEGACY_VERSION}:`)) {
+    // v1: cifrado directo con la llave maestra, sin id de llave; se prueba cada llave conocida
+    const [, iv, authTag, ciphertext] = payload.split(':');
+    if (!iv || !authTag || ciphertext === undefined) {
+      throw new Error('Unsupported encrypted payload');
+    }
+    const { currentKeyId, keys } = getKeyring();
+    const candidates = [getMasterKey(currentKeyId), ...Array.from(keys.entries()).filter(([keyId]) => keyId !== currentKeyId).map(([, key]) => key)];
+    for (const key of candidates) {
+      try {
+        return open(key, iv, authTag, ciphertext).toString('utf8');
+      } catch {
+        // Probar la siguiente llave
+      }
+    }
+    throw new Error('Unable to decrypt payload with the configured keys');
+  }
+
+  const { dataKey, iv, authTag, ciphertext } = parseEnvelope(payload);
+  return open(dataKey, iv, authTag, ciphertext).toString('utf8');
+}
+
+export function isEncrypted(value: string): boolean {
+  return /^v[12]:/.test(value) && value.split(':').length === (value.startsWith(`${LEGACY_VERSION}:`) ? 4 : 8);
+}
+
+/**
+ * Indica si un valor cifrado no usa todavía la llave maestra actual.
+ */
+export function needsRewrap(payload: string): boolean {
+  if (payload.startsWith(`${LEGACY_VERSION}:`)) return true;
+  return payload.split(':')[1] !== getKeyring().currentKeyId;
+}
+
+/**
+ * Volver a envolver la llave de datos con la llave maestra actual sin tocar el contenido cifrado.
+ * Los valores v1 se vuelven a cifrar completos.
+ */
+export function rewrap(payload: string): string {
+  if (payload.startsWith(`${LEGACY_VERSION}:`)) {
+    return encrypt(decrypt(payload));
+  }
+
+  const { dataKey, iv, authTag, ciphertext } = parseEnvelope(payload);
+  return wrapDataKey(dataKey, [iv, authTag, ciphertext]);
+}
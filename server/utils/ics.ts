@@ -0,0 +1,220 @@
+/**
+ * Generación y lectura de archivos iCalendar (RFC 5545) para citas y sincronización CalDAV
+ */
+import { resolveTimeZone, zonedTimeToUtc } from './timezone';
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizerName?: string;
+  organizerEmail?: string;
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  sequence?: number;
+}
+
+export interface ParsedIcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary?: string;
+  location?: string;
+  status?: string; // CONFIRMED, TENTATIVE, CANCELLED
+  transparent: boolean; // TRANSP:TRANSPARENT no ocupa tiempo
+  allDay: boolean;
+  recurrenceId?: string;
+}
+
+// 20240601T150000Z
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Las líneas de más de 75 octetos se pliegan con CRLF + espacio
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char, 'utf8') > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: IcsEvent): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(event.organizerEmail
+      ? [`ORGANIZER${event.organizerName ? `;CN=${escapeIcsText(event.organizerName)}` : ''}:mailto:${event.organizerEmail}`]
+      : []),
+    `STATUS:${event.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+function calendarLines(body: string[], method: string, name?: string): string[] {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//RealEstate AI//Citas//ES',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...(name ? [`X-WR-CALNAME:${escapeIcsText(name)}`] : []),
+    ...body,
+    'END:VCALENDAR',
+  ];
+}
+
+function serialize(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function buildIcsEvent(event: IcsEvent): string {
+  return serialize(calendarLines(eventLines(event), event.method || 'PUBLISH'));
+}
+
+/**
+ * Calendario con varias citas, para el feed de suscripción
+ */
+export function buildIcsCalendar(events: IcsEvent[], name?: string): string {
+  return serialize(calendarLines(events.flatMap(eventLines), 'PUBLISH', name));
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const separator = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+// 20240603T150000Z, TZID=...:20240603T090000 (hora local de la zona) o VALUE=DATE:20240603
+function parseIcsDate(property: IcsProperty, defaultTimeZone: string): { date: Date; allDay: boolean } | null {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!hour) {
+    return { date: zonedTimeToUtc(`${year}-${month}-${day}`, '00:00', defaultTimeZone), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), allDay: false };
+  }
+  const timeZone = resolveTimeZone(property.params.TZID || defaultTimeZone);
+  return { date: zonedTimeToUtc(`${year}-${month}-${day}`, `${hour}:${minute}:${second}`, timeZone), allDay: false };
+}
+
+// P1D, PT1H30M, -PT15M
+function parseIcsDuration(value: string): number {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((+weeks || 0) * 7 * 86400 + (+days || 0) * 86400 + (+hours || 0) * 3600 + (+minutes || 0) * 60 + (+seconds || 0)) * 1000;
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Eventos (VEVENT) de un calendario iCalendar. Las fechas locales sin TZID se interpretan
+ * en la zona horaria de la cuenta; los eventos sin inicio válido se descartan.
+ */
+export function parseIcsEvents(ics: string, defaultTimeZone: string = 'America/New_York'): ParsedIcsEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = [];
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) continue;
+    // VALARM y otros componentes anidados no aportan propiedades al evento
+    if (line.startsWith('BEGIN:')) { nestedDepth++; continue; }
+    if (line.startsWith('END:') && line !== 'END:VEVENT') { nestedDepth--; continue; }
+
+    if (line === 'END:VEVENT') {
+      const event = toParsedEvent(current, defaultTimeZone);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    const property = parseProperty(line);
+    if (property) current.push(property);
+  }
+  return events;
+}
+
+function toParsedEvent(properties: IcsProperty[], defaultTimeZone: string): ParsedIcsEvent | null {
+  const get = (name: string) => properties.find(property => property.name === name);
+  const uid = get('UID')?.value.trim();
+  const dtStart = get('DTSTART');
+  const start = dtStart ? parseIcsDate(dtStart, defaultTimeZone) : null;
+  if (!uid || !start) return null;
+
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  let end = dtEnd ? parseIcsDate(dtEnd, defaultTimeZone)?.date : undefined;
+  if (!end) {
+    const fallback = duration ? parseIcsDuration(duration.value) : (start.allDay ? 24 * 60 * 60 * 1000 : 0);
+    end = new Date(start.date.getTime() + fallback);
+  }
+
+  const summary = get('SUMMARY');
+  const location = get('LOCATION');
+  return {
+    uid,
+    start: start.date,
+    end,
+    summary: summary ? unescapeIcsText(summary.value) : undefined,
+    location: location ? unescapeIcsText(location.value) : undefined,
+    status: get('STATUS')?.value.trim().toUpperCase(),
+    transparent: get('TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT',
+    allDay: start.allDay,
+    recurrenceId: get('RECURRENCE-ID')?.value.trim(),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Normalización de teléfonos a E.164. Los números sin código de país se tratan como del plan
+ * de numeración de Norteamérica (+1), que incluye República Dominicana (809, 829 y 849)
+ */
+
+const DEFAULT_DOMINICAN_AREA_CODE = '809';
+
+/**
+ * "(809) 555-1234", "1-829-555-1234", "0018495551234", "18095551234@s.whatsapp.net" -> "+1XXXXXXXXXX".
+ * Devuelve null si no parece un teléfono
+ */
+export function normalizePhone(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const value = raw.split('@')[0].trim(); // JID de WhatsApp
+  let digits = value.replace(/\D/g, '');
+  if (!digits) return null;
+
+  if (!value.startsWith('+') && digits.startsWith('00')) {
+    digits = digits.slice(2); // Prefijo internacional
+  } else if (!value.startsWith('+')) {
+    // Número local dominicano de 7 dígitos, sin código de área
+    if (digits.length === 7) return `+1${DEFAULT_DOMINICAN_AREA_CODE}${digits}`;
+    if (digits.length === 10) return `+1${digits}`;
+  }
+
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+/**
+ * Formas en que un mismo número puede estar guardado en registros antiguos
+ * (con y sin "+", sin el 1 de Norteamérica)
+ */
+export function phoneVariants(e164: string): string[] {
+  const digits = e164.slice(1);
+  const variants = [e164, digits];
+  if (digits.length === 11 && digits.startsWith('1')) {
+    variants.push(digits.slice(1));
+  }
+  return variants;
+}
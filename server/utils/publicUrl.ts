@@ -0,0 +1,74 @@
+/**
+ * Protección contra SSRF para las URLs que configuran los usuarios: solo se permite
+ * salir a direcciones públicas (nada de localhost, redes privadas ni metadatos de la nube)
+ */
+import dns from 'dns';
+import net from 'net';
+
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],   // CGNAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],  // Link-local, incluye 169.254.169.254 (metadatos de AWS/GCP/Azure)
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],     // Multicast
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],        // Unique local
+  ['fe80::', 10],       // Link-local
+  ['ff00::', 8],        // Multicast
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * true si la IP es privada, de loopback, link-local o reservada (también IPv4 mapeada en IPv6)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Validar protocolo y host antes de pedir la URL. Los hosts con nombre se validan
+ * al conectar con `publicOnlyLookup`, así un DNS que cambia de respuesta no lo evita
+ */
+export function assertPublicUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error('URL no válida');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Solo se permiten URLs http o https');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error('La URL apunta a una dirección interna');
+  }
+  return url;
+}
+
+/**
+ * `lookup` para axios/http que resuelve el host y rechaza la conexión si alguna IP es interna
+ */
+export async function publicOnlyLookup(hostname: string): Promise<[address: string, family: 4 | 6]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  if (!addresses.length || addresses.some(entry => isPrivateAddress(entry.address))) {
+    throw new Error(`${hostname} resuelve a una dirección interna`);
+  }
+  return [addresses[0].address, addresses[0].family as 4 | 6];
+}
@@ -0,0 +1,89 @@
+import type { UserSettings } from '@shared/schema';
+import { decrypt, encrypt, isEncrypted } from './encryption';
+
+/**
+ * Campos de user_settings que guardan credenciales del tenant. Se cifran en reposo y la API
+ * de configuración nunca los devuelve.
+ */
+export const SECRET_SETTINGS_FIELDS = ['alterEstateToken', 'alterEstateApiKey', 'airtableApiKey', 'sqlConnectionString'] as const;
+
+export type SecretSettingsField = typeof SECRET_SETTINGS_FIELDS[number];
+
+export interface SecretFieldStatus {
+  configured: boolean;
+  hint: string | null;
+}
+
+export type MaskedUserSettings = UserSettings & {
+  secrets: Record<SecretSettingsField, SecretFieldStatus>;
+};
+
+export function encryptSecretSettings<T extends Partial<Record<SecretSettingsField, string | null>>>(data: T): T {
+  const result = { ...data };
+  for (const field of SECRET_SETTINGS_FIELDS) {
+    const value = result[field];
+    if (typeof value === 'string' && value && !isEncrypted(value)) {
+      result[field] = encrypt(value) as T[SecretSettingsField];
+    }
+  }
+  return result;
+}
+
+/**
+ * Descifrar los secretos de una fila. Los valores en texto plano anteriores al cifrado
+ * se devuelven tal cual hasta que se ejecute la rotación de llaves.
+ */
+export function decryptSecretSettings<T extends Partial<Record<SecretSettingsField, string | null>>>(settings: T): T {
+  const result = { ...settings };
+  for (const field of SECRET_SETTINGS_FIELDS) {
+    const value = result[field];
+    if (typeof value === 'string' && isEncrypted(value)) {
+      result[field] = decrypt(value) as T[SecretSettingsField];
+    }
+  }
+  return result;
+}
+
+/**
+ * Versión para la API: los secretos se ocultan y solo se indica si están configurados
+ * junto con sus últimos 4 caracteres.
+ */
+export function maskSecretSettings(settings: UserSettings): MaskedUserSettings {
+  const masked = { ...settings, secrets: {} } as MaskedUserSettings;
+  for (const field of SECRET_SETTINGS_FIELDS) {
+    const value = settings[field];
+    masked.secrets[field] = {
+      configured: Boolean(value),
+      hint: value && value.length > 8 ? value.slice(-4) : null,
+    };
+    masked[field] = null;
+  }
+  return masked;
+}
+
+/**
+ * Los secretos son de solo escritura: vacío o ausente conserva el valor guardado,
+ * null lo elimina y cualquier otro texto lo reemplaza.
+ */
+export function applySecretUpdates<T extends Record<string, any>>(data: T): T {
+  const result: Record<string, any> = { ...data };
+  delete result.secrets;
+  for (const field of SECRET_SETTINGS_FIELDS) {
+    if (result[field] === null) continue;
+    const value = result[field] === undefined ? '' : String(result[field]).trim();
+    if (value) {
+      result[field] = value;
+    } else {
+      delete result[field];
+    }
+  }
+  return result as T;
+}
+
+export function redactSecretSettings(data: Record<string, any>): Record<string, any> {
+  const result = { ...data };
+  for (const field of SECRET_SETTINGS_FIELDS) {
+    if (result[field]) result[field] = '[REDACTED]';
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+/**
+ * Conversión entre fechas locales de una zona horaria y UTC sin dependencias externas (Intl)
+ */
+
+const DEFAULT_TIME_ZONE = 'America/New_York';
+
+export function resolveTimeZone(timeZone?: string | null): string {
+  if (!timeZone) return DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+// Diferencia entre la hora local de la zona y UTC en ese instante
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instante UTC de una fecha y hora locales ("2024-06-03", "09:00") en la zona indicada.
+ * Se recalcula el desfase una vez para los días de cambio de horario.
+ */
+export function zonedTimeToUtc(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, date, hour, minute, second);
+  const offset = timeZoneOffsetMs(new Date(guess), timeZone);
+  const corrected = timeZoneOffsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+// "2024-06-03" del instante en la zona indicada
+export function dayKeyInTimeZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+// "jueves, 12 de junio, 10:00" en la zona indicada, para mensajes al cliente
+export function formatDateTimeLabel(date: Date, timeZone: string): string {
+  return date.toLocaleString('es-ES', {
+    timeZone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -9,6 +9,7 @@ import {
   integer,
   text,
   doublePrecision,
+  real,
   unique
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
@@ -50,18 +51,24 @@ export const userSettings = pgTable("user_settings", {
   systemPrompt: text("system_prompt"),
   language: varchar("language").default("es"),
   timezone: varchar("timezone").default("America/New_York"),
-  
+
+  // LLM provider configuration
+  llmProvider: varchar("llm_provider").default("openai"), // 'openai', 'local', 'scripted'
+  llmModel: varchar("llm_model"), // null = modelo predeterminado del proveedor (gpt-4o, llama3.1...)
+  llmBaseUrl: varchar("llm_base_url"), // Solo para endpoints locales compatibles con OpenAI
+
   // AI Training configuration
   trainingEnabled: boolean("training_enabled").default(false),
   trainingUrls: text("training_urls").array().default(sql`'{}'::text[]`),
   trainingDocs: text("training_docs").array().default(sql`'{}'::text[]`),
   
   // Database integration (only one at a time)
-  databaseType: varchar("database_type"), // 'sql', 'airtable', 'google_sheets'
+  databaseType: varchar("database_type"), // 'sql', 'airtable', 'google_sheets', 'csv', 'json'
   sqlConnectionString: text("sql_connection_string"),
   airtableApiKey: varchar("airtable_api_key"),
   airtableBaseId: varchar("airtable_base_id"),
   googleSheetsId: varchar("google_sheets_id"),
+  inventoryTable: varchar("inventory_table"), // Tabla SQL, tabla de Airtable, pestaña de la hoja o ruta del CSV/JSON
   databaseInstructions: text("database_instructions"),
   
   // WhatsApp configuration - Buffer de mensajes
@@ -101,6 +108,19 @@ export const userSettings = pgTable("user_settings", {
   notificationEmail: varchar("notification_email"),
   notificationWhatsApp: varchar("notification_whatsapp"),
   
+  // Asignación de conversaciones escaladas a miembros de la organización
+  routingStrategy: varchar("routing_strategy").default("round_robin"), // 'manual', 'round_robin', 'zone', 'listing_agent'
+  routingZoneRules: jsonb("routing_zone_rules").default([]), // [{ zone: 'Piantini', userIds: ['...'] }]
+  
+  // SLA de escalación: sin respuesta de un agente se re-notifica, se avisa al contacto de respaldo y opcionalmente vuelve la IA
+  escalationSlaMinutes: integer("escalation_sla_minutes").default(15), // 0 desactiva los recordatorios
+  escalationBackupEmail: varchar("escalation_backup_email"),
+  escalationAiTakebackEnabled: boolean("escalation_ai_takeback_enabled").default(false),
+  escalationAiTakebackMinutes: integer("escalation_ai_takeback_minutes").default(60),
+  escalationHoldingMessage: text("escalation_holding_message"),
+  escalationIdleReturnMinutes: integer("escalation_idle_return_minutes").default(0), // Volver a la IA tras la atención humana; 0 desactiva
+  agentReplyPauseMinutes: integer("agent_reply_pause_minutes").default(30), // Pausa de la IA cuando un agente responde desde el teléfono; 0 desactiva
+  
   // Notification configuration (legacy)
   emailNotifications: boolean("email_notifications").default(true),
   whatsappNotifications: boolean("whatsapp_notifications").default(false),
@@ -125,6 +145,18 @@ export const whatsappInstances = pgTable("whatsapp_instances", {
   index("idx_user_active_instance").on(table.userId, table.isActive),
 ]);
 
+// Estado de autenticación de Baileys (creds y claves Signal), cifrado en reposo
+export const whatsappAuthStates = pgTable("whatsapp_auth_states", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instanceId: varchar("instance_id").notNull().references(() => whatsappInstances.id, { onDelete: 'cascade' }),
+  category: varchar("category").notNull(), // 'creds' o tipo de clave Signal ('pre-key', 'session', 'app-state-sync-key', ...)
+  keyId: varchar("key_id").notNull(), // 'creds' para las credenciales
+  data: text("data").notNull(), // JSON (BufferJSON) cifrado con AES-256-GCM
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_whatsapp_auth_state_key").on(table.instanceId, table.category, table.keyId),
+]);
+
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -134,6 +166,12 @@ export const conversations = pgTable("conversations", {
   clientName: varchar("client_name"),
   status: varchar("status").default("ACTIVE").notNull(),
   isEscalated: boolean("is_escalated").default(false),
+  assignedTo: varchar("assigned_to").references(() => users.id), // Miembro de la organización responsable
+  assignedAt: timestamp("assigned_at"),
+  escalatedAt: timestamp("escalated_at"),
+  lastAgentMessageAt: timestamp("last_agent_message_at"), // Último mensaje de un humano del equipo
+  slaLevel: integer("sla_level").default(0), // 0 pendiente, 1 re-notificado, 2 respaldo avisado
+  aiPausedUntil: timestamp("ai_paused_until"), // Un agente respondió desde el teléfono
   context: jsonb("context"),
   
   startedAt: timestamp("started_at").defaultNow(),
@@ -148,6 +186,7 @@ export const messages = pgTable("messages", {
   
   messageId: varchar("message_id").unique().notNull(),
   fromMe: boolean("from_me").notNull(),
+  sentByAgent: boolean("sent_by_agent").default(false), // Escrito por una persona del equipo (panel o teléfono), no por la IA
   messageType: varchar("message_type").notNull(),
   content: text("content").notNull(),
   mediaUrl: varchar("media_url"),
@@ -156,8 +195,17 @@ export const messages = pgTable("messages", {
   isProcessed: boolean("is_processed").default(false),
   isBuffered: boolean("is_buffered").default(false),
   
+  // Buffer persistente de mensajes entrantes (messageBufferService)
+  bufferedContent: text("buffered_content"), // Texto que se entrega a la IA (p. ej. transcripción de audio)
+  bufferDueAt: timestamp("buffer_due_at"), // La conversación se procesa cuando vence el último mensaje
+  bufferClaimedAt: timestamp("buffer_claimed_at"), // Reclamado por un worker; se libera si queda obsoleto
+  bufferAttempts: integer("buffer_attempts").default(0).notNull(), // Intentos fallidos de responder la ráfaga
+  remoteJid: varchar("remote_jid"), // JID original del remitente (LID o grupo) para responder al mismo chat
+  
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_messages_buffer_pending").on(table.conversationId).where(sql`${table.isBuffered} = true and ${table.isProcessed} = false`),
+]);
 
 export const appointments = pgTable("appointments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -172,11 +220,15 @@ export const appointments = pgTable("appointments", {
   duration: integer("duration").default(60), // minutes
   location: varchar("location"),
   propertyId: varchar("property_id"),
+  agentId: varchar("agent_id").references(() => users.id), // Agente que atiende la visita; null = titular de la cuenta
   status: varchar("status").default("SCHEDULED").notNull(),
+  sequence: integer("sequence").default(0).notNull(), // Sube en cada reprogramación (SEQUENCE del .ics)
   
   // External calendar integration
   googleEventId: varchar("google_event_id"),
   calComEventId: varchar("cal_com_event_id"),
+  caldavHref: varchar("caldav_href"), // Recurso del evento en el calendario CalDAV del agente
+  caldavEtag: varchar("caldav_etag"),
   
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -190,6 +242,7 @@ export const leads = pgTable("leads", {
   
   fullName: varchar("full_name").notNull(),
   phone: varchar("phone").notNull(),
+  normalizedPhone: varchar("normalized_phone"), // E.164, lo calcula storage al guardar; base de la detección de duplicados
   email: varchar("email"),
   
   // Lead information
@@ -201,14 +254,314 @@ export const leads = pgTable("leads", {
   
   // AlterEstate integration
   alterEstateLeadId: varchar("alter_estate_lead_id"),
+  assignedAgentEmail: varchar("assigned_agent_email"), // Agente responsable; en AlterEstate se identifica por email
+  assignedAt: timestamp("assigned_at"),
+  crmSyncState: jsonb("crm_sync_state"), // { status, agentEmail } de la última sincronización, base para detectar conflictos
+  crmSyncedAt: timestamp("crm_synced_at"),
   
-  status: varchar("status").default("NEW").notNull(),
+  status: varchar("status").default("NEW").notNull(), // Clave de la etapa del pipeline (lead_stages.key)
   source: varchar("source").default("whatsapp").notNull(),
+  lostReason: text("lost_reason"), // Obligatorio al pasar a una etapa de tipo LOST
+  stageChangedAt: timestamp("stage_changed_at"),
+
+  // Puntuación 0-100 (leadScoringService) y los factores que la explican
+  score: integer("score"),
+  scoreFactors: jsonb("score_factors"), // [{ key, label, points, maxPoints, detail }]
+  scoredAt: timestamp("scored_at"),
+  qualification: jsonb("qualification"), // Último resultado de assessClientQualification
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_leads_user_phone").on(table.userId, table.normalizedPhone),
+]);
+
+// Etapas del pipeline de prospectos de cada cuenta; se crean con las predeterminadas al primer uso
+export const leadStages = pgTable("lead_stages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  key: varchar("key").notNull(), // NEW, CONTACTED... se guarda en leads.status
+  name: varchar("name").notNull(),
+  type: varchar("type").default("OPEN").notNull(), // OPEN, WON, LOST
+  color: varchar("color").default("blue").notNull(),
+  position: integer("position").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("uq_lead_stage_key").on(table.userId, table.key),
+]);
+
+// Línea de tiempo del prospecto: cambios de etapa y notas (mensajes y citas se leen de sus tablas)
+export const leadActivities = pgTable("lead_activities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  actorId: varchar("actor_id").references(() => users.id), // null = el sistema o el asistente
+  type: varchar("type").notNull(), // STAGE_CHANGE, NOTE, MERGE
+  content: text("content"),
+  metadata: jsonb("metadata"), // { from, to, lostReason, source } en STAGE_CHANGE, { mergedLeads } en MERGE, { crmNoteId, crmAuthor, crmCreatedAt } en notas sincronizadas
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_lead_activities_lead").on(table.leadId, table.createdAt),
+]);
+
+// Historial por campo de lo que se fue completando en el prospecto y de qué mensaje salió
+export const leadFieldChanges = pgTable("lead_field_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  field: varchar("field").notNull(), // budget, preferredLocation... o interests.<clave>
+  previousValue: jsonb("previous_value"),
+  newValue: jsonb("new_value"),
+  source: varchar("source").default("ai").notNull(), // ai (calificación), assistant (herramienta create_lead)
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }), // Mensaje del cliente del que se infirió
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_lead_field_changes_lead").on(table.leadId, table.createdAt),
+]);
+
+// Registro de la sincronización bidireccional con AlterEstate: solo las pasadas que cambiaron algo o fallaron
+export const leadSyncLogs = pgTable("lead_sync_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  status: varchar("status").notNull(), // SYNCED, CONFLICT, ERROR
+  changes: jsonb("changes").default([]), // [{ field, direction: push|pull, from, to }]
+  conflicts: jsonb("conflicts").default([]), // [{ field, local, remote, winner: local|crm }]
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_lead_sync_logs_lead").on(table.leadId, table.createdAt),
+]);
+
+// Base de conocimiento (RAG) construida a partir de trainingUrls y trainingDocs
+export const knowledgeSources = pgTable("knowledge_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  
+  sourceType: varchar("source_type").notNull(), // 'url' o 'document'
+  source: text("source").notNull(), // URL o "doc:<hash>" para documentos
+  title: varchar("title"),
+  contentHash: varchar("content_hash"),
+  embeddingProvider: varchar("embedding_provider"), // Si cambia el proveedor o el modelo hay que recalcular embeddings
+  embeddingModel: varchar("embedding_model"),
+  
+  status: varchar("status").default("PENDING").notNull(), // PENDING, READY, ERROR
+  error: text("error"),
+  chunkCount: integer("chunk_count").default(0),
+  lastIngestedAt: timestamp("last_ingested_at"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_knowledge_source_user_source").on(table.userId, table.source),
+]);
+
+export const knowledgeChunks = pgTable("knowledge_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceId: varchar("source_id").notNull().references(() => knowledgeSources.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  embedding: real("embedding").array().notNull(),
   
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_knowledge_chunks_user").on(table.userId),
+]);
+
+// Índice local de propiedades: espejo del inventario de cada usuario para búsqueda y facetas
+export const indexedProperties = pgTable("indexed_properties", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  provider: varchar("provider").notNull(), // 'alterestate', 'sql', 'airtable', 'google_sheets', 'csv', 'json'
+  externalId: varchar("external_id").notNull(), // Property.id en el proveedor
+  slug: varchar("slug").notNull(),
+  
+  title: text("title").notNull(),
+  description: text("description"),
+  operation: varchar("operation"), // 'sale' o 'rent'
+  propertyType: varchar("property_type"),
+  price: doublePrecision("price"),
+  currency: varchar("currency"),
+  priceUsd: doublePrecision("price_usd"), // Precio normalizado a USD para filtros y rangos
+  sector: varchar("sector"),
+  city: varchar("city"),
+  rooms: integer("rooms"),
+  bathrooms: real("bathrooms"),
+  area: doublePrecision("area"),
+  parking: integer("parking"),
+  featuredImage: text("featured_image"),
+  url: text("url"),
+  data: jsonb("data").notNull(), // Property normalizado completo
+  
+  syncedAt: timestamp("synced_at").defaultNow(),
+}, (table) => [
+  unique("uq_indexed_property_user_external").on(table.userId, table.externalId),
+  index("idx_indexed_properties_user").on(table.userId),
+  index("idx_indexed_properties_search").using(
+    "gin",
+    sql`to_tsvector('spanish', coalesce(${table.title}, '') || ' ' || coalesce(${table.description}, '') || ' ' || coalesce(${table.sector}, ''))`
+  ),
+]);
+
+export const propertyIndexSyncs = pgTable("property_index_syncs", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  provider: varchar("provider"),
+  status: varchar("status").default("PENDING").notNull(), // PENDING, SYNCING, READY, ERROR
+  error: text("error"),
+  propertyCount: integer("property_count").default(0),
+  lastSyncedAt: timestamp("last_synced_at"), // Última sincronización exitosa
+  lastAttemptAt: timestamp("last_attempt_at"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Búsquedas guardadas: criterios de calificación de una conversación que se re-ejecutan para avisar de nuevas propiedades
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  conversationId: varchar("conversation_id").notNull().unique().references(() => conversations.id),
+  clientPhone: varchar("client_phone").notNull(),
+  
+  criteria: jsonb("criteria").notNull(), // PropertySearchCriteria
+  status: varchar("status").default("ACTIVE").notNull(), // ACTIVE, OPTED_OUT
+  seenPrices: jsonb("seen_prices").default({}), // { [Property.id]: precio } para detectar nuevas y rebajas
+  
+  lastRunAt: timestamp("last_run_at"),
+  lastNotifiedAt: timestamp("last_notified_at"),
+  notificationCount: integer("notification_count").default(0),
+  optedOutAt: timestamp("opted_out_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_saved_searches_status").on(table.status),
+]);
+
+// Organizaciones: varios agentes trabajan sobre la misma cuenta. Los datos (settings,
+// instancias, conversaciones, leads, citas) siguen guardados bajo el userId de accountId
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  accountId: varchar("account_id").notNull().unique().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  role: varchar("role").default("agent").notNull(), // owner, admin, agent, viewer
+  acceptsAssignments: boolean("accepts_assignments").default(true), // Entra en el reparto de conversaciones
+  lastAssignedAt: timestamp("last_assigned_at"), // Turno del round-robin
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_organization_member").on(table.organizationId, table.userId),
+  index("idx_organization_members_user").on(table.userId),
+]);
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  email: varchar("email").notNull(),
+  role: varchar("role").default("agent").notNull(), // admin, agent, viewer
+  token: varchar("token").notNull().unique(),
+  status: varchar("status").default("PENDING").notNull(), // PENDING, ACCEPTED, REVOKED
+  invitedBy: varchar("invited_by").notNull().references(() => users.id),
+  acceptedBy: varchar("accepted_by").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_organization_invitations_org").on(table.organizationId, table.status),
+]);
+
+// Horario de trabajo de cada agente para agendar visitas (la zona horaria es la de userSettings.timezone)
+export const agentSchedules = pgTable("agent_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull().references(() => users.id),
+  agentId: varchar("agent_id").notNull().references(() => users.id),
+  weeklyHours: jsonb("weekly_hours").notNull(), // { "1": [{ "start": "09:00", "end": "17:00" }] }, 0 = domingo
+  slotMinutes: integer("slot_minutes").default(30), // Cada cuánto puede empezar una visita
+  bufferMinutes: integer("buffer_minutes").default(15), // Margen entre visitas en la misma propiedad
+  travelMinutes: integer("travel_minutes").default(30), // Traslado entre propiedades distintas
+  blackoutDates: jsonb("blackout_dates").default([]), // ["2024-12-25"], días sin visitas
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_agent_schedule").on(table.accountId, table.agentId),
+]);
+
+// Bloques ocupados que no son citas: reservas manuales o eventos de calendarios externos
+export const calendarBusyBlocks = pgTable("calendar_busy_blocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  agentId: varchar("agent_id").references(() => users.id), // null = titular de la cuenta
+  startAt: timestamp("start_at").notNull(),
+  endAt: timestamp("end_at").notNull(),
+  source: varchar("source").default("manual").notNull(), // manual, caldav
+  externalId: varchar("external_id"),
+  summary: varchar("summary"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_calendar_busy_blocks_range").on(table.userId, table.startAt),
+]);
+
+// Calendario externo de cada agente: sincronización CalDAV y feed ICS de suscripción
+export const calendarConnections = pgTable("calendar_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull().references(() => users.id),
+  agentId: varchar("agent_id").notNull().references(() => users.id),
+  caldavUrl: varchar("caldav_url"), // URL de la colección, p. ej. https://radicale.local/agente/citas/
+  caldavUsername: varchar("caldav_username"),
+  caldavPassword: text("caldav_password"), // Cifrada en reposo
+  feedToken: varchar("feed_token").notNull().unique(),
+  lastSyncAt: timestamp("last_sync_at"),
+  lastSyncError: text("last_sync_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_calendar_connection").on(table.accountId, table.agentId),
+]);
+
+// Recordatorios de cita (24h, 2h y 30m antes) al cliente y al agente; persisten entre reinicios
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  reminderType: varchar("reminder_type").notNull(), // 24h, 2h, 30m
+  dueAt: timestamp("due_at").notNull(),
+  status: varchar("status").default("PENDING").notNull(), // PENDING, SENT, SKIPPED, FAILED
+  attempts: integer("attempts").default(0).notNull(),
+  claimedAt: timestamp("claimed_at"), // Reclamado por un worker; se libera si queda obsoleto
+  sentAt: timestamp("sent_at"),
+  messageId: varchar("message_id"), // Mensaje de WhatsApp del recordatorio; solo se aceptan respuestas si sigue siendo el último enviado
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_appointment_reminder").on(table.appointmentId, table.reminderType),
+  index("idx_appointment_reminders_due").on(table.status, table.dueAt),
+]);
+
+// Historial de cambios de una cita (reprogramaciones, cancelaciones y cambios de estado)
+export const appointmentChanges = pgTable("appointment_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  changedBy: varchar("changed_by").notNull(), // Id del usuario del panel, o client, assistant, calendar
+  changeType: varchar("change_type").notNull(), // RESCHEDULED, CANCELLED, STATUS
+  previousScheduledAt: timestamp("previous_scheduled_at"),
+  newScheduledAt: timestamp("new_scheduled_at"),
+  previousStatus: varchar("previous_status"),
+  newStatus: varchar("new_status"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_appointment_changes_appointment").on(table.appointmentId, table.createdAt),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
@@ -252,6 +605,102 @@ export const insertLeadSchema = createInsertSchema(leads).omit({
   updatedAt: true,
 });
 
+export const insertKnowledgeSourceSchema = createInsertSchema(knowledgeSources).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertKnowledgeChunkSchema = createInsertSchema(knowledgeChunks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertIndexedPropertySchema = createInsertSchema(indexedProperties).omit({
+  id: true,
+  syncedAt: true,
+});
+
+export const insertPropertyIndexSyncSchema = createInsertSchema(propertyIndexSyncs).omit({
+  updatedAt: true,
+});
+
+export const insertWhatsappAuthStateSchema = createInsertSchema(whatsappAuthStates).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAgentScheduleSchema = createInsertSchema(agentSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCalendarBusyBlockSchema = createInsertSchema(calendarBusyBlocks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCalendarConnectionSchema = createInsertSchema(calendarConnections).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAppointmentReminderSchema = createInsertSchema(appointmentReminders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAppointmentChangeSchema = createInsertSchema(appointmentChanges).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLeadStageSchema = createInsertSchema(leadStages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLeadActivitySchema = createInsertSchema(leadActivities).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLeadFieldChangeSchema = createInsertSchema(leadFieldChanges).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLeadSyncLogSchema = createInsertSchema(leadSyncLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -267,3 +716,39 @@ export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
+export type InsertKnowledgeSource = z.infer<typeof insertKnowledgeSourceSchema>;
+export type KnowledgeSource = typeof knowledgeSources.$inferSelect;
+export type InsertKnowledgeChunk = z.infer<typeof insertKnowledgeChunkSchema>;
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type InsertIndexedProperty = z.infer<typeof insertIndexedPropertySchema>;
+export type IndexedProperty = typeof indexedProperties.$inferSelect;
+export type InsertPropertyIndexSync = z.infer<typeof insertPropertyIndexSyncSchema>;
+export type PropertyIndexSync = typeof propertyIndexSyncs.$inferSelect;
+export type InsertWhatsappAuthState = z.infer<typeof insertWhatsappAuthStateSchema>;
+export type WhatsappAuthState = typeof whatsappAuthStates.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationInvitation = z.infer<typeof insertOrganizationInvitationSchema>;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertAgentSchedule = z.infer<typeof insertAgentScheduleSchema>;
+export type AgentSchedule = typeof agentSchedules.$inferSelect;
+export type InsertCalendarBusyBlock = z.infer<typeof insertCalendarBusyBlockSchema>;
+export type CalendarBusyBlock = typeof calendarBusyBlocks.$inferSelect;
+export type InsertCalendarConnection = z.infer<typeof insertCalendarConnectionSchema>;
+export type CalendarConnection = typeof calendarConnections.$inferSelect;
+export type InsertAppointmentReminder = z.infer<typeof insertAppointmentReminderSchema>;
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+export type InsertAppointmentChange = z.infer<typeof insertAppointmentChangeSchema>;
+export type AppointmentChange = typeof appointmentChanges.$inferSelect;
+export type InsertLeadStage = z.infer<typeof insertLeadStageSchema>;
+export type LeadStage = typeof leadStages.$inferSelect;
+export type InsertLeadActivity = z.infer<typeof insertLeadActivitySchema>;
+export type LeadActivity = typeof leadActivities.$inferSelect;
+export type InsertLeadFieldChange = z.infer<typeof insertLeadFieldChangeSchema>;
+export type LeadFieldChange = typeof leadFieldChanges.$inferSelect;
+export type InsertLeadSyncLog = z.infer<typeof insertLeadSyncLogSchema>;
+export type LeadSyncLog = typeof leadSyncLogs.$inferSelect;